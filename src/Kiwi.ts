@@ -16,15 +16,23 @@
 /// <reference path="core/Camera.ts" />
 /// <reference path="core/Signal.ts" />
 /// <reference path="core/SignalBinding.ts" />
+/// <reference path="core/SpatialIndex.ts" />
 
 /// <reference path="gameobjects/Sprite.ts" />
 /// <reference path="gameobjects/StaticImage.ts" />
 /// <reference path="gameobjects/TextField.ts" />
+/// <reference path="gameobjects/BitmapText.ts" />
+/// <reference path="gameobjects/Skeleton.ts" />
+/// <reference path="gameobjects/ParticleEmitter.ts" />
 /// <reference path="gameobjects/tilemap/TileType.ts" />
 /// <reference path="gameobjects/tilemap/TileMap.ts" />
 /// <reference path="gameobjects/tilemap/TileMapLayer.ts" />
 /// <reference path="gameobjects/tilemap/TileMapLayerOrthogonal.ts" />
 /// <reference path="gameobjects/tilemap/TileMapLayerIsometric.ts" />
+/// <reference path="gameobjects/tilemap/TileMapLayerDynamicOrthogonal.ts" />
+/// <reference path="gameobjects/tilemap/TileMapChunk.ts" />
+/// <reference path="gameobjects/tilemap/TileMapTileObject.ts" />
+/// <reference path="gameobjects/tilemap/TileMapObjectGroup.ts" />
 
 /// <reference path="components/AnimationManager.ts" />
 /// <reference path="components/Box.ts" />
@@ -44,6 +52,9 @@
 /// <reference path="textures/TextureLibrary.ts" />
 /// <reference path="textures/SpriteSheet.ts" />
 /// <reference path="textures/SingleImage.ts" />
+/// <reference path="textures/PackedTextureAtlas.ts" />
+/// <reference path="textures/TexturePacker.ts" />
+/// <reference path="textures/BitmapFont.ts" />
 
 
 
@@ -60,11 +71,15 @@
 /// <reference path="animations/tweens/easing/Sinusoidal.ts" />
 /// <reference path="animations/tweens/TweenManager.ts" />
 /// <reference path="animations/tweens/Tween.ts" />
+/// <reference path="animations/tweens/Timeline.ts" />
 
 /// <reference path="render/CanvasRenderer.ts" />
 /// <reference path="render/GLRenderManager.ts" />
+/// <reference path="render/DebugRenderer.ts" />
 /// <reference path="render/GLShaderManager.ts" />
 /// <reference path="render/GLTextureWrapper.ts" />
+/// <reference path="render/GLRenderTexture.ts" />
+/// <reference path="render/GLCameraOverlay.ts" />
 /// <reference path="render/GLTextureManager.ts" />
 /// <reference path="render/GLArrayBuffer.ts" />
 /// <reference path="render/GLBlendMode.ts" />
@@ -73,10 +88,29 @@
 /// <reference path="render/renderers/TextureAtlasRenderer.ts" />
 /// <reference path="render/shaders/ShaderPair.ts" />
 /// <reference path="render/shaders/TextureAtlasShader.ts" />
+/// <reference path="render/shaders/MultiTextureAtlasShader.ts" />
+/// <reference path="render/shaders/FilterShader.ts" />
+/// <reference path="render/shaders/BlurFilterShader.ts" />
+/// <reference path="render/shaders/ColorMatrixFilterShader.ts" />
+/// <reference path="render/shaders/VignetteFilterShader.ts" />
+/// <reference path="render/shaders/PixelateFilterShader.ts" />
+/// <reference path="render/shaders/OutlineFilterShader.ts" />
+/// <reference path="render/shaders/GlowFilterShader.ts" />
+/// <reference path="render/filters/Filter.ts" />
+/// <reference path="render/filters/GLFilterManager.ts" />
+/// <reference path="render/filters/BlurFilter.ts" />
+/// <reference path="render/filters/ColorMatrixFilter.ts" />
+/// <reference path="render/filters/VignetteFilter.ts" />
+/// <reference path="render/filters/PixelateFilter.ts" />
+/// <reference path="render/filters/OutlineFilter.ts" />
+/// <reference path="render/filters/GlowFilter.ts" />
 /// <reference path="render/shaders/ShaderPair.ts" />
 
 /// <reference path="animations/Animation.ts" />
 /// <reference path="animations/Sequence.ts" />
+/// <reference path="animations/skeletal/Bone.ts" />
+/// <reference path="animations/skeletal/SkeletonClip.ts" />
+/// <reference path="animations/skeletal/SkeletonData.ts" />
 
 /// <reference path="input/Key.ts" />
 /// <reference path="input/Keyboard.ts" />
@@ -97,6 +131,7 @@
 /// <reference path="geom/Matrix.ts" />
 /// <reference path="geom/Point.ts" />
 /// <reference path="geom/Rectangle.ts" />
+/// <reference path="geom/SpatialHash.ts" />
 /// <reference path="geom/Transform.ts" />
 /// <reference path="geom/Vector2.ts" />
 
@@ -31,6 +31,7 @@ module Kiwi.Animations {
 			this._sequence = sequence;
 			this._speed = sequence.speed;
 			this._loop = sequence.loop;
+			this._pingPong = sequence.pingPong;
 			this._parent = parent;
 
 			this._clock = clock;
@@ -93,6 +94,62 @@ module Kiwi.Animations {
 			this._loop = value;
 		}
 
+		/**
+		* If this animation plays forwards and then backwards.
+		* @property _pingPong
+		* @type boolean
+		* @private
+		* @since 1.4.0
+		*/
+		private _pingPong: boolean;
+
+		/**
+		* If the animation should play forwards and then backwards, rather than going back to the first cell once it reaches the end.
+		* A play of the animation is then there and back again, so a looping animation loops once it returns to where it started.
+		* @property pingPong
+		* @type boolean
+		* @public
+		* @since 1.4.0
+		*/
+		public get pingPong(): boolean {
+			return this._pingPong;
+		}
+		public set pingPong(value: boolean) {
+			this._pingPong = value;
+		}
+
+		/**
+		* If a ping-pong animation has turned around, and is playing back towards where it started.
+		* @property _bounced
+		* @type boolean
+		* @default false
+		* @private
+		* @since 1.4.0
+		*/
+		private _bounced: boolean = false;
+
+		/**
+		* The number of times the animation plays before it completes, whether or not it loops.
+		* When this is 0 the animation completes at the end if it does not loop, and otherwise plays until it is stopped.
+		* This is set by the AnimationManager each time it plays an animation.
+		* @property plays
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public plays: number = 0;
+
+		/**
+		* The number of times the animation has played through since it was started.
+		* @property _playCount
+		* @type number
+		* @default 0
+		* @private
+		* @since 1.4.0
+		*/
+		private _playCount: number = 0;
+
 		/**
 		* The current frame index that the animation is currently upto.
 		* Note: A frame index is the index of a particular cell in the Sequence.
@@ -363,11 +420,14 @@ module Kiwi.Animations {
 			}
 
 			this._isPlaying = true;
+			this._bounced = false;
+			this._playCount = 0;
 			this._startTime = this.clock.elapsed();
 			this._lastFrameElapsed = this.clock.elapsed();
 			if ( this._onPlay !== null ) {
 				this._onPlay.dispatch();
 			}
+			this._dispatchFrameEvents();
 		}
 
 		/**
@@ -449,85 +509,135 @@ module Kiwi.Animations {
 		* @public
 		*/
 		public update() {
-			var frameDelta, i, repeats;
+			var time, duration, frames = 0;
 
 			if ( this._isPlaying ) {
-				// How many frames do we move, ahead or behind?
-				frameDelta = ( ( this.clock.elapsed() -
-					this._lastFrameElapsed ) / this._speed ) % ( this.length + 1 );
-				if ( this._reverse ) {
-					frameDelta *= -1;
-				}
+				time = this.clock.elapsed() - this._lastFrameElapsed;
+
+				// Step through each frame that has passed, so that none of their events are missed.
+				// Stop after a full loop, as the remainder is discarded anyway
+				while ( frames <= this.length ) {
+					duration = this._getFrameDuration( this._frameIndex );
+					if ( time < duration ) {
+						break;
+					}
 
-				// Round delta, towards zero
-				if ( frameDelta > 0 ) {
-					frameDelta = Math.floor( frameDelta );
-				} else {
-					frameDelta = Math.ceil( frameDelta );
-				}
+					time -= duration;
+					frames++;
 
-				if ( frameDelta !== 0 ) {
+					if ( !this._step() ) {
+						return;
+					}
+				}
 
-					this._frameIndex += frameDelta;
+				if ( frames > 0 ) {
 					this._lastFrameElapsed = this.clock.elapsed();
 
-					// Loop check
-					if ( this._loop ) {
-						if ( this._frameIndex >= this.length ) {
-
-							repeats = Math.floor(
-								this._frameIndex / this.length );
+					this._parent.updateCellIndex();
+					if ( this._onUpdate !== null ) {
+						this._onUpdate.dispatch();
+					}
+				}
+			}
+		}
 
-							this._frameIndex = this._frameIndex % this.length;
+		/**
+		* Moves the animation on by one frame, in the direction it is playing.
+		* At the end of the sequence the animation turns around, loops or completes.
+		* @method _step
+		* @return {boolean} If the animation is still playing.
+		* @private
+		* @since 1.4.0
+		*/
+		private _step(): boolean {
+			var forwards = this._reverse !== this._bounced;
+			var index = this._frameIndex + ( forwards ? 1 : -1 );
 
-							if ( this._onLoop != null ) {
-								for ( i = 0; i < repeats; i++ ) {
-									this._onLoop.dispatch();
-								}
-							}
+			if ( !this._validateFrame( index ) ) {
 
-						} else if ( this._frameIndex < 0 ) {
+				if ( this._pingPong && !this._bounced ) {
+					// Turn around at the far end
+					this._bounced = true;
+					index = this._frameIndex + ( forwards ? -1 : 1 );
 
-							repeats = Math.ceil(
-								Math.abs( this._frameIndex ) / this.length );
+				} else {
+					this._playCount++;
 
-							this._frameIndex = ( this.length +
-								this._frameIndex % this.length ) % this.length;
+					if ( this.plays > 0 ? this._playCount < this.plays : this._loop ) {
 
-							if ( this._onLoop != null ) {
-								for ( i = 0; i < repeats; i++ ) {
-									this._onLoop.dispatch();
-								}
-							}
+						if ( this._pingPong ) {
+							// Turn around again at the end it started from
+							this._bounced = false;
+							index = this._frameIndex + ( forwards ? -1 : 1 );
+						} else {
+							index = ( this.length + index % this.length ) % this.length;
 						}
-					} else if ( this._frameIndex < 0 ) {
-						this._frameIndex = ( this.length +
-							this._frameIndex % this.length ) % this.length;
 
-						// Execute the stop on the parent 
-						// to allow the isPlaying boolean to remain consistent
-						this._parent.stop();
+						if ( this._onLoop !== null ) {
+							this._onLoop.dispatch();
+						}
 
-						return;
-					} else if ( this._frameIndex >= this.length ) {
-						this._frameIndex = this._frameIndex % this.length;
+					} else {
+						if ( !this._pingPong ) {
+							this._frameIndex = ( this.length + index % this.length ) % this.length;
+						}
+						this._bounced = false;
 
 						// Execute the stop on the parent 
 						// to allow the isPlaying boolean to remain consistent
 						this._parent.stop();
 
-						if ( this._onComplete != null ) {
+						if ( this._onComplete !== null ) {
 							this._onComplete.dispatch();
 						}
 
-						return;
-					}
+						this._parent.playNext();
 
-					this._parent.updateCellIndex();
-					if ( this._onUpdate !== null ) {
-						this._onUpdate.dispatch();
+						return false;
 					}
 				}
+
+				// A sequence of a single frame has nowhere to turn around to
+				index = Math.max( 0, Math.min( index, this.length - 1 ) );
+			}
+
+			this._frameIndex = index;
+			this._dispatchFrameEvents();
+
+			return true;
+		}
+
+		/**
+		* Returns how long a frame stays on screen for, which is its duration in the sequence if it has one and otherwise the speed.
+		* @method _getFrameDuration
+		* @param index {Number} The index of the frame.
+		* @return {Number}
+		* @private
+		* @since 1.4.0
+		*/
+		private _getFrameDuration(index: number): number {
+			var durations: number[] = this._sequence.durations;
+			if ( durations && durations[ index ] !== undefined ) {
+				return durations[ index ];
+			}
+			return this._speed;
+		}
+
+		/**
+		* Dispatches the events of the current frame through the 'onFrameEvent' signal of the AnimationManager.
+		* @method _dispatchFrameEvents
+		* @private
+		* @since 1.4.0
+		*/
+		private _dispatchFrameEvents() {
+			var events = this._sequence.frameEvents;
+			if ( events === null || events[ this._frameIndex ] === undefined ) {
+				return;
+			}
+
+			var names: string[] = events[ this._frameIndex ];
+			for ( var i = 0; i < names.length; i++ ) {
+				this._parent.onFrameEvent.dispatch( names[ i ], this, this._frameIndex );
 			}
 		}
 
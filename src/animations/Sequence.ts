@@ -18,16 +18,18 @@ module Kiwi.Animations {
 	* @param cells {Number[]} The cells that are in this animation.
 	* @param [speed=0.1] {Number} The time an animation should spend on each frame.
 	* @param [loop=true] {boolean} If the sequence should play again if it was animating and the animation reaches the last frame.
+	* @param [durations] {Number[]} The time to spend on each frame, which is used instead of the speed.
 	* @return {Kiwi.Animations.Sequence}
 	* 
 	*/
 	export class Sequence {
 
-		constructor(name:string,cells:number[],speed:number=0.1,loop:boolean=true) {
+		constructor(name:string,cells:number[],speed:number=0.1,loop:boolean=true,durations:number[]=null) {
 			this.name = name;
 			this.cells = cells;
 			this.speed = speed;
 			this.loop = loop;
+			this.durations = durations;
 		}
 
 		/**
@@ -63,5 +65,70 @@ module Kiwi.Animations {
 		*/
 		public loop: boolean;
 
+		/**
+		* The time an animation should spend on each frame, in the same order as the cells.
+		* When this is set, it is used instead of the speed. Frames without a duration use the speed.
+		* @property durations
+		* @type number[]
+		* @default null
+		* @public
+		* @since 1.4.0
+		*/
+		public durations: number[];
+
+		/**
+		* If the sequence should play forwards and then backwards, rather than going back to its first frame at the end.
+		* @property pingPong
+		* @type boolean
+		* @default false
+		* @public
+		* @since 1.4.0
+		*/
+		public pingPong: boolean = false;
+
+		/**
+		* The names of the events on each frame, keyed by the frame index.
+		* An animation playing the sequence dispatches the events of each frame it reaches through the 'onFrameEvent' signal of its AnimationManager.
+		* @property frameEvents
+		* @type object
+		* @default null
+		* @public
+		* @since 1.4.0
+		*/
+		public frameEvents: any = null;
+
+		/**
+		* Adds a named event to a frame, which is dispatched each time an animation playing the sequence reaches that frame.
+		* @method addFrameEvent
+		* @param frameIndex {number} The index of the frame in the sequence, rather than the cell.
+		* @param name {string} The name of the event, such as "footstep".
+		* @return {Kiwi.Animations.Sequence} This sequence.
+		* @public
+		* @since 1.4.0
+		*/
+		public addFrameEvent(frameIndex: number, name: string): Sequence {
+			if (this.frameEvents === null) this.frameEvents = {};
+			if (this.frameEvents[frameIndex] === undefined) this.frameEvents[frameIndex] = [];
+			this.frameEvents[frameIndex].push(name);
+			return this;
+		}
+
+		/**
+		* Removes the events from a frame, or from every frame if no frame index is passed.
+		* @method removeFrameEvents
+		* @param [frameIndex] {number} The index of the frame in the sequence.
+		* @return {Kiwi.Animations.Sequence} This sequence.
+		* @public
+		* @since 1.4.0
+		*/
+		public removeFrameEvents(frameIndex?: number): Sequence {
+			if (frameIndex === undefined) {
+				this.frameEvents = null;
+			} else if (this.frameEvents !== null) {
+				delete this.frameEvents[frameIndex];
+			}
+			return this;
+		}
+
 	}
 }
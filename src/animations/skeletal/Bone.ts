@@ -0,0 +1,82 @@
+/**
+*
+* @module Animations
+* @submodule Skeletal
+*
+*/
+
+module Kiwi.Animations.Skeletal {
+
+	/**
+	* A Bone is a single bone in the hierarchy of a Skeleton.
+	* Its transform holds the current pose of the bone, relative to its parent, and is parented to the transform of the parent bone.
+	* Root bones are parented to the transform of the Skeleton, so that the concatenated matrix of each bone places it in the world.
+	*
+	* @class Bone
+	* @extends Kiwi.Transformable
+	* @namespace Kiwi.Animations.Skeletal
+	* @constructor
+	* @param data {object} The setup pose of the bone, from the bones of a SkeletonData.
+	* @param parent {Kiwi.Geom.Transform} The transform of the parent bone, or of the skeleton for a root bone.
+	* @return {Kiwi.Animations.Skeletal.Bone}
+	* @since 1.4.0
+	*/
+	export class Bone extends Kiwi.Transformable {
+
+		constructor(data: any, parent: Kiwi.Geom.Transform) {
+			super();
+			this.data = data;
+			this.name = data.name;
+			this.transform.parent = parent;
+			this.setToSetupPose();
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {String} "Bone"
+		* @public
+		*/
+		public objType(): string {
+			return "Bone";
+		}
+
+		/**
+		* The name of the bone.
+		* @property name
+		* @type string
+		* @public
+		*/
+		public name: string;
+
+		/**
+		* The setup pose of the bone, with its 'x', 'y', 'rotation' in degrees, 'scaleX', 'scaleY' and 'length'.
+		* @property data
+		* @type object
+		* @public
+		*/
+		public data: any;
+
+		/**
+		* Returns the bone to its setup pose.
+		* @method setToSetupPose
+		* @public
+		*/
+		public setToSetupPose() {
+			this.transform.setTransform(this.data.x, this.data.y, this.data.scaleX, this.data.scaleY,
+				Kiwi.Utils.GameMath.degreesToRadians(this.data.rotation));
+		}
+
+		/**
+		* Returns the matrix which places the bone in the world, including the transforms of its parents and the skeleton.
+		* @method getWorldMatrix
+		* @return {Kiwi.Geom.Matrix}
+		* @public
+		*/
+		public getWorldMatrix(): Kiwi.Geom.Matrix {
+			return this.transform.getConcatenatedMatrix();
+		}
+
+	}
+
+}
@@ -0,0 +1,310 @@
+/**
+*
+* @module Animations
+* @submodule Skeletal
+*
+*/
+
+module Kiwi.Animations.Skeletal {
+
+	/**
+	* A SkeletonClip is a single keyframed animation of a skeleton, such as "walk" or "jump".
+	* It holds timelines of keys for the bones and slots that it moves, which are read from the animations of the skeleton file by SkeletonData.
+	*
+	* Bone keys are relative to the setup pose of the bone. Rotations and translations are added to it, and scales multiply it.
+	* Slot keys change the attachment which is shown in a slot, and the color of the slot.
+	*
+	* Each key has a 'time' in seconds, the 'values' at that time, and a 'curve' to the next key.
+	* The curve is null for linear interpolation, "stepped" to hold the values until the next key,
+	* or an array of the two control points of a bezier curve, [cx1, cy1, cx2, cy2].
+	*
+	* @class SkeletonClip
+	* @namespace Kiwi.Animations.Skeletal
+	* @constructor
+	* @param name {String} The name of the clip.
+	* @param [duration=0] {Number} The length of the clip in seconds.
+	* @return {Kiwi.Animations.Skeletal.SkeletonClip}
+	* @since 1.4.0
+	*/
+	export class SkeletonClip {
+
+		constructor(name: string, duration: number = 0) {
+			this.name = name;
+			this.duration = duration;
+			this.bones = [];
+			this.slots = [];
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {String} "SkeletonClip"
+		* @public
+		*/
+		public objType(): string {
+			return "SkeletonClip";
+		}
+
+		/**
+		* The number of steps used to find where a bezier curve is, for each key with one.
+		* @property BEZIER_STEPS
+		* @type number
+		* @default 10
+		* @public
+		* @static
+		*/
+		public static BEZIER_STEPS: number = 10;
+
+		/**
+		* The name of the clip.
+		* @property name
+		* @type string
+		* @public
+		*/
+		public name: string;
+
+		/**
+		* The length of the clip in seconds.
+		* @property duration
+		* @type number
+		* @public
+		*/
+		public duration: number;
+
+		/**
+		* The timelines of the bones that the clip moves.
+		* Each has the index of the 'bone', and the keys it has for 'rotate', 'translate' and 'scale', any of which may be null.
+		* @property bones
+		* @type object[]
+		* @public
+		*/
+		public bones: any[];
+
+		/**
+		* The timelines of the slots that the clip changes.
+		* Each has the index of the 'slot', and the keys it has for 'attachment' and 'color', either of which may be null.
+		* The values of an attachment key are the name of the attachment, or null to show nothing.
+		* @property slots
+		* @type object[]
+		* @public
+		*/
+		public slots: any[];
+
+		/**
+		* Returns the timeline of a bone, creating it if the clip does not have one yet.
+		* @method getBoneTimeline
+		* @param bone {number} The index of the bone.
+		* @return {object}
+		* @public
+		*/
+		public getBoneTimeline(bone: number): any {
+			for (var i = 0; i < this.bones.length; i++) {
+				if (this.bones[i].bone === bone) return this.bones[i];
+			}
+			var timeline = { bone: bone, rotate: null, translate: null, scale: null };
+			this.bones.push(timeline);
+			return timeline;
+		}
+
+		/**
+		* Returns the timeline of a slot, creating it if the clip does not have one yet.
+		* @method getSlotTimeline
+		* @param slot {number} The index of the slot.
+		* @return {object}
+		* @public
+		*/
+		public getSlotTimeline(slot: number): any {
+			for (var i = 0; i < this.slots.length; i++) {
+				if (this.slots[i].slot === slot) return this.slots[i];
+			}
+			var timeline = { slot: slot, attachment: null, color: null };
+			this.slots.push(timeline);
+			return timeline;
+		}
+
+		/**
+		* Poses the bones and slots of a skeleton as they are at a time in the clip.
+		* The pose is blended with the current one by the alpha passed, so that one clip can be faded into another.
+		* The bones and slots should already be in their setup pose, or posed by another clip, before this is applied.
+		*
+		* @method apply
+		* @param bones {Kiwi.Animations.Skeletal.Bone[]} The bones of the skeleton.
+		* @param slots {object[]} The slots of the skeleton, each with an 'attachment' name and a 'color'.
+		* @param time {number} The time in the clip, in seconds.
+		* @param [loop=false] {boolean} If times past the end of the clip wrap around to the start.
+		* @param [alpha=1] {number} How much of this pose is used, from 0 to 1.
+		* @public
+		*/
+		public apply(bones: Bone[], slots: any[], time: number, loop: boolean = false, alpha: number = 1) {
+			if (loop && this.duration > 0) {
+				time = time % this.duration;
+			}
+
+			var values: number[] = [];
+
+			for (var i = 0; i < this.bones.length; i++) {
+				var timeline = this.bones[i];
+				var bone: Bone = bones[timeline.bone];
+				if (bone === undefined) continue;
+
+				var t: Kiwi.Geom.Transform = bone.transform;
+				var data = bone.data;
+
+				if (timeline.rotate !== null && this._sample(timeline.rotate, time, values, true)) {
+					var rotation = Kiwi.Utils.GameMath.degreesToRadians(data.rotation + values[0]);
+					t.rotationRad = t.rotation + this._wrapAngle(rotation - t.rotation) * alpha;
+				}
+
+				if (timeline.translate !== null && this._sample(timeline.translate, time, values)) {
+					t.x += (data.x + values[0] - t.x) * alpha;
+					t.y += (data.y + values[1] - t.y) * alpha;
+				}
+
+				if (timeline.scale !== null && this._sample(timeline.scale, time, values)) {
+					t.scaleX += (data.scaleX * values[0] - t.scaleX) * alpha;
+					t.scaleY += (data.scaleY * values[1] - t.scaleY) * alpha;
+				}
+			}
+
+			for (var i = 0; i < this.slots.length; i++) {
+				var slotTimeline = this.slots[i];
+				var slot = slots[slotTimeline.slot];
+				if (slot === undefined) continue;
+
+				// Attachments can not be blended, so the clip which is mostly shown sets them
+				if (slotTimeline.attachment !== null && alpha >= 0.5) {
+					var key = this._findKey(slotTimeline.attachment, time);
+					if (key !== null) slot.attachment = key.values[0];
+				}
+
+				if (slotTimeline.color !== null && this._sample(slotTimeline.color, time, values)) {
+					for (var c = 0; c < 4; c++) {
+						slot.color[c] += (values[c] - slot.color[c]) * alpha;
+					}
+				}
+			}
+		}
+
+		/**
+		* Returns the last key at or before a time, or null if the time is before the first key.
+		* @method _findKey
+		* @param keys {object[]}
+		* @param time {number}
+		* @return {object}
+		* @private
+		*/
+		private _findKey(keys: any[], time: number): any {
+			var found = null;
+			for (var i = 0; i < keys.length; i++) {
+				if (keys[i].time > time) break;
+				found = keys[i];
+			}
+			return found;
+		}
+
+		/**
+		* Finds the values of a timeline at a time, interpolating between the keys either side of it.
+		* Times before the first key have the values of the first key, and times after the last key have the values of the last.
+		* @method _sample
+		* @param keys {object[]}
+		* @param time {number}
+		* @param out {number[]} The array to put the values in.
+		* @param [angles=false] {boolean} If the values are angles in degrees, which are interpolated the shortest way round.
+		* @return {boolean} If there were any keys.
+		* @private
+		*/
+		private _sample(keys: any[], time: number, out: number[], angles: boolean = false): boolean {
+			if (keys.length === 0) return false;
+
+			var i: number = 0;
+			while (i < keys.length - 1 && keys[i + 1].time <= time) {
+				i++;
+			}
+
+			var key = keys[i];
+			var v: number;
+
+			if (i === keys.length - 1 || time <= key.time || key.curve === "stepped") {
+				for (v = 0; v < key.values.length; v++) {
+					out[v] = key.values[v];
+				}
+				return true;
+			}
+
+			var next = keys[i + 1];
+			var percent: number = (time - key.time) / (next.time - key.time);
+
+			if (key.curve !== null && key.curve !== undefined) {
+				percent = this._bezier(key.curve, percent);
+			}
+
+			for (v = 0; v < key.values.length; v++) {
+				var diff: number = next.values[v] - key.values[v];
+				if (angles) diff = this._wrapDegrees(diff);
+				out[v] = key.values[v] + diff * percent;
+			}
+
+			return true;
+		}
+
+		/**
+		* Finds how far along a bezier curve from (0, 0) to (1, 1) is at a point of time along it.
+		* @method _bezier
+		* @param curve {number[]} The two control points, [cx1, cy1, cx2, cy2].
+		* @param percent {number} How far through the time between the keys, from 0 to 1.
+		* @return {number}
+		* @private
+		*/
+		private _bezier(curve: number[], percent: number): number {
+			var steps: number = SkeletonClip.BEZIER_STEPS;
+			var prevX: number = 0, prevY: number = 0;
+
+			for (var i = 1; i <= steps; i++) {
+				var t: number = i / steps;
+				var u: number = 1 - t;
+				var x: number = 3 * u * u * t * curve[0] + 3 * u * t * t * curve[2] + t * t * t;
+				var y: number = 3 * u * u * t * curve[1] + 3 * u * t * t * curve[3] + t * t * t;
+
+				if (x >= percent) {
+					if (x === prevX) return y;
+					return prevY + (y - prevY) * (percent - prevX) / (x - prevX);
+				}
+
+				prevX = x;
+				prevY = y;
+			}
+
+			return 1;
+		}
+
+		/**
+		* Wraps an angle in degrees to between -180 and 180.
+		* @method _wrapDegrees
+		* @param angle {number}
+		* @return {number}
+		* @private
+		*/
+		private _wrapDegrees(angle: number): number {
+			angle = angle % 360;
+			if (angle > 180) angle -= 360;
+			if (angle < -180) angle += 360;
+			return angle;
+		}
+
+		/**
+		* Wraps an angle in radians to between -PI and PI.
+		* @method _wrapAngle
+		* @param angle {number}
+		* @return {number}
+		* @private
+		*/
+		private _wrapAngle(angle: number): number {
+			angle = angle % (Math.PI * 2);
+			if (angle > Math.PI) angle -= Math.PI * 2;
+			if (angle < -Math.PI) angle += Math.PI * 2;
+			return angle;
+		}
+
+	}
+
+}
@@ -0,0 +1,582 @@
+/**
+*
+* @module Animations
+* @submodule Skeletal
+*
+*/
+
+module Kiwi.Animations.Skeletal {
+
+	/**
+	* SkeletonData holds the setup pose, skins and clips of a skeleton, as read from a file exported by Spine or DragonBones.
+	* Both formats are read into the same structure, so that a Skeleton GameObject can play either.
+	* It is shared by every Skeleton which is created from it, and is not changed by them.
+	*
+	* Positions are in the coordinates of Kiwi, with y going down, and rotations are in degrees the same way as the rotation of an Entity.
+	* Only region attachments, which draw a single image from a texture atlas, are read. Meshes, paths and other attachments are skipped.
+	*
+	* @class SkeletonData
+	* @namespace Kiwi.Animations.Skeletal
+	* @constructor
+	* @param [json] {any} The skeleton file, as a string or already parsed. The format is found from its contents.
+	* @param [armatureName] {String} The name of the armature to read from a DragonBones file. Defaults to the first.
+	* @return {Kiwi.Animations.Skeletal.SkeletonData}
+	* @since 1.4.0
+	*/
+	export class SkeletonData {
+
+		constructor(json: any = null, armatureName: string = null) {
+			this.bones = [];
+			this.slots = [];
+			this.skins = {};
+			this.clips = {};
+
+			if (json !== null) {
+				var obj = Kiwi.Utils.Common.isString(json) ? JSON.parse(json) : json;
+				if (obj.armature !== undefined) {
+					this.readDragonBones(obj, armatureName);
+				} else {
+					this.readSpine(obj);
+				}
+			}
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {String} "SkeletonData"
+		* @public
+		*/
+		public objType(): string {
+			return "SkeletonData";
+		}
+
+		/**
+		* The name of the skeleton.
+		* @property name
+		* @type string
+		* @public
+		*/
+		public name: string = "";
+
+		/**
+		* The setup pose of each bone, with parents before their children.
+		* Each has a 'name', the index of its 'parent' or -1 for a root bone, 'x', 'y', 'rotation', 'scaleX', 'scaleY' and 'length'.
+		* @property bones
+		* @type object[]
+		* @public
+		*/
+		public bones: any[];
+
+		/**
+		* The slots which attachments are shown in, in the order they are drawn.
+		* Each has a 'name', the index of its 'bone', the name of the 'attachment' it shows in the setup pose or null, and its 'color' as [r, g, b, a] from 0 to 1.
+		* @property slots
+		* @type object[]
+		* @public
+		*/
+		public slots: any[];
+
+		/**
+		* The attachments of each skin, keyed by the name of the skin, then the index of the slot, then the name of the attachment.
+		* Each attachment has the name of the 'region' of the texture atlas it draws, and its 'x', 'y', 'rotation', 'scaleX', 'scaleY', 'width' and 'height' relative to the bone.
+		* The width and height are 0 when the file does not give them, in which case the size of the region is used.
+		* @property skins
+		* @type object
+		* @public
+		*/
+		public skins: any;
+
+		/**
+		* The clips of the skeleton, keyed by their names.
+		* @property clips
+		* @type object
+		* @public
+		*/
+		public clips: any;
+
+		/**
+		* Returns the index of a bone.
+		* @method findBone
+		* @param name {String}
+		* @return {Number} The index, or -1 if there is no bone with that name.
+		* @public
+		*/
+		public findBone(name: string): number {
+			for (var i = 0; i < this.bones.length; i++) {
+				if (this.bones[i].name === name) return i;
+			}
+			return -1;
+		}
+
+		/**
+		* Returns the index of a slot.
+		* @method findSlot
+		* @param name {String}
+		* @return {Number} The index, or -1 if there is no slot with that name.
+		* @public
+		*/
+		public findSlot(name: string): number {
+			for (var i = 0; i < this.slots.length; i++) {
+				if (this.slots[i].name === name) return i;
+			}
+			return -1;
+		}
+
+		/**
+		* Returns a clip.
+		* @method getClip
+		* @param name {String}
+		* @return {Kiwi.Animations.Skeletal.SkeletonClip} The clip, or null if there is no clip with that name.
+		* @public
+		*/
+		public getClip(name: string): SkeletonClip {
+			return this.clips[name] || null;
+		}
+
+		/**
+		* Returns the names of the skins.
+		* @method getSkinNames
+		* @return {String[]}
+		* @public
+		*/
+		public getSkinNames(): string[] {
+			var names: string[] = [];
+			for (var name in this.skins) {
+				names.push(name);
+			}
+			return names;
+		}
+
+		/**
+		* Populates the skeleton from the JSON exported by Spine.
+		* Spine has y going up, so positions are flipped to match Kiwi.
+		* @method readSpine
+		* @param obj {object} The parsed JSON.
+		* @public
+		*/
+		public readSpine(obj: any) {
+			this.name = (obj.skeleton && obj.skeleton.name) || "";
+
+			var bones: any[] = obj.bones || [];
+			for (var i = 0; i < bones.length; i++) {
+				var bone = bones[i];
+				this.bones.push({
+					name: bone.name,
+					parent: bone.parent ? this.findBone(bone.parent) : -1,
+					length: bone.length || 0,
+					x: bone.x || 0,
+					y: -(bone.y || 0),
+					rotation: bone.rotation || 0,
+					scaleX: this._valueOr(bone.scaleX, 1),
+					scaleY: this._valueOr(bone.scaleY, 1)
+				});
+			}
+
+			var slots: any[] = obj.slots || [];
+			for (var i = 0; i < slots.length; i++) {
+				this.slots.push({
+					name: slots[i].name,
+					bone: this.findBone(slots[i].bone),
+					attachment: slots[i].attachment || null,
+					color: this._readHexColor(slots[i].color)
+				});
+			}
+
+			// Skins are an object keyed by name before Spine 3.8, and an array after
+			var skins: any[] = [];
+			if (obj.skins instanceof Array) {
+				skins = obj.skins;
+			} else {
+				for (var skinName in obj.skins) {
+					skins.push({ name: skinName, attachments: obj.skins[skinName] });
+				}
+			}
+
+			for (var i = 0; i < skins.length; i++) {
+				var skin = this.skins[skins[i].name] = {};
+
+				for (var slotName in skins[i].attachments) {
+					var slotIndex = this.findSlot(slotName);
+					if (slotIndex === -1) continue;
+
+					var attachments = skins[i].attachments[slotName];
+					skin[slotIndex] = {};
+
+					for (var attachmentName in attachments) {
+						var a = attachments[attachmentName];
+						if (a.type !== undefined && a.type !== "region") continue;
+
+						skin[slotIndex][attachmentName] = {
+							region: a.path || a.name || attachmentName,
+							x: a.x || 0,
+							y: -(a.y || 0),
+							rotation: a.rotation || 0,
+							scaleX: this._valueOr(a.scaleX, 1),
+							scaleY: this._valueOr(a.scaleY, 1),
+							width: a.width || 0,
+							height: a.height || 0
+						};
+					}
+				}
+			}
+
+			for (var clipName in obj.animations) {
+				this.clips[clipName] = this._readSpineClip(clipName, obj.animations[clipName]);
+			}
+		}
+
+		/**
+		* Reads a clip from the animations of the JSON exported by Spine.
+		* @method _readSpineClip
+		* @param name {String}
+		* @param anim {object}
+		* @return {Kiwi.Animations.Skeletal.SkeletonClip}
+		* @private
+		*/
+		private _readSpineClip(name: string, anim: any): SkeletonClip {
+			var clip: SkeletonClip = new SkeletonClip(name);
+			var duration: number = 0;
+
+			for (var boneName in anim.bones) {
+				var boneIndex: number = this.findBone(boneName);
+				if (boneIndex === -1) continue;
+
+				var timeline = clip.getBoneTimeline(boneIndex);
+				var data = anim.bones[boneName];
+
+				if (data.rotate) {
+					timeline.rotate = this._readSpineKeys(data.rotate, function (key) {
+						return [this._valueOr(key.angle, this._valueOr(key.value, 0))];
+					});
+				}
+				if (data.translate) {
+					timeline.translate = this._readSpineKeys(data.translate, function (key) {
+						return [key.x || 0, -(key.y || 0)];
+					});
+				}
+				if (data.scale) {
+					timeline.scale = this._readSpineKeys(data.scale, function (key) {
+						return [this._valueOr(key.x, 1), this._valueOr(key.y, 1)];
+					});
+				}
+
+				duration = Math.max(duration, this._lastKeyTime(timeline.rotate), this._lastKeyTime(timeline.translate), this._lastKeyTime(timeline.scale));
+			}
+
+			for (var slotName in anim.slots) {
+				var slotIndex: number = this.findSlot(slotName);
+				if (slotIndex === -1) continue;
+
+				var slotTimeline = clip.getSlotTimeline(slotIndex);
+				var slotData = anim.slots[slotName];
+
+				if (slotData.attachment) {
+					slotTimeline.attachment = this._readSpineKeys(slotData.attachment, function (key) {
+						return [key.name || null];
+					});
+				}
+				// Spine 4 calls the color timeline 'rgba'
+				var colors = slotData.color || slotData.rgba;
+				if (colors) {
+					slotTimeline.color = this._readSpineKeys(colors, function (key) {
+						return this._readHexColor(key.color);
+					});
+				}
+
+				duration = Math.max(duration, this._lastKeyTime(slotTimeline.attachment), this._lastKeyTime(slotTimeline.color));
+			}
+
+			clip.duration = duration;
+			return clip;
+		}
+
+		/**
+		* Reads the keys of a timeline of the JSON exported by Spine.
+		* @method _readSpineKeys
+		* @param keys {object[]}
+		* @param getValues {Function} Returns the values of a key. It is called in the context of this SkeletonData.
+		* @return {object[]}
+		* @private
+		*/
+		private _readSpineKeys(keys: any[], getValues: Function): any[] {
+			var result: any[] = [];
+
+			for (var i = 0; i < keys.length; i++) {
+				var key = keys[i];
+				var curve = null;
+
+				if (key.curve === "stepped") {
+					curve = "stepped";
+				} else if (key.curve instanceof Array) {
+					// Spine 4 has a curve for each value, of which the first is used
+					curve = key.curve.slice(0, 4);
+				} else if (typeof key.curve === "number") {
+					// Spine 3.8 splits the control points into 'curve', 'c2', 'c3' and 'c4'
+					curve = [key.curve, this._valueOr(key.c2, 0), this._valueOr(key.c3, 1), this._valueOr(key.c4, 1)];
+				}
+
+				result.push({ time: key.time || 0, values: getValues.call(this, key), curve: curve });
+			}
+
+			return result;
+		}
+
+		/**
+		* Populates the skeleton from an armature of the JSON exported by DragonBones 5.
+		* @method readDragonBones
+		* @param obj {object} The parsed JSON.
+		* @param [armatureName] {String} The name of the armature to read. Defaults to the first.
+		* @public
+		*/
+		public readDragonBones(obj: any, armatureName: string = null) {
+			var armature = obj.armature[0];
+			for (var i = 0; i < obj.armature.length; i++) {
+				if (obj.armature[i].name === armatureName) armature = obj.armature[i];
+			}
+			if (armature === undefined) {
+				Kiwi.Log.error("Kiwi.Animations.Skeletal.SkeletonData: The DragonBones file has no armatures.", '#skeleton');
+				return;
+			}
+
+			this.name = armature.name || "";
+			var frameRate: number = armature.frameRate || obj.frameRate || 24;
+
+			var bones: any[] = armature.bone || [];
+			for (var i = 0; i < bones.length; i++) {
+				var t = this._readDragonBonesTransform(bones[i].transform);
+				t.name = bones[i].name;
+				t.parent = bones[i].parent ? this.findBone(bones[i].parent) : -1;
+				t.length = bones[i].length || 0;
+				this.bones.push(t);
+			}
+
+			// The displays of each slot are chosen by index, so their names are kept for the display frames of clips
+			var displays: string[][] = [];
+			var slots: any[] = armature.slot || [];
+			for (var i = 0; i < slots.length; i++) {
+				this.slots.push({
+					name: slots[i].name,
+					bone: this.findBone(slots[i].parent),
+					attachment: null,
+					color: this._readDragonBonesColor(slots[i].color)
+				});
+				displays.push([]);
+			}
+
+			var skins: any[] = armature.skin || [];
+			for (var i = 0; i < skins.length; i++) {
+				var skin = this.skins[skins[i].name || "default"] = {};
+				var skinSlots: any[] = skins[i].slot || [];
+
+				for (var j = 0; j < skinSlots.length; j++) {
+					var slotIndex = this.findSlot(skinSlots[j].name);
+					if (slotIndex === -1) continue;
+
+					skin[slotIndex] = {};
+					var slotDisplays: any[] = skinSlots[j].display || [];
+
+					for (var d = 0; d < slotDisplays.length; d++) {
+						var display = slotDisplays[d];
+						if (display.type !== undefined && display.type !== "image") continue;
+
+						var attachment = this._readDragonBonesTransform(display.transform);
+						attachment.region = display.path || display.name;
+						attachment.width = display.width || 0;
+						attachment.height = display.height || 0;
+						skin[slotIndex][display.name] = attachment;
+						displays[slotIndex][d] = display.name;
+					}
+				}
+			}
+
+			for (var i = 0; i < slots.length; i++) {
+				var displayIndex: number = this._valueOr(slots[i].displayIndex, 0);
+				this.slots[i].attachment = displays[i][displayIndex] || null;
+			}
+
+			var anims: any[] = armature.animation || [];
+			for (var i = 0; i < anims.length; i++) {
+				this.clips[anims[i].name] = this._readDragonBonesClip(anims[i], frameRate, displays);
+			}
+		}
+
+		/**
+		* Reads a clip from the animations of an armature of the JSON exported by DragonBones.
+		* Both the combined 'frame' timelines of bones, and the separate 'translateFrame', 'rotateFrame' and 'scaleFrame' timelines of DragonBones 5.5, are understood.
+		* @method _readDragonBonesClip
+		* @param anim {object}
+		* @param frameRate {Number}
+		* @param displays {String[][]} The names of the displays of each slot.
+		* @return {Kiwi.Animations.Skeletal.SkeletonClip}
+		* @private
+		*/
+		private _readDragonBonesClip(anim: any, frameRate: number, displays: string[][]): SkeletonClip {
+			var clip: SkeletonClip = new SkeletonClip(anim.name, (anim.duration || 0) / frameRate);
+
+			var bones: any[] = anim.bone || [];
+			for (var i = 0; i < bones.length; i++) {
+				var boneIndex: number = this.findBone(bones[i].name);
+				if (boneIndex === -1) continue;
+
+				var timeline = clip.getBoneTimeline(boneIndex);
+				var data = bones[i];
+
+				if (data.frame) {
+					timeline.rotate = this._readDragonBonesKeys(data.frame, frameRate, function (key) {
+						return [-((key.transform && key.transform.skY) || 0)];
+					});
+					timeline.translate = this._readDragonBonesKeys(data.frame, frameRate, function (key) {
+						return [(key.transform && key.transform.x) || 0, (key.transform && key.transform.y) || 0];
+					});
+					timeline.scale = this._readDragonBonesKeys(data.frame, frameRate, function (key) {
+						var t = key.transform || {};
+						return [this._valueOr(t.scX, 1), this._valueOr(t.scY, 1)];
+					});
+				}
+				if (data.rotateFrame) {
+					timeline.rotate = this._readDragonBonesKeys(data.rotateFrame, frameRate, function (key) {
+						return [-(key.rotate || 0)];
+					});
+				}
+				if (data.translateFrame) {
+					timeline.translate = this._readDragonBonesKeys(data.translateFrame, frameRate, function (key) {
+						return [key.x || 0, key.y || 0];
+					});
+				}
+				if (data.scaleFrame) {
+					timeline.scale = this._readDragonBonesKeys(data.scaleFrame, frameRate, function (key) {
+						return [this._valueOr(key.x, 1), this._valueOr(key.y, 1)];
+					});
+				}
+			}
+
+			var slots: any[] = anim.slot || [];
+			for (var i = 0; i < slots.length; i++) {
+				var slotIndex: number = this.findSlot(slots[i].name);
+				if (slotIndex === -1) continue;
+
+				var slotTimeline = clip.getSlotTimeline(slotIndex);
+				var names: string[] = displays[slotIndex];
+
+				if (slots[i].displayFrame) {
+					slotTimeline.attachment = this._readDragonBonesKeys(slots[i].displayFrame, frameRate, function (key) {
+						return [names[this._valueOr(key.value, 0)] || null];
+					});
+				}
+				if (slots[i].colorFrame) {
+					slotTimeline.color = this._readDragonBonesKeys(slots[i].colorFrame, frameRate, function (key) {
+						return this._readDragonBonesColor(key.value || key.color);
+					});
+				}
+			}
+
+			return clip;
+		}
+
+		/**
+		* Reads the keys of a timeline of the JSON exported by DragonBones, where each frame has a 'duration' in frames rather than a time.
+		* @method _readDragonBonesKeys
+		* @param frames {object[]}
+		* @param frameRate {Number}
+		* @param getValues {Function} Returns the values of a frame. It is called in the context of this SkeletonData.
+		* @return {object[]}
+		* @private
+		*/
+		private _readDragonBonesKeys(frames: any[], frameRate: number, getValues: Function): any[] {
+			var result: any[] = [];
+			var time: number = 0;
+
+			for (var i = 0; i < frames.length; i++) {
+				var frame = frames[i];
+				var curve = null;
+
+				if (frame.curve instanceof Array) {
+					curve = frame.curve.slice(0, 4);
+				} else if (frame.tweenEasing === undefined || frame.tweenEasing === null) {
+					// Frames without easing are not tweened to the next
+					curve = "stepped";
+				}
+
+				result.push({ time: time, values: getValues.call(this, frame), curve: curve });
+				time += (frame.duration || 0) / frameRate;
+			}
+
+			return result;
+		}
+
+		/**
+		* Reads the transform of a bone or display of the JSON exported by DragonBones.
+		* DragonBones rotates clockwise, so its rotations are flipped to match Kiwi.
+		* @method _readDragonBonesTransform
+		* @param transform {object}
+		* @return {object}
+		* @private
+		*/
+		private _readDragonBonesTransform(transform: any): any {
+			var t = transform || {};
+			return {
+				x: t.x || 0,
+				y: t.y || 0,
+				rotation: -(t.skY || 0),
+				scaleX: this._valueOr(t.scX, 1),
+				scaleY: this._valueOr(t.scY, 1)
+			};
+		}
+
+		/**
+		* Reads a color of the JSON exported by DragonBones, which has multipliers from 0 to 100.
+		* @method _readDragonBonesColor
+		* @param color {object}
+		* @return {number[]} The color as [r, g, b, a] from 0 to 1.
+		* @private
+		*/
+		private _readDragonBonesColor(color: any): number[] {
+			var c = color || {};
+			return [this._valueOr(c.rM, 100) / 100, this._valueOr(c.gM, 100) / 100, this._valueOr(c.bM, 100) / 100, this._valueOr(c.aM, 100) / 100];
+		}
+
+		/**
+		* Reads a color of the JSON exported by Spine, which is a hex string of "rrggbbaa".
+		* @method _readHexColor
+		* @param hex {String}
+		* @return {number[]} The color as [r, g, b, a] from 0 to 1.
+		* @private
+		*/
+		private _readHexColor(hex: string): number[] {
+			var color: number[] = [1, 1, 1, 1];
+			if (!hex) return color;
+
+			for (var i = 0; i < 4 && i * 2 < hex.length; i++) {
+				color[i] = parseInt(hex.substr(i * 2, 2), 16) / 255;
+			}
+			return color;
+		}
+
+		/**
+		* Returns the time of the last key of a timeline, or 0 if it has none.
+		* @method _lastKeyTime
+		* @param keys {object[]}
+		* @return {number}
+		* @private
+		*/
+		private _lastKeyTime(keys: any[]): number {
+			return (keys && keys.length > 0) ? keys[keys.length - 1].time : 0;
+		}
+
+		/**
+		* Returns a value, or a default if it is undefined.
+		* Zero is a valid value of many properties, so this is used rather than 'or'.
+		* @method _valueOr
+		* @param value {any}
+		* @param fallback {any}
+		* @return {any}
+		* @private
+		*/
+		private _valueOr(value: any, fallback: any): any {
+			return (value === undefined || value === null) ? fallback : value;
+		}
+
+	}
+
+}
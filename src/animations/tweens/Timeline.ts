@@ -0,0 +1,615 @@
+/**
+*
+* @module Animations
+* @submodule Tweens
+*
+*/
+
+module Kiwi.Animations {
+
+	/**
+	* Plays a group of tweens together, each starting at a set time on the timeline.
+	* Tweens can be placed one after another, overlapping, or all at once, and points on the timeline can be named with labels.
+	* A Timeline is driven by the clock of its TweenManager, so pausing that clock also pauses the timeline.
+	*
+	* The tweens on a timeline are played by it, and should not be started themselves.
+	* Each tween reads its starting values the first time the timeline reaches it, so a tween can carry on from where an earlier one finished.
+	*
+	* Positions on the timeline are in milliseconds, and can be passed as:
+	* - A number, which is the time from the start of the timeline.
+	* - "+=500" or "-=500", which are relative to the end of the timeline.
+	* - The name of a label, or a label with an offset such as "intro+=500".
+	*
+	* @class Timeline
+	* @constructor
+	* @namespace Kiwi.Animations
+	* @param game {Kiwi.Game} The game that this timeline is for.
+	* @param [manager] {Kiwi.Animations.Tweens.TweenManager} The manager whose clock drives the timeline. Defaults to the tween manager of the game.
+	* @return {Kiwi.Animations.Timeline} This timeline.
+	* @since 1.4.0
+	*/
+	export class Timeline {
+
+		constructor(game: Kiwi.Game, manager: Kiwi.Animations.Tweens.TweenManager = null) {
+
+			this._game = game;
+			this._manager = manager || this._game.tweens;
+			this._entries = [];
+			this._labels = {};
+
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {String} "Timeline"
+		* @public
+		*/
+		public objType() {
+			return "Timeline";
+		}
+
+		/**
+		* The game that this timeline belongs to.
+		* @property _game
+		* @type Kiwi.Game
+		* @private
+		*/
+		private _game: Kiwi.Game;
+
+		/**
+		* The manager that this timeline belongs to.
+		* @property _manager
+		* @type Kiwi.Animations.Tweens.TweenManager
+		* @private
+		*/
+		private _manager: Kiwi.Animations.Tweens.TweenManager;
+
+		/**
+		* The manager that this timeline belongs to. Its clock drives the timeline.
+		* @property manager
+		* @type Kiwi.Animations.Tweens.TweenManager
+		* @public
+		*/
+		public get manager(): Kiwi.Animations.Tweens.TweenManager {
+			return this._manager;
+		}
+
+		public set manager( value: Kiwi.Animations.Tweens.TweenManager ) {
+			this._manager = value;
+		}
+
+		/**
+		* The tweens on the timeline, each with the time it starts at. Kept in order of their start times.
+		* @property _entries
+		* @type Object[]
+		* @private
+		*/
+		private _entries: any[];
+
+		/**
+		* The times of the labels on the timeline, keyed by their names.
+		* @property _labels
+		* @type Object
+		* @private
+		*/
+		private _labels: any;
+
+		/**
+		* The time at which the timeline was at the position of the '_pivotPosition', in milliseconds on the clock of the manager.
+		* @property _pivotTime
+		* @type Number
+		* @private
+		*/
+		private _pivotTime: number = 0;
+
+		/**
+		* The position of the timeline at the '_pivotTime', in milliseconds from its start.
+		* @property _pivotPosition
+		* @type Number
+		* @private
+		*/
+		private _pivotPosition: number = 0;
+
+		/**
+		* The position that the timeline was last updated to.
+		* @property _lastPosition
+		* @type Number
+		* @private
+		*/
+		private _lastPosition: number = 0;
+
+		/**
+		* If the timeline is playing backwards towards its start.
+		* @property _reversed
+		* @type boolean
+		* @private
+		*/
+		private _reversed: boolean = false;
+
+		/**
+		* If the timeline is paused.
+		* @property _isPaused
+		* @type boolean
+		* @private
+		*/
+		private _isPaused: boolean = false;
+
+		/**
+		* The method that is to be called when the timeline starts playing.
+		* @property _onStartCallback
+		* @type Function
+		* @private
+		*/
+		private _onStartCallback = null;
+
+		/**
+		* The context that the _onStartCallback method is to be called in.
+		* @property _onStartContext
+		* @type Any
+		* @private
+		*/
+		private _onStartContext: any = null;
+
+		/**
+		* The method that is to be called when the timeline finishes.
+		* @property _onCompleteCallback
+		* @type Function
+		* @private
+		*/
+		private _onCompleteCallback = null;
+
+		/**
+		* The context that the _onCompleteCallback method is to be called in.
+		* @property _onCompleteContext
+		* @type Any
+		* @private
+		*/
+		private _onCompleteContext: any = null;
+
+		/**
+		* An indication of whether or not this timeline is currently running.
+		* @property isRunning
+		* @type boolean
+		* @default false
+		* @public
+		*/
+		public isRunning: boolean = false;
+
+		/**
+		* If the timeline is paused.
+		* @property isPaused
+		* @type boolean
+		* @public
+		*/
+		public get isPaused(): boolean {
+			return this._isPaused;
+		}
+
+		/**
+		* If the timeline is playing backwards towards its start.
+		* @property reversed
+		* @type boolean
+		* @public
+		*/
+		public get reversed(): boolean {
+			return this._reversed;
+		}
+
+		/**
+		* The length of the timeline in milliseconds, which is when its last tween finishes.
+		* @property duration
+		* @type Number
+		* @public
+		*/
+		public get duration(): number {
+			var duration = 0;
+			for ( var i = 0; i < this._entries.length; i++ ) {
+				var entry = this._entries[ i ];
+				duration = Math.max( duration, entry.time + entry.tween.totalDuration );
+			}
+			return duration;
+		}
+
+		/**
+		* The position of the timeline, in milliseconds from its start.
+		* @property position
+		* @type Number
+		* @public
+		*/
+		public get position(): number {
+			if ( !this.isRunning || this._isPaused ) {
+				return this._lastPosition;
+			}
+			return this._getPosition( this._manager.clock.elapsed() * 1000 );
+		}
+
+		/**
+		* Adds a tween to the timeline. The tween is taken off its manager if it had been started, as the timeline plays it instead.
+		* @method add
+		* @param tween {Kiwi.Animations.Tween}
+		* @param [position] {Any} When the tween starts. Defaults to the end of the timeline, so that tweens added one after another play in sequence.
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public add( tween: Kiwi.Animations.Tween, position?: any ): Timeline {
+
+			var time = this._resolvePosition( position );
+
+			if ( tween.manager !== null ) {
+				tween.manager.remove( tween );
+			}
+			tween.isRunning = false;
+
+			// Entries with the same time keep the order they were added in
+			var i = this._entries.length;
+			while ( i > 0 && this._entries[ i - 1 ].time > time ) {
+				i--;
+			}
+			this._entries.splice( i, 0, { tween: tween, time: time } );
+
+			return this;
+
+		}
+
+		/**
+		* Adds several tweens to the timeline, all starting at the same time so that they play in parallel.
+		* @method addParallel
+		* @param tweens {Kiwi.Animations.Tween[]}
+		* @param [position] {Any} When the tweens start. Defaults to the end of the timeline.
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public addParallel( tweens: Kiwi.Animations.Tween[], position?: any ): Timeline {
+
+			var time = this._resolvePosition( position );
+
+			for ( var i = 0; i < tweens.length; i++ ) {
+				this.add( tweens[ i ], time );
+			}
+
+			return this;
+
+		}
+
+		/**
+		* Removes a tween from the timeline.
+		* @method remove
+		* @param tween {Kiwi.Animations.Tween}
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public remove( tween: Kiwi.Animations.Tween ): Timeline {
+
+			for ( var i = this._entries.length - 1; i >= 0; i-- ) {
+				if ( this._entries[ i ].tween === tween ) {
+					this._entries.splice( i, 1 );
+				}
+			}
+
+			return this;
+
+		}
+
+		/**
+		* Names a point on the timeline, so that it can be used as the position of tweens or sought to.
+		* @method addLabel
+		* @param name {String}
+		* @param [position] {Any} Where the label is. Defaults to the end of the timeline.
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public addLabel( name: string, position?: any ): Timeline {
+
+			this._labels[ name ] = this._resolvePosition( position );
+			return this;
+
+		}
+
+		/**
+		* Returns the time of a label on the timeline.
+		* @method getLabelTime
+		* @param name {String}
+		* @return {Number} The time of the label in milliseconds, or -1 if there is no label with that name.
+		* @public
+		*/
+		public getLabelTime( name: string ): number {
+
+			return ( this._labels[ name ] !== undefined ) ? this._labels[ name ] : -1;
+
+		}
+
+		/**
+		* Works out the time of a position on the timeline.
+		* @method _resolvePosition
+		* @param position {Any} A number, a label, or a string relative to the end of the timeline or to a label.
+		* @return {Number} The time in milliseconds.
+		* @private
+		*/
+		private _resolvePosition( position: any ): number {
+
+			if ( position === undefined || position === null ) {
+				return this.duration;
+			}
+
+			if ( typeof position === "number" ) {
+				return Math.max( 0, position );
+			}
+
+			var match = /^(.*?)([+-]=)(-?[\d.]+)$/.exec( position );
+			var base = match ? match[ 1 ] : position;
+			var offset = 0;
+
+			if ( match ) {
+				offset = parseFloat( match[ 3 ] ) * ( match[ 2 ] === "-=" ? -1 : 1 );
+			}
+
+			var time: number;
+
+			if ( base === "" ) {
+				time = this.duration;
+			} else if ( this._labels[ base ] !== undefined ) {
+				time = this._labels[ base ];
+			} else {
+				Kiwi.Log.error( "Kiwi.Animations.Timeline: There is no label called '" + base + "'. The end of the timeline is used instead.", '#tween', '#timeline' );
+				time = this.duration;
+			}
+
+			return Math.max( 0, time + offset );
+
+		}
+
+		/**
+		* Starts playing the timeline from its start.
+		* The tweens keep the starting values they read the first time they were played, so a timeline which is started again
+		* returns each tween to those values rather than reading them from the object again.
+		* @method start
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public start(): Timeline {
+
+			if ( this._manager === null ) {
+				return this;
+			}
+
+			this.isRunning = true;
+			this._isPaused = false;
+			this._reversed = false;
+
+			this._manager.addTimeline( this );
+
+			this._pivotTime = this._manager.clock.elapsed() * 1000;
+			this._pivotPosition = 0;
+
+			if ( this._onStartCallback !== null ) {
+				this._onStartCallback.call( this._onStartContext, this );
+			}
+
+			this._render( 0 );
+
+			return this;
+
+		}
+
+		/**
+		* Stops the timeline where it is and removes it from the manager.
+		* @method stop
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public stop(): Timeline {
+
+			if ( this._manager !== null ) {
+				this._manager.removeTimeline( this );
+			}
+
+			this.isRunning = false;
+			this._isPaused = false;
+
+			return this;
+
+		}
+
+		/**
+		* Pauses the timeline where it is. It carries on from the same position when resumed.
+		* @method pause
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public pause(): Timeline {
+
+			if ( this.isRunning && !this._isPaused ) {
+				this._lastPosition = this.position;
+				this._isPaused = true;
+			}
+
+			return this;
+
+		}
+
+		/**
+		* Resumes the timeline after it was paused.
+		* @method resume
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public resume(): Timeline {
+
+			if ( this._isPaused ) {
+				this._isPaused = false;
+				this._pivotPosition = this._lastPosition;
+				this._pivotTime = this._manager.clock.elapsed() * 1000;
+			}
+
+			return this;
+
+		}
+
+		/**
+		* Moves the timeline to a position and updates its tweens to match.
+		* The timeline keeps playing from there if it is running, or stays there if it is paused.
+		* @method seek
+		* @param position {Any} The position to move to, as a number of milliseconds or a label.
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public seek( position: any ): Timeline {
+
+			var time = Math.min( this._resolvePosition( position ), this.duration );
+
+			this._pivotPosition = time;
+			if ( this._manager !== null ) {
+				this._pivotTime = this._manager.clock.elapsed() * 1000;
+			}
+
+			this._render( time );
+
+			return this;
+
+		}
+
+		/**
+		* Changes the direction that the timeline plays in, from where it currently is.
+		* A timeline playing backwards finishes when it gets back to its start.
+		* A timeline that has finished is started again, so that it plays back the way it came.
+		* @method reverse
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public reverse(): Timeline {
+
+			if ( this._manager === null ) {
+				return this;
+			}
+
+			var position = Math.max( 0, Math.min( this.position, this.duration ) );
+
+			this._reversed = !this._reversed;
+			this._pivotPosition = position;
+			this._lastPosition = position;
+			this._pivotTime = this._manager.clock.elapsed() * 1000;
+
+			if ( !this.isRunning ) {
+				this.isRunning = true;
+				this._manager.addTimeline( this );
+			}
+
+			return this;
+
+		}
+
+		/**
+		* Adds a function that is to be executed when the timeline starts playing.
+		* @method onStart
+		* @param callback {Function} The method that is to be executed. It is passed this timeline.
+		* @param context {Any} The context the method is to have when called.
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public onStart( callback, context ): Timeline {
+
+			this._onStartCallback = callback;
+			this._onStartContext = context;
+			return this;
+
+		}
+
+		/**
+		* Adds a function that is to be executed when the timeline finishes, either at its end or, if it was reversed, at its start.
+		* @method onComplete
+		* @param callback {Function} The method that is to be executed. It is passed this timeline.
+		* @param context {Any} The context the method is to have when called.
+		* @return {Kiwi.Animations.Timeline} This timeline.
+		* @public
+		*/
+		public onComplete( callback, context ): Timeline {
+
+			this._onCompleteCallback = callback;
+			this._onCompleteContext = context;
+			return this;
+
+		}
+
+		/**
+		* The update loop is executed every frame whilst the timeline is running.
+		* @method update
+		* @param time {Number} The time on the clock of the manager, in milliseconds.
+		* @return {boolean} Whether the timeline is still running.
+		* @public
+		*/
+		public update( time: number ): boolean {
+
+			if ( this._isPaused ) {
+				return true;
+			}
+
+			var position = this._getPosition( time );
+			var duration = this.duration;
+			var finished = this._reversed ? position <= 0 : position >= duration;
+
+			this._render( Math.max( 0, Math.min( position, duration ) ) );
+
+			if ( finished ) {
+				this.isRunning = false;
+
+				if ( this._onCompleteCallback !== null ) {
+					this._onCompleteCallback.call( this._onCompleteContext, this );
+				}
+
+				return false;
+			}
+
+			return true;
+
+		}
+
+		/**
+		* Returns the position of the timeline at a time on the clock of the manager.
+		* @method _getPosition
+		* @param time {Number} The time, in milliseconds.
+		* @return {Number} The position, in milliseconds from the start of the timeline.
+		* @private
+		*/
+		private _getPosition( time: number ): number {
+
+			var passed = time - this._pivotTime;
+
+			return this._pivotPosition + ( this._reversed ? -passed : passed );
+
+		}
+
+		/**
+		* Moves each tween to match a position on the timeline.
+		* Tweens which have moved back to before their start are returned to their starting values first, latest first.
+		* The tweens which have started are then updated in the order they start, so that the latest one to affect a property is the one that is seen.
+		* Tweens which have not started, and were not started before, are left alone so that they do not overwrite the tweens that are playing.
+		* @method _render
+		* @param position {Number} The position, in milliseconds from the start of the timeline.
+		* @private
+		*/
+		private _render( position: number ) {
+
+			var i: number;
+			var entry: any;
+
+			for ( i = this._entries.length - 1; i >= 0; i-- ) {
+				entry = this._entries[ i ];
+				if ( position < entry.time && this._lastPosition >= entry.time ) {
+					entry.tween.goTo( position - entry.time );
+				}
+			}
+
+			for ( i = 0; i < this._entries.length; i++ ) {
+				entry = this._entries[ i ];
+				if ( position >= entry.time ) {
+					entry.tween.goTo( position - entry.time );
+				}
+			}
+
+			this._lastPosition = position;
+
+		}
+
+	}
+}
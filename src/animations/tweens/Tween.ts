@@ -157,13 +157,124 @@ module Kiwi.Animations {
 		*/
 		private _delayTime:number = 0;
 
-		/** 
-		* The time at which the tween started.
-		* @property _startTime
+		/**
+		* The values that the properties are tweened to, once any relative values have been worked out from the starting values.
+		* @property _valuesTo
+		* @type Object
+		* @private
+		* @since 1.4.0
+		*/
+		private _valuesTo = {};
+
+		/**
+		* If the values passed are where the tween starts from, rather than where it ends.
+		* @property _isFrom
+		* @type boolean
+		* @default false
+		* @private
+		* @since 1.4.0
+		*/
+		private _isFrom: boolean = false;
+
+		/**
+		* If the starting values have been read from the object.
+		* @property _initialized
+		* @type boolean
+		* @default false
+		* @private
+		* @since 1.4.0
+		*/
+		private _initialized: boolean = false;
+
+		/**
+		* The time at which the tween was at the position of the '_pivotPosition', in milliseconds on the clock of the manager.
+		* Playing, pausing, seeking and reversing all move this, so that the position of the tween can be found from the time alone.
+		* @property _pivotTime
+		* @type Number
+		* @private
+		* @since 1.4.0
+		*/
+		private _pivotTime: number = null;
+
+		/**
+		* The position of the tween at the '_pivotTime', in milliseconds from its start.
+		* @property _pivotPosition
+		* @type Number
+		* @default 0
+		* @private
+		* @since 1.4.0
+		*/
+		private _pivotPosition: number = 0;
+
+		/**
+		* The number of times the tween plays again after it first finishes. A negative number repeats it forever.
+		* @property _repeat
+		* @type Number
+		* @default 0
+		* @private
+		* @since 1.4.0
+		*/
+		private _repeat: number = 0;
+
+		/**
+		* The amount of time to wait between each repeat, in milliseconds.
+		* @property _repeatDelay
+		* @type Number
+		* @default 0
+		* @private
+		* @since 1.4.0
+		*/
+		private _repeatDelay: number = 0;
+
+		/**
+		* If every other repeat plays backwards, so that the tween goes back and forth.
+		* @property _yoyo
+		* @type boolean
+		* @default false
+		* @private
+		* @since 1.4.0
+		*/
+		private _yoyo: boolean = false;
+
+		/**
+		* The repeat that the tween is currently playing, starting at 0.
+		* @property _cycle
 		* @type Number
+		* @default 0
 		* @private
+		* @since 1.4.0
 		*/
-		private _startTime:number = null;
+		private _cycle: number = 0;
+
+		/**
+		* If the tween is playing backwards towards its start.
+		* @property _reversed
+		* @type boolean
+		* @default false
+		* @private
+		* @since 1.4.0
+		*/
+		private _reversed: boolean = false;
+
+		/**
+		* If the tween is paused.
+		* @property _isPaused
+		* @type boolean
+		* @default false
+		* @private
+		* @since 1.4.0
+		*/
+		private _isPaused: boolean = false;
+
+		/**
+		* The position the tween was at when it was paused, in milliseconds from its start.
+		* @property _pausedPosition
+		* @type Number
+		* @default 0
+		* @private
+		* @since 1.4.0
+		*/
+		private _pausedPosition: number = 0;
 
 		/** 
 		* The easing function that is to be used while tweening.
@@ -273,12 +384,73 @@ module Kiwi.Animations {
 		*/
 		public isRunning: boolean = false;
 
-		/** 
+		/**
+		* A method to be called each time the tween repeats.
+		* @property _onRepeatCallback
+		* @type function
+		* @default null
+		* @private
+		* @since 1.4.0
+		*/
+		private _onRepeatCallback = null;
+
+		/**
+		* The context that the onRepeatCallback should have when called.
+		* @property _onRepeatContext
+		* @type any
+		* @default null
+		* @private
+		* @since 1.4.0
+		*/
+		private _onRepeatContext: any = null;
+
+		/**
+		* If the tween is paused.
+		* @property isPaused
+		* @type boolean
+		* @public
+		* @since 1.4.0
+		*/
+		public get isPaused(): boolean {
+			return this._isPaused;
+		}
+
+		/**
+		* The length of the tween in milliseconds, including every repeat and the delays between them but not the delay before it starts.
+		* A tween which repeats forever is Infinity long.
+		* @property totalDuration
+		* @type Number
+		* @public
+		* @since 1.4.0
+		*/
+		public get totalDuration(): number {
+			if ( this._repeat < 0 ) {
+				return Infinity;
+			}
+			return this._duration * ( this._repeat + 1 ) + this._repeatDelay * this._repeat;
+		}
+
+		/**
+		* The position of the tween, in milliseconds from its start.
+		* @property position
+		* @type Number
+		* @public
+		* @since 1.4.0
+		*/
+		public get position(): number {
+			if ( this._isPaused || this._pivotTime === null ) {
+				return this._isPaused ? this._pausedPosition : this._pivotPosition;
+			}
+			return this._getPosition( this._manager.clock.elapsed() * 1000 );
+		}
+
+		/**
 		* Sets up the various properties that define this tween.
 		* The ending position/properties for this tween, how long the tween should go for, easing method to use and if should start right way.
+		* Values can be relative to the starting value of a property, by passing a string such as "+=100" or "-=50".
 		*
 		* @method to
-		* @param properties {Object} The ending location of the properties that you want to tween. 
+		* @param properties {Object} The ending location of the properties that you want to tween.
 		* @param [duration=1000] {Number} The duration of the tween.
 		* @param [ease=null] {Any} The easing method to be used. If not specifed then this will default to LINEAR.
 		* @param [autoStart=false] {boolean} If the tween should start right away.
@@ -292,6 +464,8 @@ module Kiwi.Animations {
 			//  If properties isn't an object this will fail, sanity check it here somehow?
 			this._valuesEnd = properties;
 
+			this._isFrom = false;
+
 			if (ease !== null) {
 				this._easingFunction = ease;
 			}
@@ -305,13 +479,40 @@ module Kiwi.Animations {
 
 		}
 
+		/**
+		* Sets up the tween to animate from the properties passed to the values that the object has when the tween starts.
+		* The object is moved to the values passed as soon as the tween starts, even if it is delayed.
+		* Values can be relative to the current value of a property, by passing a string such as "+=100" or "-=50".
+		*
+		* @method from
+		* @param properties {Object} The starting location of the properties that you want to tween.
+		* @param [duration=1000] {Number} The duration of the tween.
+		* @param [ease=null] {Any} The easing method to be used. If not specifed then this will default to LINEAR.
+		* @param [autoStart=false] {boolean} If the tween should start right away.
+		* @return {Kiwi.Animations.Tween}
+		* @public
+		* @since 1.4.0
+		*/
+		public from(properties, duration: number = 1000, ease: any = null, autoStart: boolean = false): Tween {
+
+			this.to( properties, duration, ease, false );
+
+			this._isFrom = true;
+
+			if ( autoStart === true ) {
+				return this.start();
+			}
+
+			return this;
+
+		}
+
 		/** 
 		* Gets the initial values for the properties that it is to animate and starts the tween process.
 		* @method start
 		* @public
 		*/
 		public start() {
-			var property;
 
 			if (this._game === null || this._object === null)
 			{
@@ -326,7 +527,33 @@ module Kiwi.Animations {
 
 			this._onCompleteCalled = false;
 
-			this._startTime = this._manager.clock.elapsed() * 1000 + this._delayTime;
+			this._isPaused = false;
+
+			this._reversed = false;
+
+			this._cycle = 0;
+
+			this._pivotTime = this._manager.clock.elapsed() * 1000 + this._delayTime;
+
+			this._pivotPosition = 0;
+
+			this._initValues();
+
+			return this;
+
+		}
+
+		/**
+		* Reads the starting values of the properties from the object, and works out the values they are tweened to.
+		* @method _initValues
+		* @private
+		* @since 1.4.0
+		*/
+		private _initValues() {
+
+			this._valuesStart = {};
+
+			this._valuesTo = {};
 
 			for ( var property in this._valuesEnd ) {
 				// This prevents the interpolation of null values or of non-existing properties
@@ -334,26 +561,75 @@ module Kiwi.Animations {
 					continue;
 				}
 
+				//  Check if property is a function
+				var current;
+				if ( typeof this._object[ property ] === "function" ) {
+					current = this._object[ property ]();
+				} else {
+					current = this._object[ property ];
+				}
+
+				var value = this._valuesEnd[ property ];
+
 				// check if an Array was provided as property value
-				if ( this._valuesEnd[ property ] instanceof Array ) {
-					if ( this._valuesEnd[ property ].length === 0 ) {
+				if ( value instanceof Array ) {
+					if ( value.length === 0 ) {
 						continue;
 					}
 
 					// create a local copy of the Array with the start value at the front
-					this._valuesEnd[ property ] = [ this._object[ property ] ].concat(this._valuesEnd[ property ]);
+					this._valuesStart[ property ] = current;
+					this._valuesTo[ property ] = [ current ].concat( value );
+					continue;
 				}
 
-				//  Check if property is a function
-				if ( typeof this._object[ property ] === "function" ) {
-					this._valuesStart[ property ] = this._object[ property ]();
+				value = this._resolveValue( value, current );
+
+				if ( this._isFrom ) {
+					this._valuesStart[ property ] = value;
+					this._valuesTo[ property ] = current;
 				} else {
-					this._valuesStart[ property ] = this._object[ property ];
+					this._valuesStart[ property ] = current;
+					this._valuesTo[ property ] = value;
 				}
 
 			}
 
-			return this;
+			this._initialized = true;
+
+			// A 'from' tween jumps straight to where it starts
+			if ( this._isFrom ) {
+				this._applyValues( this._easingFunction( 0 ) );
+			}
+
+		}
+
+		/**
+		* Works out a value to tween to, which may be relative to the current value.
+		* @method _resolveValue
+		* @param value {Any} A number, or a string holding a number or a relative value such as "+=100".
+		* @param current {Number} The current value of the property.
+		* @return {Number}
+		* @private
+		* @since 1.4.0
+		*/
+		private _resolveValue( value: any, current: number ): number {
+
+			if ( typeof value !== "string" ) {
+				return value;
+			}
+
+			var operator = value.substr( 0, 2 );
+
+			if ( operator === "+=" ) {
+				return current + parseFloat( value.substr( 2 ) );
+			}
+
+			if ( operator === "-=" ) {
+				return current - parseFloat( value.substr( 2 ) );
+			}
+
+			return parseFloat( value );
 
 		}
 
@@ -371,10 +647,127 @@ module Kiwi.Animations {
 
 			this.isRunning = false;
 
+			this._isPaused = false;
+
+			return this;
+
+		}
+
+		/**
+		* Pauses the tween where it is. It carries on from the same position when resumed.
+		* Pausing the clock of the manager also pauses every tween on it.
+		* @method pause
+		* @return {Kiwi.Animations.Tween}
+		* @public
+		* @since 1.4.0
+		*/
+		public pause(): Tween {
+
+			if ( this.isRunning && !this._isPaused ) {
+				this._pausedPosition = this.position;
+				this._isPaused = true;
+			}
+
+			return this;
+
+		}
+
+		/**
+		* Resumes the tween after it was paused.
+		* @method resume
+		* @return {Kiwi.Animations.Tween}
+		* @public
+		* @since 1.4.0
+		*/
+		public resume(): Tween {
+
+			if ( this._isPaused ) {
+				this._isPaused = false;
+				this._pivotPosition = this._pausedPosition;
+				this._pivotTime = this._manager.clock.elapsed() * 1000;
+			}
+
+			return this;
+
+		}
+
+		/**
+		* Moves the tween to a position and updates the object to match.
+		* The tween keeps playing from there if it is running, or stays there if it is paused.
+		* @method seek
+		* @param time {Number} The position to move to, in milliseconds from the start of the tween.
+		* @return {Kiwi.Animations.Tween}
+		* @public
+		* @since 1.4.0
+		*/
+		public seek( time: number ): Tween {
+
+			if ( this._object === null ) {
+				return this;
+			}
+
+			if ( !this._initialized ) {
+				this._initValues();
+			}
+
+			time = Math.max( 0, Math.min( time, this.totalDuration ) );
+
+			this._pivotPosition = time;
+			this._pausedPosition = time;
+
+			if ( this._manager !== null && this._manager.clock ) {
+				this._pivotTime = this._manager.clock.elapsed() * 1000;
+			}
+
+			this._render( time );
+
+			return this;
+
+		}
+
+		/**
+		* Changes the direction that the tween plays in, from where it currently is.
+		* A tween playing backwards finishes when it gets back to its start.
+		* A tween that has finished is started again, so that it plays back the way it came.
+		* @method reverse
+		* @return {Kiwi.Animations.Tween}
+		* @public
+		* @since 1.4.0
+		*/
+		public reverse(): Tween {
+
+			if ( !this._initialized || this._manager === null ) {
+				return this;
+			}
+
+			var position = Math.max( 0, Math.min( this.position, this.totalDuration ) );
+
+			this._reversed = !this._reversed;
+			this._pivotPosition = position;
+			this._pausedPosition = position;
+			this._pivotTime = this._manager.clock.elapsed() * 1000;
+
+			if ( !this.isRunning ) {
+				this.isRunning = true;
+				this._onCompleteCalled = false;
+				this._manager.add( this );
+			}
+
 			return this;
 
 		}
 
+		/**
+		* If the tween is playing backwards towards its start.
+		* @property reversed
+		* @type boolean
+		* @public
+		* @since 1.4.0
+		*/
+		public get reversed(): boolean {
+			return this._reversed;
+		}
+
 		/** 
 		* Sets the game and the manager of this tween.
 		* @method setParent
@@ -402,6 +795,41 @@ module Kiwi.Animations {
 
 		}
 
+		/**
+		* Sets the number of times that the tween plays again after it first finishes.
+		* @method repeat
+		* @param times {Number} The number of repeats. A negative number, or Infinity, repeats the tween forever.
+		* @param [yoyo=false] {boolean} If every other repeat plays backwards, so that the tween goes back and forth.
+		* @param [repeatDelay=0] {Number} The amount of time to wait between each repeat, in milliseconds.
+		* @return {Kiwi.Animations.Tween}
+		* @public
+		* @since 1.4.0
+		*/
+		public repeat( times: number, yoyo: boolean = false, repeatDelay: number = 0 ): Tween {
+
+			this._repeat = ( times === Infinity ) ? -1 : times;
+			this._yoyo = yoyo;
+			this._repeatDelay = repeatDelay;
+			return this;
+
+		}
+
+		/**
+		* Sets if every other repeat plays backwards, so that the tween goes back and forth.
+		* This only has an effect on a tween which repeats.
+		* @method yoyo
+		* @param [value=true] {boolean}
+		* @return {Kiwi.Animations.Tween}
+		* @public
+		* @since 1.4.0
+		*/
+		public yoyo( value: boolean = true ): Tween {
+
+			this._yoyo = value;
+			return this;
+
+		}
+
 		/** 
 		* Sets the easing method that is to be used when animating this tween.
 		* @method easing
@@ -476,6 +904,24 @@ module Kiwi.Animations {
 
 		}
 
+		/**
+		* Defines a method that is to be called each time this tween repeats.
+		* The method is passed the object and the number of the repeat that has begun.
+		* @method onRepeat
+		* @param callback {Function} The method that is to be executed.
+		* @param context {Any} The context the method is to have when called.
+		* @return {Kiwi.Animations.Tween}
+		* @public
+		* @since 1.4.0
+		*/
+		public onRepeat( callback, context ): Tween {
+
+			this._onRepeatCallback = callback;
+			this._onRepeatContext = context;
+			return this;
+
+		}
+
 		/** 
 		* Defines a method that is to be called when this tween is finished.
 		* @method onComplete
@@ -492,38 +938,156 @@ module Kiwi.Animations {
 
 		}
 
-		/** 
+		/**
 		* The update loop is executed every frame whilst the tween is running.
 		* @method update
-		* @param time {Number}
+		* @param time {Number} The time on the clock of the manager, in milliseconds.
 		* @return {boolean} Whether the Tween is still running
 		* @public
 		*/
 		public update( time: number ) {
 
-			if ( time < this._startTime - this._delayTime ) {
+			if ( this._isPaused ) {
+				return true;
+			}
+
+			var position = this._getPosition( time );
+
+			// Still waiting out the delay
+			if ( position < 0 && !this._reversed ) {
+				return true;
+			}
+
+			this._fireStart();
+
+			if ( this._render( position ) ) {
+				this.isRunning = false;
+
+				this._fireComplete();
+
+				// A tween played back to its start does not carry on to the next
+				if ( !this._reversed ) {
+					for ( var i = 0; i < this._chainedTweens.length; i++ ) {
+						this._chainedTweens[ i ].start();
+					}
+				}
+
 				return false;
 			}
 
-			if ( this._onStartCallbackFired === false ) {
-				if ( this._onStartCallback !== null ) {
-					this._onStartCallback.call( this._onStartContext,
-						this._object );
+			return true;
+
+		}
+
+		/**
+		* Moves the tween to a position without using its clock, and updates the object to match.
+		* This is used by a Timeline to play the tweens on it. The starting values are read the first time the position reaches the start.
+		* @method goTo
+		* @param position {Number} The position to move to, in milliseconds from the start of the tween. This can be outside of the tween.
+		* @return {boolean} If the position is at or past the end of the tween.
+		* @public
+		* @since 1.4.0
+		*/
+		public goTo( position: number ): boolean {
+
+			if ( this._object === null ) {
+				return true;
+			}
+
+			if ( !this._initialized ) {
+				if ( position < 0 ) {
+					return false;
 				}
+				this._initValues();
+			}
 
-				this._onStartCallbackFired = true;
+			if ( position > 0 ) {
+				this._fireStart();
+			}
+
+			var total = this.totalDuration;
+			this._render( position );
+
+			if ( position >= total ) {
+				this._fireComplete();
+				return true;
+			}
+
+			this._onCompleteCalled = false;
+			return false;
+
+		}
+
+		/**
+		* Returns the position of the tween at a time on the clock of the manager.
+		* @method _getPosition
+		* @param time {Number} The time, in milliseconds.
+		* @return {Number} The position, in milliseconds from the start of the tween.
+		* @private
+		* @since 1.4.0
+		*/
+		private _getPosition( time: number ): number {
+
+			var passed = time - this._pivotTime;
+
+			return this._pivotPosition + ( this._reversed ? -passed : passed );
+
+		}
+
+		/**
+		* Updates the object to match a position of the tween, taking any repeats into account.
+		* @method _render
+		* @param position {Number} The position, in milliseconds from the start of the tween.
+		* @return {boolean} If the tween has reached the end it is playing towards.
+		* @private
+		* @since 1.4.0
+		*/
+		private _render( position: number ): boolean {
+
+			var total = this.totalDuration;
+			var finished = this._reversed ? position <= 0 : position >= total;
+
+			position = Math.max( 0, Math.min( position, total ) );
+
+			var cycleLength = this._duration + this._repeatDelay;
+			var cycle = ( cycleLength > 0 ) ? Math.floor( position / cycleLength ) : 0;
+			if ( this._repeat >= 0 ) {
+				cycle = Math.min( cycle, this._repeat );
 			}
 
-			var elapsed = ( time - this._startTime ) / this._duration;
-			elapsed = elapsed > 1 ? 1 :
-				elapsed < 0 ? 0 :
-				elapsed;
+			var elapsed = ( this._duration > 0 ) ? Math.min( ( position - cycle * cycleLength ) / this._duration, 1 ) : 1;
+
+			if ( this._yoyo && cycle % 2 === 1 ) {
+				elapsed = 1 - elapsed;
+			}
 
-			var value = this._easingFunction( elapsed );
+			if ( cycle !== this._cycle ) {
+				this._cycle = cycle;
+
+				if ( this._onRepeatCallback !== null ) {
+					this._onRepeatCallback.call( this._onRepeatContext,
+						this._object, cycle );
+				}
+			}
+
+			this._applyValues( this._easingFunction( elapsed ) );
+
+			return finished;
+
+		}
+
+		/**
+		* Sets the properties of the object to a point between their starting and ending values.
+		* @method _applyValues
+		* @param value {Number} How far between the values the properties are, after easing.
+		* @private
+		* @since 1.4.0
+		*/
+		private _applyValues( value: number ) {
 
 			for ( var property in this._valuesStart ) {
 				var start = this._valuesStart[ property ];
-				var end = this._valuesEnd[ property ];
+				var end = this._valuesTo[ property ];
 
 				//  Add checks for object, array, numeric up front
 				if ( end instanceof Array ) {
@@ -543,24 +1107,41 @@ module Kiwi.Animations {
 					this._object, value );
 			}
 
-			if ( elapsed === 1 ) {
-				this.isRunning = false;
+		}
 
-				if ( this._onCompleteCallback !== null &&
-						this._onCompleteCalled === false ) {
-					this._onCompleteCalled = true;
-					this._onCompleteCallback.call(
-						this._onCompleteContext, this._object );
-				}
+		/**
+		* Calls the start callback, if it has not been called since the tween started.
+		* @method _fireStart
+		* @private
+		* @since 1.4.0
+		*/
+		private _fireStart() {
 
-				for ( var i = 0; i < this._chainedTweens.length; i++ ) {
-					this._chainedTweens[ i ].start();
+			if ( this._onStartCallbackFired === false ) {
+				if ( this._onStartCallback !== null ) {
+					this._onStartCallback.call( this._onStartContext,
+						this._object );
 				}
 
-				return false;
+				this._onStartCallbackFired = true;
 			}
 
-			return true;
+		}
+
+		/**
+		* Calls the complete callback, if it has not been called since the tween started.
+		* @method _fireComplete
+		* @private
+		* @since 1.4.0
+		*/
+		private _fireComplete() {
+
+			if ( this._onCompleteCallback !== null &&
+					this._onCompleteCalled === false ) {
+				this._onCompleteCalled = true;
+				this._onCompleteCallback.call(
+					this._onCompleteContext, this._object );
+			}
 
 		}
 
@@ -39,6 +39,7 @@ module Kiwi.Animations.Tweens {
 			 
 			this._game = game;
 			this._tweens = [];
+			this._timelines = [];
 			this.clock = clock || this._game.time.clock;
 
 		}
@@ -69,6 +70,15 @@ module Kiwi.Animations.Tweens {
 		*/
 		private _tweens: Kiwi.Animations.Tween[];
 
+		/**
+		* An array of all of the timelines on the manager.
+		* @property _timelines
+		* @type Kiwi.Animations.Timeline[]
+		* @private
+		* @since 1.4.0
+		*/
+		private _timelines: Kiwi.Animations.Timeline[];
+
 		/**
 		* Clock used by tweens
 		* @property clock
@@ -91,13 +101,14 @@ module Kiwi.Animations.Tweens {
 		}
 
 		/** 
-		* Removes all of the tweens on the manager.
+		* Removes all of the tweens and timelines on the manager.
 		* @method removeAll
 		* @public
 		*/
 		public removeAll() {
 
 			this._tweens.length = 0;
+			this._timelines.length = 0;
 
 		}
 
@@ -150,6 +161,54 @@ module Kiwi.Animations.Tweens {
 			return tween;
 		}
 
+		/**
+		* Creates a new Timeline, which is driven by the clock of this manager.
+		* @method createTimeline
+		* @return {Kiwi.Animations.Timeline} The timeline that was created.
+		* @public
+		* @since 1.4.0
+		*/
+		public createTimeline(): Kiwi.Animations.Timeline {
+			this.validateClock();
+			return new Kiwi.Animations.Timeline(this._game, this);
+		}
+
+		/**
+		* Adds a timeline to the manager, so that it is updated each frame. This is done when the timeline is started.
+		* @method addTimeline
+		* @param timeline {Kiwi.Animations.Timeline}
+		* @return {Kiwi.Animations.Timeline}
+		* @public
+		* @since 1.4.0
+		*/
+		public addTimeline(timeline: Kiwi.Animations.Timeline): Kiwi.Animations.Timeline {
+			timeline.manager = this;
+			this.validateClock();
+			if (this._timelines.indexOf(timeline) === -1) {
+				this._timelines.push(timeline);
+			}
+			return timeline;
+		}
+
+		/**
+		* Removes a timeline from this manager.
+		* @method removeTimeline
+		* @param timeline {Kiwi.Animations.Timeline}
+		* @return {Kiwi.Animations.Timeline} The timeline passed in.
+		* @public
+		* @since 1.4.0
+		*/
+		public removeTimeline(timeline: Kiwi.Animations.Timeline): Kiwi.Animations.Timeline {
+			var i = this._timelines.indexOf(timeline);
+
+			if (i !== -1)
+			{
+				this._timelines.splice(i, 1);
+			}
+
+			return timeline;
+		}
+
 		/** 
 		* The update loop.
 		* @method update
@@ -158,9 +217,10 @@ module Kiwi.Animations.Tweens {
 		*/
 		public update() {
 			var i = 0,
-				numTweens = this._tweens.length;
+				numTweens = this._tweens.length,
+				numTimelines = this._timelines.length;
 
-			if ( this._tweens.length === 0 ) {
+			if ( numTweens === 0 && numTimelines === 0 ) {
 				return false;
 			}
 
@@ -173,6 +233,16 @@ module Kiwi.Animations.Tweens {
 				}
 			}
 
+			i = 0;
+			while ( i < numTimelines ) {
+				if ( this._timelines[ i ].update( this.clock.elapsed() * 1000 ) ) {
+					i++;
+				} else {
+					this._timelines.splice( i, 1 );
+					numTimelines--;
+				}
+			}
+
 			return true;
 		}
 
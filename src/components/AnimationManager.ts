@@ -62,6 +62,7 @@ module Kiwi.Components {
 			this.onPlay = new Kiwi.Signal;
 			this.onStop = new Kiwi.Signal;
 			this.onUpdate = new Kiwi.Signal;
+			this.onFrameEvent = new Kiwi.Signal;
 		}
 
 		/**
@@ -104,6 +105,29 @@ module Kiwi.Components {
 		*/
 		public onChange: Kiwi.Signal;
 
+		/**
+		* Dispatches callbacks each time an animation reaches a frame which has events on its Sequence.
+		* Functions dispatched from this signal have THREE parameters,
+		* One - The name of the event, such as "footstep".
+		* Two - The Animation that reached the frame.
+		* Three - The index of the frame in the Sequence.
+		* @property onFrameEvent
+		* @type Kiwi.Signal
+		* @public
+		* @since 1.4.0
+		*/
+		public onFrameEvent: Kiwi.Signal;
+
+		/**
+		* The animations that are to play once the current one completes, in order.
+		* Each has the 'name' of the animation and the number of 'times' it plays.
+		* @property _queue
+		* @type Object[]
+		* @private
+		* @since 1.4.0
+		*/
+		private _queue: any[] = [];
+
 		/**
 		* The entity that this animation belongs to and thus is effecting.
 		* @property entity
@@ -217,6 +241,7 @@ module Kiwi.Components {
 				return this.currentAnimation;
 
 			} else {
+				this.clearQueue();
 				return this._play(name);
 			}
 
@@ -235,22 +260,94 @@ module Kiwi.Components {
 		*/
 		public playAt(index: number, name: string = this.currentAnimation.name): Kiwi.Animations.Animation {
 			
+			this.clearQueue();
 			return this._play(name, index);
 		}
 
+		/**
+		* Plays an Animation a number of times, whether or not it loops, and then switches to another Animation.
+		* This is the same as playing the Animation and then queuing the next.
+		*
+		* @method playTimes
+		* @param name {String} The name of the animation that you want to play.
+		* @param times {Number} The number of times to play it.
+		* @param [next=null] {String} The name of the animation to play once it completes. If not passed, the animation stops.
+		* @return {Kiwi.Animations.Animation} Returns the current Animation that is now playing.
+		* @public
+		* @since 1.4.0
+		*/
+		public playTimes(name: string, times: number, next: string = null): Kiwi.Animations.Animation {
+
+			this.clearQueue();
+			if (next !== null) this.queue(next);
+			return this._play(name, null, times);
+		}
+
+		/**
+		* Adds an Animation to play once the current one completes, after any others that are already queued.
+		* Animations only complete when they do not loop, or when they have been played a number of times.
+		* Playing an Animation through 'play' or 'playAt' clears the queue.
+		*
+		* @method queue
+		* @param name {String} The name of the animation that is to play.
+		* @param [times=0] {Number} The number of times to play it. If 0 it plays as it normally would, which for a looping animation is until it is stopped.
+		* @return {Kiwi.Components.AnimationManager} This AnimationManager.
+		* @public
+		* @since 1.4.0
+		*/
+		public queue(name: string, times: number = 0): AnimationManager {
+
+			this._queue.push({ name: name, times: times });
+			return this;
+		}
+
+		/**
+		* Removes all of the Animations that are queued.
+		*
+		* @method clearQueue
+		* @public
+		* @since 1.4.0
+		*/
+		public clearQueue() {
+
+			this._queue.length = 0;
+		}
+
+		/**
+		* Plays the next Animation in the queue, and removes it from the queue.
+		* This is called when the current animation completes.
+		*
+		* @method playNext
+		* @return {Kiwi.Animations.Animation} Returns the Animation that is now playing, or null if the queue was empty.
+		* @public
+		* @since 1.4.0
+		*/
+		public playNext(): Kiwi.Animations.Animation {
+
+			if (this._queue.length === 0) {
+				return null;
+			}
+
+			var next = this._queue.shift();
+			return this._play(next.name, null, next.times);
+		}
+
 		/**
 		* An internal method used to actually play a Animation at a Index.
 		* 
 		* @method _play
 		* @param name {string} The name of the animation that is to be switched to.
 		* @param [index=null] {number} The index of the frame in the Sequence that is to play. If null, then it restarts the animation at the cell it currently is at.
+		* @param [times=0] {number} The number of times the animation is to play. If 0, it plays as it normally would.
 		* @return {Kiwi.Animations.Animation} Returns the current Animation that is now playing.
 		* @private
 		*/
-		private _play(name: string, index: number=null): Kiwi.Animations.Animation {
+		private _play(name: string, index: number=null, times: number=0): Kiwi.Animations.Animation {
 
 			this._setCurrentAnimation(name); 
 
+			this.currentAnimation.plays = times;
+
 			if (index !== null)
 				this.currentAnimation.playAt(index);
 			else
@@ -469,6 +566,7 @@ module Kiwi.Components {
 			delete this._animations;
 			delete this.currentAnimation;
 			delete this._atlas;
+			delete this._queue;
 		}
 
 	}
@@ -26,6 +26,8 @@ module Kiwi.Components {
 		constructor(parent: Entity, offsetX: number = 0, offsetY: number = 0, width: number = 0, height: number = 0) {
 			super(parent, 'Box2');
 
+			this.entity = parent;
+
 			this._offset = new Kiwi.Geom.Point(offsetX, offsetY);
 			this._dimensions = new Kiwi.Geom.Point(width, height);
 
@@ -44,6 +46,16 @@ module Kiwi.Components {
 		}
 
 
+		/**
+		 * The entity that this box belongs to.
+		 *
+		 * @type Kiwi.Entity
+		 * @since 1.4.0
+		 * @public
+		 */
+		public entity: Kiwi.Entity;
+
+
 		/**
 		 * Indicates whether or not this component needs re-rendering/updating or not.
 		 *
@@ -98,31 +110,146 @@ module Kiwi.Components {
 
 
 		/**
-		 * The transformed or 'normal' hitbox for the entity. This is its box after rotation/scale.
+		 * The hitbox of the entity in its local space, before it is transformed.
+		 * Setting this updates the offset and dimensions of the box.
+		 *
+		 * @property hitbox
+		 * @type Kiwi.Geom.Rectangle
+		 * @since 1.4.0
+		 * @public
+		 */
+		public get hitbox(): Kiwi.Geom.Rectangle {
+			return this._hitbox.setTo(this._offset.x, this._offset.y, this._dimensions.x, this._dimensions.y);
+		}
+		public set hitbox(value: Kiwi.Geom.Rectangle) {
+			this._offset.setTo(value.x, value.y);
+			this._dimensions.setTo(value.width, value.height);
+			this._dirty = true;
+
+			// The SpatialIndex includes the hitbox in the bounds of the entity
+			if (this.entity.state && this.entity.state.spatialIndex) {
+				this.entity.state.spatialIndex.invalidate(this.entity);
+			}
+		}
+
+
+		/**
+		 * Holds the rectangle returned by the hitbox property.
+		 *
+		 * @type Kiwi.Geom.Rectangle
+		 * @private
+		 */
+		private _hitbox: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle();
+
+
+		/**
+		 * The axis aligned bounds of the whole entity in world space, after rotation, scale and the transforms of its parents have been applied.
+		 * This is READ ONLY.
+		 *
+		 * @property worldBounds
+		 * @type Kiwi.Geom.Rectangle
+		 * @since 1.4.0
+		 * @public
+		 */
+		public get worldBounds(): Kiwi.Geom.Rectangle {
+			this._validate();
+			return this._worldBounds;
+		}
+
+
+		/**
+		 * Holds the last calculated world bounds.
+		 *
+		 * @type Kiwi.Geom.Rectangle
+		 * @private
+		 */
+		private _worldBounds: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle();
+
+
+		/**
+		 * The axis aligned hitbox of the entity in world space, after rotation, scale and the transforms of its parents have been applied.
+		 * This is READ ONLY.
+		 *
+		 * @property worldHitbox
+		 * @type Kiwi.Geom.Rectangle
+		 * @since 1.4.0
+		 * @public
+		 */
+		public get worldHitbox(): Kiwi.Geom.Rectangle {
+			this._validate();
+			return this._worldHitbox;
+		}
+
+
+		/**
+		 * Holds the last calculated world hitbox.
+		 *
+		 * @type Kiwi.Geom.Rectangle
+		 * @private
+		 */
+		private _worldHitbox: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle();
+
+
+		/**
+		 * A copy of the concatenated matrix of the owner that the world rectangles were last calculated with.
+		 *
+		 * @type Kiwi.Geom.Matrix
+		 * @private
+		 */
+		private _cachedMatrix: Kiwi.Geom.Matrix = new Kiwi.Geom.Matrix();
+
+
+		/**
+		 * The hitbox and entity size that the world rectangles were last calculated with.
+		 * Used to notice when the offset or dimensions points have been changed directly.
 		 *
 		 * @type Kiwi.Geom.Rectangle
 		 * @private
 		 */
-		private _transformedHitbox: Kiwi.Geom.Rectangle;
+		private _cachedHitbox: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle();
+		private _cachedSize: Kiwi.Geom.Point = new Kiwi.Geom.Point();
+
+
+		/**
+		 * The inverse of the concatenated matrix of the owner, used to bring points into local space.
+		 *
+		 * @type Kiwi.Geom.Matrix
+		 * @private
+		 */
 		private _invertedTransformMatrix: Kiwi.Geom.Matrix;
 
 
-		public set hitbox(value: Kiwi.Geom.Rectangle) {
-			throw 'Not yet implemented';
-			// this._offset.x = value.x;
-			// this._offset.y = value.y;
-			//
-			// this._rawHitbox = value;
-			//
-			// this._rawHitbox.x += this._rawBounds.x;
-			// this._rawHitbox.y += this._rawBounds.y;
+		/**
+		 * Recalculates the world rectangles and the inverted matrix when the transform of the owner (or one of its ancestors),
+		 * the hitbox or the size of the owner has changed since they were last calculated.
+		 *
+		 * @method _validate
+		 * @private
+		 */
+		private _validate() {
+			var matrix = this.entity.transform.getConcatenatedMatrix();
+
+			if (this._dirty ||
+				!matrix.equals(this._cachedMatrix) ||
+				this._cachedHitbox.x !== this._offset.x || this._cachedHitbox.y !== this._offset.y ||
+				this._cachedHitbox.width !== this._dimensions.x || this._cachedHitbox.height !== this._dimensions.y ||
+				this._cachedSize.x !== this.entity.width || this._cachedSize.y !== this.entity.height) {
+				this.clean(matrix);
+			}
 		}
 
-		private clean() {
-			this._invertedTransformMatrix = this.owner.transform.getConcatenatedMatrix().invertCopy();
-			// this._invertedTransformMatrix.tx -= this.owner.transform.rotPointX;
-			// this._invertedTransformMatrix.ty -= this.owner.transform.rotPointY;
-			// this._invertedTransformMatrix.invert();
+		private clean(matrix: Kiwi.Geom.Matrix) {
+			this._cachedMatrix.setToMatrix(matrix);
+			this._cachedHitbox.setTo(this._offset.x, this._offset.y, this._dimensions.x, this._dimensions.y);
+			this._cachedSize.setTo(this.entity.width, this.entity.height);
+
+			this._invertedTransformMatrix = matrix.invertCopy();
+
+			matrix.transformRect(this._cachedHitbox, this._worldHitbox);
+			this._worldBounds.setTo(0, 0, this.entity.width, this.entity.height);
+			matrix.transformRect(this._worldBounds, this._worldBounds);
+
+			this._dirty = false;
 		}
 
 		/**
@@ -132,51 +259,54 @@ module Kiwi.Components {
 		 */
 		public check(pt: any) {
 			// Transform external space into local space
-			if(this._dirty) {
-				this.clean();
-			}
+			this._validate();
 
 			var localPt = this._invertedTransformMatrix.transformPoint(pt);
-			return localPt.x > this._offset.x && localPt.x < this._dimensions.x && localPt.y > this._offset.y && localPt.y < this._dimensions.y;
+			return localPt.x >= this._offset.x && localPt.x < this._offset.x + this._dimensions.x &&
+				localPt.y >= this._offset.y && localPt.y < this._offset.y + this._dimensions.y;
 		}
 
 
 		/**
-		* Draws the various bounds on a context that is passed. Useful for debugging and using in combination with the debug canvas.
+		* Draws the hitbox on a context that is passed. Useful for debugging and using in combination with the debug canvas.
+		* The outline of the hitbox after it has been transformed is drawn, along with the axis aligned world hitbox which contains it.
 		* @method draw
 		* @param ctx {CanvasRenderingContext2D} Context of the canvas that this box component is to be rendered on top of.
 		* @param [camera] {Kiwi.Camera} A camera that should be taken into account before rendered. This is the default camera by default.
 		* @public
 		*/
 		public draw(ctx: CanvasRenderingContext2D, camera: Kiwi.Camera = this.game.cameras.defaultCamera) {
-			throw 'Not yet implemented';
-			// var t: Kiwi.Geom.Transform = this.entity.transform;
-			// var ct: Kiwi.Geom.Transform = camera.transform;
-			//
-			// // Draw raw bounds and raw center
-			// ctx.strokeStyle = "red";
-			// ctx.fillRect(this.rawCenter.x + ct.x - 1, this.rawCenter.y + ct.y - 1, 3, 3);
-			// ctx.strokeRect(t.x + ct.x + t.rotPointX - 3, t.y + ct.y + t.rotPointY - 3, 7, 7);
-			//
-			// // Draw bounds
-			// ctx.strokeStyle = "blue";
-			// ctx.strokeRect(this.bounds.x + ct.x, this.bounds.y + ct.y, this.bounds.width, this.bounds.height);
-			//
-			// // Draw hitbox
-			// ctx.strokeStyle = "green";
-			// ctx.strokeRect(this.hitbox.x + ct.x, this.hitbox.y + ct.y, this.hitbox.width, this.hitbox.height);
-			//
-			// // Draw raw hitbox
-			// ctx.strokeStyle = "white";
-			// ctx.strokeRect(this.rawHitbox.x + ct.x, this.rawHitbox.y + ct.y, this.rawHitbox.width, this.rawHitbox.height);
-			//
-			// // Draw world bounds
-			// ctx.strokeStyle = "purple";
-			// ctx.strokeRect(this.worldBounds.x, this.worldBounds.y, this.worldBounds.width, this.worldBounds.height);
-			//
-			// // Draw world hitbox
-			// ctx.strokeStyle = "cyan";
-			// ctx.strokeRect(this.worldHitbox.x, this.worldHitbox.y, this.worldHitbox.width, this.worldHitbox.height);
+			var cm: Kiwi.Geom.Matrix = this.game.debugRenderer.getCameraMatrix(camera);
+			var m: Kiwi.Geom.Matrix = this.entity.transform.getConcatenatedMatrix();
+			var hitbox: Kiwi.Geom.Rectangle = this.worldHitbox;
+
+			var vp: Kiwi.Geom.Rectangle = camera.viewport;
+
+			// The camera sees the world from the top left of its viewport, the same as the DebugRenderer draws it
+			ctx.save();
+			ctx.setTransform(1, 0, 0, 1, vp.x, vp.y);
+			ctx.transform(cm.a, cm.b, cm.c, cm.d, cm.tx, cm.ty);
+
+			// Draw world hitbox
+			ctx.strokeStyle = "rgba(0,255,0,0.8)";
+			ctx.strokeRect(hitbox.x, hitbox.y, hitbox.width, hitbox.height);
+
+			// Draw the transformed outline of the hitbox
+			var x1 = this._offset.x;
+			var y1 = this._offset.y;
+			var x2 = this._offset.x + this._dimensions.x;
+			var y2 = this._offset.y + this._dimensions.y;
+
+			ctx.strokeStyle = "rgba(0,255,255,0.8)";
+			ctx.beginPath();
+			ctx.moveTo(m.a * x1 + m.c * y1 + m.tx, m.b * x1 + m.d * y1 + m.ty);
+			ctx.lineTo(m.a * x2 + m.c * y1 + m.tx, m.b * x2 + m.d * y1 + m.ty);
+			ctx.lineTo(m.a * x2 + m.c * y2 + m.tx, m.b * x2 + m.d * y2 + m.ty);
+			ctx.lineTo(m.a * x1 + m.c * y2 + m.tx, m.b * x1 + m.d * y2 + m.ty);
+			ctx.closePath();
+			ctx.stroke();
+
+			ctx.restore();
 		}
 
 
@@ -5,6 +5,12 @@ module Kiwi {
 	/**
 	 * A Camera is used to render a particular section of the game world on the stage. Each Camera has a coordinates which are held in the transform property, and a width/height. Note: This class should never be directly instantiated but instead should be made through a CameraManager's 'create' method.
 	 *
+	 * Each Camera draws into its own viewport on the stage, which covers the whole stage by default. Several Cameras can be used for split screen games or a minimap,
+	 * with 'zIndex' controlling the order they are drawn in and 'layerMask' controlling which objects each one draws.
+	 *
+	 * Cameras also have built in behaviours which are run by 'update': following a target, staying within the bounds of the world,
+	 * shaking, flashing, fading and zooming. Each effect dispatches a Signal when it completes.
+	 *
 	 * @class Camera
 	 * @namespace Kiwi
 	 * @constructor
@@ -37,7 +43,8 @@ module Kiwi {
 		public height: number;
 
 		/**
-		 * If true then the camera will be resized to fit the stage when the stage is resized
+		 * If true then the camera will be resized to fit the stage when the stage is resized.
+		 * This is turned off by 'setViewport'.
 		 * @property fitToStage
 		 * @type boolean
 		 * @default true
@@ -45,6 +52,59 @@ module Kiwi {
 		 */
 		public fitToStage: boolean = true;
 
+		/**
+		 * The area of the stage that this camera draws into, in stage pixels. Nothing is drawn outside of it.
+		 * Use 'setViewport' to change it, so that the size of the camera is kept the same.
+		 * @property viewport
+		 * @type Kiwi.Geom.Rectangle
+		 * @public
+		 * @since 1.4.0
+		 */
+		public viewport: Kiwi.Geom.Rectangle;
+
+		/**
+		 * The order that the cameras are drawn in. Cameras with a higher zIndex are drawn over the top of cameras with a lower one.
+		 * Cameras with the same zIndex are drawn in the order they were created.
+		 * @property zIndex
+		 * @type number
+		 * @default 0
+		 * @public
+		 * @since 1.4.0
+		 */
+		public zIndex: number = 0;
+
+		/**
+		 * If the viewport is filled with the clear colour before the camera draws.
+		 * Turn this off for cameras which are drawn over the top of other cameras and should let them show through.
+		 * @property clearViewport
+		 * @type boolean
+		 * @default true
+		 * @public
+		 * @since 1.4.0
+		 */
+		public clearViewport: boolean = true;
+
+		/**
+		 * The colour that the viewport is filled with before the camera draws. When null the colour of the stage is used.
+		 * @property clearColor
+		 * @type Kiwi.Utils.Color
+		 * @default null
+		 * @public
+		 * @since 1.4.0
+		 */
+		public clearColor: Kiwi.Utils.Color = null;
+
+		/**
+		 * A bitmask of the layers that this camera draws. Bit 'n' is set if objects with a 'layer' of 'n' are drawn.
+		 * Groups on a layer that is not drawn are skipped along with all of their members.
+		 * @property layerMask
+		 * @type number
+		 * @default 0xFFFFFFFF
+		 * @public
+		 * @since 1.4.0
+		 */
+		public layerMask: number = 0xFFFFFFFF;
+
 		/**
 		 * The game this Group belongs to
 		 * @property game
@@ -71,11 +131,11 @@ module Kiwi {
 
 		/**
 		 * Controls whether this Camera is rendered
-		 * @property _visible
+		 * @property _enabled
 		 * @type boolean
 		 * @private
 		 */
-		private _enabled: boolean;
+		private _enabled: boolean = true;
 		public get enabled(): boolean { return this._enabled; }
 		public set enabled(val: boolean) { this._enabled = val; }
 
@@ -88,26 +148,692 @@ module Kiwi {
 			this.id = id;
 			this.name = name;
 
-			this.width = width;
-			this.height = height;
-			this._updatedStageSize(width, height);
+			this.viewport = new Kiwi.Geom.Rectangle(0, 0, width, height);
+			this._setSize(width, height);
+
+			this.followLerp = new Kiwi.Geom.Point(1, 1);
+			this.flashColor = new Kiwi.Utils.Color(1, 1, 1);
+			this.fadeColor = new Kiwi.Utils.Color(0, 0, 0);
+			this._shakeOffset = new Kiwi.Geom.Point();
+			this.onShakeComplete = new Kiwi.Signal();
+			this.onFlashComplete = new Kiwi.Signal();
+			this.onFadeComplete = new Kiwi.Signal();
+			this.onZoomComplete = new Kiwi.Signal();
+
 			this._game.stage.onResize.add(this._updatedStageSize, this);
 		}
 
 		/**
-		 * Updates the width/height of this camera. Is used when the stage resizes.
+		 * Updates the width/height of this camera and its viewport, if it fits the stage. Is used when the stage resizes.
 		 * @method _updatedStageSize
+		 * @param width {Number} The new width of the stage.
+		 * @param height {Number} The new height of the stage.
+		 * @private
+		 */
+		private _updatedStageSize(width: number, height: number) {
+			if (!this.fitToStage) return;
+
+			this.viewport.setTo(0, 0, width, height);
+			this._setSize(width, height);
+		}
+
+		/**
+		 * Sets the width/height of this camera, and centers its origin and pivot point.
+		 * @method _setSize
 		 * @param width {Number} The new width of the camera.
 		 * @param height {Number} The new height of the camera.
 		 * @private
+		 * @since 1.4.0
 		 */
-		private _updatedStageSize(width: number, height: number) {
+		private _setSize(width: number, height: number) {
 			this.width = width;
 			this.height = height;
 			this.transform.setOrigin(-width / 2, -height / 2);
 			this.transform.setPivotPoint(-width / 2, -height / 2);
 		}
 
+		/**
+		 * Sets the area of the stage that this camera draws into. The camera is resized to match, and no longer fits the stage when it resizes.
+		 * @method setViewport
+		 * @param x {Number} The left of the viewport, in stage pixels.
+		 * @param y {Number} The top of the viewport, in stage pixels.
+		 * @param width {Number} The width of the viewport.
+		 * @param height {Number} The height of the viewport.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public setViewport(x: number, y: number, width: number, height: number) {
+			this.fitToStage = false;
+			this.viewport.setTo(x, y, width, height);
+			this._setSize(width, height);
+		}
+
+		/**
+		 * Returns true if this camera draws objects on a layer.
+		 * @method isLayerVisible
+		 * @param layer {Number} A layer from 0 to 31.
+		 * @return {boolean}
+		 * @public
+		 * @since 1.4.0
+		 */
+		public isLayerVisible(layer: number): boolean {
+			return (this.layerMask & (1 << layer)) !== 0;
+		}
+
+		/**
+		 * Makes this camera draw objects on a layer.
+		 * @method showLayer
+		 * @param layer {Number} A layer from 0 to 31.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public showLayer(layer: number) {
+			this.layerMask |= (1 << layer);
+		}
+
+		/**
+		 * Stops this camera from drawing objects on a layer.
+		 * @method hideLayer
+		 * @param layer {Number} A layer from 0 to 31.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public hideLayer(layer: number) {
+			this.layerMask &= ~(1 << layer);
+		}
+
+		/**
+		 * The clock that the effects of this camera are timed by. Durations are in the units of this clock, which are seconds by default.
+		 * When no clock has been set, the clock of the game is used.
+		 * @property clock
+		 * @type Kiwi.Time.Clock
+		 * @public
+		 * @since 1.4.0
+		 */
+		private _clock: Kiwi.Time.Clock = null;
+		public get clock(): Kiwi.Time.Clock {
+			return this._clock || this._game.time.clock;
+		}
+		public set clock(value: Kiwi.Time.Clock) {
+			this._clock = value;
+		}
+
+		/**
+		 * The Entity that this camera follows. Set by 'follow'.
+		 * @property target
+		 * @type Kiwi.Entity
+		 * @default null
+		 * @public
+		 * @since 1.4.0
+		 */
+		public target: Kiwi.Entity = null;
+
+		/**
+		 * How far the camera moves towards its target each frame, on each axis.
+		 * 1 keeps the target exactly in place, and smaller values make the camera catch up smoothly.
+		 * @property followLerp
+		 * @type Kiwi.Geom.Point
+		 * @public
+		 * @since 1.4.0
+		 */
+		public followLerp: Kiwi.Geom.Point;
+
+		/**
+		 * An area of the camera, in pixels from the top left of its viewport, which the target can move around in without the camera moving.
+		 * When null the camera keeps the target in the centre.
+		 * @property deadzone
+		 * @type Kiwi.Geom.Rectangle
+		 * @default null
+		 * @public
+		 * @since 1.4.0
+		 */
+		public deadzone: Kiwi.Geom.Rectangle = null;
+
+		/**
+		 * The area of the world which the camera is kept inside, such as the size of a TileMap in pixels.
+		 * If the camera sees more of the world than the bounds, it is centred on them. When null the camera can move anywhere.
+		 * @property bounds
+		 * @type Kiwi.Geom.Rectangle
+		 * @default null
+		 * @public
+		 * @since 1.4.0
+		 */
+		public bounds: Kiwi.Geom.Rectangle = null;
+
+		/**
+		 * The colour of the current flash.
+		 * @property flashColor
+		 * @type Kiwi.Utils.Color
+		 * @public
+		 * @since 1.4.0
+		 */
+		public flashColor: Kiwi.Utils.Color;
+
+		/**
+		 * How much of the flash colour covers the viewport, from 0 to 1. The renderers draw it over the top of everything else.
+		 * @property flashAlpha
+		 * @type number
+		 * @default 0
+		 * @public
+		 * @since 1.4.0
+		 */
+		public flashAlpha: number = 0;
+
+		/**
+		 * The colour that the camera fades to.
+		 * @property fadeColor
+		 * @type Kiwi.Utils.Color
+		 * @public
+		 * @since 1.4.0
+		 */
+		public fadeColor: Kiwi.Utils.Color;
+
+		/**
+		 * How much of the fade colour covers the viewport, from 0 to 1. This stays at 1 once a fade has completed, until 'resetFade' is called.
+		 * @property fadeAlpha
+		 * @type number
+		 * @default 0
+		 * @public
+		 * @since 1.4.0
+		 */
+		public fadeAlpha: number = 0;
+
+		/**
+		 * Dispatched when a shake has completed.
+		 * @property onShakeComplete
+		 * @type Kiwi.Signal
+		 * @public
+		 * @since 1.4.0
+		 */
+		public onShakeComplete: Kiwi.Signal;
+
+		/**
+		 * Dispatched when a flash has completed.
+		 * @property onFlashComplete
+		 * @type Kiwi.Signal
+		 * @public
+		 * @since 1.4.0
+		 */
+		public onFlashComplete: Kiwi.Signal;
+
+		/**
+		 * Dispatched when a fade has completed and the viewport is covered by the fade colour.
+		 * @property onFadeComplete
+		 * @type Kiwi.Signal
+		 * @public
+		 * @since 1.4.0
+		 */
+		public onFadeComplete: Kiwi.Signal;
+
+		/**
+		 * Dispatched when a zoom has completed.
+		 * @property onZoomComplete
+		 * @type Kiwi.Signal
+		 * @public
+		 * @since 1.4.0
+		 */
+		public onZoomComplete: Kiwi.Signal;
+
+		/**
+		 * The largest distance of the current shake, in pixels. This decays to nothing over the duration of the shake.
+		 * @property _shakeIntensity
+		 * @type number
+		 * @private
+		 */
+		private _shakeIntensity: number = 0;
+
+		/**
+		 * The duration of the current shake.
+		 * @property _shakeDuration
+		 * @type number
+		 * @private
+		 */
+		private _shakeDuration: number = 0;
+
+		/**
+		 * How long the current shake has been running.
+		 * @property _shakeElapsed
+		 * @type number
+		 * @private
+		 */
+		private _shakeElapsed: number = 0;
+
+		/**
+		 * How far the camera has been moved by the current shake. It is removed before the camera moves each frame.
+		 * @property _shakeOffset
+		 * @type Kiwi.Geom.Point
+		 * @private
+		 */
+		private _shakeOffset: Kiwi.Geom.Point;
+
+		/**
+		 * The duration of the current flash.
+		 * @property _flashDuration
+		 * @type number
+		 * @private
+		 */
+		private _flashDuration: number = 0;
+
+		/**
+		 * How long the current flash has been running.
+		 * @property _flashElapsed
+		 * @type number
+		 * @private
+		 */
+		private _flashElapsed: number = 0;
+
+		/**
+		 * The duration of the current fade.
+		 * @property _fadeDuration
+		 * @type number
+		 * @private
+		 */
+		private _fadeDuration: number = 0;
+
+		/**
+		 * How long the current fade has been running.
+		 * @property _fadeElapsed
+		 * @type number
+		 * @private
+		 */
+		private _fadeElapsed: number = 0;
+
+		/**
+		 * If a fade is running.
+		 * @property _fading
+		 * @type boolean
+		 * @private
+		 */
+		private _fading: boolean = false;
+
+		/**
+		 * The current zoom of the camera, where 2 makes the world appear twice as large.
+		 * @property _zoom
+		 * @type number
+		 * @private
+		 */
+		private _zoom: number = 1;
+
+		/**
+		 * The zoom when the current zoom started.
+		 * @property _zoomFrom
+		 * @type number
+		 * @private
+		 */
+		private _zoomFrom: number = 1;
+
+		/**
+		 * The zoom that the current zoom ends at.
+		 * @property _zoomTo
+		 * @type number
+		 * @private
+		 */
+		private _zoomTo: number = 1;
+
+		/**
+		 * The duration of the current zoom.
+		 * @property _zoomDuration
+		 * @type number
+		 * @private
+		 */
+		private _zoomDuration: number = 0;
+
+		/**
+		 * How long the current zoom has been running.
+		 * @property _zoomElapsed
+		 * @type number
+		 * @private
+		 */
+		private _zoomElapsed: number = 0;
+
+		/**
+		 * If a zoom is running.
+		 * @property _zooming
+		 * @type boolean
+		 * @private
+		 */
+		private _zooming: boolean = false;
+
+		/**
+		 * The point of the camera, in pixels from the top left of its viewport, which stays still while zooming.
+		 * @property _zoomPoint
+		 * @type Kiwi.Geom.Point
+		 * @private
+		 */
+		private _zoomPoint: Kiwi.Geom.Point = null;
+
+		/**
+		 * The zoom of the camera, where 2 makes the world appear twice as large. Use 'zoomTo' to change it. This is READ ONLY.
+		 * @property zoom
+		 * @type number
+		 * @public
+		 * @since 1.4.0
+		 */
+		public get zoom(): number {
+			return this._zoom;
+		}
+
+		/**
+		 * Makes the camera follow an Entity, keeping its centre within the deadzone.
+		 * @method follow
+		 * @param target {Kiwi.Entity} The Entity to follow.
+		 * @param [lerp=1] {Number} How far the camera moves towards the target each frame. 1 keeps up with the target exactly.
+		 * @param [deadzone=null] {Kiwi.Geom.Rectangle} An area of the camera which the target can move in without the camera moving.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public follow(target: Kiwi.Entity, lerp: number = 1, deadzone: Kiwi.Geom.Rectangle = null) {
+			this.target = target;
+			this.followLerp.setTo(lerp, lerp);
+			this.deadzone = deadzone;
+		}
+
+		/**
+		 * Stops the camera from following its target.
+		 * @method unfollow
+		 * @public
+		 * @since 1.4.0
+		 */
+		public unfollow() {
+			this.target = null;
+		}
+
+		/**
+		 * Moves the camera so that a point in the world is in the centre of its viewport.
+		 * @method focusOn
+		 * @param x {Number} The x coordinate in the world.
+		 * @param y {Number} The y coordinate in the world.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public focusOn(x: number, y: number) {
+			this._moveWorldPointTo(x, y, this.width / 2, this.height / 2, 1, 1);
+		}
+
+		/**
+		 * Sets the area of the world which the camera is kept inside. To keep the camera inside a TileMap, use its 'widthInPixels' and 'heightInPixels'.
+		 * @method setBounds
+		 * @param x {Number} The left of the area.
+		 * @param y {Number} The top of the area.
+		 * @param width {Number} The width of the area.
+		 * @param height {Number} The height of the area.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public setBounds(x: number, y: number, width: number, height: number) {
+			if (this.bounds === null) {
+				this.bounds = new Kiwi.Geom.Rectangle(x, y, width, height);
+			} else {
+				this.bounds.setTo(x, y, width, height);
+			}
+		}
+
+		/**
+		 * Shakes the camera. The shake is strongest at the start and decays to nothing over its duration.
+		 * Starting a shake replaces any shake which is running.
+		 * @method shake
+		 * @param [intensity=8] {Number} The largest distance the camera is moved by, in pixels.
+		 * @param [duration=0.5] {Number} How long the shake lasts, in the units of the clock.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public shake(intensity: number = 8, duration: number = 0.5) {
+			this._shakeIntensity = intensity;
+			this._shakeDuration = duration;
+			this._shakeElapsed = 0;
+		}
+
+		/**
+		 * Covers the viewport with a colour, which then fades away over the duration.
+		 * @method flash
+		 * @param [color="#ffffff"] {String} The colour of the flash, in any format that Kiwi.Utils.Color accepts.
+		 * @param [duration=0.5] {Number} How long the flash lasts, in the units of the clock.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public flash(color: string = "#ffffff", duration: number = 0.5) {
+			this.flashColor.set(color);
+			this.flashAlpha = 1;
+			this._flashDuration = duration;
+			this._flashElapsed = 0;
+		}
+
+		/**
+		 * Gradually covers the viewport with a colour. The colour stays once the fade completes, until 'resetFade' is called.
+		 * @method fade
+		 * @param [color="#000000"] {String} The colour to fade to, in any format that Kiwi.Utils.Color accepts.
+		 * @param [duration=1] {Number} How long the fade takes, in the units of the clock.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public fade(color: string = "#000000", duration: number = 1) {
+			this.fadeColor.set(color);
+			this.fadeAlpha = 0;
+			this._fadeDuration = duration;
+			this._fadeElapsed = 0;
+			this._fading = true;
+		}
+
+		/**
+		 * Removes the colour of a fade from the viewport, stopping the fade if it is running.
+		 * @method resetFade
+		 * @public
+		 * @since 1.4.0
+		 */
+		public resetFade() {
+			this.fadeAlpha = 0;
+			this._fading = false;
+		}
+
+		/**
+		 * Zooms the camera around a point of its viewport, which stays still while the rest of the world grows or shrinks around it.
+		 * @method zoomTo
+		 * @param zoom {Number} The zoom to end at, where 2 makes the world appear twice as large.
+		 * @param [duration=0] {Number} How long the zoom takes, in the units of the clock. With no duration the zoom is applied immediately.
+		 * @param [x] {Number} The x coordinate of the point, in pixels from the left of the viewport. Defaults to the centre.
+		 * @param [y] {Number} The y coordinate of the point, in pixels from the top of the viewport. Defaults to the centre.
+		 * @public
+		 * @since 1.4.0
+		 */
+		public zoomTo(zoom: number, duration: number = 0, x: number = this.width / 2, y: number = this.height / 2) {
+			this._zoomFrom = this._zoom;
+			this._zoomTo = zoom;
+			this._zoomDuration = duration;
+			this._zoomElapsed = 0;
+			this._zoomPoint = new Kiwi.Geom.Point(x, y);
+			this._zooming = true;
+
+			if (duration <= 0) {
+				this._updateZoom(0);
+			}
+		}
+
+		/**
+		 * Moves the camera so that a point in the world appears at a point of the camera.
+		 * The camera only moves part of the way there when the lerp is less than 1.
+		 * @method _moveWorldPointTo
+		 * @param worldX {Number}
+		 * @param worldY {Number}
+		 * @param x {Number} The x coordinate of the camera, in pixels from the left of the viewport.
+		 * @param y {Number} The y coordinate of the camera, in pixels from the top of the viewport.
+		 * @param lerpX {Number}
+		 * @param lerpY {Number}
+		 * @private
+		 */
+		private _moveWorldPointTo(worldX: number, worldY: number, x: number, y: number, lerpX: number, lerpY: number) {
+			if (this._game.renderOption === Kiwi.RENDERER_WEBGL) {
+				// The world is drawn with the inverse of the camera, so moving the camera moves what it sees of the world by the same amount
+				var current: Kiwi.Geom.Point = this._getViewToWorldMatrix().transformPoint(new Kiwi.Geom.Point(x, y));
+				this.transform.x += (worldX - current.x) * lerpX;
+				this.transform.y += (worldY - current.y) * lerpY;
+			} else {
+				// The world is drawn with the camera, so moving the camera moves where the world point appears by the same amount
+				var view: Kiwi.Geom.Point = this._getWorldToViewMatrix().transformPoint(new Kiwi.Geom.Point(worldX, worldY));
+				this.transform.x += (x - view.x) * lerpX;
+				this.transform.y += (y - view.y) * lerpY;
+			}
+		}
+
+		/**
+		 * Returns the matrix which turns points of the camera, in pixels from the top left of its viewport, into points in the world.
+		 * WebGL draws the world with the inverse of the camera matrix while the canvas draws it with the matrix itself, so this depends on the renderer.
+		 * @method _getViewToWorldMatrix
+		 * @return {Kiwi.Geom.Matrix}
+		 * @private
+		 */
+		private _getViewToWorldMatrix(): Kiwi.Geom.Matrix {
+			var matrices = this.getScratchMatrices();
+			return (this._game.renderOption === Kiwi.RENDERER_WEBGL) ? matrices.normal : matrices.inverted;
+		}
+
+		/**
+		 * Returns the matrix which turns points in the world into points of the camera, in pixels from the top left of its viewport.
+		 * @method _getWorldToViewMatrix
+		 * @return {Kiwi.Geom.Matrix}
+		 * @private
+		 */
+		private _getWorldToViewMatrix(): Kiwi.Geom.Matrix {
+			var matrices = this.getScratchMatrices();
+			return (this._game.renderOption === Kiwi.RENDERER_WEBGL) ? matrices.inverted : matrices.normal;
+		}
+
+		/**
+		 * Moves the camera towards its target, keeping the centre of the target within the deadzone.
+		 * @method _updateFollow
+		 * @private
+		 */
+		private _updateFollow() {
+			var target: Kiwi.Entity = this.target;
+			if (target.exists === false) {
+				this.target = null;
+				return;
+			}
+
+			var centre: Kiwi.Geom.Point = target.transform.getConcatenatedMatrix().transformPoint(
+				new Kiwi.Geom.Point(target.width / 2, target.height / 2));
+			var pt: Kiwi.Geom.Point = this._getWorldToViewMatrix().transformPoint(centre);
+
+			// The target is moved to the nearest point of the deadzone
+			var x: number = this.width / 2;
+			var y: number = this.height / 2;
+			if (this.deadzone !== null) {
+				x = Kiwi.Utils.GameMath.clamp(pt.x, this.deadzone.right, this.deadzone.left);
+				y = Kiwi.Utils.GameMath.clamp(pt.y, this.deadzone.bottom, this.deadzone.top);
+			}
+
+			if (x !== pt.x || y !== pt.y) {
+				this._moveWorldPointTo(centre.x, centre.y, x, y, this.followLerp.x, this.followLerp.y);
+			}
+		}
+
+		/**
+		 * Moves the camera back inside its bounds.
+		 * @method _updateBounds
+		 * @private
+		 */
+		private _updateBounds() {
+			// The area of the world the camera can see
+			var view: Kiwi.Geom.Rectangle = this._getViewToWorldMatrix().transformRect(
+				new Kiwi.Geom.Rectangle(0, 0, this.width, this.height));
+			var b: Kiwi.Geom.Rectangle = this.bounds;
+
+			var dx: number = 0;
+			if (view.width >= b.width) {
+				dx = (b.x + b.width / 2) - (view.x + view.width / 2);
+			} else if (view.x < b.x) {
+				dx = b.x - view.x;
+			} else if (view.right > b.right) {
+				dx = b.right - view.right;
+			}
+
+			var dy: number = 0;
+			if (view.height >= b.height) {
+				dy = (b.y + b.height / 2) - (view.y + view.height / 2);
+			} else if (view.y < b.y) {
+				dy = b.y - view.y;
+			} else if (view.bottom > b.bottom) {
+				dy = b.bottom - view.bottom;
+			}
+
+			// Move the world point at the centre of the view by the distance it is out of bounds
+			if (dx !== 0 || dy !== 0) {
+				this._moveWorldPointTo(view.x + view.width / 2 + dx, view.y + view.height / 2 + dy,
+					this.width / 2, this.height / 2, 1, 1);
+			}
+		}
+
+		/**
+		 * Advances the current zoom, keeping the zoom point still.
+		 * @method _updateZoom
+		 * @param delta {Number} The time since the last frame, in the units of the clock.
+		 * @private
+		 */
+		private _updateZoom(delta: number) {
+			this._zoomElapsed += delta;
+			var progress: number = (this._zoomDuration > 0) ? Math.min(1, this._zoomElapsed / this._zoomDuration) : 1;
+
+			// Remember which part of the world is under the zoom point, so that it can be put back there
+			var world: Kiwi.Geom.Point = this._getViewToWorldMatrix().transformPoint(this._zoomPoint);
+
+			this._zoom = this._zoomFrom + (this._zoomTo - this._zoomFrom) * progress;
+			// WebGL draws the world with the inverse of the camera, so it is shrunk to make the world appear larger
+			var scale: number = (this._game.renderOption === Kiwi.RENDERER_WEBGL) ? 1 / this._zoom : this._zoom;
+			this.transform.setScale(scale, scale);
+			this._moveWorldPointTo(world.x, world.y, this._zoomPoint.x, this._zoomPoint.y, 1, 1);
+
+			if (progress === 1) {
+				this._zooming = false;
+				this.onZoomComplete.dispatch();
+			}
+		}
+
+		/**
+		 * Advances the current shake, moving the camera by a new random offset.
+		 * @method _updateShake
+		 * @param delta {Number} The time since the last frame, in the units of the clock.
+		 * @private
+		 */
+		private _updateShake(delta: number) {
+			this._shakeElapsed += delta;
+			if (this._shakeElapsed >= this._shakeDuration) {
+				this._shakeIntensity = 0;
+				this.onShakeComplete.dispatch();
+				return;
+			}
+
+			var intensity: number = this._shakeIntensity * (1 - this._shakeElapsed / this._shakeDuration);
+			this._shakeOffset.setTo(
+				(Math.random() * 2 - 1) * intensity,
+				(Math.random() * 2 - 1) * intensity);
+			this.transform.x += this._shakeOffset.x;
+			this.transform.y += this._shakeOffset.y;
+		}
+
+		/**
+		 * Advances the current flash and fade.
+		 * @method _updateColorEffects
+		 * @param delta {Number} The time since the last frame, in the units of the clock.
+		 * @private
+		 */
+		private _updateColorEffects(delta: number) {
+			if (this.flashAlpha > 0) {
+				this._flashElapsed += delta;
+				this.flashAlpha = (this._flashDuration > 0) ? Math.max(0, 1 - this._flashElapsed / this._flashDuration) : 0;
+				if (this.flashAlpha === 0) {
+					this.onFlashComplete.dispatch();
+				}
+			}
+
+			if (this._fading) {
+				this._fadeElapsed += delta;
+				this.fadeAlpha = (this._fadeDuration > 0) ? Math.min(1, this._fadeElapsed / this._fadeDuration) : 1;
+				if (this.fadeAlpha === 1) {
+					this._fading = false;
+					this.onFadeComplete.dispatch();
+				}
+			}
+		}
+
 		/**
 		 * Scratch matrix used in geometry calculations
 		 *
@@ -134,7 +860,11 @@ module Kiwi {
 				this.clean();
 
 			if(copy)
-				return this._scratchMatrices.normal.transformPoint(pt);
+				pt = pt.clone();
+
+			// The camera sees the world from the top left of its viewport
+			pt.x -= this.viewport.x;
+			pt.y -= this.viewport.y;
 
 			this._scratchMatrices.normal.transformPointInPlace(pt);
 			return pt;
@@ -156,9 +886,12 @@ module Kiwi {
 				this.clean();
 
 			if(copy)
-				return this._scratchMatrices.inverted.transformPoint(pt);
+				pt = pt.clone();
 
 			this._scratchMatrices.inverted.transformPointInPlace(pt);
+
+			pt.x += this.viewport.x;
+			pt.y += this.viewport.y;
 			return pt;
 		}
 
@@ -177,11 +910,26 @@ module Kiwi {
 
 		/**
 		 * The update loop that is executed every frame.
+		 * Runs the zoom, follows the target, keeps the camera inside its bounds, then runs the shake, flash and fade.
 		 * @method update
 		 * @public
 		 */
 		public update() {
-			// Do nothing
+			var delta: number = this.clock.delta;
+
+			// The shake is removed first, so that it does not affect following
+			if (this._shakeOffset.x !== 0 || this._shakeOffset.y !== 0) {
+				this.transform.x -= this._shakeOffset.x;
+				this.transform.y -= this._shakeOffset.y;
+				this._shakeOffset.setTo(0, 0);
+			}
+
+			if (this._zooming) this._updateZoom(delta);
+			if (this.target !== null) this._updateFollow();
+			if (this.bounds !== null) this._updateBounds();
+			if (this._shakeIntensity > 0) this._updateShake(delta);
+
+			this._updateColorEffects(delta);
 		}
 
 		public zero() {
@@ -189,7 +937,10 @@ module Kiwi {
 			this.transform.y = 0;
 			this.transform.rotation = 0;
 			this.transform.setScale(1, 1);
-			this._updatedStageSize(this.width, this.height);
+			this._setSize(this.width, this.height);
+			this._zoom = 1;
+			this._zooming = false;
+			this._shakeOffset.setTo(0, 0);
 		}
 
 		public destroy(...params) {
@@ -197,6 +948,12 @@ module Kiwi {
 			delete this._scratchMatrices.normal;
 			delete this._scratchMatrices.inverted;
 			delete this._scratchMatrices;
+
+			this.target = null;
+			this.onShakeComplete.dispose();
+			this.onFlashComplete.dispose();
+			this.onFadeComplete.dispose();
+			this.onZoomComplete.dispose();
 		}
 
 		/**
@@ -8,7 +8,8 @@ module Kiwi {
 
 	/**
 	 * Used to handle the creation and management of Cameras on a Game. Each Game will always have created for it a CameraManager and a default Camera on the manager.
-	 * Games currently only usupport the use of a single camera, the default camera. Much of this class has been written with future multiple camera support in mind.
+	 * Any number of extra cameras can be created, each drawing into its own viewport on the stage, such as for split screen games or a minimap.
+	 * Cameras are drawn in order of their zIndex, so cameras with a higher zIndex are drawn on top.
 	 *
 	 * @class CameraManager
 	 * @namespace Kiwi
@@ -137,7 +138,22 @@ module Kiwi {
 		}
 
 		/**
-		 * Calls the render method on all the cameras
+		 * Returns the cameras in the order they are drawn: by their zIndex, then in the order they were created.
+		 * @method getRenderOrder
+		 * @return {Kiwi.Camera[]}
+		 * @public
+		 * @since 1.4.0
+		 */
+		public getRenderOrder(): Kiwi.Camera[] {
+			var cameras: Kiwi.Camera[] = this._cameras.slice();
+			cameras.sort(function (a: Kiwi.Camera, b: Kiwi.Camera) {
+				return (a.zIndex - b.zIndex) || (a.id - b.id);
+			});
+			return cameras;
+		}
+
+		/**
+		 * Calls the render method on all the enabled cameras, in order of their zIndex.
 		 * @method render
 		 * @public
 		 */
@@ -147,11 +163,18 @@ module Kiwi {
 				return false;
 			}
 
+			//the stats of the renderer cover every camera
+			this._game.renderer.resetStats();
+
 			//render each camera
-			for (var i = 0; i < this._cameras.length; i++) {
-				this._cameras[i].render();
+			var cameras: Kiwi.Camera[] = this.getRenderOrder();
+			for (var i = 0; i < cameras.length; i++) {
+				if (cameras[i].enabled) cameras[i].render();
 			}
 
+			//draw the debug overlay on top
+			this._game.debugRenderer.render(cameras);
+
 		}
 
 		/**
@@ -64,6 +64,23 @@ module Kiwi {
 			return this._parent;
 		}
 
+		/**
+		* Whether the Entity has changed since it was last rendered.
+		* Setting this to true also flags the Entity to be re-indexed by the SpatialIndex of its State.
+		* @property dirty
+		* @type boolean
+		* @public
+		*/
+		public set dirty(value: boolean) {
+			this._dirty = value;
+			if (value && this.state && this.state.spatialIndex) {
+				this.state.spatialIndex.invalidate(this);
+			}
+		}
+		public get dirty(): boolean {
+			return this._dirty;
+		}
+
 		/**
 		* Returns the type of child that this is. 
 		* @type Number
@@ -98,6 +115,57 @@ module Kiwi {
 			return this._alpha;
 		}
 
+		/**
+		* The colour that the entity is multiplied by. White leaves the entity unchanged.
+		* Change it with the methods of the colour, such as 'tint.set("#ff0000")'.
+		*
+		* In the WebGL renderer every entity which uses the TextureAtlasRenderer can be tinted without breaking its batch.
+		* In the canvas renderer only Sprites and StaticImages are tinted.
+		* @property tint
+		* @type Kiwi.Utils.Color
+		* @public
+		* @since 1.4.0
+		*/
+		public tint: Kiwi.Utils.Color = new Kiwi.Utils.Color(1, 1, 1);
+
+		/**
+		* A colour which is added to the entity after it has been tinted. Black leaves the entity unchanged.
+		* This can be used to flash an entity white when it is hit, for example.
+		* The alpha of the colour is ignored. Only the same entities as 'tint' support it.
+		* @property colorOffset
+		* @type Kiwi.Utils.Color
+		* @public
+		* @since 1.4.0
+		*/
+		public colorOffset: Kiwi.Utils.Color = new Kiwi.Utils.Color(0, 0, 0);
+
+		/**
+		* If the tint or the colour offset change how the entity looks. This is READ ONLY.
+		* @property isTinted
+		* @type boolean
+		* @public
+		* @since 1.4.0
+		*/
+		public get isTinted(): boolean {
+			return this.tint.rNorm !== 1 || this.tint.gNorm !== 1 || this.tint.bNorm !== 1 ||
+				this.colorOffset.rNorm !== 0 || this.colorOffset.gNorm !== 0 || this.colorOffset.bNorm !== 0;
+		}
+
+		/**
+		* How the entity is blended with what has already been drawn.
+		* One of "NORMAL", "ADD", "MULTIPLY", "SCREEN" or "ERASE", which work in both renderers.
+		* The WebGL renderer also accepts the other modes of Kiwi.Renderers.GLBlendMode.
+		*
+		* In the WebGL renderer, entities with a blend mode other than "NORMAL" use it instead of the blend mode of their renderer,
+		* so the entities in a batch all share one blend mode.
+		* @property blendMode
+		* @type string
+		* @default "NORMAL"
+		* @public
+		* @since 1.4.0
+		*/
+		public blendMode: string = "NORMAL";
+
 		/**
 		* A boolean that indicates whether or not this entity is visible or not. Note that is does not get set to false if the alpha is 0.
 		* @property _visible
@@ -121,6 +189,72 @@ module Kiwi {
 			return this._visible;
 		}
 
+		/**
+		* The layer that this entity is on, from 0 to 31. Cameras only draw the layers which are set in their 'layerMask'.
+		* This can be used to show an entity in a minimap but not the main view, for example.
+		* @property layer
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public layer: number = 0;
+
+		/**
+		* If the entity is rendered into its own texture, which is kept between frames, when using the WebGL renderer.
+		* The texture is only redrawn when 'invalidateCache' has been called, or the area covered by the entity has changed.
+		* This is useful for entitys which rarely change but are expensive to draw.
+		* @property cacheAsTexture
+		* @type boolean
+		* @default false
+		* @public
+		* @since 1.4.0
+		*/
+		public cacheAsTexture: boolean = false;
+
+		/**
+		* Filters which are applied to this entity alone, when using the WebGL renderer.
+		* When there are enabled filters, the entity is rendered into its own texture, the filters are applied to it, and the result is drawn onto the scene.
+		* @property filters
+		* @type Kiwi.Filters.Filter[]
+		* @public
+		* @since 1.4.0
+		*/
+		public filters: Kiwi.Filters.Filter[] = [];
+
+		/**
+		* The number of pixels of empty space around the entity in its texture.
+		* Filters which draw outside of the entity, such as a glow or outline, need this to be large enough to fit.
+		* @property filterPadding
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public filterPadding: number = 0;
+
+		/**
+		* The texture that this entity is rendered into, when it is cached or has filters.
+		* It is created by the GLRenderManager and is null until then.
+		* @property renderTexture
+		* @type Kiwi.Renderers.GLRenderTexture
+		* @default null
+		* @public
+		* @since 1.4.0
+		*/
+		public renderTexture: Kiwi.Renderers.GLRenderTexture = null;
+
+		/**
+		* Marks the texture of a entity with 'cacheAsTexture' set as needing to be redrawn.
+		* Call this after changing what the entity looks like.
+		* @method invalidateCache
+		* @public
+		* @since 1.4.0
+		*/
+		public invalidateCache() {
+			if (this.renderTexture !== null) this.renderTexture.dirty = true;
+		}
+
 		/**
 		* The width of the entity in pixels, pre-transform.
 		*
@@ -143,6 +277,30 @@ module Kiwi {
 		*/
 		public height: number = 0;
 
+		/**
+		* If the renderers skip this entity when it is outside the view of the camera being rendered.
+		* Turn this off for entities which draw outside of their width and height.
+		* @property cullable
+		* @type boolean
+		* @default true
+		* @public
+		* @since 1.4.0
+		*/
+		public cullable: boolean = true;
+
+		/**
+		* Returns the area that this entity covers in the world, which the renderers test against the view of the camera when culling.
+		* @method getWorldBounds
+		* @param [output] {Kiwi.Geom.Rectangle} A rectangle to store the result in. One is created if none is given.
+		* @return {Kiwi.Geom.Rectangle}
+		* @public
+		* @since 1.4.0
+		*/
+		public getWorldBounds(output: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle()): Kiwi.Geom.Rectangle {
+			output.setTo(0, 0, this.width, this.height);
+			return this.transform.getConcatenatedMatrix().transformRect(output, output);
+		}
+
 		/**
 		* Scale to desired width, preserving aspect ratio. This function changes the scale, not the width. If the width changes, for example, as part of an animation sequence, the Entity will retain the new scale.
 		* @method scaleToWidth
@@ -205,8 +363,14 @@ module Kiwi {
 				if (cell !== undefined) {
 					//Update the width/height of the GameObject to be the same as the width/height
 					this._cellIndex = val;
-					this.width = cell.w;
-					this.height = cell.h;
+					//Trimmed cells have the size of their untrimmed frame
+					var w: number = cell.sourceW || cell.w;
+					var h: number = cell.sourceH || cell.h;
+					if (this.width !== w || this.height !== h) {
+						this.width = w;
+						this.height = h;
+						this.dirty = true;
+					}
 
 				} else {
 
@@ -459,6 +623,8 @@ module Kiwi {
 
 				if (this.parent !== null && typeof this.parent !== "undefined") this.parent.removeChild(this);
 				if (this.state) this.state.removeFromTrackingList(this);
+				if (this.renderTexture !== null) this.renderTexture.destroy(this.game.stage.gl);
+				delete this.renderTexture;
 				delete this._parent;
 				delete this._clock;
 				delete this.state;
@@ -188,6 +188,7 @@ module Kiwi {
 			this.renderer = null;
 
 			this.cameras = new Kiwi.CameraManager(this);
+			this.debugRenderer = new Kiwi.Renderers.DebugRenderer(this);
 
 			if (this._deviceTargetOption !== Kiwi.TARGET_COCOON) this.huds = new Kiwi.HUD.HUDManager(this);
 			this.loader = new Kiwi.Files.Loader(this);
@@ -366,6 +367,15 @@ module Kiwi {
 		 */
 		public cameras: Kiwi.CameraManager = null;
 
+		/**
+		 * Draws the debug overlay of hitboxes, bounds, pivots and camera frustums. Turned off by default.
+		 * @property debugRenderer
+		 * @type Kiwi.Renderers.DebugRenderer
+		 * @public
+		 * @since 1.4.0
+		 */
+		public debugRenderer: Kiwi.Renderers.DebugRenderer = null;
+
 		/**
 		 * Manages plugins registration and initialisation for the game instance.
 		 * @property pluginManager
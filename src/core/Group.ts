@@ -1040,6 +1040,84 @@ module Kiwi {
 			return this._visible;
 		}
 
+		/**
+		* Whether the members of this Group are drawn by the DebugRenderer of the Game.
+		* When null the setting of the parent Group is used, so you can turn debug drawing off for a whole State and back on for a single Group.
+		* Nothing is drawn unless the DebugRenderer itself is enabled.
+		* @property debugDraw
+		* @type boolean
+		* @default null
+		* @public
+		* @since 1.4.0
+		*/
+		public debugDraw: boolean = null;
+
+		/**
+		* The layer that this group is on, from 0 to 31. Cameras only draw the layers which are set in their 'layerMask'.
+		* When a camera does not draw the layer of a group, none of its members are drawn either.
+		* @property layer
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public layer: number = 0;
+
+		/**
+		* If the group is rendered into its own texture, which is kept between frames, when using the WebGL renderer.
+		* The texture is only redrawn when 'invalidateCache' has been called, or the area covered by the group has changed.
+		* This is useful for groups which rarely change but are expensive to draw.
+		* @property cacheAsTexture
+		* @type boolean
+		* @default false
+		* @public
+		* @since 1.4.0
+		*/
+		public cacheAsTexture: boolean = false;
+
+		/**
+		* Filters which are applied to this group alone, when using the WebGL renderer.
+		* When there are enabled filters, the group is rendered into its own texture, the filters are applied to it, and the result is drawn onto the scene.
+		* @property filters
+		* @type Kiwi.Filters.Filter[]
+		* @public
+		* @since 1.4.0
+		*/
+		public filters: Kiwi.Filters.Filter[] = [];
+
+		/**
+		* The number of pixels of empty space around the group in its texture.
+		* Filters which draw outside of the group, such as a glow or outline, need this to be large enough to fit.
+		* @property filterPadding
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public filterPadding: number = 0;
+
+		/**
+		* The texture that this group is rendered into, when it is cached or has filters.
+		* It is created by the GLRenderManager and is null until then.
+		* @property renderTexture
+		* @type Kiwi.Renderers.GLRenderTexture
+		* @default null
+		* @public
+		* @since 1.4.0
+		*/
+		public renderTexture: Kiwi.Renderers.GLRenderTexture = null;
+
+		/**
+		* Marks the texture of a group with 'cacheAsTexture' set as needing to be redrawn.
+		* Call this after changing what the group looks like.
+		* @method invalidateCache
+		* @public
+		* @since 1.4.0
+		*/
+		public invalidateCache() {
+			if (this.renderTexture !== null) this.renderTexture.dirty = true;
+		}
+
 
 		/**
 		* ---------------
@@ -1144,6 +1222,8 @@ module Kiwi {
 
 				if (this.parent !== null) this.parent.removeChild(this);
 				if (this.state) this.state.removeFromTrackingList(this);
+				if (this.renderTexture !== null) this.renderTexture.destroy(this.game.stage.gl);
+				delete this.renderTexture;
 				if (this.components) this.components.removeAll();
 				delete this.components;
 				delete this.game;
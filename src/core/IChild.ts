@@ -144,6 +144,51 @@ module Kiwi {
 		*/
 		transform: Kiwi.Geom.Transform;
 
+		/**
+		* The layer that this object is on, from 0 to 31. Cameras only draw the layers which are set in their 'layerMask'.
+		* @property layer
+		* @type number
+		* @public
+		* @since 1.4.0
+		*/
+		layer: number;
+
+		/**
+		* If the object is rendered into its own texture, which is kept between frames, when using the WebGL renderer.
+		* @property cacheAsTexture
+		* @type boolean
+		* @public
+		* @since 1.4.0
+		*/
+		cacheAsTexture: boolean;
+
+		/**
+		* Filters which are applied to this object alone, when using the WebGL renderer.
+		* @property filters
+		* @type Kiwi.Filters.Filter[]
+		* @public
+		* @since 1.4.0
+		*/
+		filters: Kiwi.Filters.Filter[];
+
+		/**
+		* The number of pixels of empty space around the object in its texture, for filters which draw outside of it.
+		* @property filterPadding
+		* @type number
+		* @public
+		* @since 1.4.0
+		*/
+		filterPadding: number;
+
+		/**
+		* The texture that this object is rendered into, when it is cached or has filters.
+		* @property renderTexture
+		* @type Kiwi.Renderers.GLRenderTexture
+		* @public
+		* @since 1.4.0
+		*/
+		renderTexture: Kiwi.Renderers.GLRenderTexture;
+
 		/**
 		* Call this to clean up the object for deletion and garbage collection.
 		* @method destroy
@@ -0,0 +1,251 @@
+/**
+*
+* @module Kiwi
+*
+*/
+
+module Kiwi {
+
+	/**
+	* The SpatialIndex keeps track of where every Entity of a State is in the game world, so that you can quickly find the Entities which are at a particular place.
+	* Each State creates one when it boots. Entities are added to it when they are created, and are re-indexed lazily whenever their Transform (or that of an ancestor) changes.
+	* Camera culling, pointer hit-testing and physics can all use the same index instead of each scanning the scene graph.
+	*
+	* @class SpatialIndex
+	* @namespace Kiwi
+	* @constructor
+	* @param state {Kiwi.State} The State that this index belongs to.
+	* @param [cellSize=128] {Number} The size of each cell in the underlying SpatialHash.
+	* @return {Kiwi.SpatialIndex}
+	* @since 1.4.0
+	*/
+	export class SpatialIndex {
+
+		constructor(state: Kiwi.State, cellSize: number = 128) {
+			this.state = state;
+			this.hash = new Kiwi.Geom.SpatialHash(cellSize);
+			this._dirty = {};
+			this._dirtyList = [];
+			this._scratchRect = new Kiwi.Geom.Rectangle();
+			this._scratchResults = [];
+		}
+
+		/**
+		* The type of this object.
+		* @method objType
+		* @return {String} "SpatialIndex"
+		* @public
+		*/
+		public objType() {
+			return "SpatialIndex";
+		}
+
+		/**
+		* The State that this index belongs to.
+		* @property state
+		* @type Kiwi.State
+		* @public
+		*/
+		public state: Kiwi.State;
+
+		/**
+		* The hash which the bounds of each Entity are stored in.
+		* @property hash
+		* @type Kiwi.Geom.SpatialHash
+		* @public
+		*/
+		public hash: Kiwi.Geom.SpatialHash;
+
+		/**
+		* The Entities which need to be re-indexed, indexed by their id.
+		* @property _dirty
+		* @type Object
+		* @private
+		*/
+		private _dirty: any;
+
+		/**
+		* The Entities which need to be re-indexed, in the order they were invalidated.
+		* @property _dirtyList
+		* @type Array
+		* @private
+		*/
+		private _dirtyList: Kiwi.Entity[];
+
+		/**
+		* Scratch rectangle used when calculating the bounds of an Entity.
+		* @property _scratchRect
+		* @type Kiwi.Geom.Rectangle
+		* @private
+		*/
+		private _scratchRect: Kiwi.Geom.Rectangle;
+
+		/**
+		* Scratch array that the hash writes candidates into before they are filtered.
+		* @property _scratchResults
+		* @type Array
+		* @private
+		*/
+		private _scratchResults: Kiwi.Entity[];
+
+		/**
+		* Adds an Entity to the index. This is called automatically when an Entity is created.
+		* @method add
+		* @param entity {Kiwi.Entity}
+		* @public
+		*/
+		public add(entity: Kiwi.Entity) {
+			this.invalidate(entity);
+		}
+
+		/**
+		* Removes an Entity from the index. This is called automatically when an Entity is destroyed.
+		* @method remove
+		* @param entity {Kiwi.Entity}
+		* @public
+		*/
+		public remove(entity: Kiwi.Entity) {
+			if (this._dirty[entity.id]) {
+				delete this._dirty[entity.id];
+				this._dirtyList.splice(this._dirtyList.indexOf(entity), 1);
+			}
+			this.hash.remove(entity);
+		}
+
+		/**
+		* Flags an Entity as needing to be re-indexed before the next query.
+		* This is called automatically whenever the Transform of an Entity (or an ancestor) changes.
+		* @method invalidate
+		* @param entity {Kiwi.Entity}
+		* @public
+		*/
+		public invalidate(entity: Kiwi.Entity) {
+			if (this._dirty[entity.id]) return;
+			this._dirty[entity.id] = true;
+			this._dirtyList.push(entity);
+		}
+
+		/**
+		* Re-indexes every Entity which has been invalidated since the last refresh.
+		* Queries call this automatically, so you should only need to call it yourself when you are using the hash directly.
+		* @method refresh
+		* @public
+		*/
+		public refresh() {
+
+			for (var i = 0; i < this._dirtyList.length; i++) {
+				var entity = this._dirtyList[i];
+
+				if (entity.transform) {
+					this.hash.update(entity, this.getBounds(entity, this._scratchRect));
+				}
+			}
+
+			this._dirty = {};
+			this._dirtyList.length = 0;
+		}
+
+		/**
+		* Calculates the axis aligned bounds of an Entity in world space.
+		* When the Entity has a Box2 component, the bounds also cover its hitbox, so that physics can find the Entities it may overlap.
+		* @method getBounds
+		* @param entity {Kiwi.Entity}
+		* @param [output] {Kiwi.Geom.Rectangle} A rectangle to store the result in.
+		* @return {Kiwi.Geom.Rectangle}
+		* @public
+		*/
+		public getBounds(entity: Kiwi.Entity, output: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle()): Kiwi.Geom.Rectangle {
+			output.setTo(0, 0, entity.width, entity.height);
+			entity.transform.getConcatenatedMatrix().transformRect(output, output);
+
+			var box: Kiwi.Components.Box2 = entity.components.getComponent('Box2');
+			if (box !== null) {
+				var hitbox: Kiwi.Geom.Rectangle = box.worldHitbox;
+				var right: number = Math.max(output.right, hitbox.right);
+				var bottom: number = Math.max(output.bottom, hitbox.bottom);
+				output.x = Math.min(output.x, hitbox.x);
+				output.y = Math.min(output.y, hitbox.y);
+				output.width = right - output.x;
+				output.height = bottom - output.y;
+			}
+
+			return output;
+		}
+
+		/**
+		* Returns every Entity on the State whose world bounds overlap a rectangle in world space.
+		* @method queryRectangle
+		* @param rect {Kiwi.Geom.Rectangle}
+		* @param [output] {Array} An array to add the Entities to.
+		* @return {Array}
+		* @public
+		*/
+		public queryRectangle(rect: Kiwi.Geom.Rectangle, output: Kiwi.Entity[] = []): Kiwi.Entity[] {
+			this.refresh();
+			return this._filter(this.hash.queryRectangle(rect, this._scratchResults), output);
+		}
+
+		/**
+		* Returns every Entity on the State whose world bounds contain a point in world space.
+		* @method queryPoint
+		* @param point {Kiwi.Geom.Point}
+		* @param [output] {Array} An array to add the Entities to.
+		* @return {Array}
+		* @public
+		*/
+		public queryPoint(point: Kiwi.Geom.Point, output: Kiwi.Entity[] = []): Kiwi.Entity[] {
+			this.refresh();
+			return this._filter(this.hash.queryPoint(point, this._scratchResults), output);
+		}
+
+		/**
+		* Returns every Entity on the State whose world bounds are hit by a ray in world space.
+		* @method queryRay
+		* @param ray {Kiwi.Geom.Ray}
+		* @param [output] {Array} An array to add the Entities to.
+		* @return {Array}
+		* @public
+		*/
+		public queryRay(ray: Kiwi.Geom.Ray, output: Kiwi.Entity[] = []): Kiwi.Entity[] {
+			this.refresh();
+			return this._filter(this.hash.queryRay(ray, this._scratchResults), output);
+		}
+
+		/**
+		* Copies the candidates which exist and have been added to the State into the output array.
+		* @method _filter
+		* @param candidates {Array}
+		* @param output {Array}
+		* @return {Array} The output array.
+		* @private
+		*/
+		private _filter(candidates: Kiwi.Entity[], output: Kiwi.Entity[]): Kiwi.Entity[] {
+
+			for (var i = 0; i < candidates.length; i++) {
+				var entity = candidates[i];
+
+				if (entity.exists && this.state.containsAncestor(entity, this.state)) {
+					output.push(entity);
+				}
+			}
+
+			candidates.length = 0;
+
+			return output;
+		}
+
+		/**
+		* Removes every Entity from the index.
+		* @method destroy
+		* @public
+		*/
+		public destroy() {
+			this.hash.clear();
+			this._dirty = {};
+			this._dirtyList.length = 0;
+			delete this.state;
+		}
+
+	}
+
+}
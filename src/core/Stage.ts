@@ -780,6 +780,7 @@ module Kiwi {
 		* and rendering/clearing of the canvas is upto the developer. 
 		* The context for rendering can be access via the "dctx" property and
 		* you can use the "clearDebugCanvas" method to clear the canvas.
+		* Enabling the "debugRenderer" of the Game creates the canvas and draws an overlay on it every frame.
 		*
 		* @method createDebugCanvas
 		* @public
@@ -28,6 +28,8 @@ module Kiwi {
 			this.components = new Kiwi.ComponentManager(Kiwi.STATE, this);
 			this.transform.parent = null;
 			this._trackingList = [];
+			this.spatialIndex = new Kiwi.SpatialIndex(this);
+			this.tileObjectFactories = {};
 		}
 
 		/**
@@ -90,6 +92,17 @@ module Kiwi {
 		*/
 		public dataLibrary: Kiwi.Files.DataLibrary;
 
+		/**
+		* Maps the 'type' of objects from Tiled object layers to the GameObjects that should be created for them.
+		* Each value is a constructor which takes the State and the TileObject, e.g. this.tileObjectFactories.coin = Coin;
+		* When a TileMap is created from Tiled JSON, the objects with a registered type are spawned automatically.
+		* @property tileObjectFactories
+		* @type Object
+		* @since 1.4.0
+		* @public
+		*/
+		public tileObjectFactories: any;
+
 		/**
 		* Holds all of the textures that are avaiable to be accessed once this state has been loaded.
 		* E.g. If you loaded a image and named it 'flower', once everything has loaded you can then access the flower image by saying this.textures.flower
@@ -333,6 +346,25 @@ module Kiwi {
 
 		}
 
+		/**
+		* Adds a new bitmap font that is to be loaded when the states gets up to the stage of loading the assets.
+		* Once loaded, the font is in the texture library under its key, and can be used to create BitmapText.
+		*
+		* @method addBitmapFont
+		* @param key {String} A key for this font so that you can access it when the loading has finished.
+		* @param imageURL {String|String[]} The location of the image of each page of the font.
+		* @param fontID {String} The id for the font file that is to be loaded.
+		* @param fontURL {String} The location of the BMFont file, in either the text or XML format.
+		* @param [storeAsGlobal=true] {boolean} If the font should be deleted when switching to another state or if the other states should still be able to access it.
+		* @public
+		* @since 1.4.0
+		*/
+		public addBitmapFont(key: string, imageURL: any, fontID: string, fontURL: string, storeAsGlobal: boolean = true) {
+
+			return this.game.loader.addBitmapFont(key, imageURL, fontID, fontURL, storeAsGlobal);
+
+		}
+
 		/**
 		* Adds a json file that is to be loaded when the state gets up to the stage of loading the assets.
 		* 
@@ -369,6 +401,16 @@ module Kiwi {
 		*/
 
 
+		/**
+		* Keeps track of where each Entity that has been created for this state is in the game world.
+		* Use it to find the Entities that overlap a rectangle, point or ray without looping through the whole scene graph.
+		* @property spatialIndex
+		* @type Kiwi.SpatialIndex
+		* @since 1.4.0
+		* @public
+		*/
+		public spatialIndex: Kiwi.SpatialIndex;
+
 		/**
 		* Contains a reference to all of the Objects that have ever been created for this state. Generally Kiwi.Entities or Kiwi.Groups.
 		* Useful for keeping track of sprites that are not used any more and need to be destroyed.
@@ -390,6 +432,7 @@ module Kiwi {
 			if (this._trackingList.indexOf(child) !== -1) return;
 			//add to the list
 			this._trackingList.push(child);
+			if (child.childType() !== Kiwi.GROUP) this.spatialIndex.add(<Kiwi.Entity>child);
 		}
 
 		/**
@@ -405,6 +448,7 @@ module Kiwi {
 			if (n > -1) {
 				this._trackingList.splice(n, 1);
 			} 
+			if (child.childType() !== Kiwi.GROUP) this.spatialIndex.remove(<Kiwi.Entity>child);
 		}
 
 		/**
@@ -420,8 +464,9 @@ module Kiwi {
 			var d = 0; 
 			for (var i = 0; i < this._trackingList.length; i++) {
 				if (this.containsAncestor(this._trackingList[i], this) === false) {
-					this._trackingList[i].destroy();
-					this._trackingList.splice(i, 1);
+					var child = this._trackingList[i];
+					child.destroy();
+					this.removeFromTrackingList(child);
 					i--;
 					d++;
 				}
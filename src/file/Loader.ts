@@ -905,11 +905,14 @@ module Kiwi.Files {
 
 		/**
 		* Creates new file's for loading a texture atlas and adds those files to the loading queue.
+		* The data file can be in Kiwi's own JSON format, TexturePacker JSON (hash or array), Aseprite JSON, Starling/Sparrow XML or a Spine '.atlas' file.
+		* The regions of a Spine atlas are read from the page with the same file name as the image, or from its first page.
+		* Files with a url ending in '.xml' are loaded as XML.
 		* @method addTextureAtlas
 		* @param key {String} The key for the image file.
 		* @param imageUrl {String} The url of the image to load.
-		* @param jsonID {String} A key for the JSON file.
-		* @param jsonURL {String} The url of the json file to load.
+		* @param jsonID {String} A key for the JSON (or XML) file.
+		* @param jsonURL {String} The url of the json (or XML) file to load.
 		* @param [storeAsGlobal=true] {Boolean} If hte files should be stored globally or not.
 		* @return {Kiwi.Files.File} The file which was created.
 		* @public
@@ -964,6 +967,10 @@ module Kiwi.Files {
 
 			}
 
+			if (/\.xml(\?|$)/i.test(jsonParams.url)) {
+				jsonParams.type = Kiwi.Files.File.XML;
+			}
+
 			var imageFile = new Kiwi.Files.TextureFile(this.game, textureParams);
 			var jsonFile = new Kiwi.Files.DataFile(this.game, jsonParams);
 
@@ -973,6 +980,66 @@ module Kiwi.Files {
 			return imageFile;
 		}
 
+		/**
+		* Creates new files for loading a bitmap font and adds those files to the loading queue.
+		* The font file can be in either the text or XML format of AngelCode's BMFont. A font with several pages needs the url of each page, in order.
+		* The font is added to the texture library under the key of its first page.
+		* @method addBitmapFont
+		* @param key {String} The key for the font, which is also the key of the image of its first page.
+		* @param imageURL {String|String[]} The url of the image of each page of the font.
+		* @param fontID {String} A key for the font file.
+		* @param fontURL {String} The url of the font file to load.
+		* @param [storeAsGlobal=true] {Boolean} If the files should be stored globally or not.
+		* @return {Kiwi.Files.File} The file of the first page.
+		* @public
+		* @since 1.4.0
+		*/
+		public addBitmapFont(key: string, imageURL: any, fontID: string, fontURL: string, storeAsGlobal: boolean = true) {
+
+			var imageURLs: string[] = Kiwi.Utils.Common.isArray(imageURL) ? imageURL : [imageURL];
+			var pageIDs: string[] = [];
+
+			// Pages after the first are loaded as images, and stacked onto the first when the font is built
+			for (var i = 1; i < imageURLs.length; i++) {
+				pageIDs.push(key + "-page" + i);
+				this.addImage(pageIDs[i - 1], imageURLs[i], undefined, undefined, undefined, undefined, storeAsGlobal);
+			}
+
+			var textureParams: any = {
+				type: Kiwi.Files.File.TEXTURE_ATLAS,
+				key: key,
+				url: imageURLs[0],
+				fileStore: this.game.fileStore,
+				metadata: {
+					jsonID: fontID,
+					pageIDs: pageIDs,
+					bitmapFont: true
+				}
+			};
+			var fontParams: any = {
+				type: /\.xml(\?|$)/i.test(fontURL) ? Kiwi.Files.File.XML : Kiwi.Files.File.TEXT_DATA,
+				key: fontID,
+				url: fontURL,
+				fileStore: this.game.fileStore,
+				metadata: {
+					imageID: key
+				}
+			};
+
+			if (!storeAsGlobal && this.game.states.current) {
+				textureParams.state = this.game.states.current;
+				fontParams.state = this.game.states.current;
+			}
+
+			var imageFile = new Kiwi.Files.TextureFile(this.game, textureParams);
+			var fontFile = new Kiwi.Files.DataFile(this.game, fontParams);
+
+			this.addFileToQueue(imageFile);
+			this.addFileToQueue(fontFile);
+
+			return imageFile;
+		}
+
 		/**
 		* Creates a new File to store a audio piece. 
 		* This method firstly checks to see if the AUDIO file being loaded is supported or not by the browser/device before adding it to the loading queue.
@@ -0,0 +1,479 @@
+/**
+* Kiwi - GameObjects
+* @module Kiwi
+* @submodule GameObjects
+*
+*/
+
+module Kiwi.GameObjects {
+
+	/**
+	* BitmapText is a GameObject that renders text using the glyphs of a BitmapFont.
+	*
+	* Unlike a TextField, the text is not drawn onto a canvas of its own.
+	* Each glyph is drawn straight from the image of the font, so changing the text is cheap,
+	* the text stays sharp when scaled as far as the font allows, and under WebGL it is drawn in the same batch as sprites.
+	*
+	* Text is laid out with the kerning and line height of the font.
+	* Lines are broken at newlines, and at spaces when the text would be wider than 'maxWidth'.
+	* Each line is aligned within the width of the text, and the text itself starts at the position of the GameObject.
+	*
+	* @class BitmapText
+	* @namespace Kiwi.GameObjects
+	* @extends Kiwi.Entity
+	* @constructor
+	* @param state {Kiwi.State} The state that this BitmapText belongs to.
+	* @param font {Kiwi.Textures.BitmapFont} The font to draw the text with.
+	* @param [text=""] {String} The text to draw.
+	* @param [x=0] {Number} The new x coordinate from the Position component
+	* @param [y=0] {Number} The new y coordinate from the Position component
+	* @return {Kiwi.GameObjects.BitmapText} This Game Object.
+	* @since 1.4.0
+	*/
+	export class BitmapText extends Kiwi.Entity {
+
+		constructor(state: Kiwi.State, font: Kiwi.Textures.BitmapFont, text: string = "", x: number = 0, y: number = 0) {
+
+			super(state, x, y);
+
+			if (this.game.renderOption === Kiwi.RENDERER_WEBGL) {
+				this.glRenderer = this.game.renderer.requestSharedRenderer("TextureAtlasRenderer");
+			}
+
+			this.atlas = font;
+			this.name = font.name;
+			this._text = text;
+
+			this._updateLayout();
+
+			this.box = this.components.add(new Kiwi.Components.Box2(this, 0, 0, this.width, this.height));
+		}
+
+		/**
+		* Returns the type of object that this is.
+		* @method objType
+		* @return {string} "BitmapText"
+		* @public
+		*/
+		public objType(): string {
+			return "BitmapText";
+		}
+
+		/**
+		* A value used to align each line to the left.
+		* @property TEXT_ALIGN_LEFT
+		* @type string
+		* @default "left"
+		* @public
+		* @static
+		*/
+		public static TEXT_ALIGN_LEFT: string = "left";
+
+		/**
+		* A value used to align each line to the centre.
+		* @property TEXT_ALIGN_CENTER
+		* @type string
+		* @default "center"
+		* @public
+		* @static
+		*/
+		public static TEXT_ALIGN_CENTER: string = "center";
+
+		/**
+		* A value used to align each line to the right.
+		* @property TEXT_ALIGN_RIGHT
+		* @type string
+		* @default "right"
+		* @public
+		* @static
+		*/
+		public static TEXT_ALIGN_RIGHT: string = "right";
+
+		/**
+		* The Box component that is used for hit detection.
+		* @property box
+		* @type Kiwi.Components.Box2
+		* @public
+		*/
+		public box: Kiwi.Components.Box2;
+
+		/**
+		* The text that is drawn.
+		* @property _text
+		* @type string
+		* @private
+		*/
+		private _text: string;
+
+		/**
+		* The text that is drawn. Newlines start a new line.
+		* @property text
+		* @type string
+		* @public
+		*/
+		public get text(): string {
+			return this._text;
+		}
+		public set text(value: string) {
+			if (this._text === value) return;
+			this._text = value;
+			this._layoutDirty = true;
+		}
+
+		/**
+		* The font that the text is drawn with.
+		* @property font
+		* @type Kiwi.Textures.BitmapFont
+		* @public
+		*/
+		public get font(): Kiwi.Textures.BitmapFont {
+			return <Kiwi.Textures.BitmapFont>this.atlas;
+		}
+		public set font(value: Kiwi.Textures.BitmapFont) {
+			this.atlas = value;
+			this._layoutDirty = true;
+		}
+
+		/**
+		* The alignment of each line within the width of the text.
+		* @property _textAlign
+		* @type string
+		* @private
+		*/
+		private _textAlign: string = "left";
+
+		/**
+		* The alignment of each line within the width of the text. This can either be "left", "right" or "center".
+		* @property textAlign
+		* @type string
+		* @default "left"
+		* @public
+		*/
+		public get textAlign(): string {
+			return this._textAlign;
+		}
+		public set textAlign(value: string) {
+			this._textAlign = value;
+			this._layoutDirty = true;
+		}
+
+		/**
+		* The widest that a line can be before it is wrapped.
+		* @property _maxWidth
+		* @type number
+		* @private
+		*/
+		private _maxWidth: number = 0;
+
+		/**
+		* The widest that a line can be before it is wrapped at a space, in pixels. 0 means that lines are only broken at newlines.
+		* A single word which is wider than this is not broken. When set, the text is this wide and lines are aligned within it.
+		* @property maxWidth
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public get maxWidth(): number {
+			return this._maxWidth;
+		}
+		public set maxWidth(value: number) {
+			this._maxWidth = value;
+			this._layoutDirty = true;
+		}
+
+		/**
+		* The extra space between characters.
+		* @property _letterSpacing
+		* @type number
+		* @private
+		*/
+		private _letterSpacing: number = 0;
+
+		/**
+		* The extra space between characters, in pixels. This can be negative.
+		* @property letterSpacing
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public get letterSpacing(): number {
+			return this._letterSpacing;
+		}
+		public set letterSpacing(value: number) {
+			this._letterSpacing = value;
+			this._layoutDirty = true;
+		}
+
+		/**
+		* The extra space between lines.
+		* @property _lineSpacing
+		* @type number
+		* @private
+		*/
+		private _lineSpacing: number = 0;
+
+		/**
+		* The extra space between lines, added to the line height of the font, in pixels. This can be negative.
+		* @property lineSpacing
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public get lineSpacing(): number {
+			return this._lineSpacing;
+		}
+		public set lineSpacing(value: number) {
+			this._lineSpacing = value;
+			this._layoutDirty = true;
+		}
+
+		/**
+		* If the text needs to be laid out again before it is drawn.
+		* @property _layoutDirty
+		* @type boolean
+		* @private
+		*/
+		private _layoutDirty: boolean = true;
+
+		/**
+		* The glyphs to draw, as three values each: the index of the cell, and the x and y to draw it at.
+		* @property _glyphs
+		* @type number[]
+		* @private
+		*/
+		private _glyphs: number[] = [];
+
+		/**
+		* The number of lines that the text was laid out over.
+		* @property _numLines
+		* @type number
+		* @private
+		*/
+		private _numLines: number = 0;
+
+		/**
+		* The number of lines that the text is laid out over, once wrapped. This is READ ONLY.
+		* @property numLines
+		* @type number
+		* @public
+		*/
+		public get numLines(): number {
+			if (this._layoutDirty) this._updateLayout();
+			return this._numLines;
+		}
+
+		/**
+		* Used to transform the corners of each glyph.
+		* @property _pt
+		* @type Kiwi.Geom.Point
+		* @private
+		*/
+		private _pt: Kiwi.Geom.Point = new Kiwi.Geom.Point(0, 0);
+
+		/**
+		* Returns how wide a line of text is, with kerning and letter spacing.
+		* @method measureLine
+		* @param line {string}
+		* @return {number}
+		* @public
+		*/
+		public measureLine(line: string): number {
+			var font: Kiwi.Textures.BitmapFont = this.font;
+			var width: number = 0;
+			var previous: number = -1;
+
+			for (var i = 0; i < line.length; i++) {
+				var code: number = line.charCodeAt(i);
+				var glyph = font.getGlyph(code);
+				if (glyph === null) continue;
+
+				if (previous !== -1) width += font.getKerning(previous, code) + this._letterSpacing;
+				width += glyph.xAdvance;
+				previous = code;
+			}
+
+			return width;
+		}
+
+		/**
+		* Splits the text into lines, at newlines and wherever a line would be wider than 'maxWidth'.
+		* @method _wrapText
+		* @return {string[]}
+		* @private
+		*/
+		private _wrapText(): string[] {
+			var paragraphs: string[] = this._text.split(/\r?\n/);
+			if (this._maxWidth <= 0) return paragraphs;
+
+			var lines: string[] = [];
+			for (var i = 0; i < paragraphs.length; i++) {
+				var words: string[] = paragraphs[i].split(" ");
+				var line: string = words[0];
+
+				for (var j = 1; j < words.length; j++) {
+					var candidate: string = line + " " + words[j];
+					if (this.measureLine(candidate) > this._maxWidth) {
+						lines.push(line);
+						line = words[j];
+					} else {
+						line = candidate;
+					}
+				}
+				lines.push(line);
+			}
+
+			return lines;
+		}
+
+		/**
+		* Lays out the glyphs of the text, and sets the width and height to the area they cover.
+		* @method _updateLayout
+		* @private
+		*/
+		private _updateLayout() {
+			var font: Kiwi.Textures.BitmapFont = this.font;
+			var lines: string[] = this._wrapText();
+
+			var widths: number[] = [];
+			var blockWidth: number = this._maxWidth;
+			for (var i = 0; i < lines.length; i++) {
+				widths.push(this.measureLine(lines[i]));
+				if (this._maxWidth <= 0) blockWidth = Math.max(blockWidth, widths[i]);
+			}
+
+			var align: number = 0;
+			if (this._textAlign === BitmapText.TEXT_ALIGN_CENTER) align = 0.5;
+			else if (this._textAlign === BitmapText.TEXT_ALIGN_RIGHT) align = 1;
+
+			this._glyphs.length = 0;
+			var lineHeight: number = font.lineHeight + this._lineSpacing;
+
+			for (var i = 0; i < lines.length; i++) {
+				var cursor: number = (blockWidth - widths[i]) * align;
+				var y: number = i * lineHeight;
+				var previous: number = -1;
+
+				for (var j = 0; j < lines[i].length; j++) {
+					var code: number = lines[i].charCodeAt(j);
+					var glyph = font.getGlyph(code);
+					if (glyph === null) continue;
+
+					if (previous !== -1) cursor += font.getKerning(previous, code) + this._letterSpacing;
+
+					var cell = font.cells[glyph.cell];
+					if (cell.w > 0 && cell.h > 0) {
+						this._glyphs.push(glyph.cell, cursor + glyph.xOffset, y + glyph.yOffset);
+					}
+
+					cursor += glyph.xAdvance;
+					previous = code;
+				}
+			}
+
+			this._numLines = lines.length;
+			this.width = blockWidth;
+			this.height = lines.length * font.lineHeight + Math.max(0, lines.length - 1) * this._lineSpacing;
+			this._layoutDirty = false;
+		}
+
+		/**
+		* Returns the area that the text covers in the world. The text is laid out first if it has changed.
+		* @method getWorldBounds
+		* @param [output] {Kiwi.Geom.Rectangle} A rectangle to store the result in. One is created if none is given.
+		* @return {Kiwi.Geom.Rectangle}
+		* @public
+		*/
+		public getWorldBounds(output: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle()): Kiwi.Geom.Rectangle {
+			if (this._layoutDirty) this._updateLayout();
+			return super.getWorldBounds(output);
+		}
+
+		/**
+		* Called by the Layer to which this Game Object is attached
+		* @method render
+		* @param {Kiwi.Camera}
+		* @public
+		*/
+		public render(camera: Kiwi.Camera) {
+
+			super.render(camera);
+
+			if (this.alpha > 0) {
+
+				if (this._layoutDirty) this._updateLayout();
+
+				var ctx: CanvasRenderingContext2D = this.game.stage.ctx;
+				ctx.save();
+
+				if (this.alpha > 0 && this.alpha <= 1) {
+					ctx.globalAlpha = this.alpha;
+				}
+
+				var m: Kiwi.Geom.Matrix = this.transform.getConcatenatedMatrix();
+				ctx.transform(m.a, m.b, m.c, m.d, m.tx, m.ty);
+
+				var image = this.atlas.image;
+				var renderer = <Kiwi.Renderers.CanvasRenderer>this.game.renderer;
+				for (var i = 0; i < this._glyphs.length; i += 3) {
+					var cell = this.atlas.cells[this._glyphs[i]];
+					if (this.isTinted) {
+						ctx.drawImage(renderer.tintCell(image, cell, this.tint, this.colorOffset), this._glyphs[i + 1], this._glyphs[i + 2]);
+					} else {
+						Kiwi.Textures.TextureAtlas.drawCell(ctx, image, cell, this._glyphs[i + 1], this._glyphs[i + 2]);
+					}
+				}
+
+				ctx.restore();
+			}
+		}
+
+		/**
+		* Renders the GameObject using WebGL.
+		* Each glyph is added to the batch of the TextureAtlasRenderer as its own quad.
+		* @method renderGL
+		* @param {WebGLRenderingContext} gl
+		* @param {Kiwi.Camera} camera
+		* @param {Object} params
+		* @public
+		*/
+		public renderGL(gl: WebGLRenderingContext, camera: Kiwi.Camera, params: any = null) {
+
+			if (this.alpha <= 0) return;
+			if (this._layoutDirty) this._updateLayout();
+
+			var m: Kiwi.Geom.Matrix = this.transform.getConcatenatedMatrix();
+			var vertexItems: number[] = [];
+
+			for (var i = 0; i < this._glyphs.length; i += 3) {
+				var cell = this.atlas.cells[this._glyphs[i]];
+				var x: number = this._glyphs[i + 1];
+				var y: number = this._glyphs[i + 2];
+
+				this._addCorner(vertexItems, m, x, y, cell.x, cell.y);
+				this._addCorner(vertexItems, m, x + cell.w, y, cell.x + cell.w, cell.y);
+				this._addCorner(vertexItems, m, x + cell.w, y + cell.h, cell.x + cell.w, cell.y + cell.h);
+				this._addCorner(vertexItems, m, x, y + cell.h, cell.x, cell.y + cell.h);
+			}
+
+			(<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatBatch(vertexItems, this);
+		}
+
+		/**
+		* Adds the xyuv and alpha of the corner of a glyph to the vertex items, transformed by the matrix passed.
+		* @method _addCorner
+		* @param vertexItems {number[]}
+		* @param m {Kiwi.Geom.Matrix}
+		* @param x {number}
+		* @param y {number}
+		* @param u {number}
+		* @param v {number}
+		* @private
+		*/
+		private _addCorner(vertexItems: number[], m: Kiwi.Geom.Matrix, x: number, y: number, u: number, v: number) {
+			m.transformPointInPlace(this._pt.setTo(x, y));
+			vertexItems.push(this._pt.x, this._pt.y, u, v, this.alpha);
+		}
+
+	}
+
+}
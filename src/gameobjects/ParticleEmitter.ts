@@ -0,0 +1,967 @@
+/**
+* Kiwi - GameObjects
+* @module Kiwi
+* @submodule GameObjects
+*
+*/
+
+module Kiwi.GameObjects {
+
+	/**
+	* A ParticleEmitter is a GameObject which emits particles, for effects such as explosions, smoke and sparks.
+	* Each particle is a cell of the texture atlas of the emitter, which moves, spins and fades over its lifespan.
+	*
+	* Particles are not GameObjects. They are kept in a pool of 'maxParticles' which is reused, so emitting them does not create garbage,
+	* and under WebGL all of the particles of an emitter are drawn through the TextureAtlasRenderer in a single batch.
+	* Particles are emitted in world space, so they are left behind when the emitter moves, and their velocity is not rotated with it.
+	*
+	* The emitter is set up from a config object, which can be loaded as JSON with 'addJSON' and passed in as the file.
+	* Any property which is not in the config keeps its default. For example:
+	*
+	*     {
+	*         "cells": [0, 1],
+	*         "rate": 20, "burst": 10, "duration": -1, "maxParticles": 200,
+	*         "lifespan": { "min": 0.5, "max": 1.5 },
+	*         "speed": { "min": 50, "max": 100 }, "angle": { "min": 70, "max": 110 },
+	*         "rotation": 0, "spin": { "min": -90, "max": 90 },
+	*         "gravityX": 0, "gravityY": 200,
+	*         "shape": "circle", "shapeRadius": 16, "emitFromEdge": false,
+	*         "scale": [1, 0.2], "alpha": [{ "time": 0, "value": 0 }, { "time": 0.1, "value": 1 }, { "time": 1, "value": 0 }],
+	*         "color": ["#ffff00", "#ff0000"]
+	*     }
+	*
+	* Ranges can be a single number, an array of [min, max] or an object with a 'min' and 'max', and a value is picked between them for each particle.
+	* Curves set a value over the life of a particle. They can be a single number, an array of numbers spread evenly over its life,
+	* or an array of keys which each have a 'time' from 0 to 1 and a 'value'. The color curve uses colors in any format that Kiwi.Utils.Color understands.
+	*
+	* @class ParticleEmitter
+	* @namespace Kiwi.GameObjects
+	* @extends Kiwi.Entity
+	* @constructor
+	* @param state {Kiwi.State} The state that this ParticleEmitter belongs to.
+	* @param atlas {Kiwi.Textures.TextureAtlas} The texture atlas that the particles use.
+	* @param [config=null] {any} The config of the emitter, as an object, a JSON string, or the file it was loaded in.
+	* @param [x=0] {Number} The new x coordinate from the Position component
+	* @param [y=0] {Number} The new y coordinate from the Position component
+	* @return {Kiwi.GameObjects.ParticleEmitter} This Game Object.
+	* @since 1.4.0
+	*/
+	export class ParticleEmitter extends Kiwi.Entity {
+
+		constructor(state: Kiwi.State, atlas: Kiwi.Textures.TextureAtlas, config: any = null, x: number = 0, y: number = 0) {
+
+			super(state, x, y);
+
+			if (this.game.renderOption === Kiwi.RENDERER_WEBGL) {
+				this.glRenderer = this.game.renderer.requestSharedRenderer("TextureAtlasRenderer");
+			}
+
+			this.atlas = atlas;
+			this.name = atlas.name;
+			this.cells = [0];
+
+			this._particles = [];
+			this.maxParticles = 100;
+
+			this._scaleCurve = [0, 1];
+			this._alphaCurve = [0, 1];
+			this._colorCurve = [0, 1, 1, 1];
+
+			this.onComplete = new Kiwi.Signal;
+
+			var autoStart: boolean = true;
+			if (config !== null) {
+				config = this.configure(config);
+				if (config.autoStart !== undefined) autoStart = config.autoStart;
+			}
+
+			if (autoStart) this.start();
+		}
+
+		/**
+		* Returns the type of object that this is.
+		* @method objType
+		* @return {string} "ParticleEmitter"
+		* @public
+		*/
+		public objType(): string {
+			return "ParticleEmitter";
+		}
+
+		/**
+		* A shape which emits every particle from the position of the emitter.
+		* @property SHAPE_POINT
+		* @type string
+		* @default "point"
+		* @public
+		* @static
+		*/
+		public static SHAPE_POINT: string = "point";
+
+		/**
+		* A shape which emits particles from within a rectangle of 'shapeWidth' and 'shapeHeight', centred on the emitter.
+		* @property SHAPE_RECTANGLE
+		* @type string
+		* @default "rectangle"
+		* @public
+		* @static
+		*/
+		public static SHAPE_RECTANGLE: string = "rectangle";
+
+		/**
+		* A shape which emits particles from within a circle of 'shapeRadius', centred on the emitter.
+		* @property SHAPE_CIRCLE
+		* @type string
+		* @default "circle"
+		* @public
+		* @static
+		*/
+		public static SHAPE_CIRCLE: string = "circle";
+
+		/**
+		* Dispatches callbacks once the emitter has stopped emitting and all of its particles have died.
+		* @property onComplete
+		* @type Kiwi.Signal
+		* @public
+		*/
+		public onComplete: Kiwi.Signal;
+
+		/**
+		* The indices of the cells of the atlas that particles use. Each particle picks one of them.
+		* @property cells
+		* @type number[]
+		* @public
+		*/
+		public cells: number[];
+
+		/**
+		* The number of particles emitted each second while the emitter is emitting.
+		* @property rate
+		* @type number
+		* @default 10
+		* @public
+		*/
+		public rate: number = 10;
+
+		/**
+		* The number of particles emitted at once when the emitter starts.
+		* @property burst
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public burst: number = 0;
+
+		/**
+		* How long the emitter emits for once started, in seconds. A negative duration emits until it is stopped.
+		* @property duration
+		* @type number
+		* @default -1
+		* @public
+		*/
+		public duration: number = -1;
+
+		/**
+		* How long each particle lives for, in seconds.
+		* @property lifespan
+		* @type object
+		* @public
+		*/
+		public lifespan: any = { min: 1, max: 1 };
+
+		/**
+		* The speed that particles are emitted at, in pixels per second.
+		* @property speed
+		* @type object
+		* @public
+		*/
+		public speed: any = { min: 100, max: 100 };
+
+		/**
+		* The direction that particles are emitted in, in degrees. 0 is to the right and 90 is up, as angles turn anticlockwise the same way as the rotation of a GameObject.
+		* @property angle
+		* @type object
+		* @public
+		*/
+		public angle: any = { min: 0, max: 360 };
+
+		/**
+		* The rotation that particles are emitted with, in degrees. Like 'angle' and the rotation of a GameObject, positive rotations turn particles anticlockwise. This is the 'rotation' of a config.
+		* @property particleRotation
+		* @type object
+		* @public
+		*/
+		public particleRotation: any = { min: 0, max: 0 };
+
+		/**
+		* How fast particles spin, in degrees per second.
+		* @property spin
+		* @type object
+		* @public
+		*/
+		public spin: any = { min: 0, max: 0 };
+
+		/**
+		* The acceleration of particles along the x axis, in pixels per second per second.
+		* @property gravityX
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public gravityX: number = 0;
+
+		/**
+		* The acceleration of particles along the y axis, in pixels per second per second.
+		* @property gravityY
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public gravityY: number = 0;
+
+		/**
+		* The shape that particles are emitted from. One of the SHAPE statics.
+		* @property shape
+		* @type string
+		* @default "point"
+		* @public
+		*/
+		public shape: string = ParticleEmitter.SHAPE_POINT;
+
+		/**
+		* The width of the rectangle that particles are emitted from.
+		* @property shapeWidth
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public shapeWidth: number = 0;
+
+		/**
+		* The height of the rectangle that particles are emitted from.
+		* @property shapeHeight
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public shapeHeight: number = 0;
+
+		/**
+		* The radius of the circle that particles are emitted from.
+		* @property shapeRadius
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public shapeRadius: number = 0;
+
+		/**
+		* If particles are emitted from the edge of the shape, rather than from anywhere within it.
+		* @property emitFromEdge
+		* @type boolean
+		* @default false
+		* @public
+		*/
+		public emitFromEdge: boolean = false;
+
+		/**
+		* The pool of particles. The first '_count' of them are alive.
+		* @property _particles
+		* @type object[]
+		* @private
+		*/
+		private _particles: any[];
+
+		/**
+		* The number of particles which are alive.
+		* @property _count
+		* @type number
+		* @private
+		*/
+		private _count: number = 0;
+
+		/**
+		* The scale of particles over their life, as pairs of time and scale.
+		* @property _scaleCurve
+		* @type number[]
+		* @private
+		*/
+		private _scaleCurve: number[];
+
+		/**
+		* The alpha of particles over their life, as pairs of time and alpha.
+		* @property _alphaCurve
+		* @type number[]
+		* @private
+		*/
+		private _alphaCurve: number[];
+
+		/**
+		* The color of particles over their life, as a time followed by the red, green and blue from 0 to 1.
+		* @property _colorCurve
+		* @type number[]
+		* @private
+		*/
+		private _colorCurve: number[];
+
+		/**
+		* If the emitter is emitting.
+		* @property _emitting
+		* @type boolean
+		* @private
+		*/
+		private _emitting: boolean = false;
+
+		/**
+		* If the emitter has started and not yet completed.
+		* @property _running
+		* @type boolean
+		* @private
+		*/
+		private _running: boolean = false;
+
+		/**
+		* How long the emitter has been emitting for, in seconds.
+		* @property _emitTime
+		* @type number
+		* @private
+		*/
+		private _emitTime: number = 0;
+
+		/**
+		* The part of a particle which is still to be emitted, carried over from the last update.
+		* @property _emitCounter
+		* @type number
+		* @private
+		*/
+		private _emitCounter: number = 0;
+
+		/**
+		* The time on the clock at the last update, used to find how far to move the particles on.
+		* @property _lastElapsed
+		* @type number
+		* @private
+		*/
+		private _lastElapsed: number = 0;
+
+		/**
+		* The matrix of a particle. Reused for each particle.
+		* @property _matrix
+		* @type Kiwi.Geom.Matrix
+		* @private
+		*/
+		private _matrix: Kiwi.Geom.Matrix = new Kiwi.Geom.Matrix();
+
+		/**
+		* A point that is reused when transforming positions.
+		* @property _pt
+		* @type Kiwi.Geom.Point
+		* @private
+		*/
+		private _pt: Kiwi.Geom.Point = new Kiwi.Geom.Point(0, 0);
+
+		/**
+		* An array that is reused for the values sampled from curves.
+		* @property _values
+		* @type number[]
+		* @private
+		*/
+		private _values: number[] = [0, 0, 0];
+
+		/**
+		* A color that is reused when tinting particles under canvas.
+		* @property _particleTint
+		* @type Kiwi.Utils.Color
+		* @private
+		*/
+		private _particleTint: Kiwi.Utils.Color = new Kiwi.Utils.Color();
+
+		/**
+		* The most particles that can be alive at once. Particles are not emitted while the pool is full.
+		* Changing this keeps as many of the living particles as fit.
+		* @property maxParticles
+		* @type number
+		* @default 100
+		* @public
+		*/
+		public get maxParticles(): number {
+			return this._particles.length;
+		}
+		public set maxParticles(value: number) {
+			value = Math.max(0, Math.floor(value));
+			while (this._particles.length < value) {
+				this._particles.push({ x: 0, y: 0, vx: 0, vy: 0, age: 0, life: 1, rotation: 0, spin: 0, cell: 0 });
+			}
+			this._particles.length = value;
+			this._count = Math.min(this._count, value);
+		}
+
+		/**
+		* The number of particles which are alive.
+		* @property count
+		* @type number
+		* @public
+		*/
+		public get count(): number {
+			return this._count;
+		}
+
+		/**
+		* If the emitter is emitting.
+		* @property isEmitting
+		* @type boolean
+		* @public
+		*/
+		public get isEmitting(): boolean {
+			return this._emitting;
+		}
+
+		/**
+		* Sets up the emitter from a config. Properties which are not in the config are left as they are.
+		* @method configure
+		* @param config {any} The config, as an object, a JSON string, or the file it was loaded in.
+		* @return {object} The config object that was read.
+		* @public
+		*/
+		public configure(config: any): any {
+			if (config instanceof Kiwi.Files.File) {
+				config = config.data;
+			}
+			if (Kiwi.Utils.Common.isString(config)) {
+				config = JSON.parse(config);
+			}
+
+			if (config.cells !== undefined) this.cells = this._readCells([].concat(config.cells));
+			if (config.rate !== undefined) this.rate = config.rate;
+			if (config.burst !== undefined) this.burst = config.burst;
+			if (config.duration !== undefined) this.duration = config.duration;
+			if (config.maxParticles !== undefined) this.maxParticles = config.maxParticles;
+
+			if (config.lifespan !== undefined) this.lifespan = this._readRange(config.lifespan);
+			if (config.speed !== undefined) this.speed = this._readRange(config.speed);
+			if (config.angle !== undefined) this.angle = this._readRange(config.angle);
+			if (config.rotation !== undefined) this.particleRotation = this._readRange(config.rotation);
+			if (config.spin !== undefined) this.spin = this._readRange(config.spin);
+			if (config.gravityX !== undefined) this.gravityX = config.gravityX;
+			if (config.gravityY !== undefined) this.gravityY = config.gravityY;
+
+			if (config.shape !== undefined) this.shape = config.shape;
+			if (config.shapeWidth !== undefined) this.shapeWidth = config.shapeWidth;
+			if (config.shapeHeight !== undefined) this.shapeHeight = config.shapeHeight;
+			if (config.shapeRadius !== undefined) this.shapeRadius = config.shapeRadius;
+			if (config.emitFromEdge !== undefined) this.emitFromEdge = config.emitFromEdge;
+
+			if (config.scale !== undefined) this.setScaleCurve(config.scale);
+			if (config.alpha !== undefined) this.setAlphaCurve(config.alpha);
+			if (config.color !== undefined) this.setColorCurve(config.color);
+
+			return config;
+		}
+
+		/**
+		* Sets the scale of particles over their life.
+		* @method setScaleCurve
+		* @param curve {any} A number, an array of numbers spread over the life of a particle, or an array of keys with a 'time' and 'value'.
+		* @public
+		*/
+		public setScaleCurve(curve: any) {
+			this._scaleCurve = this._readCurve(curve, false);
+		}
+
+		/**
+		* Sets the alpha of particles over their life. This is multiplied by the alpha of the emitter.
+		* @method setAlphaCurve
+		* @param curve {any} A number, an array of numbers spread over the life of a particle, or an array of keys with a 'time' and 'value'.
+		* @public
+		*/
+		public setAlphaCurve(curve: any) {
+			this._alphaCurve = this._readCurve(curve, false);
+		}
+
+		/**
+		* Sets the color of particles over their life. This is multiplied by the tint of the emitter.
+		* @method setColorCurve
+		* @param curve {any} A color, an array of colors spread over the life of a particle, or an array of keys with a 'time' and 'value'.
+		* @public
+		*/
+		public setColorCurve(curve: any) {
+			this._colorCurve = this._readCurve(curve, true);
+		}
+
+		/**
+		* Starts emitting particles, after emitting the burst.
+		* @method start
+		* @public
+		*/
+		public start() {
+			this._emitting = true;
+			this._running = true;
+			this._emitTime = 0;
+			this._emitCounter = 0;
+			this._lastElapsed = this.clock.elapsed();
+			this.emit(this.burst);
+		}
+
+		/**
+		* Stops emitting particles. The particles which are alive carry on until they die.
+		* @method stop
+		* @public
+		*/
+		public stop() {
+			this._emitting = false;
+		}
+
+		/**
+		* Kills every particle which is alive.
+		* @method killAll
+		* @public
+		*/
+		public killAll() {
+			this._count = 0;
+		}
+
+		/**
+		* Emits a number of particles at once, from the shape at the current position of the emitter.
+		* @method emit
+		* @param count {number}
+		* @public
+		*/
+		public emit(count: number) {
+			if (count <= 0 || this.cells.length === 0) return;
+
+			var rnd: Kiwi.Utils.RandomDataGenerator = this.game.rnd;
+			var m: Kiwi.Geom.Matrix = this.transform.getConcatenatedMatrix();
+
+			for (var i = 0; i < count && this._count < this._particles.length; i++) {
+				var p = this._particles[this._count++];
+
+				this._pickPoint(rnd);
+				m.transformPointInPlace(this._pt);
+
+				var angle: number = Kiwi.Utils.GameMath.degreesToRadians(this._pickInRange(rnd, this.angle));
+				var speed: number = this._pickInRange(rnd, this.speed);
+
+				p.x = this._pt.x;
+				p.y = this._pt.y;
+				p.vx = Math.cos(angle) * speed;
+				// The y axis points down, so a positive angle points up to turn the same way as rotation
+				p.vy = -Math.sin(angle) * speed;
+				p.age = 0;
+				p.life = Math.max(this._pickInRange(rnd, this.lifespan), 0.0001);
+				p.rotation = Kiwi.Utils.GameMath.degreesToRadians(this._pickInRange(rnd, this.particleRotation));
+				p.spin = Kiwi.Utils.GameMath.degreesToRadians(this._pickInRange(rnd, this.spin));
+				p.cell = (this.cells.length === 1) ? this.cells[0] : rnd.pick(this.cells);
+			}
+
+			this._running = true;
+		}
+
+		/**
+		* Picks the point that a particle is emitted from, relative to the emitter, and puts it in '_pt'.
+		* @method _pickPoint
+		* @param rnd {Kiwi.Utils.RandomDataGenerator}
+		* @private
+		*/
+		private _pickPoint(rnd: Kiwi.Utils.RandomDataGenerator) {
+			switch (this.shape) {
+				case ParticleEmitter.SHAPE_RECTANGLE:
+					var w: number = this.shapeWidth, h: number = this.shapeHeight;
+					if (this.emitFromEdge && w + h > 0) {
+						// Pick a distance around the perimeter, so that longer sides get more particles
+						var d: number = rnd.frac() * (w + h) * 2;
+						if (d < w) this._pt.setTo(d, 0);
+						else if (d < w + h) this._pt.setTo(w, d - w);
+						else if (d < w * 2 + h) this._pt.setTo(d - w - h, h);
+						else this._pt.setTo(0, d - w * 2 - h);
+					} else {
+						this._pt.setTo(rnd.frac() * w, rnd.frac() * h);
+					}
+					this._pt.setTo(this._pt.x - w / 2, this._pt.y - h / 2);
+					break;
+
+				case ParticleEmitter.SHAPE_CIRCLE:
+					var a: number = rnd.frac() * Math.PI * 2;
+					// The square root spreads particles evenly over the area, rather than bunching them in the middle
+					var r: number = this.emitFromEdge ? this.shapeRadius : Math.sqrt(rnd.frac()) * this.shapeRadius;
+					this._pt.setTo(Math.cos(a) * r, Math.sin(a) * r);
+					break;
+
+				default:
+					this._pt.setTo(0, 0);
+					break;
+			}
+		}
+
+		/**
+		* Called by parent when its update loop gets executed.
+		* Emits new particles, and moves and ages the particles which are alive.
+		* @method update
+		* @public
+		*/
+		public update() {
+
+			super.update();
+
+			var elapsed: number = this.clock.elapsed();
+			var delta: number = elapsed - this._lastElapsed;
+			this._lastElapsed = elapsed;
+			if (delta <= 0) return;
+
+			if (this._emitting) {
+				// Only emit for the part of the update that was within the duration
+				var emitDelta: number = delta;
+				if (this.duration >= 0) {
+					emitDelta = Math.max(0, Math.min(delta, this.duration - this._emitTime));
+				}
+				this._emitTime += delta;
+
+				this._emitCounter += this.rate * emitDelta;
+				var count: number = Math.floor(this._emitCounter);
+				this._emitCounter -= count;
+				this.emit(count);
+
+				if (this.duration >= 0 && this._emitTime >= this.duration) {
+					this._emitting = false;
+				}
+			}
+
+			var gx: number = this.gravityX * delta;
+			var gy: number = this.gravityY * delta;
+			var i: number = 0;
+
+			while (i < this._count) {
+				var p = this._particles[i];
+				p.age += delta;
+
+				if (p.age >= p.life) {
+					// Swap the dead particle with the last one alive, so that the living particles stay at the front
+					this._count--;
+					this._particles[i] = this._particles[this._count];
+					this._particles[this._count] = p;
+					continue;
+				}
+
+				p.vx += gx;
+				p.vy += gy;
+				p.x += p.vx * delta;
+				p.y += p.vy * delta;
+				p.rotation += p.spin * delta;
+				i++;
+			}
+
+			if (this._running && !this._emitting && this._count === 0) {
+				this._running = false;
+				this.onComplete.dispatch(this);
+			}
+		}
+
+		/**
+		* Works out the matrix of a particle and puts it in '_matrix', and its color and alpha in '_values' as [r, g, b, alpha].
+		* @method _prepareParticle
+		* @param p {object}
+		* @private
+		*/
+		private _prepareParticle(p: any) {
+			var t: number = p.age / p.life;
+
+			this._sampleCurve(this._scaleCurve, 1, t, this._values);
+			var scale: number = this._values[0];
+
+			var cos: number = Math.cos(p.rotation) * scale;
+			var sin: number = Math.sin(p.rotation) * scale;
+			// The same arrangement as the matrix of a Transform
+			this._matrix.setTo(cos, -sin, sin, cos, p.x, p.y);
+
+			this._sampleCurve(this._alphaCurve, 1, t, this._values);
+			var alpha: number = this._values[0] * this.alpha;
+
+			this._sampleCurve(this._colorCurve, 3, t, this._values);
+			this._values[3] = alpha;
+		}
+
+		/**
+		* Returns the rectangle, in world coordinates, which holds all of the living particles.
+		* @method getWorldBounds
+		* @param [output] {Kiwi.Geom.Rectangle} A rectangle to store the result in. One is created if none is given.
+		* @return {Kiwi.Geom.Rectangle}
+		* @public
+		*/
+		public getWorldBounds(output: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle()): Kiwi.Geom.Rectangle {
+			if (this._count === 0) {
+				var m: Kiwi.Geom.Matrix = this.transform.getConcatenatedMatrix();
+				return output.setTo(m.tx, m.ty, 0, 0);
+			}
+
+			var left: number = Infinity, top: number = Infinity, right: number = -Infinity, bottom: number = -Infinity;
+
+			for (var i = 0; i < this._count; i++) {
+				var p = this._particles[i];
+				var cell = this.atlas.cells[p.cell];
+				this._sampleCurve(this._scaleCurve, 1, p.age / p.life, this._values);
+				// Half of the diagonal holds the particle at any rotation
+				var size: number = Math.sqrt(cell.w * cell.w + cell.h * cell.h) / 2 * Math.abs(this._values[0]);
+
+				left = Math.min(left, p.x - size);
+				top = Math.min(top, p.y - size);
+				right = Math.max(right, p.x + size);
+				bottom = Math.max(bottom, p.y + size);
+			}
+
+			return output.setTo(left, top, right - left, bottom - top);
+		}
+
+		/**
+		* Called by the Layer to which this Game Object is attached
+		* @method render
+		* @param {Kiwi.Camera}
+		* @public
+		*/
+		public render(camera: Kiwi.Camera) {
+
+			super.render(camera);
+
+			if (this.alpha <= 0 || this._count === 0) return;
+
+			var ctx: CanvasRenderingContext2D = this.game.stage.ctx;
+			var renderer = <Kiwi.Renderers.CanvasRenderer>this.game.renderer;
+			var image = this.atlas.image;
+			var values: number[] = this._values;
+
+			for (var i = 0; i < this._count; i++) {
+				var p = this._particles[i];
+				this._prepareParticle(p);
+				if (values[3] <= 0) continue;
+
+				var cell = this.atlas.cells[p.cell];
+				var x: number = -(cell.sourceW || cell.w) / 2 + (cell.offsetX || 0);
+				var y: number = -(cell.sourceH || cell.h) / 2 + (cell.offsetY || 0);
+				var m: Kiwi.Geom.Matrix = this._matrix;
+
+				ctx.save();
+				ctx.globalAlpha = Math.min(values[3], 1);
+				ctx.transform(m.a, m.b, m.c, m.d, m.tx, m.ty);
+
+				if (this.isTinted || values[0] !== 1 || values[1] !== 1 || values[2] !== 1) {
+					this._particleTint.rNorm = this.tint.rNorm * values[0];
+					this._particleTint.gNorm = this.tint.gNorm * values[1];
+					this._particleTint.bNorm = this.tint.bNorm * values[2];
+					ctx.drawImage(renderer.tintCell(image, cell, this._particleTint, this.colorOffset), x, y);
+				} else {
+					Kiwi.Textures.TextureAtlas.drawCell(ctx, image, cell, x, y);
+				}
+
+				ctx.restore();
+			}
+		}
+
+		/**
+		* Renders the GameObject using WebGL.
+		* Every particle is added to the batch of the TextureAtlasRenderer as its own quad, so they are all drawn together.
+		* @method renderGL
+		* @param {WebGLRenderingContext} gl
+		* @param {Kiwi.Camera} camera
+		* @param {Object} params
+		* @public
+		*/
+		public renderGL(gl: WebGLRenderingContext, camera: Kiwi.Camera, params: any = null) {
+
+			if (this.alpha <= 0 || this._count === 0) return;
+
+			var vertexItems: number[] = [];
+			var values: number[] = this._values;
+
+			for (var i = 0; i < this._count; i++) {
+				var p = this._particles[i];
+				this._prepareParticle(p);
+				if (values[3] <= 0) continue;
+
+				var cell = this.atlas.cells[p.cell];
+				var x: number = -(cell.sourceW || cell.w) / 2 + (cell.offsetX || 0);
+				var y: number = -(cell.sourceH || cell.h) / 2 + (cell.offsetY || 0);
+				var r: number = this.tint.rNorm * values[0];
+				var g: number = this.tint.gNorm * values[1];
+				var b: number = this.tint.bNorm * values[2];
+				var a: number = values[3];
+
+				if (cell.anticlockwise) {
+					// The cell is stored turned anticlockwise, so its top left corner is at the bottom left of its area in the image
+					this._addCorner(vertexItems, x, y, cell.x, cell.y + cell.w, a, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y, cell.x, cell.y, a, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y + cell.h, cell.x + cell.h, cell.y, a, r, g, b);
+					this._addCorner(vertexItems, x, y + cell.h, cell.x + cell.h, cell.y + cell.w, a, r, g, b);
+				} else if (cell.rotated) {
+					// The cell is stored turned clockwise, so its top left corner is at the top right of its area in the image
+					this._addCorner(vertexItems, x, y, cell.x + cell.h, cell.y, a, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y, cell.x + cell.h, cell.y + cell.w, a, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y + cell.h, cell.x, cell.y + cell.w, a, r, g, b);
+					this._addCorner(vertexItems, x, y + cell.h, cell.x, cell.y, a, r, g, b);
+				} else {
+					this._addCorner(vertexItems, x, y, cell.x, cell.y, a, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y, cell.x + cell.w, cell.y, a, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y + cell.h, cell.x + cell.w, cell.y + cell.h, a, r, g, b);
+					this._addCorner(vertexItems, x, y + cell.h, cell.x, cell.y + cell.h, a, r, g, b);
+				}
+			}
+
+			(<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatTintedBatch(vertexItems, this);
+		}
+
+		/**
+		* Adds the xyuv, alpha and tint of the corner of a particle to the vertex items, transformed by the matrix of the particle.
+		* @method _addCorner
+		* @param vertexItems {number[]}
+		* @param x {number}
+		* @param y {number}
+		* @param u {number}
+		* @param v {number}
+		* @param alpha {number}
+		* @param r {number}
+		* @param g {number}
+		* @param b {number}
+		* @private
+		*/
+		private _addCorner(vertexItems: number[], x: number, y: number, u: number, v: number, alpha: number, r: number, g: number, b: number) {
+			this._matrix.transformPointInPlace(this._pt.setTo(x, y));
+			vertexItems.push(this._pt.x, this._pt.y, u, v, alpha, r, g, b);
+		}
+
+		/**
+		* Returns a random value within a range.
+		* @method _pickInRange
+		* @param rnd {Kiwi.Utils.RandomDataGenerator}
+		* @param range {object} A range with a 'min' and 'max'.
+		* @return {number}
+		* @private
+		*/
+		private _pickInRange(rnd: Kiwi.Utils.RandomDataGenerator, range: any): number {
+			return (range.min === range.max) ? range.min : rnd.realInRange(range.min, range.max);
+		}
+
+		/**
+		* Reads a range of a config.
+		* @method _readRange
+		* @param value {any} A number, an array of [min, max], or an object with a 'min' and 'max'.
+		* @return {object} The range, with a 'min' and 'max'.
+		* @private
+		*/
+		private _readRange(value: any): any {
+			if (typeof value === "number") {
+				return { min: value, max: value };
+			}
+			if (Kiwi.Utils.Common.isArray(value)) {
+				return { min: value[0], max: (value.length > 1) ? value[1] : value[0] };
+			}
+			return { min: value.min, max: (value.max !== undefined) ? value.max : value.min };
+		}
+
+		/**
+		* Reads the cells of a config, which can be indices or the names of cells.
+		* @method _readCells
+		* @param cells {any[]}
+		* @return {number[]} The indices of the cells which were found.
+		* @private
+		*/
+		private _readCells(cells: any[]): number[] {
+			var result: number[] = [];
+			for (var i = 0; i < cells.length; i++) {
+				if (typeof cells[i] === "number") {
+					result.push(cells[i]);
+					continue;
+				}
+				for (var j = 0; j < this.atlas.cells.length; j++) {
+					if (this.atlas.cells[j].name === cells[i]) {
+						result.push(j);
+						break;
+					}
+				}
+			}
+			return result;
+		}
+
+		/**
+		* Reads a curve of a config into a flat array of keys, each of which is a time followed by its values.
+		* @method _readCurve
+		* @param curve {any} A value, an array of values spread evenly from 0 to 1, or an array of keys with a 'time' and 'value'.
+		* @param isColor {boolean} If the values are colors, which become their red, green and blue from 0 to 1.
+		* @return {number[]}
+		* @private
+		*/
+		private _readCurve(curve: any, isColor: boolean): number[] {
+			var keys: any[] = Kiwi.Utils.Common.isArray(curve) ? curve : [curve];
+			var result: number[] = [];
+
+			for (var i = 0; i < keys.length; i++) {
+				var key = keys[i];
+				var time: number = (keys.length > 1) ? i / (keys.length - 1) : 0;
+				var value = key;
+
+				if (key !== null && typeof key === "object" && key.value !== undefined) {
+					time = key.time || 0;
+					value = key.value;
+				}
+
+				result.push(time);
+				if (isColor) {
+					var color: Kiwi.Utils.Color = new Kiwi.Utils.Color(value);
+					result.push(color.rNorm, color.gNorm, color.bNorm);
+				} else {
+					result.push(value);
+				}
+			}
+
+			return result;
+		}
+
+		/**
+		* Finds the values of a curve at a time, interpolating between the keys either side of it.
+		* @method _sampleCurve
+		* @param curve {number[]} The flat array of keys.
+		* @param size {number} The number of values of each key.
+		* @param t {number} The time, from 0 to 1.
+		* @param out {number[]} The array to put the values in.
+		* @private
+		*/
+		private _sampleCurve(curve: number[], size: number, t: number, out: number[]) {
+			var stride: number = size + 1;
+			var i: number = 0;
+
+			while (i + stride < curve.length && curve[i + stride] <= t) {
+				i += stride;
+			}
+
+			var next: number = i + stride;
+			var v: number;
+
+			if (next >= curve.length || t <= curve[i]) {
+				for (v = 0; v < size; v++) {
+					out[v] = curve[i + 1 + v];
+				}
+				return;
+			}
+
+			var percent: number = (t - curve[i]) / (curve[next] - curve[i]);
+			for (v = 0; v < size; v++) {
+				out[v] = curve[i + 1 + v] + (curve[next + 1 + v] - curve[i + 1 + v]) * percent;
+			}
+		}
+
+		/**
+		* Destroys the emitter and its particles.
+		* @method destroy
+		* @param [immediate=false] {boolean} If the object should be immediately removed or if it should be removed at the end of the next update loop.
+		* @public
+		*/
+		public destroy(immediate: boolean = false) {
+
+			super.destroy(immediate);
+
+			if (immediate) {
+				if (this.onComplete) this.onComplete.dispose();
+				delete this.onComplete;
+				delete this._particles;
+			}
+		}
+
+	}
+
+}
@@ -0,0 +1,746 @@
+/**
+* Kiwi - GameObjects
+* @module Kiwi
+* @submodule GameObjects
+*
+*/
+
+module Kiwi.GameObjects {
+
+	/**
+	* A Skeleton is a GameObject which is animated by moving a hierarchy of bones, rather than by changing cells, as exported by Spine or DragonBones.
+	* Each slot of the skeleton shows an attachment, which is an image from a texture atlas that moves with a bone.
+	* As only the separate parts of a character are in the texture atlas, a skeleton uses far less texture memory than the same animations as frames.
+	*
+	* The skeleton file is loaded with 'addJSON', and its images with 'addTextureAtlas' as the JSON of TexturePacker, the texture atlas of DragonBones or the '.atlas' file of Spine.
+	* Attachments are matched to the cells of the atlas by name, with or without the extension of the image file.
+	*
+	* Clips are played with 'play', and can be faded from one to another by giving a mix duration or by setting mixes with 'setMix'.
+	* The time of the clips is kept by the clock of the Skeleton, so pausing the clock pauses the skeleton.
+	* Under WebGL the attachments are drawn through the TextureAtlasRenderer, in the same batch as sprites from the same texture.
+	*
+	* @class Skeleton
+	* @namespace Kiwi.GameObjects
+	* @extends Kiwi.Entity
+	* @constructor
+	* @param state {Kiwi.State} The state that this Skeleton belongs to.
+	* @param atlas {Kiwi.Textures.TextureAtlas} The texture atlas holding the images of the attachments.
+	* @param data {any} A SkeletonData, or the skeleton file of Spine or DragonBones as a string or parsed object.
+	* @param [x=0] {Number} The new x coordinate from the Position component
+	* @param [y=0] {Number} The new y coordinate from the Position component
+	* @param [skin] {String} The name of the skin to show. Defaults to "default", or the first skin if there is none with that name.
+	* @return {Kiwi.GameObjects.Skeleton} This Game Object.
+	* @since 1.4.0
+	*/
+	export class Skeleton extends Kiwi.Entity {
+
+		constructor(state: Kiwi.State, atlas: Kiwi.Textures.TextureAtlas, data: any, x: number = 0, y: number = 0, skin: string = null) {
+
+			super(state, x, y);
+
+			if (this.game.renderOption === Kiwi.RENDERER_WEBGL) {
+				this.glRenderer = this.game.renderer.requestSharedRenderer("TextureAtlasRenderer");
+			}
+
+			this.atlas = atlas;
+			this.name = atlas.name;
+			this.data = (data instanceof Kiwi.Animations.Skeletal.SkeletonData) ? data : new Kiwi.Animations.Skeletal.SkeletonData(data);
+
+			this._mixes = {};
+			this._buildRegions();
+
+			this.bones = [];
+			for (var i = 0; i < this.data.bones.length; i++) {
+				var boneData = this.data.bones[i];
+				var parent: Kiwi.Geom.Transform = (boneData.parent === -1) ? this.transform : this.bones[boneData.parent].transform;
+				this.bones.push(new Kiwi.Animations.Skeletal.Bone(boneData, parent));
+			}
+
+			this.slots = [];
+			for (var i = 0; i < this.data.slots.length; i++) {
+				this.slots.push({ data: this.data.slots[i], bone: this.bones[this.data.slots[i].bone], attachment: null, color: [1, 1, 1, 1] });
+			}
+			this.setToSetupPose();
+
+			if (skin === null) {
+				var skins: string[] = this.data.getSkinNames();
+				skin = (this.data.skins["default"] !== undefined || skins.length === 0) ? "default" : skins[0];
+			}
+			this._skin = skin;
+
+			this.onComplete = new Kiwi.Signal;
+			this.onLoop = new Kiwi.Signal;
+		}
+
+		/**
+		* Returns the type of object that this is.
+		* @method objType
+		* @return {string} "Skeleton"
+		* @public
+		*/
+		public objType(): string {
+			return "Skeleton";
+		}
+
+		/**
+		* The setup pose, skins and clips of the skeleton.
+		* @property data
+		* @type Kiwi.Animations.Skeletal.SkeletonData
+		* @public
+		*/
+		public data: Kiwi.Animations.Skeletal.SkeletonData;
+
+		/**
+		* The bones of the skeleton, in the same order as the bones of the data.
+		* @property bones
+		* @type Kiwi.Animations.Skeletal.Bone[]
+		* @public
+		*/
+		public bones: Kiwi.Animations.Skeletal.Bone[];
+
+		/**
+		* The slots of the skeleton, in the order they are drawn.
+		* Each has its 'data', the 'bone' it moves with, the name of the 'attachment' it is showing or null, and its 'color' as [r, g, b, a] from 0 to 1.
+		* @property slots
+		* @type object[]
+		* @public
+		*/
+		public slots: any[];
+
+		/**
+		* Dispatches callbacks when a clip which does not loop reaches its end.
+		* Functions dispatched from this signal have ONE parameter.
+		* One - The clip that completed.
+		* @property onComplete
+		* @type Kiwi.Signal
+		* @public
+		*/
+		public onComplete: Kiwi.Signal;
+
+		/**
+		* Dispatches callbacks each time a looping clip reaches its end and starts again.
+		* Functions dispatched from this signal have ONE parameter.
+		* One - The clip that looped.
+		* @property onLoop
+		* @type Kiwi.Signal
+		* @public
+		*/
+		public onLoop: Kiwi.Signal;
+
+		/**
+		* How fast the clips play. 1 is normal speed, and 0.5 is half speed.
+		* @property timeScale
+		* @type number
+		* @default 1
+		* @public
+		*/
+		public timeScale: number = 1;
+
+		/**
+		* The number of seconds that one clip fades into another for, when no mix has been set between them.
+		* @property defaultMix
+		* @type number
+		* @default 0
+		* @public
+		*/
+		public defaultMix: number = 0;
+
+		/**
+		* The name of the skin that is shown.
+		* @property _skin
+		* @type string
+		* @private
+		*/
+		private _skin: string;
+
+		/**
+		* The name of the skin that is shown.
+		* Attachments which are not in the skin are taken from the "default" skin, if it has them.
+		* @property skin
+		* @type string
+		* @public
+		*/
+		public get skin(): string {
+			return this._skin;
+		}
+		public set skin(value: string) {
+			if (this.data.skins[value] === undefined) {
+				Kiwi.Log.warn("Kiwi.GameObjects.Skeleton: There is no skin called '" + value + "'.", '#skeleton');
+				return;
+			}
+			this._skin = value;
+		}
+
+		/**
+		* The index of each cell of the atlas, keyed by its name and by its name without an extension.
+		* @property _regions
+		* @type object
+		* @private
+		*/
+		private _regions: any;
+
+		/**
+		* The number of seconds that one clip fades into another for, keyed by the name of the first clip and then of the second.
+		* @property _mixes
+		* @type object
+		* @private
+		*/
+		private _mixes: any;
+
+		/**
+		* The clip that is playing, with its 'clip', the 'time' it is at and if it should 'loop'.
+		* @property _current
+		* @type object
+		* @private
+		*/
+		private _current: any = null;
+
+		/**
+		* The clip that is being faded out of, while the current clip is faded into.
+		* @property _previous
+		* @type object
+		* @private
+		*/
+		private _previous: any = null;
+
+		/**
+		* How long the current clip has been faded in for, in seconds.
+		* @property _mixTime
+		* @type number
+		* @private
+		*/
+		private _mixTime: number = 0;
+
+		/**
+		* How long the current clip is faded in over, in seconds.
+		* @property _mixDuration
+		* @type number
+		* @private
+		*/
+		private _mixDuration: number = 0;
+
+		/**
+		* If the clips are playing.
+		* @property _isPlaying
+		* @type boolean
+		* @private
+		*/
+		private _isPlaying: boolean = false;
+
+		/**
+		* The time on the clock at the last update, used to find how far to move the clips on.
+		* @property _lastElapsed
+		* @type number
+		* @private
+		*/
+		private _lastElapsed: number = 0;
+
+		/**
+		* The matrix of an attachment relative to its bone. Reused for each attachment.
+		* @property _localMatrix
+		* @type Kiwi.Geom.Matrix
+		* @private
+		*/
+		private _localMatrix: Kiwi.Geom.Matrix = new Kiwi.Geom.Matrix();
+
+		/**
+		* The matrix of an attachment in the world. Reused for each attachment.
+		* @property _matrix
+		* @type Kiwi.Geom.Matrix
+		* @private
+		*/
+		private _matrix: Kiwi.Geom.Matrix = new Kiwi.Geom.Matrix();
+
+		/**
+		* A point that is reused when transforming the corners of attachments.
+		* @property _pt
+		* @type Kiwi.Geom.Point
+		* @private
+		*/
+		private _pt: Kiwi.Geom.Point = new Kiwi.Geom.Point(0, 0);
+
+		/**
+		* A color that is reused when tinting attachments under canvas.
+		* @property _slotTint
+		* @type Kiwi.Utils.Color
+		* @private
+		*/
+		private _slotTint: Kiwi.Utils.Color = new Kiwi.Utils.Color();
+
+		/**
+		* If a clip is playing.
+		* @property isPlaying
+		* @type boolean
+		* @public
+		*/
+		public get isPlaying(): boolean {
+			return this._isPlaying;
+		}
+
+		/**
+		* The clip that is playing, or was last played.
+		* @property currentClip
+		* @type Kiwi.Animations.Skeletal.SkeletonClip
+		* @public
+		*/
+		public get currentClip(): Kiwi.Animations.Skeletal.SkeletonClip {
+			return (this._current !== null) ? this._current.clip : null;
+		}
+
+		/**
+		* The time that the current clip is at, in seconds.
+		* @property time
+		* @type number
+		* @public
+		*/
+		public get time(): number {
+			return (this._current !== null) ? this._current.time : 0;
+		}
+		public set time(value: number) {
+			if (this._current !== null) {
+				this._current.time = value;
+				this._applyClips();
+			}
+		}
+
+		/**
+		* Returns a bone.
+		* @method findBone
+		* @param name {string}
+		* @return {Kiwi.Animations.Skeletal.Bone} The bone, or null if there is no bone with that name.
+		* @public
+		*/
+		public findBone(name: string): Kiwi.Animations.Skeletal.Bone {
+			var index: number = this.data.findBone(name);
+			return (index === -1) ? null : this.bones[index];
+		}
+
+		/**
+		* Returns a slot.
+		* @method findSlot
+		* @param name {string}
+		* @return {object} The slot, or null if there is no slot with that name.
+		* @public
+		*/
+		public findSlot(name: string): any {
+			var index: number = this.data.findSlot(name);
+			return (index === -1) ? null : this.slots[index];
+		}
+
+		/**
+		* Returns the bones and slots to their setup pose.
+		* @method setToSetupPose
+		* @public
+		*/
+		public setToSetupPose() {
+			for (var i = 0; i < this.bones.length; i++) {
+				this.bones[i].setToSetupPose();
+			}
+			for (var i = 0; i < this.slots.length; i++) {
+				var slot = this.slots[i];
+				slot.attachment = slot.data.attachment;
+				for (var c = 0; c < 4; c++) {
+					slot.color[c] = slot.data.color[c];
+				}
+			}
+		}
+
+		/**
+		* Sets how long one clip fades into another for, when the second is played while the first is playing.
+		* @method setMix
+		* @param from {string} The name of the clip faded out of.
+		* @param to {string} The name of the clip faded into.
+		* @param duration {number} The length of the fade, in seconds.
+		* @public
+		*/
+		public setMix(from: string, to: string, duration: number) {
+			if (this._mixes[from] === undefined) this._mixes[from] = {};
+			this._mixes[from][to] = duration;
+		}
+
+		/**
+		* Returns how long one clip fades into another for.
+		* @method getMix
+		* @param from {string} The name of the clip faded out of.
+		* @param to {string} The name of the clip faded into.
+		* @return {number} The length of the fade in seconds, which is the 'defaultMix' if no mix was set.
+		* @public
+		*/
+		public getMix(from: string, to: string): number {
+			if (this._mixes[from] !== undefined && this._mixes[from][to] !== undefined) {
+				return this._mixes[from][to];
+			}
+			return this.defaultMix;
+		}
+
+		/**
+		* Plays a clip from its start. If another clip is playing, the new clip is faded in over it.
+		* @method play
+		* @param name {string} The name of the clip.
+		* @param [loop=true] {boolean} If the clip starts again once it reaches its end.
+		* @param [mixDuration] {number} How long to fade into the clip for, in seconds. Defaults to the mix set between the clips.
+		* @return {Kiwi.Animations.Skeletal.SkeletonClip} The clip that is now playing, or null if there is no clip with that name.
+		* @public
+		*/
+		public play(name: string, loop: boolean = true, mixDuration?: number): Kiwi.Animations.Skeletal.SkeletonClip {
+			var clip = this.data.getClip(name);
+			if (clip === null) {
+				Kiwi.Log.warn("Kiwi.GameObjects.Skeleton: There is no clip called '" + name + "'.", '#skeleton');
+				return null;
+			}
+
+			if (mixDuration === undefined) {
+				mixDuration = (this._current !== null) ? this.getMix(this._current.clip.name, name) : 0;
+			}
+
+			this._previous = (this._current !== null && mixDuration > 0) ? this._current : null;
+			this._current = { clip: clip, time: 0, loop: loop };
+			this._mixTime = 0;
+			this._mixDuration = mixDuration;
+
+			this._isPlaying = true;
+			this._lastElapsed = this.clock.elapsed();
+			this._applyClips();
+
+			return clip;
+		}
+
+		/**
+		* Stops the clips where they are. The skeleton keeps its current pose.
+		* @method stop
+		* @public
+		*/
+		public stop() {
+			this._isPlaying = false;
+		}
+
+		/**
+		* Carries on playing the clips after they were stopped.
+		* @method resume
+		* @public
+		*/
+		public resume() {
+			if (this._current !== null) {
+				this._isPlaying = true;
+				this._lastElapsed = this.clock.elapsed();
+			}
+		}
+
+		/**
+		* Called by parent when its update loop gets executed.
+		* Moves the clips on by the time passed on the clock, and poses the skeleton.
+		* @method update
+		* @public
+		*/
+		public update() {
+
+			super.update();
+
+			if (!this._isPlaying || this._current === null) return;
+
+			var elapsed: number = this.clock.elapsed();
+			var delta: number = (elapsed - this._lastElapsed) * this.timeScale;
+			this._lastElapsed = elapsed;
+			if (delta <= 0) return;
+
+			if (this._previous !== null) {
+				this._previous.time += delta;
+				this._mixTime += delta;
+				if (this._mixTime >= this._mixDuration) {
+					this._previous = null;
+				}
+			}
+
+			var current = this._current;
+			var duration: number = current.clip.duration;
+			var lastTime: number = current.time;
+			current.time += delta;
+
+			if (duration > 0 && current.time >= duration) {
+				if (current.loop) {
+					var loops: number = Math.floor(current.time / duration) - Math.floor(lastTime / duration);
+					for (var i = 0; i < loops; i++) {
+						this.onLoop.dispatch(current.clip);
+					}
+				} else if (lastTime < duration) {
+					current.time = duration;
+					this._applyClips();
+					this._isPlaying = false;
+					this.onComplete.dispatch(current.clip);
+					return;
+				}
+			}
+
+			this._applyClips();
+		}
+
+		/**
+		* Poses the skeleton from its setup pose with the current clip, faded in over the previous clip if there is one.
+		* @method _applyClips
+		* @private
+		*/
+		private _applyClips() {
+			this.setToSetupPose();
+
+			if (this._previous !== null) {
+				this._previous.clip.apply(this.bones, this.slots, this._previous.time, this._previous.loop, 1);
+			}
+
+			if (this._current !== null) {
+				var alpha: number = (this._previous !== null && this._mixDuration > 0) ? Math.min(1, this._mixTime / this._mixDuration) : 1;
+				this._current.clip.apply(this.bones, this.slots, this._current.time, this._current.loop, alpha);
+			}
+		}
+
+		/**
+		* Builds the index of each cell of the atlas by its name.
+		* @method _buildRegions
+		* @private
+		*/
+		private _buildRegions() {
+			this._regions = {};
+			for (var i = 0; i < this.atlas.cells.length; i++) {
+				var name: string = this.atlas.cells[i].name;
+				if (name === undefined) continue;
+
+				this._regions[name] = i;
+				var dot: number = name.lastIndexOf(".");
+				if (dot > 0 && this._regions[name.substr(0, dot)] === undefined) {
+					this._regions[name.substr(0, dot)] = i;
+				}
+			}
+		}
+
+		/**
+		* Returns the attachment that a slot is showing, from the current skin or else the default skin.
+		* @method getAttachment
+		* @param slotIndex {number}
+		* @return {object} The attachment, or null if the slot is empty or its attachment is not in the skins.
+		* @public
+		*/
+		public getAttachment(slotIndex: number): any {
+			var name: string = this.slots[slotIndex].attachment;
+			if (name === null) return null;
+
+			var skin = this.data.skins[this._skin];
+			if (skin && skin[slotIndex] && skin[slotIndex][name]) {
+				return skin[slotIndex][name];
+			}
+
+			skin = this.data.skins["default"];
+			if (skin && skin[slotIndex] && skin[slotIndex][name]) {
+				return skin[slotIndex][name];
+			}
+
+			return null;
+		}
+
+		/**
+		* Works out the matrix which places an attachment in the world, and returns the cell that it draws.
+		* The matrix is put in '_matrix', and scales the cell to the size of the attachment.
+		* @method _prepareAttachment
+		* @param slotIndex {number}
+		* @return {object} The cell, or null if the slot has nothing to draw.
+		* @private
+		*/
+		private _prepareAttachment(slotIndex: number): any {
+			var attachment = this.getAttachment(slotIndex);
+			if (attachment === null) return null;
+
+			var cellIndex = this._regions[attachment.region];
+			if (cellIndex === undefined) return null;
+
+			var cell = this.atlas.cells[cellIndex];
+			var sourceW: number = cell.sourceW || cell.w;
+			var sourceH: number = cell.sourceH || cell.h;
+			var scaleX: number = attachment.scaleX * (attachment.width ? attachment.width / sourceW : 1);
+			var scaleY: number = attachment.scaleY * (attachment.height ? attachment.height / sourceH : 1);
+
+			// The same arrangement as the matrix of a Transform, without a pivot point
+			var rotation: number = Kiwi.Utils.GameMath.degreesToRadians(attachment.rotation);
+			var cos: number = Math.cos(rotation);
+			var sin: number = Math.sin(rotation);
+			this._localMatrix.setTo(cos * scaleX, -sin * scaleY, sin * scaleX, cos * scaleY, attachment.x, attachment.y);
+
+			this._matrix.setToMatrix(this.slots[slotIndex].bone.getWorldMatrix()).multiplyMatrixInPlace(this._localMatrix);
+
+			return cell;
+		}
+
+		/**
+		* Returns the rectangle, in world coordinates, which holds all of the attachments.
+		* @method getWorldBounds
+		* @param [output] {Kiwi.Geom.Rectangle} A rectangle to store the result in. One is created if none is given.
+		* @return {Kiwi.Geom.Rectangle}
+		* @public
+		*/
+		public getWorldBounds(output: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle()): Kiwi.Geom.Rectangle {
+			var left: number = Infinity, top: number = Infinity, right: number = -Infinity, bottom: number = -Infinity;
+
+			for (var i = 0; i < this.slots.length; i++) {
+				var cell = this._prepareAttachment(i);
+				if (cell === null) continue;
+
+				var x: number = -(cell.sourceW || cell.w) / 2 + (cell.offsetX || 0);
+				var y: number = -(cell.sourceH || cell.h) / 2 + (cell.offsetY || 0);
+
+				for (var c = 0; c < 4; c++) {
+					this._matrix.transformPointInPlace(this._pt.setTo(x + ((c === 1 || c === 2) ? cell.w : 0), y + ((c >= 2) ? cell.h : 0)));
+					left = Math.min(left, this._pt.x);
+					top = Math.min(top, this._pt.y);
+					right = Math.max(right, this._pt.x);
+					bottom = Math.max(bottom, this._pt.y);
+				}
+			}
+
+			if (left === Infinity) {
+				var m: Kiwi.Geom.Matrix = this.transform.getConcatenatedMatrix();
+				return output.setTo(m.tx, m.ty, 0, 0);
+			}
+
+			return output.setTo(left, top, right - left, bottom - top);
+		}
+
+		/**
+		* Called by the Layer to which this Game Object is attached
+		* @method render
+		* @param {Kiwi.Camera}
+		* @public
+		*/
+		public render(camera: Kiwi.Camera) {
+
+			super.render(camera);
+
+			if (this.alpha <= 0) return;
+
+			var ctx: CanvasRenderingContext2D = this.game.stage.ctx;
+			var renderer = <Kiwi.Renderers.CanvasRenderer>this.game.renderer;
+			var image = this.atlas.image;
+
+			for (var i = 0; i < this.slots.length; i++) {
+				var color: number[] = this.slots[i].color;
+				var alpha: number = this.alpha * color[3];
+				if (alpha <= 0) continue;
+
+				var cell = this._prepareAttachment(i);
+				if (cell === null) continue;
+
+				var x: number = -(cell.sourceW || cell.w) / 2 + (cell.offsetX || 0);
+				var y: number = -(cell.sourceH || cell.h) / 2 + (cell.offsetY || 0);
+				var m: Kiwi.Geom.Matrix = this._matrix;
+
+				ctx.save();
+				ctx.globalAlpha = Math.min(alpha, 1);
+				ctx.transform(m.a, m.b, m.c, m.d, m.tx, m.ty);
+
+				if (this.isTinted || color[0] !== 1 || color[1] !== 1 || color[2] !== 1) {
+					this._slotTint.rNorm = this.tint.rNorm * color[0];
+					this._slotTint.gNorm = this.tint.gNorm * color[1];
+					this._slotTint.bNorm = this.tint.bNorm * color[2];
+					ctx.drawImage(renderer.tintCell(image, cell, this._slotTint, this.colorOffset), x, y);
+				} else {
+					Kiwi.Textures.TextureAtlas.drawCell(ctx, image, cell, x, y);
+				}
+
+				ctx.restore();
+			}
+		}
+
+		/**
+		* Renders the GameObject using WebGL.
+		* Each attachment is added to the batch of the TextureAtlasRenderer as its own quad, tinted by the color of its slot.
+		* @method renderGL
+		* @param {WebGLRenderingContext} gl
+		* @param {Kiwi.Camera} camera
+		* @param {Object} params
+		* @public
+		*/
+		public renderGL(gl: WebGLRenderingContext, camera: Kiwi.Camera, params: any = null) {
+
+			if (this.alpha <= 0) return;
+
+			var vertexItems: number[] = [];
+
+			for (var i = 0; i < this.slots.length; i++) {
+				var color: number[] = this.slots[i].color;
+				var alpha: number = this.alpha * color[3];
+				if (alpha <= 0) continue;
+
+				var cell = this._prepareAttachment(i);
+				if (cell === null) continue;
+
+				var x: number = -(cell.sourceW || cell.w) / 2 + (cell.offsetX || 0);
+				var y: number = -(cell.sourceH || cell.h) / 2 + (cell.offsetY || 0);
+				var r: number = this.tint.rNorm * color[0];
+				var g: number = this.tint.gNorm * color[1];
+				var b: number = this.tint.bNorm * color[2];
+
+				if (cell.anticlockwise) {
+					// The cell is stored turned anticlockwise, so its top left corner is at the bottom left of its area in the image
+					this._addCorner(vertexItems, x, y, cell.x, cell.y + cell.w, alpha, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y, cell.x, cell.y, alpha, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y + cell.h, cell.x + cell.h, cell.y, alpha, r, g, b);
+					this._addCorner(vertexItems, x, y + cell.h, cell.x + cell.h, cell.y + cell.w, alpha, r, g, b);
+				} else if (cell.rotated) {
+					// The cell is stored turned clockwise, so its top left corner is at the top right of its area in the image
+					this._addCorner(vertexItems, x, y, cell.x + cell.h, cell.y, alpha, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y, cell.x + cell.h, cell.y + cell.w, alpha, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y + cell.h, cell.x, cell.y + cell.w, alpha, r, g, b);
+					this._addCorner(vertexItems, x, y + cell.h, cell.x, cell.y, alpha, r, g, b);
+				} else {
+					this._addCorner(vertexItems, x, y, cell.x, cell.y, alpha, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y, cell.x + cell.w, cell.y, alpha, r, g, b);
+					this._addCorner(vertexItems, x + cell.w, y + cell.h, cell.x + cell.w, cell.y + cell.h, alpha, r, g, b);
+					this._addCorner(vertexItems, x, y + cell.h, cell.x, cell.y + cell.h, alpha, r, g, b);
+				}
+			}
+
+			(<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatTintedBatch(vertexItems, this);
+		}
+
+		/**
+		* Adds the xyuv, alpha and tint of the corner of an attachment to the vertex items, transformed by the matrix of the attachment.
+		* @method _addCorner
+		* @param vertexItems {number[]}
+		* @param x {number}
+		* @param y {number}
+		* @param u {number}
+		* @param v {number}
+		* @param alpha {number}
+		* @param r {number}
+		* @param g {number}
+		* @param b {number}
+		* @private
+		*/
+		private _addCorner(vertexItems: number[], x: number, y: number, u: number, v: number, alpha: number, r: number, g: number, b: number) {
+			this._matrix.transformPointInPlace(this._pt.setTo(x, y));
+			vertexItems.push(this._pt.x, this._pt.y, u, v, alpha, r, g, b);
+		}
+
+		/**
+		* Destroys the skeleton, its bones and its signals.
+		* @method destroy
+		* @param [immediate=false] {boolean} If the object should be immediately removed or if it should be removed at the end of the next update loop.
+		* @public
+		*/
+		public destroy(immediate: boolean = false) {
+
+			super.destroy(immediate);
+
+			if (immediate) {
+				if (this.onComplete) this.onComplete.dispose();
+				if (this.onLoop) this.onLoop.dispose();
+				for (var i = 0; this.bones && i < this.bones.length; i++) {
+					this.bones[i].destroy();
+				}
+				delete this.onComplete;
+				delete this.onLoop;
+				delete this.bones;
+				delete this.slots;
+				delete this.data;
+			}
+		}
+
+	}
+
+}
@@ -48,13 +48,13 @@ module Kiwi.GameObjects {
 			this.cellIndex = this.atlas.cellIndex;
 
 			//may need to add an optional other cell frame index here
-			this.width = atlas.cells[this.cellIndex].w;
-			this.height = atlas.cells[this.cellIndex].h;
+			this.width = atlas.cells[this.cellIndex].sourceW || atlas.cells[this.cellIndex].w;
+			this.height = atlas.cells[this.cellIndex].sourceH || atlas.cells[this.cellIndex].h;
 			this.transform.pivotPoint.setTo(this.width / 2, this.height / 2);
 				
 
 			//Create the components needed
-			this.box = this.components.add(new Kiwi.Components.Box(this, x, y, this.width, this.height));
+			this.box = this.components.add(new Kiwi.Components.Box2(this, 0, 0, this.width, this.height));
 			this.input = this.components.add(new Kiwi.Components.Input(this, this.box, enableInput));
 
 
@@ -100,10 +100,10 @@ module Kiwi.GameObjects {
 		/** 
 		* The box component that controls the bounding box around this Game Object
 		* @property box
-		* @type Kiwi.Components.Box
+		* @type Kiwi.Components.Box2
 		* @public
 		*/
-		public box: Kiwi.Components.Box;
+		public box: Kiwi.Components.Box2;
 
 		/** 
 		* The Input component controls the user interaction with this Game Object
@@ -123,8 +123,8 @@ module Kiwi.GameObjects {
 			super.update();
 
 			if (this._isAnimated) {
-				this.width = this.atlas.cells[this.cellIndex].w;
-				this.height = this.atlas.cells[this.cellIndex].h;
+				this.width = this.atlas.cells[this.cellIndex].sourceW || this.atlas.cells[this.cellIndex].w;
+				this.height = this.atlas.cells[this.cellIndex].sourceH || this.atlas.cells[this.cellIndex].h;
 
 			}
 
@@ -157,7 +157,13 @@ module Kiwi.GameObjects {
 				ctx.transform(m.a, m.b, m.c, m.d, m.tx, m.ty);
 							 
 				var cell = this.atlas.cells[this.cellIndex];
-				ctx.drawImage(this.atlas.image, cell.x, cell.y, cell.w, cell.h); // , -t.rotPointX, -t.rotPointY, cell.w, cell.h
+				var offsetX: number = cell.offsetX || 0;
+				var offsetY: number = cell.offsetY || 0;
+				if (this.isTinted) {
+					ctx.drawImage((<Kiwi.Renderers.CanvasRenderer>this.game.renderer).tintCell(this.atlas.image, cell, this.tint, this.colorOffset), offsetX, offsetY);
+				} else {
+					Kiwi.Textures.TextureAtlas.drawCell(ctx, this.atlas.image, cell, offsetX, offsetY);
+				}
 				ctx.restore();
 			}
 		}
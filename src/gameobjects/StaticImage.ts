@@ -45,11 +45,11 @@ module Kiwi.GameObjects {
 			//Set coordinates and texture
 			this.atlas = atlas;
 			this.cellIndex = this.atlas.cellIndex;
-			this.width = atlas.cells[this.cellIndex].w;
-			this.height = atlas.cells[this.cellIndex].h;
+			this.width = atlas.cells[this.cellIndex].sourceW || atlas.cells[this.cellIndex].w;
+			this.height = atlas.cells[this.cellIndex].sourceH || atlas.cells[this.cellIndex].h;
 			this.transform.pivotPoint.setTo(this.width / 2, this.height / 2);
 			
-			this.box = this.components.add(new Kiwi.Components.Box(this, x, y, this.width, this.height));
+			this.box = this.components.add(new Kiwi.Components.Box2(this, 0, 0, this.width, this.height));
 
 		}
 
@@ -66,10 +66,10 @@ module Kiwi.GameObjects {
 		/** 
 		* The Bounds component that controls the bounding box around this Game Object
 		* @property box
-		* @type Kiwi.Components.Box
+		* @type Kiwi.Components.Box2
 		* @public
 		*/
-		public box: Kiwi.Components.Box;
+		public box: Kiwi.Components.Box2;
 
 		/**
 		* Called by the Layer to which this Game Object is attached
@@ -98,7 +98,13 @@ module Kiwi.GameObjects {
 				ctx.transform(m.a, m.b, m.c, m.d, m.tx, m.ty);
 				
 				var cell = this.atlas.cells[this.cellIndex];
-				ctx.drawImage(this.atlas.image, cell.x, cell.y, cell.w, cell.h); // , -t.rotPointX, -t.rotPointY, cell.w, cell.h
+				var offsetX: number = cell.offsetX || 0;
+				var offsetY: number = cell.offsetY || 0;
+				if (this.isTinted) {
+					ctx.drawImage((<Kiwi.Renderers.CanvasRenderer>this.game.renderer).tintCell(this.atlas.image, cell, this.tint, this.colorOffset), offsetX, offsetY);
+				} else {
+					Kiwi.Textures.TextureAtlas.drawCell(ctx, this.atlas.image, cell, offsetX, offsetY);
+				}
 				ctx.restore();
 
 			}
@@ -50,7 +50,9 @@ module Kiwi.GameObjects {
 			this._fontColor = new Kiwi.Utils.Color( color );
 			this._fontFamily = fontFamily;
 			this._textAlign = "left";
-			this._baseline = "top";
+			this._baseline = "bottom";
+			this._strokeColor = new Kiwi.Utils.Color(0, 0, 0);
+			this._shadowColor = new Kiwi.Utils.Color(0, 0, 0, 0);
 			
 			this._tempDirty = true;
 
@@ -70,8 +72,8 @@ module Kiwi.GameObjects {
 
 			// Setup components
 			this.box = this.components.add(
-				new Kiwi.Components.Box(
-					this, x, y, this.width, this.height ) );
+				new Kiwi.Components.Box2(
+					this, 0, 0, this.width, this.height ) );
 		}
 
 		/**
@@ -151,7 +153,7 @@ module Kiwi.GameObjects {
 		private _alignWidth: number;
 
 		/**
-		* The baseline of the text to be rendered.
+		* The baseline of the text to be rendered. Each run of text is drawn from the bottom of its line, so that different sizes line up.
 		* @property _baseline
 		* @type string
 		* @private
@@ -281,6 +283,267 @@ module Kiwi.GameObjects {
 			return this._textAlign;
 		}
 
+		/**
+		* The widest that a line can be before it is wrapped.
+		* @property _maxWidth
+		* @type number
+		* @private
+		*/
+		private _maxWidth: number = 0;
+
+		/**
+		* The widest that a line can be before it is wrapped at a space, in pixels. 0 means that lines are only broken at newlines.
+		* A single word which is wider than this is not broken. When set, lines are aligned within this width.
+		* @property maxWidth
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public set maxWidth(val: number) {
+			this._maxWidth = val;
+			this._tempDirty = true;
+		}
+		public get maxWidth(): number {
+			return this._maxWidth;
+		}
+
+		/**
+		* The extra space between lines.
+		* @property _lineSpacing
+		* @type number
+		* @private
+		*/
+		private _lineSpacing: number = 0;
+
+		/**
+		* The extra space between lines, in pixels. This can be negative.
+		* @property lineSpacing
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public set lineSpacing(val: number) {
+			this._lineSpacing = val;
+			this._tempDirty = true;
+		}
+		public get lineSpacing(): number {
+			return this._lineSpacing;
+		}
+
+		/**
+		* The color of the stroke around the text.
+		* @property _strokeColor
+		* @type Kiwi.Utils.Color
+		* @private
+		*/
+		private _strokeColor: Kiwi.Utils.Color;
+
+		/**
+		* The color of the stroke around the text. This can be set with any of the arguments that 'Kiwi.Utils.Color.set' accepts.
+		* @property strokeColor
+		* @type string
+		* @default "#000000ff"
+		* @public
+		* @since 1.4.0
+		*/
+		public set strokeColor(val: any) {
+			if (!Kiwi.Utils.Common.isArray(val)) {
+				val = [val];
+			}
+			this._strokeColor.set.apply(this._strokeColor, val);
+			this._tempDirty = true;
+		}
+		public get strokeColor(): any {
+			return "#" + this._strokeColor.getHex();
+		}
+
+		/**
+		* The width of the stroke.
+		* @property _strokeWidth
+		* @type number
+		* @private
+		*/
+		private _strokeWidth: number = 0;
+
+		/**
+		* The width of the stroke around the text, in pixels. 0 means that the text has no stroke.
+		* @property strokeWidth
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public set strokeWidth(val: number) {
+			this._strokeWidth = val;
+			this._tempDirty = true;
+		}
+		public get strokeWidth(): number {
+			return this._strokeWidth;
+		}
+
+		/**
+		* The color of the drop shadow.
+		* @property _shadowColor
+		* @type Kiwi.Utils.Color
+		* @private
+		*/
+		private _shadowColor: Kiwi.Utils.Color;
+
+		/**
+		* The color of the drop shadow. This can be set with any of the arguments that 'Kiwi.Utils.Color.set' accepts.
+		* The shadow is only drawn when this is not fully transparent, which it is by default.
+		* @property shadowColor
+		* @type string
+		* @default "#00000000"
+		* @public
+		* @since 1.4.0
+		*/
+		public set shadowColor(val: any) {
+			if (!Kiwi.Utils.Common.isArray(val)) {
+				val = [val];
+			}
+			this._shadowColor.set.apply(this._shadowColor, val);
+			this._tempDirty = true;
+		}
+		public get shadowColor(): any {
+			return "#" + this._shadowColor.getHex();
+		}
+
+		/**
+		* How far the shadow is from the text on the x axis.
+		* @property _shadowOffsetX
+		* @type number
+		* @private
+		*/
+		private _shadowOffsetX: number = 2;
+
+		/**
+		* How far the shadow is from the text on the x axis, in pixels.
+		* @property shadowOffsetX
+		* @type number
+		* @default 2
+		* @public
+		* @since 1.4.0
+		*/
+		public set shadowOffsetX(val: number) {
+			this._shadowOffsetX = val;
+			this._tempDirty = true;
+		}
+		public get shadowOffsetX(): number {
+			return this._shadowOffsetX;
+		}
+
+		/**
+		* How far the shadow is from the text on the y axis.
+		* @property _shadowOffsetY
+		* @type number
+		* @private
+		*/
+		private _shadowOffsetY: number = 2;
+
+		/**
+		* How far the shadow is from the text on the y axis, in pixels.
+		* @property shadowOffsetY
+		* @type number
+		* @default 2
+		* @public
+		* @since 1.4.0
+		*/
+		public set shadowOffsetY(val: number) {
+			this._shadowOffsetY = val;
+			this._tempDirty = true;
+		}
+		public get shadowOffsetY(): number {
+			return this._shadowOffsetY;
+		}
+
+		/**
+		* How blurred the shadow is.
+		* @property _shadowBlur
+		* @type number
+		* @private
+		*/
+		private _shadowBlur: number = 0;
+
+		/**
+		* How blurred the shadow is, in pixels. 0 gives a sharp shadow.
+		* @property shadowBlur
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public set shadowBlur(val: number) {
+			this._shadowBlur = val;
+			this._tempDirty = true;
+		}
+		public get shadowBlur(): number {
+			return this._shadowBlur;
+		}
+
+		/**
+		* If inline markup in the text is used.
+		* @property _markup
+		* @type boolean
+		* @private
+		*/
+		private _markup: boolean = false;
+
+		/**
+		* If the text contains inline markup, which changes the style of parts of the text.
+		* Markup is off by default, so that square brackets in existing text are drawn as they are.
+		*
+		* The tags are:
+		* '[color=#ff0000]...[/color]' changes the color, which can be any CSS color.
+		* '[b]...[/b]' makes the text bold.
+		* '[weight=lighter]...[/weight]' changes the weight.
+		* '[size=24]...[/size]' changes the size in pixels.
+		*
+		* Tags can be nested, and each closing tag ends the most recent tag of its kind. Anything else in square brackets is drawn as it is.
+		* @property markup
+		* @type boolean
+		* @default false
+		* @public
+		* @since 1.4.0
+		*/
+		public set markup(val: boolean) {
+			this._markup = val;
+			this._tempDirty = true;
+		}
+		public get markup(): boolean {
+			return this._markup;
+		}
+
+		/**
+		* The space around the text on the canvas which the stroke and shadow can be drawn into, in pixels.
+		* @property _padding
+		* @type number
+		* @private
+		*/
+		private _padding: number = 0;
+
+		/**
+		* The number of lines that the text was laid out over.
+		* @property _numLines
+		* @type number
+		* @private
+		*/
+		private _numLines: number = 0;
+
+		/**
+		* The number of lines that the text is laid out over, once wrapped. This is READ ONLY.
+		* @property numLines
+		* @type number
+		* @public
+		* @since 1.4.0
+		*/
+		public get numLines(): number {
+			if (this._tempDirty) this._renderText();
+			return this._numLines;
+		}
+
 		/**
 		* The canvas element which the text is rendered onto. 
 		* @property _canvas
@@ -308,11 +571,11 @@ module Kiwi.GameObjects {
 		/**
 		* Hitbox component
 		* @property box
-		* @type Kiwi.Components.Box
+		* @type Kiwi.Components.Box2
 		* @public
 		* @since 1.2.0
 		*/
-		public box: Kiwi.Components.Box;
+		public box: Kiwi.Components.Box2;
 
 		/**
 		* Geometry point used in rendering.
@@ -360,17 +623,30 @@ module Kiwi.GameObjects {
 		*/
 		private _renderText() {
 
-			//Get/Set the width
-			this._ctx.font = this._fontWeight + " " + this._fontSize + "px " + this._fontFamily;
-
+			// Lay out the runs of text onto lines
+			var lines: any[] = this._layoutLines();
+			var lineHeights: number[] = [];
+			var textWidth: number = this._maxWidth;
+			var textHeight: number = 0;
+			for (var i = 0; i < lines.length; i++) {
+				lineHeights.push(lines[i].size * 1.3); //Need to find a better way to calculate
+				textHeight += lineHeights[i] + (i > 0 ? this._lineSpacing : 0);
+				if (this._maxWidth <= 0) textWidth = Math.max(textWidth, lines[i].width);
+			}
 
-			// Get the size of the text.
-			var _measurements: TextMetrics = this._ctx.measureText(this._text);   //when you measure the text for some reason it resets the values?! 
-			var width = _measurements.width;
-			var height = this._fontSize * 1.3; //Need to find a better way to calculate
-			
 			// Cache alignment width
-			this._alignWidth = width;
+			this._alignWidth = textWidth;
+			this._numLines = lines.length;
+
+			// Leave room for the stroke and shadow around the text
+			var pad: number = Math.ceil(this._strokeWidth / 2);
+			if (this._shadowColor.a > 0) {
+				pad += Math.ceil(this._shadowBlur + Math.max(Math.abs(this._shadowOffsetX), Math.abs(this._shadowOffsetY)));
+			}
+			this._padding = pad;
+
+			var width = textWidth + pad * 2;
+			var height = textHeight + pad * 2;
 
 			// Is the width base2?
 			if (Kiwi.Utils.Common.base2Sizes.indexOf(width) == -1) {
@@ -393,17 +669,32 @@ module Kiwi.GameObjects {
 			// Clear the canvas
 			this._ctx.clearRect(0, 0, width, height);
 
-			// Reapply the styles....cause it unapplies after a measurement...?!?
-			this._ctx.font = this._fontWeight + " " + this._fontSize + "px " + this._fontFamily;
-			this._ctx.fillStyle = this.color.slice( 0, 7 );
-			this._ctx.textBaseline = this._baseline;
+			// Align each line within the text
+			var align: number = 0;
+			if (this._textAlign === Kiwi.GameObjects.TextField.TEXT_ALIGN_CENTER) align = 0.5;
+			else if (this._textAlign === Kiwi.GameObjects.TextField.TEXT_ALIGN_RIGHT) align = 1;
+
+			// The stroke and shadow are drawn first, so that they sit behind the fill of every line
+			var lineTop: number = pad;
+			for (var i = 0; i < lines.length; i++) {
+				var lineX: number = pad + (textWidth - lines[i].width) * align;
+				var lineBottom: number = lineTop + lines[i].size;
+				if (this._strokeWidth > 0 || this._shadowColor.a > 0) {
+					this._drawLine(lines[i], lineX, lineBottom, true);
+				}
+				lineTop += lineHeights[i] + this._lineSpacing;
+			}
 
-			// Draw the text.
-			this._ctx.fillText(this._text, 0, 0);
+			lineTop = pad;
+			for (var i = 0; i < lines.length; i++) {
+				var lineX: number = pad + (textWidth - lines[i].width) * align;
+				this._drawLine(lines[i], lineX, lineTop + lines[i].size, false);
+				lineTop += lineHeights[i] + this._lineSpacing;
+			}
 
 			// Update inherited properties
 			this.width = this._alignWidth;
-			this.height = this._canvas.height;
+			this.height = textHeight;
 
 
 			//Update the cell and dirty/undirtyfiy
@@ -413,9 +704,7 @@ module Kiwi.GameObjects {
 				w: this._canvas.width,
 				h: this._canvas.height,
 				hitboxes: [ {
-					x: this._textAlign === Kiwi.GameObjects.TextField.TEXT_ALIGN_LEFT ? 0 :
-						this._textAlign === Kiwi.GameObjects.TextField.TEXT_ALIGN_CENTER ?
-						-this._alignWidth * 0.5 : -this._alignWidth,
+					x: this._getAlignX(),
 					y: 0,
 					w: this.width,
 					h: this.height
@@ -424,6 +713,246 @@ module Kiwi.GameObjects {
 			this.atlas.dirty = true;
 		}
 
+		/**
+		* Draws the runs of a line onto the canvas.
+		* @method _drawLine
+		* @param line {object}
+		* @param x {number} Where the line starts on the canvas.
+		* @param bottom {number} The bottom of the tallest run on the line, which every run is drawn from.
+		* @param effects {boolean} If the shadow and stroke are drawn, rather than the fill.
+		* @private
+		* @since 1.4.0
+		*/
+		private _drawLine(line: any, x: number, bottom: number, effects: boolean) {
+			var ctx: CanvasRenderingContext2D = this._ctx;
+
+			for (var i = 0; i < line.pieces.length; i++) {
+				var piece = line.pieces[i];
+				ctx.save();
+				ctx.font = this._getFont(piece.style);
+				ctx.textBaseline = this._baseline;
+
+				if (effects) {
+					var shadowed: boolean = this._shadowColor.a > 0;
+					if (shadowed) {
+						ctx.shadowColor = "rgba(" + this._shadowColor.r255 + "," + this._shadowColor.g255 + "," + this._shadowColor.b255 + "," + this._shadowColor.a + ")";
+						ctx.shadowOffsetX = this._shadowOffsetX;
+						ctx.shadowOffsetY = this._shadowOffsetY;
+						ctx.shadowBlur = this._shadowBlur;
+					}
+
+					if (this._strokeWidth > 0) {
+						ctx.lineWidth = this._strokeWidth;
+						ctx.lineJoin = "round";
+						ctx.strokeStyle = this.strokeColor.slice(0, 7);
+						ctx.strokeText(piece.text, x + piece.x, bottom);
+					} else if (shadowed) {
+						// Without a stroke, the shadow is cast by the fill
+						ctx.fillStyle = piece.style.color;
+						ctx.fillText(piece.text, x + piece.x, bottom);
+					}
+				} else {
+					ctx.fillStyle = piece.style.color;
+					ctx.fillText(piece.text, x + piece.x, bottom);
+				}
+
+				ctx.restore();
+			}
+		}
+
+		/**
+		* Returns the CSS font of a style.
+		* @method _getFont
+		* @param style {object}
+		* @return {string}
+		* @private
+		* @since 1.4.0
+		*/
+		private _getFont(style: any): string {
+			return style.weight + " " + style.size + "px " + this._fontFamily;
+		}
+
+		/**
+		* Splits the text into runs which each have a single style, following any markup.
+		* @method _parseRuns
+		* @return {object[]} Each run has its 'text' and a 'style' with a 'color', 'weight' and 'size'.
+		* @private
+		* @since 1.4.0
+		*/
+		private _parseRuns(): any[] {
+			var style = { color: this.color.slice(0, 7), weight: this._fontWeight, size: this._fontSize };
+			if (!this._markup) {
+				return [{ text: this._text, style: style }];
+			}
+
+			var runs = [];
+			var stack = [];
+			var pattern: RegExp = /\[(\/?)(color|b|weight|size)(?:=([^\]]*))?\]/g;
+			var last: number = 0;
+			var match;
+
+			while ((match = pattern.exec(this._text)) !== null) {
+				if (match.index > last) {
+					runs.push({ text: this._text.slice(last, match.index), style: style });
+				}
+				last = pattern.lastIndex;
+
+				if (match[1] === "/") {
+					// Close the most recent tag of the same kind
+					for (var i = stack.length - 1; i >= 0; i--) {
+						if (stack[i].tag === match[2]) {
+							style = stack[i].previous;
+							stack.splice(i, stack.length - i);
+							break;
+						}
+					}
+					continue;
+				}
+
+				var next = { color: style.color, weight: style.weight, size: style.size };
+				switch (match[2]) {
+					case "color":
+						next.color = match[3];
+						break;
+					case "b":
+						next.weight = "bold";
+						break;
+					case "weight":
+						next.weight = match[3];
+						break;
+					case "size":
+						next.size = parseFloat(match[3]) || style.size;
+						break;
+				}
+				stack.push({ tag: match[2], previous: style });
+				style = next;
+			}
+
+			if (last < this._text.length) {
+				runs.push({ text: this._text.slice(last), style: style });
+			}
+
+			return runs;
+		}
+
+		/**
+		* Lays the runs of the text out onto lines, breaking at newlines and wrapping at spaces when a line would be wider than 'maxWidth'.
+		* @method _layoutLines
+		* @return {object[]} Each line has its 'pieces', its 'width' and the 'size' of its tallest piece.
+		* Each piece has its 'text', 'style', and its 'x' and 'width' on the line.
+		* @private
+		* @since 1.4.0
+		*/
+		private _layoutLines(): any[] {
+			var runs: any[] = this._parseRuns();
+			var lines = [];
+			var line = { pieces: [], width: 0, size: this._fontSize, wrapped: false };
+
+			for (var i = 0; i < runs.length; i++) {
+				var style = runs[i].style;
+				this._ctx.font = this._getFont(style);
+				var tokens: string[] = runs[i].text.split(/(\n|[ \t]+)/);
+
+				for (var j = 0; j < tokens.length; j++) {
+					var token: string = tokens[j];
+					if (token === "") continue;
+
+					if (token === "\n") {
+						lines.push(line);
+						line = { pieces: [], width: 0, size: style.size, wrapped: false };
+						continue;
+					}
+
+					var isSpace: boolean = /^[ \t]+$/.test(token);
+					var tokenWidth: number = this._ctx.measureText(token).width;
+
+					if (!isSpace && this._maxWidth > 0 && line.pieces.length > 0 && line.width + tokenWidth > this._maxWidth) {
+						this._trimLine(line);
+						lines.push(line);
+						line = { pieces: [], width: 0, size: style.size, wrapped: true };
+					}
+
+					// Spaces where a line was wrapped are dropped
+					if (isSpace && line.wrapped && line.pieces.length === 0) continue;
+
+					// The first piece on a line sets its size, rather than the style the line started with
+					var previous = line.pieces[line.pieces.length - 1];
+					line.size = previous ? Math.max(line.size, style.size) : style.size;
+
+					if (previous && previous.style === style) {
+						previous.text += token;
+						previous.width += tokenWidth;
+					} else {
+						line.pieces.push({ text: token, style: style, x: line.width, width: tokenWidth });
+					}
+					line.width += tokenWidth;
+				}
+			}
+
+			lines.push(line);
+			return lines;
+		}
+
+		/**
+		* Removes the spaces from the end of a line, which are not drawn when it is wrapped.
+		* @method _trimLine
+		* @param line {object}
+		* @private
+		* @since 1.4.0
+		*/
+		private _trimLine(line: any) {
+			var piece = line.pieces[line.pieces.length - 1];
+			var trimmed: string = piece.text.replace(/[ \t]+$/, "");
+			if (trimmed === piece.text) return;
+
+			if (trimmed === "") {
+				line.pieces.pop();
+				line.width -= piece.width;
+				return;
+			}
+
+			this._ctx.font = this._getFont(piece.style);
+			var width: number = this._ctx.measureText(trimmed).width;
+			line.width -= piece.width - width;
+			piece.text = trimmed;
+			piece.width = width;
+		}
+
+		/**
+		* Returns where the text starts on the x axis, which depends on its alignment.
+		* @method _getAlignX
+		* @return {number}
+		* @private
+		* @since 1.4.0
+		*/
+		private _getAlignX(): number {
+			switch (this._textAlign) {
+				case Kiwi.GameObjects.TextField.TEXT_ALIGN_CENTER:
+					return -this._alignWidth * 0.5;
+				case Kiwi.GameObjects.TextField.TEXT_ALIGN_RIGHT:
+					return -this._alignWidth;
+				default:
+					return 0;
+			}
+		}
+
+		/**
+		* Returns the area that the text covers in the world, which depends on its alignment.
+		* The text is measured first if it has changed.
+		* @method getWorldBounds
+		* @param [output] {Kiwi.Geom.Rectangle} A rectangle to store the result in. One is created if none is given.
+		* @return {Kiwi.Geom.Rectangle}
+		* @public
+		* @since 1.4.0
+		*/
+		public getWorldBounds(output: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle()): Kiwi.Geom.Rectangle {
+			if (this._tempDirty) this._renderText();
+
+			var hitbox = this.atlas.cells[0].hitboxes[0];
+			output.setTo(hitbox.x, hitbox.y, hitbox.w, hitbox.h);
+			return this.transform.getConcatenatedMatrix().transformRect(output, output);
+		}
+
 		/**
 		* Called by the Layer to which this Game Object is attached
 		* @method render
@@ -446,25 +975,15 @@ module Kiwi.GameObjects {
 				//Does the text need re-rendering
 				if (this._tempDirty) this._renderText();
 
-				//Align the text
-				var x = 0;
-				switch (this._textAlign) {
-					case Kiwi.GameObjects.TextField.TEXT_ALIGN_LEFT:
-						x = 0;
-						break;
-					case Kiwi.GameObjects.TextField.TEXT_ALIGN_CENTER:
-						x = this._alignWidth * 0.5;
-						break;
-					case Kiwi.GameObjects.TextField.TEXT_ALIGN_RIGHT:
-						x = this._alignWidth;
-						break;
-				}
+				//Align the text, leaving room for the stroke and shadow
+				var x = this._getAlignX() - this._padding;
+				var y = -this._padding;
 
 				//Draw the Image
 				var m: Kiwi.Geom.Matrix = t.getConcatenatedMatrix();
 
 				ctx.transform(m.a, m.b, m.c, m.d, m.tx, m.ty);
-				ctx.drawImage(this._canvas, 0, 0, this._canvas.width, this._canvas.height); // , -t.rotPointX - x, -t.rotPointY, this._canvas.width, this._canvas.height
+				ctx.drawImage(this._canvas, x, y, this._canvas.width, this._canvas.height);
 				
 
 				ctx.restore();
@@ -492,29 +1011,15 @@ module Kiwi.GameObjects {
 			var t: Kiwi.Geom.Transform = this.transform;
 			var m: Kiwi.Geom.Matrix = t.getConcatenatedMatrix();
 
-			//See where the text should be.
-			var x = 0;
-			switch (this._textAlign) {
-				case Kiwi.GameObjects.TextField.TEXT_ALIGN_LEFT:
-					x = 0;
-					break;
-				case Kiwi.GameObjects.TextField.TEXT_ALIGN_CENTER:
-					x = -(this._alignWidth * 0.5);
-					break;
-				case Kiwi.GameObjects.TextField.TEXT_ALIGN_RIGHT:
-					x = -(this._alignWidth);
-					break;
-			}
+			//See where the text should be, leaving room for the stroke and shadow. This matches the canvas renderer.
+			var x = this._getAlignX() - this._padding;
+			var y = -this._padding;
 
 			//Create the Point Objects.
-			// this._pt1.setTo(x - t.pivotPoint.x, 0 - t.pivotPoint.y);
-			// this._pt2.setTo(this._canvas.width + x - t.pivotPoint.x , 0 - t.pivotPoint.y);
-			// this._pt3.setTo(this._canvas.width + x - t.pivotPoint.x , this._canvas.height - t.pivotPoint.y);
-			// this._pt4.setTo(x - t.pivotPoint.x, this._canvas.height - t.pivotPoint.y);
-			this._pt1.setTo(x, 0);
-			this._pt2.setTo(this._canvas.width , 0);
-			this._pt3.setTo(this._canvas.width , this._canvas.height);
-			this._pt4.setTo(x, this._canvas.height);
+			this._pt1.setTo(x, y);
+			this._pt2.setTo(x + this._canvas.width, y);
+			this._pt3.setTo(x + this._canvas.width, y + this._canvas.height);
+			this._pt4.setTo(x, y + this._canvas.height);
 
 			//Add on the matrix to the points
 			m.transformPointInPlace(this._pt1);
@@ -533,7 +1038,7 @@ module Kiwi.GameObjects {
 				//Bottom Left Point
 				);
 			//Add to the batch!
-			(<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatBatch(vertexItems);
+			(<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatBatch(vertexItems, this);
 		}
 	}
 
@@ -28,9 +28,11 @@ module Kiwi.GameObjects.Tilemap {
 			this.tileTypes = [];
 			this.createTileType(-1);
 			this.layers = [];
+			this.objectGroups = [];
 
 			this.state = state;
 			this.game = state.game;
+			this.clock = this.game.time.clock;
 
 			if (tileMapData !== undefined && atlas !== undefined) {
 				this.createFromFileStore(tileMapData, atlas, startingCell);
@@ -50,6 +52,15 @@ module Kiwi.GameObjects.Tilemap {
 		*/
 		public orientation: string;
 
+		/**
+		* The clock that is used to play the animations of the TileTypes. By default this is the clock of the game.
+		* @property clock
+		* @type Kiwi.Time.Clock
+		* @since 1.4.0
+		* @public
+		*/
+		public clock: Kiwi.Time.Clock;
+
 		/**
 		* Is an Array containing all of the TileTypes that are available on the TileMap.
 		* @property tileTypes
@@ -66,6 +77,15 @@ module Kiwi.GameObjects.Tilemap {
 		*/
         public layers: TileMapLayer[];
 
+		/**
+		* A list of all of the object groups that were read from Tiled "objectgroup" layers.
+		* @property objectGroups
+		* @type TileMapObjectGroup[]
+		* @since 1.4.0
+		* @public
+		*/
+		public objectGroups: TileMapObjectGroup[];
+
 		/**
 		* The state that this TileMap exists on.
 		* @property state
@@ -208,9 +228,7 @@ module Kiwi.GameObjects.Tilemap {
 
 
 			//Add the properties
-			for (var prop in json.properties) {
-				this.properties[prop] = json.properties[prop];
-			}
+			TileMap.parseProperties(json.properties, this.properties, json.propertytypes);
 
 
 			//Generate the Tiles needed.
@@ -227,18 +245,39 @@ module Kiwi.GameObjects.Tilemap {
 						var w = (layerData.width !== undefined) ? layerData.width : this.width;
 						var h = (layerData.height !== undefined) ? layerData.height : this.height;
 
-						var layer = this.createNewLayer(layerData.name, atlas, layerData.data, w, h, layerData.x * this.tileWidth, layerData.y * this.tileHeight );
+						var layer: TileMapLayer;
+
+						if (layerData.chunks !== undefined) {
+							//Infinite maps store their tiles in chunks, which can be anywhere.
+							layer = this.createNewLayer(layerData.name, atlas, [], 0, 0, 0, 0, this.tileWidth, this.tileHeight, DYNAMIC_ORTHOGONAL);
+
+							for (var j = 0; j < layerData.chunks.length; j++) {
+								var chunk = layerData.chunks[j];
+								(<TileMapLayerDynamicOrthogonal>layer).setTiles(chunk.x, chunk.y, chunk.width, chunk.height, chunk.data);
+							}
+						} else {
+							layer = this.createNewLayer(layerData.name, atlas, layerData.data, w, h, layerData.x * this.tileWidth, layerData.y * this.tileHeight );
+						}
 						
 						//Add the extra data...
 						layer.visible = (layerData.visible == undefined) ? true : layerData.visible;
 						layer.alpha = (layerData.opacity == undefined) ? 1 : layerData.opacity;
-						if (layerData.properties !== undefined)layer.properties = layerData.properties;
+						if (layerData.properties !== undefined) layer.properties = TileMap.parseProperties(layerData.properties, {}, layerData.propertytypes);
 
 						break;
 
 					case "objectgroup":
-						// This is fucked by me
-						// this.createNewObjectLayer();
+						var objects = [];
+						for (var j = 0; j < layerData.objects.length; j++) {
+							objects.push(new TileObject(layerData.objects[j]));
+						}
+
+						var objectGroup = this.createNewObjectGroup(layerData.name, objects);
+						objectGroup.x = (layerData.offsetx == undefined) ? 0 : layerData.offsetx;
+						objectGroup.y = (layerData.offsety == undefined) ? 0 : layerData.offsety;
+						objectGroup.visible = (layerData.visible == undefined) ? true : layerData.visible;
+						objectGroup.alpha = (layerData.opacity == undefined) ? 1 : layerData.opacity;
+						TileMap.parseProperties(layerData.properties, objectGroup.properties, layerData.propertytypes);
 						break;
 
 					case "imagelayer":
@@ -249,6 +288,80 @@ module Kiwi.GameObjects.Tilemap {
 
 			}
 
+			//Spawn the objects which have a factory on the State
+			if (Object.keys(this.state.tileObjectFactories).length > 0) {
+				for (var i = 0; i < this.objectGroups.length; i++) {
+					this.objectGroups[i].spawn();
+				}
+			}
+
+		}
+
+		/**
+		* Converts the properties of a map, layer, tile or object in Tiled JSON into an object literal.
+		* Older versions of Tiled export properties as an object, with their types in a separate object, newer versions as an array of name/type/value objects.
+		* Values are converted based on their type. See 'parsePropertyValue'.
+		* @method parseProperties
+		* @param properties {Any} The properties from the JSON.
+		* @param [output] {Object} The object to add the properties to.
+		* @param [types] {Object} The types of the properties, when they are exported as an object. 
+		* @return {Object} The output object.
+		* @static
+		* @since 1.4.0
+		* @public
+		*/
+		public static parseProperties(properties: any, output: any = {}, types: any = {}): any {
+
+			if (properties == undefined) return output;
+
+			if (Kiwi.Utils.Common.isArray(properties)) {
+				for (var i = 0; i < properties.length; i++) {
+					output[properties[i].name] = TileMap.parsePropertyValue(properties[i].value, properties[i].type);
+				}
+			} else {
+				for (var prop in properties) {
+					output[prop] = TileMap.parsePropertyValue(properties[prop], (types == undefined) ? undefined : types[prop]);
+				}
+			}
+
+			return output;
+		}
+
+		/**
+		* Converts the value of a property from Tiled JSON into the type that it was given in Tiled.
+		* 'bool' values become booleans, 'int' and 'float' values become numbers, and 'color' values become a Kiwi.Utils.Color.
+		* 'file' and 'string' values, and values without a type, are left as they are.
+		* @method parsePropertyValue
+		* @param value {Any} The value from the JSON.
+		* @param [type] {String} The type of the property.
+		* @return {Any} The converted value.
+		* @static
+		* @since 1.4.0
+		* @public
+		*/
+		public static parsePropertyValue(value: any, type?: string): any {
+
+			switch (type) {
+				case "bool":
+					return (value === true || value === "true");
+
+				case "int":
+					return parseInt(value, 10);
+
+				case "float":
+					return parseFloat(value);
+
+				case "color":
+					if (value === "" || value == undefined) return null;
+
+					//Tiled stores the alpha first, as #AARRGGBB.
+					var hex: string = (value.charAt(0) === "#") ? value.slice(1) : value;
+					if (hex.length === 8) hex = hex.slice(2) + hex.slice(0, 2);
+
+					return new Kiwi.Utils.Color(hex);
+			}
+
+			return value;
 		}
 
 		/**
@@ -296,7 +409,44 @@ module Kiwi.GameObjects.Tilemap {
 				//Add tile properties
 				for (var tp in tileset.tileproperties) {
 					var tileType = this.tileTypes[(parseInt(tileset.firstgid) + parseInt(tp))];
-					tileType.properties = tileset.tileproperties[tp];
+					var types = (tileset.tilepropertytypes == undefined) ? undefined : tileset.tilepropertytypes[tp];
+					tileType.properties = TileMap.parseProperties(tileset.tileproperties[tp], {}, types);
+				}
+
+				//Add the information about individual tiles. Newer versions of Tiled export this as an array of tiles with ids.
+				for (var t in tileset.tiles) {
+					var tileData = tileset.tiles[t];
+					var id = (tileData.id == undefined) ? parseInt(t) : tileData.id;
+					var tileType = this.tileTypes[parseInt(tileset.firstgid) + id];
+
+					if (tileType == undefined) continue;
+
+					TileMap.parseProperties(tileData.properties, tileType.properties);
+
+					//Drawing offsets of the individual tile
+					if (tileData.tileoffset !== undefined) {
+						tileType.offset.x = tileData.tileoffset.x;
+						tileType.offset.y = tileData.tileoffset.y;
+					}
+
+					//Animation frames. The ids of the frames are for tiles in the same tileset.
+					if (tileData.animation !== undefined) {
+						for (var j = 0; j < tileData.animation.length; j++) {
+							var frameType = this.tileTypes[parseInt(tileset.firstgid) + tileData.animation[j].tileid];
+							if (frameType !== undefined) tileType.addFrame(frameType.cellIndex, tileData.animation[j].duration);
+						}
+					}
+
+					//Collision shapes
+					if (tileData.objectgroup !== undefined) {
+						for (var j = 0; j < tileData.objectgroup.objects.length; j++) {
+							tileType.hitboxes.push(new TileObject(tileData.objectgroup.objects[j]).getBounds());
+						}
+
+						if (tileType.hitboxes.length > 0 && tileType.allowCollisions === Kiwi.Components.ArcadePhysics.NONE) {
+							tileType.allowCollisions = Kiwi.Components.ArcadePhysics.ANY;
+						}
+					}
 				}
 
 			}
@@ -513,6 +663,41 @@ module Kiwi.GameObjects.Tilemap {
 		}
 
 
+		/**
+		* Creates a new TileMapObjectGroup, which holds objects like the ones on a Tiled "objectgroup" layer.
+		* Returns the new TileMapObjectGroup that was created.
+		* @method createNewObjectGroup
+		* @param name {String} Name of the object group.
+		* @param [objects] {TileObject[]} The objects that are on the group.
+		* @return {TileMapObjectGroup} The TileMapObjectGroup that was created.
+		* @since 1.4.0
+		* @public
+		*/
+		public createNewObjectGroup(name: string, objects: TileObject[] = []): TileMapObjectGroup {
+			var objectGroup = new TileMapObjectGroup(this, name, objects);
+			this.objectGroups.push(objectGroup);
+
+			return objectGroup;
+		}
+
+		/**
+		* Get an object group by the name that it was given upon creation.
+		* Returns null if no object group with that name was found.
+		* @method getObjectGroupByName
+		* @param name {String} Name of the object group you would like to select.
+		* @return {TileMapObjectGroup}
+		* @since 1.4.0
+		* @public
+		*/
+		public getObjectGroupByName(name: string): TileMapObjectGroup {
+			for (var i = 0; i < this.objectGroups.length; i++) {
+				if (this.objectGroups[i].name == name) {
+					return this.objectGroups[i];
+				}
+			}
+			return null;
+		}
+
 		/**
 		* Eventually will create a new image layer. Currently does nothing.
 		* @method createNewObjectLayer
@@ -0,0 +1,136 @@
+/**
+*
+* @module GameObjects
+* @submodule Tilemap
+*
+*/
+
+module Kiwi.GameObjects.Tilemap {
+
+	/**
+	* A TileMapChunk holds the tiles of a square section of a TileMapLayerDynamicOrthogonal.
+	* Chunks are created and destroyed by the layer as they are needed, so that a layer can be as large as you like
+	* while only the sections which are in use take up memory.
+	*
+	* @class TileMapChunk
+	* @namespace Kiwi.GameObjects.Tilemap
+	* @constructor
+	* @param layer {Kiwi.GameObjects.Tilemap.TileMapLayerDynamicOrthogonal} The layer this chunk belongs to.
+	* @param x {Number} The position of the chunk on the x axis. In chunks.
+	* @param y {Number} The position of the chunk on the y axis. In chunks.
+	* @param size {Number} The width and height of the chunk. In tiles.
+	* @return {TileMapChunk}
+	* @since 1.4.0
+	*/
+	export class TileMapChunk {
+
+		constructor(layer: TileMapLayerDynamicOrthogonal, x: number, y: number, size: number) {
+			this.layer = layer;
+			this.x = x;
+			this.y = y;
+			this.size = size;
+
+			this.data = [];
+			var i = size * size;
+			while (i--) {
+				this.data.push(0);
+			}
+		}
+
+		/**
+		* The type of object that it is.
+		* @method objType
+		* @return {String} "TileMapChunk"
+		* @public
+		*/
+		public objType() {
+			return "TileMapChunk";
+		}
+
+		/**
+		* The layer this chunk belongs to.
+		* @property layer
+		* @type Kiwi.GameObjects.Tilemap.TileMapLayerDynamicOrthogonal
+		* @public
+		*/
+		public layer: TileMapLayerDynamicOrthogonal;
+
+		/**
+		* The position of the chunk on the x axis. In chunks.
+		* @property x
+		* @type Number
+		* @public
+		*/
+		public x: number;
+
+		/**
+		* The position of the chunk on the y axis. In chunks.
+		* @property y
+		* @type Number
+		* @public
+		*/
+		public y: number;
+
+		/**
+		* The width and height of the chunk. In tiles.
+		* @property size
+		* @type Number
+		* @public
+		*/
+		public size: number;
+
+		/**
+		* The TileType of each tile in the chunk, row by row.
+		* @property data
+		* @type Number[]
+		* @public
+		*/
+		public data: number[];
+
+		/**
+		* The position of the first tile of the chunk on the x axis. In tiles. This is READ ONLY.
+		* @property tileX
+		* @type Number
+		* @public
+		*/
+		public get tileX(): number {
+			return this.x * this.size;
+		}
+
+		/**
+		* The position of the first tile of the chunk on the y axis. In tiles. This is READ ONLY.
+		* @property tileY
+		* @type Number
+		* @public
+		*/
+		public get tileY(): number {
+			return this.y * this.size;
+		}
+
+		/**
+		* Returns the TileType of a tile in the chunk.
+		* @method getTile
+		* @param x {Number} The position of the tile on the x axis, relative to the chunk. In tiles.
+		* @param y {Number} The position of the tile on the y axis, relative to the chunk. In tiles.
+		* @return {Number}
+		* @public
+		*/
+		public getTile(x: number, y: number): number {
+			return this.data[x + y * this.size];
+		}
+
+		/**
+		* Sets the TileType of a tile in the chunk.
+		* @method setTile
+		* @param x {Number} The position of the tile on the x axis, relative to the chunk. In tiles.
+		* @param y {Number} The position of the tile on the y axis, relative to the chunk. In tiles.
+		* @param tileType {Number}
+		* @public
+		*/
+		public setTile(x: number, y: number, tileType: number) {
+			this.data[x + y * this.size] = tileType;
+		}
+
+	}
+
+}
@@ -57,6 +57,9 @@ module Kiwi.GameObjects.Tilemap {
 			this._corner3 = new Kiwi.Geom.Point(0,0);
 			this._corner4 = new Kiwi.Geom.Point(0,0);
 
+			// Layers cull their own tiles against the view of the camera instead
+			this.cullable = false;
+
             // this.physics = this.components.add(new Kiwi.Components.ArcadePhysics(this, null));
             // this.physics.immovable = true;
         }
@@ -166,6 +169,18 @@ module Kiwi.GameObjects.Tilemap {
 			return this.height * this.tilemap.tileHeight;
 		}
 
+		/**
+		* Returns the area that the tiles of this layer cover, in the space of the layer.
+		* @method getLocalBounds
+		* @param [output] {Kiwi.Geom.Rectangle} A rectangle to store the result in. One is created if none is given.
+		* @return {Kiwi.Geom.Rectangle}
+		* @public
+		* @since 1.4.0
+		*/
+		public getLocalBounds(output: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle()): Kiwi.Geom.Rectangle {
+			return output.setTo(0, 0, this.widthInPixels, this.heightInPixels);
+		}
+
 		/**
 		* Override function to prevent unwanted inherited behaviour. Do not call.
 		* Because TileMapLayer extends Entity, it has a cellIndex parameter. 
@@ -527,20 +542,56 @@ module Kiwi.GameObjects.Tilemap {
 		*/
 
 		/**
-		* Returns the tiles which overlap with a provided entities hitbox component. 
+		* Returns the tiles which overlap with the world bounds of the Box2 component of the entity passed. 
 		* Only collidable tiles on ANY side will be returned unless you pass a particular side.
-		* Note: Classes extending this class need to 
+		* Tiles are only returned when one of their hitboxes overlaps, see 'getTileHitboxes'.
+		* Note: This is for layers which use a grid of tiles. Classes extending this class that do not, such as isometric layers, do not return any tiles.
 		* 
 		* @method getOverlappingTiles
 		* @param entity {Kiwi.Entity} The entity you would like to check for the overlap.
 		* @param [collisionType=ANY] {Number} The particular type of collidable tiles which you would like to check for.
-		* @return {Object[]} Returns an Array of Objects containing information about the tiles which were found. Index/X/Y information is contained within each Object. 
+		* @return {Object[]} Returns an Array of Objects containing information about the tiles which were found. Index/Type/X/Y information is contained within each Object. 
 		* @public
 		*/
-		// public getOverlappingTiles(entity: Kiwi.Entity, collisionType: number= Kiwi.Components.ArcadePhysics.ANY): any {
-		// 	return [];
-		// }
+		public getOverlappingTiles(entity: Kiwi.Entity, collisionType: number = Kiwi.Components.ArcadePhysics.ANY): any {
+
+			//Do they have a box?
+			var box: Kiwi.Components.Box2 = entity.components.getComponent('Box2');
+			if (box === null) return [];
+
+			//Get the bounds of the entity relative to this layer.
+			var bounds: Kiwi.Geom.Rectangle = box.worldBounds;
+			var inverse: Kiwi.Geom.Matrix = this.transform.getConcatenatedMatrix().invertCopy();
+			var local: Kiwi.Geom.Rectangle = inverse.transformRect(bounds);
+
+			//Get starting location and how many tiles from there we will check.
+			var x = Math.floor(local.x / this.tileWidth);
+			var y = Math.floor(local.y / this.tileHeight);
+			var w = Math.ceil((local.x + local.width) / this.tileWidth) - x;
+			var h = Math.ceil((local.y + local.height) / this.tileHeight) - y;
 
+			var tiles = this.getCollidableTiles(x, y, w, h, collisionType);
+			var hitboxes: Kiwi.Geom.Rectangle[] = [];
+
+			//Loop through the tiles and make sure they are actually overlapping with the Entity.
+			for (var i = 0; i < tiles.length; i++) {
+				hitboxes.length = 0;
+				this.getTileHitboxes(tiles[i], hitboxes);
+
+				var overlaps = false;
+				for (var j = 0; j < hitboxes.length && !overlaps; j++) {
+					var hb = hitboxes[j];
+					overlaps = (hb.x < bounds.x + bounds.width) && (hb.x + hb.width > bounds.x) && (hb.y < bounds.y + bounds.height) && (hb.y + hb.height > bounds.y);
+				}
+
+				if (!overlaps) {
+					tiles.splice(i, 1);
+					i--;
+				}
+			}
+
+			return tiles;
+		}
 
 		/**
 		* Returns the tiles which can collide with other objects (on ANY side unless otherwise specified) within an area provided.
@@ -552,52 +603,93 @@ module Kiwi.GameObjects.Tilemap {
 		* @param [width=widthOfMap] {Number} The width from the x coordinate.
 		* @param [height=heightOfmap] {Number} The height from the y coordinate.
 		* @param [collisionType=ANY] {Number} The type of collidable tiles that should be return. By default ANY type of collidable tiles will be returned. 
-		* @return {Object[]} Returns an Array of Objects containing information about the tiles which were found. Index/X/Y information is contained within each Object. 
+		* @return {Object[]} Returns an Array of Objects containing information about the tiles which were found. Index/Type/X/Y information is contained within each Object. 
 		* @public
 		*/
-		// public getCollidableTiles(x: number= 0, y: number= 0, width: number= this.width, height: number = this.height, collisionType: number= Kiwi.Components.ArcadePhysics.ANY): any {
-		//
-		// 	var tiles = [];
-		//
-		// 	//Make sure its within the map.
-		// 	if (x > this.width || y > this.height) return;
-		//
-		// 	if (x < 0) x = 0;
-		// 	if (y < 0) y = 0;
-		//
-		// 	if (x + width > this.width) width = this.width - x;
-		// 	if (y + height > this.height) height = this.height - y;
-		//
-		// 	//Loop through and of the tiles.
-		// 	for (var j = y; j < y + height; j++) {
-		// 		for (var i = x; i < x + width; i++) {
-		//
-		// 			//Get the tile index.
-		// 			var index = this.getIndexFromXY(i, j);
-		//
-		// 			//Does that index exist? Should do but just in case.
-		// 			if (index === -1) continue;
-		//
-		// 			var type = this.tileData[index];
-		//
-		// 			//If the collision type matches the one passed.
-		// 			if ((this.tilemap.tileTypes[type].allowCollisions & collisionType) !== Kiwi.Components.ArcadePhysics.NONE) {
-		//
-		// 				tiles.push({
-		// 					index: index,
-		// 					type: type,
-		// 					x: i * this.tileWidth,
-		// 					y: j * this.tileHeight
-		// 				});
-		//
-		//
-		// 			}
-		//
-		// 		}
-		// 	}
-		//
-		// 	return tiles;
-		// }
+		public getCollidableTiles(x: number= 0, y: number= 0, width: number= this.width, height: number = this.height, collisionType: number= Kiwi.Components.ArcadePhysics.ANY): any {
+
+			//Make sure its within the map.
+			if (x < 0) {
+				width += x;
+				x = 0;
+			}
+			if (y < 0) {
+				height += y;
+				y = 0;
+			}
+
+			if (x + width > this.width) width = this.width - x;
+			if (y + height > this.height) height = this.height - y;
+
+			return this._findCollidableTiles(x, y, width, height, collisionType);
+		}
+
+		/**
+		* Returns the collidable tiles of a particular type in an area, without checking if the area is inside of the layer.
+		* @method _findCollidableTiles
+		* @param x {Number} The x coordinate of the first tile to check.
+		* @param y {Number} The y coordinate of the first tile to check.
+		* @param width {Number} The width from the x coordinate.
+		* @param height {Number} The height from the y coordinate.
+		* @param collisionType {Number} The type of collidable tiles that should be returned.
+		* @return {Object[]}
+		* @since 1.4.0
+		* @protected
+		*/
+		protected _findCollidableTiles(x: number, y: number, width: number, height: number, collisionType: number): any {
+
+			var tiles = [];
+
+			//Loop through and of the tiles.
+			for (var j = y; j < y + height; j++) {
+				for (var i = x; i < x + width; i++) {
+
+					var type = this.getTileFromXY(i, j);
+
+					//If the collision type matches the one passed.
+					if (type && (type.allowCollisions & collisionType) !== Kiwi.Components.ArcadePhysics.NONE) {
+
+						tiles.push({
+							index: this.getIndexFromXY(i, j),
+							type: type.index,
+							x: i * this.tileWidth,
+							y: j * this.tileHeight
+						});
+
+					}
+
+				}
+			}
+
+			return tiles;
+		}
+
+		/**
+		* Returns the areas of a tile which can be collided with, in world coordinates.
+		* These are the hitboxes of the TileType of the tile, or the whole tile if it has none.
+		* 
+		* @method getTileHitboxes
+		* @param tile {Object} A tile returned by 'getCollidableTiles' or 'getOverlappingTiles'.
+		* @param [output] {Kiwi.Geom.Rectangle[]} An array to add the hitboxes to.
+		* @return {Kiwi.Geom.Rectangle[]}
+		* @since 1.4.0
+		* @public
+		*/
+		public getTileHitboxes(tile: any, output: Kiwi.Geom.Rectangle[] = []): Kiwi.Geom.Rectangle[] {
+
+			var m: Kiwi.Geom.Matrix = this.transform.getConcatenatedMatrix();
+			var hitboxes = this.tilemap.tileTypes[tile.type].hitboxes;
+
+			if (hitboxes.length === 0) {
+				output.push(m.transformRect(new Kiwi.Geom.Rectangle(tile.x, tile.y, this.tileWidth, this.tileHeight)));
+			} else {
+				for (var i = 0; i < hitboxes.length; i++) {
+					output.push(m.transformRect(new Kiwi.Geom.Rectangle(tile.x + hitboxes[i].x, tile.y + hitboxes[i].y, hitboxes[i].width, hitboxes[i].height)));
+				}
+			}
+
+			return output;
+		}
 
 
 		/**
@@ -712,6 +804,23 @@ module Kiwi.GameObjects.Tilemap {
 
 		}
 
+		/**
+		* Sets the four corners to the corners of the area of the world which the camera being rendered can see.
+		* Used by '_calculateBoundaries' to find which tiles are visible.
+		*
+		* @method _setCornersToFrustum
+		* @protected
+		* @since 1.4.0
+		*/
+		protected _setCornersToFrustum() {
+			var frustum: Kiwi.Geom.Rectangle = this.game.renderer.frustum;
+
+			this._corner1.setTo(frustum.x, frustum.y);
+			this._corner2.setTo(frustum.right, frustum.y);
+			this._corner3.setTo(frustum.right, frustum.bottom);
+			this._corner4.setTo(frustum.x, frustum.bottom);
+		}
+
 		/** 
 		* The render loop which is used when using the Canvas renderer.
 		* @method render
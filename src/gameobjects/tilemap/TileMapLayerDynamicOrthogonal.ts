@@ -8,10 +8,12 @@
 module Kiwi.GameObjects.Tilemap {
 
 	/**
-    * Contains the code for managing and rendering Orthogonal types of TileMaps. 
+    * Contains the code for managing and rendering Orthogonal types of TileMaps which have no fixed size.
+    * Instead of a single array, the tiles are stored in square TileMapChunks which are created when a tile inside of them is set, 
+    * and can be loaded and unloaded as the camera moves around. This is the type of layer that 'infinite' maps from Tiled are loaded into.
     * This class should not be directly created, but instead should be created via methods on the TileMap class.
     * 
-	* @class TileMapLayerOrthogonal
+	* @class TileMapLayerDynamicOrthogonal
 	* @extends Kiwi.GameObjects.Tilemap.TileMapLayer
 	* @namespace Kiwi.GameObjects.Tilemap
     * @since 1.3.0
@@ -22,33 +24,434 @@ module Kiwi.GameObjects.Tilemap {
 	* @param data {Number[]} The information about the tiles.
 	* @param tw {Number} The width of a single tile in pixels. Usually the same as the TileMap unless told otherwise.
 	* @param th {Number} The height of a single tile in pixels. Usually the same as the TileMap unless told otherwise.
-	* @param [x=0] {Number} The x coordinate of the tilemap in pixels.
-	* @param [y=0] {Number} The y coordinate of the tilemap in pixels.
-	* @param [w=0] {Number} The width of the whole tilemap in tiles. Usually the same as the TileMap unless told otherwise.
-	* @param [h=0] {Number} The height of the whole tilemap in tiles. Usually the same as the TileMap unless told otherwise.
+	* @param [x=0] {Number} The tile on the x axis that the data starts at.
+	* @param [y=0] {Number} The tile on the y axis that the data starts at.
+	* @param [w=0] {Number} The width of the data in tiles.
+	* @param [h=0] {Number} The height of the data in tiles.
+	* @param [chunkSize=16] {Number} The width and height of each chunk in tiles.
 	* @return {TileMapLayer}
 	*/
     export class TileMapLayerDynamicOrthogonal extends TileMapLayer {
-		private offset: Kiwi.Geom.Point = new Kiwi.Geom.Point();
-        constructor(tilemap: Kiwi.GameObjects.Tilemap.TileMap, name: string, atlas: Kiwi.Textures.TextureAtlas, data: number[], tw: number, th: number, x: number = 0, y: number = 0, w: number = 0, h: number = 0) {
-            super(tilemap, name, atlas, data, tw, th, 0, 0, w, h);
-            this.offset.setTo(x, y);
-			// TODO: convert data into hashmap. Include x: y coords into
-			this._data.forEach((e, i) => {
-				var yM = Math.floor(i / w);
-				var xM = i - yM * w;
-				yM += y;
-				xM += x;
-				this._data2[`${xM}|${yM}`] = e;
-			});
-			this._data = [];
+
+        constructor(tilemap: Kiwi.GameObjects.Tilemap.TileMap, name: string, atlas: Kiwi.Textures.TextureAtlas, data: number[], tw: number, th: number, x: number = 0, y: number = 0, w: number = 0, h: number = 0, chunkSize: number = 16) {
+            super(tilemap, name, atlas, [], tw, th, 0, 0, w, h);
+
+            this._chunkSize = chunkSize;
+            this._chunks = {};
+            this._chunkList = [];
+
+            this.onChunkRequired = new Kiwi.Signal();
+            this.onChunkUnloaded = new Kiwi.Signal();
+
+            this.setTiles(x, y, w, h, data);
+        }
+
+		/**
+		* The width and height of each chunk in tiles.
+		* @property _chunkSize
+		* @type Number
+		* @private
+		*/
+        private _chunkSize: number;
+
+		/**
+		* The width and height of each chunk in tiles. This is READ ONLY.
+		* @property chunkSize
+		* @type Number
+		* @since 1.4.0
+		* @public
+		*/
+        public get chunkSize(): number {
+            return this._chunkSize;
+        }
+
+		/**
+		* The chunks which are loaded, stored by their position on the x axis and then the y axis. e.g. _chunks[x][y]
+		* @property _chunks
+		* @type Object
+		* @private
+		*/
+        private _chunks: any;
+
+		/**
+		* Every chunk which is loaded.
+		* @property _chunkList
+		* @type TileMapChunk[]
+		* @private
+		*/
+        private _chunkList: TileMapChunk[];
+
+		/**
+		* Every chunk which is loaded. This is READ ONLY.
+		* @property chunks
+		* @type TileMapChunk[]
+		* @since 1.4.0
+		* @public
+		*/
+        public get chunks(): TileMapChunk[] {
+            return this._chunkList;
+        }
+
+		/**
+		* Dispatched when a chunk is loaded without any data, so that it can be generated or streamed in.
+		* Callbacks are passed this layer and the TileMapChunk, whose 'data' should be filled in before the callback returns.
+		* @property onChunkRequired
+		* @type Kiwi.Signal
+		* @since 1.4.0
+		* @public
+		*/
+        public onChunkRequired: Kiwi.Signal;
+
+		/**
+		* Dispatched when a chunk has been unloaded. 
+		* Callbacks are passed this layer and the TileMapChunk, so any changes made to it can be saved.
+		* @property onChunkUnloaded
+		* @type Kiwi.Signal
+		* @since 1.4.0
+		* @public
+		*/
+        public onChunkUnloaded: Kiwi.Signal;
+
+		/**
+		* If chunks should be loaded and unloaded automatically as the camera moves.
+		* When true, every chunk the camera can see is loaded when the layer renders,
+		* and chunks which are further away than the 'streamingPadding' are unloaded.
+		* @property streaming
+		* @type boolean
+		* @default false
+		* @since 1.4.0
+		* @public
+		*/
+        public streaming: boolean = false;
+
+		/**
+		* The number of chunks around the area the camera can see which are also loaded when streaming. 
+		* Chunks are only unloaded once they are more than one chunk outside of this area, so that moving back and forth near the edge of a chunk does not keep reloading it.
+		* @property streamingPadding
+		* @type Number
+		* @default 1
+		* @since 1.4.0
+		* @public
+		*/
+        public streamingPadding: number = 1;
+
+		/**
+		* Returns the chunk at the position passed, or null if it is not loaded. 
+		* @method getChunk
+		* @param x {Number} The position of the chunk on the x axis. In chunks.
+		* @param y {Number} The position of the chunk on the y axis. In chunks.
+		* @return {Kiwi.GameObjects.Tilemap.TileMapChunk}
+		* @since 1.4.0
+		* @public
+		*/
+        public getChunk(x: number, y: number): TileMapChunk {
+            var column = this._chunks[x];
+            if (column === undefined || column[y] === undefined) return null;
+            return column[y];
+        }
+
+		/**
+		* Returns the chunk which contains the tile passed, or null if it is not loaded.
+		* @method getChunkFromXY
+		* @param x {Number} The coordinate of the tile on the x axis.
+		* @param y {Number} The coordinate of the tile on the y axis.
+		* @return {Kiwi.GameObjects.Tilemap.TileMapChunk}
+		* @since 1.4.0
+		* @public
+		*/
+        public getChunkFromXY(x: number, y: number): TileMapChunk {
+            return this.getChunk(Math.floor(x / this._chunkSize), Math.floor(y / this._chunkSize));
+        }
+
+		/**
+		* Loads a chunk. If data is passed it is used for the tiles of the chunk, 
+		* otherwise the 'onChunkRequired' signal is dispatched so that the data can be provided.
+		* If the chunk is already loaded and data is passed, the tiles of the chunk are replaced.
+		* @method loadChunk
+		* @param x {Number} The position of the chunk on the x axis. In chunks.
+		* @param y {Number} The position of the chunk on the y axis. In chunks.
+		* @param [data] {Number[]} The tiles of the chunk, row by row. 
+		* @return {Kiwi.GameObjects.Tilemap.TileMapChunk} The chunk.
+		* @since 1.4.0
+		* @public
+		*/
+        public loadChunk(x: number, y: number, data?: number[]): TileMapChunk {
+            var chunk = this.getChunk(x, y);
+
+            if (chunk === null) {
+                chunk = new TileMapChunk(this, x, y, this._chunkSize);
+
+                if (this._chunks[x] === undefined) this._chunks[x] = {};
+                this._chunks[x][y] = chunk;
+                this._chunkList.push(chunk);
+
+                if (data === undefined) {
+                    this.onChunkRequired.dispatch(this, chunk);
+                }
+            }
+
+            if (data !== undefined) {
+                for (var i = 0; i < chunk.data.length && i < data.length; i++) {
+                    chunk.data[i] = data[i];
+                }
+            }
+
+            return chunk;
+        }
+
+		/**
+		* Unloads a chunk, and then dispatches the 'onChunkUnloaded' signal.
+		* @method unloadChunk
+		* @param x {Number} The position of the chunk on the x axis. In chunks.
+		* @param y {Number} The position of the chunk on the y axis. In chunks.
+		* @return {Boolean} If a chunk was unloaded.
+		* @since 1.4.0
+		* @public
+		*/
+        public unloadChunk(x: number, y: number): boolean {
+            var chunk = this.getChunk(x, y);
+            if (chunk === null) return false;
+
+            delete this._chunks[x][y];
+            this._chunkList.splice(this._chunkList.indexOf(chunk), 1);
+
+            this.onChunkUnloaded.dispatch(this, chunk);
+            return true;
+        }
+
+		/**
+		* Loads every chunk which is inside of the area passed and is not already loaded.
+		* @method loadChunksInArea
+		* @param x {Number} The starting tile on the x axis.
+		* @param y {Number} The starting tile on the y axis.
+		* @param width {Number} How far across you want to go. In tiles.
+		* @param height {Number} How far down you want to go. In tiles.
+		* @since 1.4.0
+		* @public
+		*/
+        public loadChunksInArea(x: number, y: number, width: number, height: number) {
+            var startX = Math.floor(x / this._chunkSize);
+            var startY = Math.floor(y / this._chunkSize);
+            var endX = Math.ceil((x + width) / this._chunkSize);
+            var endY = Math.ceil((y + height) / this._chunkSize);
+
+            for (var cy = startY; cy < endY; cy++) {
+                for (var cx = startX; cx < endX; cx++) {
+                    if (this.getChunk(cx, cy) === null) this.loadChunk(cx, cy);
+                }
+            }
+        }
+
+		/**
+		* Unloads every chunk which is not inside of the area passed.
+		* @method unloadChunksOutsideArea
+		* @param x {Number} The starting tile on the x axis.
+		* @param y {Number} The starting tile on the y axis.
+		* @param width {Number} How far across you want to go. In tiles.
+		* @param height {Number} How far down you want to go. In tiles.
+		* @since 1.4.0
+		* @public
+		*/
+        public unloadChunksOutsideArea(x: number, y: number, width: number, height: number) {
+            var startX = Math.floor(x / this._chunkSize);
+            var startY = Math.floor(y / this._chunkSize);
+            var endX = Math.ceil((x + width) / this._chunkSize);
+            var endY = Math.ceil((y + height) / this._chunkSize);
+
+            //Loop backwards as chunks are removed from the list.
+            var i = this._chunkList.length;
+            while (i--) {
+                var chunk = this._chunkList[i];
+                if (chunk.x < startX || chunk.x >= endX || chunk.y < startY || chunk.y >= endY) {
+                    this.unloadChunk(chunk.x, chunk.y);
+                }
+            }
+        }
+
+		/**
+		* Sets the tiles of an area of the layer, loading any chunks that are needed. 
+		* @method setTiles
+		* @param x {Number} The starting tile on the x axis.
+		* @param y {Number} The starting tile on the y axis.
+		* @param width {Number} The width of the area. In tiles.
+		* @param height {Number} The height of the area. In tiles.
+		* @param data {Number[]} The tiles of the area, row by row.
+		* @since 1.4.0
+		* @public
+		*/
+        public setTiles(x: number, y: number, width: number, height: number, data: number[]) {
+            for (var i = 0; i < data.length && i < width * height; i++) {
+                var ty = Math.floor(i / width);
+                this.setTile(x + i - ty * width, y + ty, data[i]);
+            }
+        }
+
+		/**
+		* Returns the TileType for a tile that is at a particular set of coordinates passed. 
+		* If no tile is found, or the chunk it is in is not loaded, then null is returned instead.
+		* Coordinates passed are in tiles.
+		* @method getTileFromXY
+		* @param x {Number}
+		* @param y {Number}
+		* @return {Kiwi.GameObjects.Tilemap.TileType}
+		* @public
+		*/
+        public getTileFromXY(x: number, y: number): TileType {
+            var chunk = this.getChunkFromXY(x, y);
+            if (chunk === null) return null;
+
+            var type = chunk.getTile(x - chunk.tileX, y - chunk.tileY);
+            return (type !== undefined) ? this.tilemap.tileTypes[type] : null;
         }
 
-        private _data2 = {};
+		/**
+		* Returns the TileType for a tile that is at a particular coordinate passed. 
+		* If no tile is found then null is returned instead.
+		* Coordinates passed are in pixels and use the world coordinates of the tilemap.
+        * 
+		* @method getTileFromCoords
+		* @param x {Number}
+		* @param y {Number}
+		* @return {Kiwi.GameObjects.Tilemap.TileType} 
+		* @public
+		*/
+        public getTileFromCoords(x: number, y: number): TileType {
+            this._corner1.setTo(x, y);
+            this.transform.getConcatenatedMatrix().invertCopy().transformPointInPlace(this._corner1);
 
-		public getTileFromXY(x, y) {
-        	return this.tilemap.tileTypes[ this._data2[`${x}|${y}`] ];
-		}
+            return this.getTileFromXY(Math.floor(this._corner1.x / this.tileWidth), Math.floor(this._corner1.y / this.tileHeight));
+        }
+
+		/**
+		* Sets the tile to be used at the coordinates provided. 
+		* If the chunk the tile is in is not loaded, then it is loaded first.
+		* @method setTile
+		* @param x {Number} The coordinate of the tile on the x axis. 
+		* @param y {Number} The coordinate of the tile on the y axis.
+		* @param tileType {Number} The type of tile that should be now used.
+		* @return {Boolean} If a tile was changed or not.
+		* @public
+		*/
+        public setTile(x: number, y: number, tileType: any): boolean {
+            var cx = Math.floor(x / this._chunkSize);
+            var cy = Math.floor(y / this._chunkSize);
+            var chunk = this.getChunk(cx, cy) || this.loadChunk(cx, cy);
+
+            chunk.setTile(x - chunk.tileX, y - chunk.tileY, tileType);
+            return true;
+        }
+
+		/**
+		* Returns the total number of tiles in the loaded chunks. Either for a particular type if passed, otherwise of any type if not passed.
+		* @method countTiles
+		* @param [type] {Number} The type of tile you want to count.
+		* @return {Number} The number of tiles on this layer.
+		* @public
+		*/
+        public countTiles(type?: number): number {
+            var cnt = 0;
+
+            for (var i = 0; i < this._chunkList.length; i++) {
+                var data = this._chunkList[i].data;
+                for (var j = 0; j < data.length; j++) {
+                    if (type == undefined && data[j] !== 0) cnt++;
+                    else if (type === data[j]) cnt++;
+                }
+            }
+
+            return cnt;
+        }
+
+		/**
+		* Randomizes the types of tiles used in an area of the layer. You can choose which types of tiles to use, and the area.
+		* Default tile types used are everyone avaiable. 
+		* @method randomizeTiles
+		* @param [types] {Number[]} A list of TileTypes that can be used. Default is every tiletype on the TileMap.
+		* @param [x=0] {Number} The starting tile on the x axis to fill. 
+		* @param [y=0] {Number} The starting tile on the y axis to fill.
+		* @param [width=this.width] {Number} How far across you want to go.
+		* @param [height=this.height] {Number} How far down you want to go.
+		* @public
+		*/
+        public randomizeTiles(types?: number[], x: number = 0, y: number = 0, width: number = this.width, height: number = this.height) {
+
+            if (types == undefined) {
+                types = [];
+                var i = 0;
+                while (i++ < this.tilemap.tileTypes.length) {
+                    types.push(i);
+                }
+            }
+
+            for (var j = y; j < y + height; j++) {
+                for (var i = x; i < x + width; i++) {
+                    this.setTile(i, j, this.game.rnd.pick(types));
+                }
+            }
+
+        }
+
+		/**
+		* Makes all of the tiles in the area specified a single type that is passed.
+		* @method fill
+		* @param type {Number} The type of tile you want to fill in the area with.
+		* @param [x=0] {Number} The starting tile on the x axis to fill. 
+		* @param [y=0] {Number} The starting tile on the y axis to fill.
+		* @param [width=this.width] {Number} How far across you want to go.
+		* @param [height=this.height] {Number} How far down you want to go.
+		* @public
+		*/
+        public fill(type: number, x: number = 0, y: number = 0, width: number = this.width, height: number = this.height) {
+
+            for (var j = y; j < y + height; j++) {
+                for (var i = x; i < x + width; i++) {
+                    this.setTile(i, j, type);
+                }
+            }
+
+        }
+
+		/**
+		* Replaces all tiles of typeA to typeB in the area specified. Only chunks which are loaded are changed.
+		* @method replaceTiles
+		* @param typeA {Number} The type of tile you want to be replaced.
+		* @param typeB {Number} The type of tile you want to be used instead.
+		* @param [x=0] {Number} The starting tile on the x axis to fill. 
+		* @param [y=0] {Number} The starting tile on the y axis to fill.
+		* @param [width=this.width] {Number} How far across you want to go.
+		* @param [height=this.height] {Number} How far down you want to go.
+		* @public
+		*/
+        public replaceTiles(typeA: number, typeB: number, x: number = 0, y: number = 0, width: number = this.width, height: number = this.height) {
+            this.swapTiles(typeA, typeB, x, y, width, height, false);
+        }
+
+		/**
+		* Swaps all the tiles that are typeA -> typeB and typeB -> typeA inside the area specified. Only chunks which are loaded are changed.
+		* @method swapTiles
+		* @param typeA {number} The type of tile you want to be replaced with typeB.
+		* @param typeB {number} The type of tile you want to be replaced with typeA.
+		* @param [x=0] {number} The starting tile on the x axis to fill. 
+		* @param [y=0] {number} The starting tile on the y axis to fill.
+		* @param [width=this.width] {number} How far across you want to go.
+		* @param [height=this.height] {number} How far down you want to go.
+		* @param [both=true] {boolean} If typeB tiles should also be changed to typeA. 
+		* @public
+		*/
+        public swapTiles(typeA: number, typeB: number, x: number = 0, y: number = 0, width: number = this.width, height: number = this.height, both: boolean = true) {
+
+            for (var j = y; j < y + height; j++) {
+                for (var i = x; i < x + width; i++) {
+                    var chunk = this.getChunkFromXY(i, j);
+                    if (chunk === null) continue;
+
+                    var type = chunk.getTile(i - chunk.tileX, j - chunk.tileY);
+                    if (type == typeA) chunk.setTile(i - chunk.tileX, j - chunk.tileY, typeB);
+                    else if (both && type == typeB) chunk.setTile(i - chunk.tileX, j - chunk.tileY, typeA);
+                }
+            }
+
+        }
 
 		/**
 		* The type of object that it is.
@@ -98,57 +501,21 @@ module Kiwi.GameObjects.Tilemap {
 
 
 		/**
-		* Returns the tiles which overlap with a provided entities hitbox component. 
-		* Only collidable tiles on ANY side will be returned unless you pass a particular side.
+		* Returns the tiles which can collide with other objects (on ANY side unless otherwise specified) within an area provided.
+		* Only tiles in chunks which are loaded are returned. By default the area is the data the layer was created with.
 		* 
-		* @method getOverlappingTiles
-		* @param entity {Kiwi.Entity} The entity you would like to check for the overlap.
-		* @param [collisionType=ANY] {Number} The particular type of collidable tiles which you would like to check for.
-		* @return {Object[]} Returns an Array of Objects containing information about the tiles which were found. Index/X/Y information is contained within each Object. 
+		* @method getCollidableTiles
+		* @param [x=0] {Number} The x coordinate of the first tile to check.
+		* @param [y=0] {Number} The y coordinate of the first tile to check.
+		* @param [width=this.width] {Number} The width from the x coordinate.
+		* @param [height=this.height] {Number} The height from the y coordinate.
+		* @param [collisionType=ANY] {Number} The type of collidable tiles that should be return. By default ANY type of collidable tiles will be returned. 
+		* @return {Object[]} Returns an Array of Objects containing information about the tiles which were found. Index/Type/X/Y information is contained within each Object. 
 		* @public
 		*/
-        // public getOverlappingTiles(entity: Kiwi.Entity, collisionType: number = Kiwi.Components.ArcadePhysics.ANY): any {
-		//
-        //     //Do they have a box?
-        //     if (entity.components.hasComponent("Box") == false)
-        //         return [];
-		//
-        //     //Get the box off them
-        //     var b: Kiwi.Geom.Rectangle = entity.components.getComponent('Box').worldHitbox;
-		//
-        //     var worldX = this.transform.worldX;
-        //     var worldY = this.transform.worldY;
-		//
-        //     //Is the person within the map's bounds?
-        //     if (b.left > worldX + this.widthInPixels || b.right < worldX || b.bottom < worldY || b.top > worldY + this.heightInPixels)
-        //         return [];
-		//
-		//
-        //     var nx = b.x - worldX;
-        //     var ny = b.y - worldY;
-		//
-        //     //Get starting location and now many tiles from there we will check.
-        //     var x = Kiwi.Utils.GameMath.snapToFloor(nx, this.tileWidth) / this.tileWidth;
-        //     var y = Kiwi.Utils.GameMath.snapToFloor(ny, this.tileHeight) / this.tileHeight;
-        //     var w = Kiwi.Utils.GameMath.snapToCeil(b.width, this.tileWidth) / this.tileWidth;
-        //     var h = Kiwi.Utils.GameMath.snapToCeil(b.height, this.tileHeight) / this.tileHeight;
-		//
-        //     //Add one, because we want to include the very end tile.
-        //     var tiles = this.getCollidableTiles(x, y, w + 1, h + 1, collisionType);
-		//
-        //     //Loop through the tiles and make sure they are actually overlapping with the Entity.
-        //     for (var i = 0; i < tiles.length; i++) {
-        //         var t = tiles[i];
-		//
-        //         if (t.x + worldX > b.right || t.x + this.tileWidth + worldX < b.left || t.y + worldY > b.bottom || t.y + this.tileHeight + worldY < b.top) {
-        //             tiles.splice(i, 1);
-        //             i--;
-        //         }
-        //     }
-		//
-        //     return tiles;
-		//
-        // }
+        public getCollidableTiles(x: number = 0, y: number = 0, width: number = this.width, height: number = this.height, collisionType: number = Kiwi.Components.ArcadePhysics.ANY): any {
+            return this._findCollidableTiles(x, y, width, height, collisionType);
+        }
 
 		/**
 		* Used to calculate the position of the tilemap on the stage as well as how many tiles can fit on the screen. 
@@ -163,17 +530,8 @@ module Kiwi.GameObjects.Tilemap {
             //If we are calculating the coordinates for 'regular' then we can do that rather easy
 
             // Account for camera and object transformation
-            // Initialise corners...
-            this._corner1.setTo(0, 0);
-            this._corner2.setTo(this.game.stage.width, 0);
-            this._corner3.setTo(this.game.stage.width, this.game.stage.height);
-            this._corner4.setTo(0, this.game.stage.height);
-
-            // TODO: Transform corners by camera...
-            camera.transformStageToWorld(this._corner1, false);
-            camera.transformStageToWorld(this._corner2, false);
-            camera.transformStageToWorld(this._corner3, false);
-            camera.transformStageToWorld(this._corner4, false);
+            // Initialise corners to the area of the world the camera can see...
+            this._setCornersToFrustum();
 
             // Transform corners by object...
             var m = matrix.clone();
@@ -201,13 +559,25 @@ module Kiwi.GameObjects.Tilemap {
             this._maxX = Math.ceil(this._maxX);
             this._maxY = Math.ceil(this._maxY);
 
-            // Clamp values to tilemap range...
-            this._startX = Kiwi.Utils.GameMath.clamp(this._startX, this.width + this.offset.x, this.offset.x );
-            this._startY = Kiwi.Utils.GameMath.clamp(this._startY, this.height + this.offset.y, this.offset.y);
-            this._maxX = Kiwi.Utils.GameMath.clamp(this._maxX, this.width + this.offset.x, this.offset.x);
-            this._maxY = Kiwi.Utils.GameMath.clamp(this._maxY, this.height + this.offset.y, this.offset.y);
+            // The layer has no fixed size, so the values are not clamped. Tiles in chunks which are not loaded are skipped instead.
         }
 
+		/**
+		* Loads the chunks which the camera can see, and unloads those which are far away from it.
+		* This uses the boundaries calculated by '_calculateBoundaries', and is only called when 'streaming' is true.
+		*
+		* @method _streamChunks
+		* @since 1.4.0
+		* @protected
+		*/
+        protected _streamChunks() {
+            var padding = this.streamingPadding * this._chunkSize;
+
+            this.loadChunksInArea(this._startX - padding, this._startY - padding, this._maxX - this._startX + padding * 2, this._maxY - this._startY + padding * 2);
+
+            padding += this._chunkSize;
+            this.unloadChunksOutsideArea(this._startX - padding, this._startY - padding, this._maxX - this._startX + padding * 2, this._maxY - this._startY + padding * 2);
+        }
 
 		/** 
 		* The render loop which is used when using the Canvas renderer.
@@ -216,9 +586,69 @@ module Kiwi.GameObjects.Tilemap {
 		* @public
 		*/
         public render(camera: Kiwi.Camera) {
-        	throw "Not yet implemented";
+
+            //When not to render the map.
+            if (this.visible === false || this.alpha < 0.1 || this.exists === false) {
+                return;
+            }
+
+            //Get the context.
+            var ctx = this.game.stage.ctx;
+            ctx.save();
+
+            //Make the map alphed out.
+            if (this.alpha > 0 && this.alpha <= 1) {
+                ctx.globalAlpha = this.alpha;
+            }
+
+            // Transform
+            var t: Kiwi.Geom.Transform = this.transform;
+            var m: Kiwi.Geom.Matrix = t.getConcatenatedMatrix();
+
+            ctx.transform(m.a, m.b, m.c, m.d, m.tx, m.ty);
+
+            this._calculateBoundaries(camera, m);
+
+            if (this.streaming) {
+                this._streamChunks();
+            }
+
+            for (var y = this._startY; y < this._maxY; y++) {
+                for (var x = this._startX; x < this._maxX; x++) {
+
+                    if ((this._temptype = this.getTileFromXY(x, y)) && this._temptype.cellIndex !== -1) {
+
+                        var cell = this.atlas.cells[this._temptype.currentCellIndex];
+
+                        ctx.drawImage(
+                            this.atlas.image,
+                            cell.x,
+                            cell.y,
+                            cell.w,
+                            cell.h,
+                            x * this.tileWidth + this._temptype.offset.x,
+                            y * this.tileHeight + this._temptype.offset.y,
+                            cell.w,
+                            cell.h
+                            );
+
+                    }
+
+                }
+            }
+
+            ctx.restore();
+            return true;
         }
 
+		/** 
+		* The render loop which is used when using the WebGL renderer.
+		* @method renderGL
+		* @param gl {WebGLRenderingContext}
+		* @param camera {Camera}
+		* @param [params=null] {object}
+		* @public
+		*/
         public renderGL(gl: WebGLRenderingContext, camera: Kiwi.Camera, params: any = null) {
             //Setup
             var vertexItems = [];
@@ -231,6 +661,10 @@ module Kiwi.GameObjects.Tilemap {
             //Find which ones we need to render.
             this._calculateBoundaries(camera, m);
 
+            if (this.streaming) {
+                this._streamChunks();
+            }
+
             //Loop through the tiles.
             for (var y = this._startY; y < this._maxY; y++) {
                 for (var x = this._startX; x < this._maxX; x++) {
@@ -238,11 +672,11 @@ module Kiwi.GameObjects.Tilemap {
                     //Get the tile type
                     this._temptype = this.getTileFromXY(x, y);
 
-                    //Skip tiletypes that don't use a cellIndex.
-                    if (this._temptype.cellIndex == -1) continue;
+                    //Skip empty tiles and tiletypes that don't use a cellIndex.
+                    if (!this._temptype || this._temptype.cellIndex == -1) continue;
 
                     //Get the cell index
-                    var cell = this.atlas.cells[this._temptype.cellIndex];
+                    var cell = this.atlas.cells[this._temptype.currentCellIndex];
 
                     // TODO: should tile offset be used?
                     var tx = x * this.tileWidth + this._temptype.offset.x;
@@ -273,7 +707,25 @@ module Kiwi.GameObjects.Tilemap {
             }
 
             //Concat points to the Renderer.
-            (<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatBatch(vertexItems);
+            (<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatBatch(vertexItems, this);
+        }
+
+		/**
+		* Destroys the layer, along with the signals and chunks on it.
+		* @method destroy
+		* @param [immediate=false] {Boolean}
+		* @public
+		*/
+        public destroy(immediate: boolean = false) {
+            super.destroy(immediate);
+
+            if (this.onChunkRequired) this.onChunkRequired.dispose();
+            if (this.onChunkUnloaded) this.onChunkUnloaded.dispose();
+            delete this.onChunkRequired;
+            delete this.onChunkUnloaded;
+
+            this._chunks = {};
+            this._chunkList = [];
         }
 
     }
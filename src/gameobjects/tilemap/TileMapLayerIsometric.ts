@@ -39,254 +39,329 @@ module Kiwi.GameObjects.Tilemap {
         }
 
 
-		// /**
-		// * The type of object that it is.
-		// * @method objType
-		// * @return {String} "TileMapLayer"
-		// * @public
-		// */
-        // public objType() {
-        //     return "TileMapLayer";
-        // }
-		//
-		// /**
-		// * The orientation of the of tilemap.
-		// * TileMaps can be either 'orthogonal' (normal) or 'isometric'.
-		// * @property orientation
-		// * @type String
-		// * @default 'isometric'
-		// * @public
-		// */
-        // public orientation: string = ISOMETRIC;
-		//
-		// /**
-		// * Returns the index of the tile based on the x and y pixel coordinates that are passed.
-		// * If no tile is a the coordinates given then -1 is returned instead.
-		// * Coordinates are in pixels not tiles and use the world coordinates of the tilemap.
-        // *
-        // * Functionality needs to be added by classes extending this class.
-		// *
-		// * @method getIndexFromCoords
-		// * @param x {Number} The x coordinate of the Tile you would like to retrieve.
-		// * @param y {Number} The y coordinate of the Tile you would like to retrieve.
-		// * @return {Number} Either the index of the tile retrieved or -1 if none was found.
-		// * @public
-		// */
-        // public getIndexFromCoords(x: number, y: number): number {
-        //
-        //     //Not within the bounds?
-        //     var halfWidth = this.widthInPixels * 0.5;
-		//
-        //     if (x > this.x + halfWidth || x < this.x - halfWidth) return -1;
-        //     if (y > this.y + this.heightInPixels || y < this.y) return -1;
-		//
-		//
-		//
-        //     var point = this.screenToChart({ x: x, y: y });
-		//
-        //     return this.getIndexFromXY(point.x, point.y);
-		//
-        // }
-		//
-		//
-		// /**
-		// * ChartToScreen maps a point in the game tile coordinates into screen pixel
-		// * coordinates that indicate where the tile should be drawn.
-		// *
-		// * @method chartToScreen
-		// * @param chartPt {any} A Object containing x/y properties of the tile.
-		// * @param [tileW] {Number} The width of the tile
-		// * @param [tileH] {Number} The height of the tile
-		// * @return {Object} With x/y properties of the location of the map onscreen.
-		// * @public
-		// */
-        // public chartToScreen(chartPt: any, tileW: number = this.tileWidth, tileH: number = this.tileHeight): any {
-		//
-        //     return {
-        //         x: (chartPt.x - chartPt.y) * tileW * 0.5,
-        //         y: (chartPt.x + chartPt.y) * tileH * 0.5
-        //     };
-		//
-        // }
-		//
-		// /**
-		// * ScreenToChart maps a point in screen coordinates into the game tile chart
-		// * coordinates for the tile on which the screen point falls on.
-		// *
-		// * @method screenToChart
-		// * @param scrPt {any} An object containing x/y coordinates of the point on the screen you want to convert to tile coordinates.
-		// * @param [tileW] {Number} The width of a single tile.
-		// * @param [tileH] {Number} The height of a single tile.
-		// * @return {Object} With x/y properties of the location of tile on the screen.
-		// * @public
-		// */
-        // public screenToChart(scrPt: any, tileW: number=this.tileWidth, tileH: number=this.tileHeight): any {
-		// 	var tileWH = tileW * 0.5;
-		// 	var tileHH = tileH * 0.5;
-		// 	return {
-		// 		x: Math.ceil((scrPt.x / tileWH + scrPt.y / tileHH) / 2),
-		// 		y: Math.ceil((scrPt.y / tileHH -(scrPt.x / tileWH)) / 2)
-		// 	};
-        //     // var column = Math.floor( scrPt.x / (tileW * 0.5) );
-        //     // var row = Math.floor( ( scrPt.y - column * ( tileH / 2 ) ) / tileH);
-        //     // return {
-        //     //     x: column + row,
-        //     //     y: row
-        //     // };
-        // }
-		//
-		//
-		// /**
-		// * The render loop which is used when using the Canvas renderer.
-		// * @method render
-		// * @param camera {Camera}
-		// * @public
-		// */
-        // public render(camera: Kiwi.Camera) {
-		//
-        //     //When not to render the map.
-        //     if (this.visible === false || this.alpha < 0.1 || this.exists === false) {
-        //         return;
-        //     }
-		//
-        //     //Get the context.
-        //     var ctx = this.game.stage.ctx;
-        //     ctx.save();
-		//
-        //     //Make the map alphed out.
-        //     if (this.alpha > 0 && this.alpha <= 1) {
-        //         ctx.globalAlpha = this.alpha;
-        //     }
-		//
-        //     // Transform
-        //     var t: Kiwi.Geom.Transform = this.transform;
-        //     var m: Kiwi.Geom.Matrix = t.getConcatenatedMatrix();
-		//
-        //     ctx.transform(m.a, m.b, m.c, m.d, m.tx, m.ty);
-		//
-        //     this._calculateBoundaries(camera, m);
-		//
-        //     for (var y = this._startY; y < this._maxY; y++) {
-        //         for (var x = this._startX; x < this._maxX; x++) {
-		//
-        //             if ((this._temptype = this.getTileFromXY(x, y)) && this._temptype.cellIndex !== -1) {
-		//
-        //                 var cell = this.atlas.cells[this._temptype.cellIndex];
-		//
-        //                 var offsetX = this._temptype.offset.x;
-        //                 var offsetY = this._temptype.offset.y;
-        //                 var w = this.tileWidth * (this.width * 2 - 1);
-        //                 var h = this.tileHeight * this.height;
-		//
-        //                 // We want <0,0>'s horizontal center point to be in the screen center, hence the -tileWidth/2.
-        //                 var shiftX = this.tileWidth / 2;
-		//
-        //                 var screenPos = this.chartToScreen(
-        //                     { x: x, y: y },
-        //                     this.tileWidth,
-        //                     this.tileHeight);
-		//
-        //                 var drawX: number = screenPos.x + this._temptype.offset.x - shiftX;
-        //                 var drawY: number = screenPos.y - (cell.h - this.tileHeight) + this._temptype.offset.y;
-		//
-		//
-        //                 ctx.drawImage(
-        //                     this.atlas.image,
-        //                     cell.x,
-        //                     cell.y,
-        //                     cell.w,
-        //                     cell.h,
-        //                     drawX,
-        //                     drawY,
-        //                     cell.w,
-        //                     cell.h
-        //                     );
-		//
-        //             }
-		//
-		//
-        //         }
-        //     }
-		//
-		//
-        //     ctx.restore();
-        //     return true;
-        // }
-		//
-        // public renderGL(gl: WebGLRenderingContext, camera: Kiwi.Camera, params: any = null) {
-		//
-        //     //Setup
-        //     var vertexItems = [];
-		//
-        //     //Transform/Matrix
-        //     var t: Kiwi.Geom.Transform = this.transform;
-        //     var m: Kiwi.Geom.Matrix = t.getConcatenatedMatrix();
-		//
-		//
-        //     //Find which ones we need to render.
-        //     this._calculateBoundaries(camera, m);
-		//
-        //     //Loop through the tiles.
-        //     for (var y = this._startY; y < this._maxY; y++) {
-        //         for (var x = this._startX; x < this._maxX; x++) {
-		//
-		//
-        //             //Get the tile type
-        //             this._temptype = this.getTileFromXY(x, y);
-		//
-		//
-        //             //Skip tiletypes that don't use a cellIndex.
-        //             if (this._temptype.cellIndex == -1) continue;
-		//
-		//
-        //             //Get the cell index
-        //             var cell = this.atlas.cells[this._temptype.cellIndex];
-		//
-        //             // Isometric maps
-        //             var offsetX = this._temptype.offset.x;
-        //             var offsetY = this._temptype.offset.y;
-        //             var w = this.tileWidth * (this.width * 2 - 1);
-        //             var h = this.tileHeight * this.height;
-		//
-        //             // We want <0,0>'s horizontal center point to be in the screen center, hence the -tileWidth/2.
-        //             var shiftX = this.tileWidth / 2;
-		//
-        //             var screenPos = this.chartToScreen(
-        //                 { x: x, y: y },
-        //                 this.tileWidth,
-        //                 this.tileHeight);
-		//
-        //             var tx = screenPos.x + this._temptype.offset.x - shiftX;
-        //             var ty = screenPos.y + this._temptype.offset.y;
-		//
-		//
-        //             //Set up the points
-        //             this._corner1.setTo(tx - t.rotPointX, ty - t.rotPointY - (cell.h - this.tileHeight));
-        //             this._corner2.setTo(tx + cell.w - t.rotPointX, ty - t.rotPointY - (cell.h - this.tileHeight));
-        //             this._corner3.setTo(tx + cell.w - t.rotPointX, ty + cell.h - t.rotPointY - (cell.h - this.tileHeight));
-        //             this._corner4.setTo(tx - t.rotPointX, ty + cell.h - t.rotPointY - (cell.h - this.tileHeight));
-		//
-		//
-        //             //Add on the matrix to the points
-        //             m.transformPointInPlace(this._corner1);
-        //             m.transformPointInPlace(this._corner2);
-        //             m.transformPointInPlace(this._corner3);
-        //             m.transformPointInPlace(this._corner4);
-		//
-		//
-        //             //Append to the xyuv array
-        //             vertexItems.push(
-        //                 this._corner1.x + t.rotPointX, this._corner1.y + t.rotPointY, cell.x, cell.y, this.alpha,                   //Top Left Point
-        //                 this._corner2.x + t.rotPointX, this._corner2.y + t.rotPointY, cell.x + cell.w, cell.y, this.alpha,          //Top Right Point
-        //                 this._corner3.x + t.rotPointX, this._corner3.y + t.rotPointY, cell.x + cell.w, cell.y + cell.h, this.alpha, //Bottom Right Point
-        //                 this._corner4.x + t.rotPointX, this._corner4.y + t.rotPointY, cell.x, cell.y + cell.h, this.alpha           //Bottom Left Point
-        //                 );
-        //         }
-        //     }
-		//
-        //     //Concat points to the Renderer.
-        //     (<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatBatch(vertexItems);
-        // }
+		/**
+		* The type of object that it is.
+		* @method objType
+		* @return {String} "TileMapLayer"
+		* @public
+		*/
+        public objType() {
+            return "TileMapLayer";
+        }
+
+		/**
+		* The orientation of the of tilemap.
+		* TileMaps can be either 'orthogonal' (normal) or 'isometric'.
+		* @property orientation
+		* @type String
+		* @default 'isometric'
+		* @public
+		*/
+        public orientation: string = ISOMETRIC;
+
+		/**
+		* How many extra tiles around the visible area are rendered.
+		* Tiles whose cells are taller than the tile height (or which have an offset) stick out of their diamond,
+		* and without padding they would disappear as soon as their diamond leaves the screen.
+		* @property renderPadding
+		* @type Number
+		* @default 2
+		* @public
+		* @since 1.4.0
+		*/
+        public renderPadding: number = 2;
+
+		/**
+		* The width of the layer in pixels. This value is READ ONLY.
+		* @property widthInPixels
+		* @type Number
+		* @public
+		*/
+        public get widthInPixels(): number {
+            return (this.width + this.height) * this.tileWidth * 0.5;
+        }
+
+		/**
+		* The height of the layer in pixels. This value is READ ONLY.
+		* @property heightInPixels
+		* @type Number
+		* @public
+		*/
+        public get heightInPixels(): number {
+            return (this.width + this.height) * this.tileHeight * 0.5;
+        }
+
+		/**
+		* Returns the area that the diamond of tiles of this layer covers, in the space of the layer.
+		* The top corner of the first tile is at the origin, so the tiles down the left edge of the map reach to the left of it.
+		* @method getLocalBounds
+		* @param [output] {Kiwi.Geom.Rectangle} A rectangle to store the result in. One is created if none is given.
+		* @return {Kiwi.Geom.Rectangle}
+		* @public
+		* @since 1.4.0
+		*/
+        public getLocalBounds(output: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle()): Kiwi.Geom.Rectangle {
+            return output.setTo(-this.height * this.tileWidth * 0.5, 0, this.widthInPixels, this.heightInPixels);
+        }
+
+		/**
+		* Returns the index of the tile based on the x and y pixel coordinates that are passed.
+		* If no tile is a the coordinates given then -1 is returned instead.
+		* Coordinates are in pixels not tiles and use the world coordinates of the tilemap.
+		*
+		* @method getIndexFromCoords
+		* @param x {Number} The x coordinate of the Tile you would like to retrieve.
+		* @param y {Number} The y coordinate of the Tile you would like to retrieve.
+		* @return {Number} Either the index of the tile retrieved or -1 if none was found.
+		* @public
+		*/
+        public getIndexFromCoords(x: number, y: number): number {
+
+            //Bring the point into the space of the layer
+            this._corner1.setTo(x, y);
+            this.transform.getConcatenatedMatrix().invertCopy().transformPointInPlace(this._corner1);
+
+            var point = this.screenToChart(this._corner1);
+
+            //Not within the bounds?
+            if (point.x < 0 || point.x >= this.width || point.y < 0 || point.y >= this.height) return -1;
+
+            return this.getIndexFromXY(point.x, point.y);
+
+        }
+
+		/**
+		* Collisions with tiles are not supported on isometric layers, so an empty array is always returned.
+		* 
+		* @method getOverlappingTiles
+		* @param entity {Kiwi.Entity} The entity you would like to check for the overlap.
+		* @param [collisionType=ANY] {Number} The particular type of collidable tiles which you would like to check for.
+		* @return {Object[]}
+		* @public
+		*/
+        public getOverlappingTiles(entity: Kiwi.Entity, collisionType: number = Kiwi.Components.ArcadePhysics.ANY): any {
+            return [];
+        }
+
+		/**
+		* ChartToScreen maps a point in the game tile coordinates into screen pixel
+		* coordinates that indicate where the tile should be drawn.
+		* The point returned is the top corner of the diamond of the tile, in the space of the layer.
+		*
+		* @method chartToScreen
+		* @param chartPt {any} A Object containing x/y properties of the tile.
+		* @param [tileW] {Number} The width of the tile
+		* @param [tileH] {Number} The height of the tile
+		* @return {Object} With x/y properties of the location of the map onscreen.
+		* @public
+		*/
+        public chartToScreen(chartPt: any, tileW: number = this.tileWidth, tileH: number = this.tileHeight): any {
+
+            return {
+                x: (chartPt.x - chartPt.y) * tileW * 0.5,
+                y: (chartPt.x + chartPt.y) * tileH * 0.5
+            };
+
+        }
+
+		/**
+		* ScreenToChart maps a point in screen coordinates into the game tile chart
+		* coordinates for the tile on which the screen point falls on.
+		* The point passed should be in the space of the layer.
+		*
+		* @method screenToChart
+		* @param scrPt {any} An object containing x/y coordinates of the point on the screen you want to convert to tile coordinates.
+		* @param [tileW] {Number} The width of a single tile.
+		* @param [tileH] {Number} The height of a single tile.
+		* @return {Object} With x/y properties of the location of tile on the screen.
+		* @public
+		*/
+        public screenToChart(scrPt: any, tileW: number = this.tileWidth, tileH: number = this.tileHeight): any {
+
+            var tileWH = tileW * 0.5;
+            var tileHH = tileH * 0.5;
+
+            return {
+                x: Math.floor((scrPt.x / tileWH + scrPt.y / tileHH) / 2),
+                y: Math.floor((scrPt.y / tileHH - scrPt.x / tileWH) / 2)
+            };
+
+        }
+
+		/**
+		* Used to calculate which tiles are on the screen.
+		* The corners of the stage are brought into the space of the layer and converted into tile coordinates.
+		* All coordinates calculated are stored as temporary properties (maxX/Y, startX/Y).
+		*
+		* @method _calculateBoundaries
+		* @param camera {Camera}
+		* @param matrix {matrix}
+		* @protected
+		*/
+        protected _calculateBoundaries(camera: Kiwi.Camera, matrix: Kiwi.Geom.Matrix) {
+
+            this._setCornersToFrustum();
+
+            var m = matrix.invertCopy();
+            var c1 = this.screenToChart(m.transformPoint(this._corner1));
+            var c2 = this.screenToChart(m.transformPoint(this._corner2));
+            var c3 = this.screenToChart(m.transformPoint(this._corner3));
+            var c4 = this.screenToChart(m.transformPoint(this._corner4));
+
+            this._startX = Math.min(c1.x, c2.x, c3.x, c4.x) - this.renderPadding;
+            this._startY = Math.min(c1.y, c2.y, c3.y, c4.y) - this.renderPadding;
+            this._maxX = Math.max(c1.x, c2.x, c3.x, c4.x) + 1 + this.renderPadding;
+            this._maxY = Math.max(c1.y, c2.y, c3.y, c4.y) + 1 + this.renderPadding;
+
+            // Clamp values to tilemap range...
+            this._startX = Kiwi.Utils.GameMath.clamp(this._startX, this.width);
+            this._startY = Kiwi.Utils.GameMath.clamp(this._startY, this.height);
+            this._maxX = Kiwi.Utils.GameMath.clamp(this._maxX, this.width);
+            this._maxY = Kiwi.Utils.GameMath.clamp(this._maxY, this.height);
+
+        }
+
+		/**
+		* Calls a method for every visible tile, in the order they should be drawn.
+		* Tiles are visited one diagonal at a time, from the back of the map to the front,
+		* so that tiles nearer the viewer are always drawn over the ones behind them.
+		*
+		* @method _forEachVisibleTile
+		* @param callback {Function} Called with the x and y of the tile in tiles.
+		* @private
+		*/
+        private _forEachVisibleTile(callback: (x: number, y: number) => any) {
+
+            var lastDepth = (this._maxX - 1) + (this._maxY - 1);
+
+            for (var depth = this._startX + this._startY; depth <= lastDepth; depth++) {
+
+                var fromX = Math.max(this._startX, depth - (this._maxY - 1));
+                var toX = Math.min(this._maxX - 1, depth - this._startY);
+
+                for (var x = fromX; x <= toX; x++) {
+                    callback(x, depth - x);
+                }
+            }
+
+        }
+
+		/**
+		* The render loop which is used when using the Canvas renderer.
+		* @method render
+		* @param camera {Camera}
+		* @public
+		*/
+        public render(camera: Kiwi.Camera) {
+
+            //When not to render the map.
+            if (this.visible === false || this.alpha < 0.1 || this.exists === false) {
+                return;
+            }
+
+            //Get the context.
+            var ctx = this.game.stage.ctx;
+            ctx.save();
+
+            //Make the map alphed out.
+            if (this.alpha > 0 && this.alpha <= 1) {
+                ctx.globalAlpha = this.alpha;
+            }
+
+            // Transform
+            var t: Kiwi.Geom.Transform = this.transform;
+            var m: Kiwi.Geom.Matrix = t.getConcatenatedMatrix();
+
+            ctx.transform(m.a, m.b, m.c, m.d, m.tx, m.ty);
+
+            this._calculateBoundaries(camera, m);
+
+            this._forEachVisibleTile((x: number, y: number) => {
+
+                if ((this._temptype = this.getTileFromXY(x, y)) && this._temptype.cellIndex !== -1) {
+
+                    var cell = this.atlas.cells[this._temptype.currentCellIndex];
+
+                    var screenPos = this.chartToScreen({ x: x, y: y });
+
+                    // The top corner of the diamond is at screenPos, so the cell is centered on it.
+                    var drawX: number = screenPos.x - this.tileWidth * 0.5 + this._temptype.offset.x;
+                    var drawY: number = screenPos.y - (cell.h - this.tileHeight) + this._temptype.offset.y;
+
+                    ctx.drawImage(
+                        this.atlas.image,
+                        cell.x,
+                        cell.y,
+                        cell.w,
+                        cell.h,
+                        drawX,
+                        drawY,
+                        cell.w,
+                        cell.h
+                        );
+
+                }
+
+            });
+
+            ctx.restore();
+            return true;
+        }
+
+        public renderGL(gl: WebGLRenderingContext, camera: Kiwi.Camera, params: any = null) {
+
+            //Setup
+            var vertexItems = [];
+
+            //Transform/Matrix
+            var t: Kiwi.Geom.Transform = this.transform;
+            var m: Kiwi.Geom.Matrix = t.getConcatenatedMatrix();
+
+            //Find which ones we need to render.
+            this._calculateBoundaries(camera, m);
+
+            //Loop through the tiles.
+            this._forEachVisibleTile((x: number, y: number) => {
+
+                //Get the tile type
+                this._temptype = this.getTileFromXY(x, y);
+
+                //Skip tiletypes that don't use a cellIndex.
+                if (!this._temptype || this._temptype.cellIndex == -1) return;
+
+                //Get the cell index
+                var cell = this.atlas.cells[this._temptype.currentCellIndex];
+
+                var screenPos = this.chartToScreen({ x: x, y: y });
+
+                var tx = screenPos.x - this.tileWidth * 0.5 + this._temptype.offset.x;
+                var ty = screenPos.y - (cell.h - this.tileHeight) + this._temptype.offset.y;
+
+                //Set up the points
+                this._corner1.setTo(tx, ty);
+                this._corner2.setTo(tx + cell.w, ty);
+                this._corner3.setTo(tx + cell.w, ty + cell.h);
+                this._corner4.setTo(tx, ty + cell.h);
+
+                //Add on the matrix to the points
+                m.transformPointInPlace(this._corner1);
+                m.transformPointInPlace(this._corner2);
+                m.transformPointInPlace(this._corner3);
+                m.transformPointInPlace(this._corner4);
+
+                //Append to the xyuv array
+                vertexItems.push(
+                    this._corner1.x, this._corner1.y, cell.x, cell.y, this.alpha,                   //Top Left Point
+                    this._corner2.x, this._corner2.y, cell.x + cell.w, cell.y, this.alpha,          //Top Right Point
+                    this._corner3.x, this._corner3.y, cell.x + cell.w, cell.y + cell.h, this.alpha, //Bottom Right Point
+                    this._corner4.x, this._corner4.y, cell.x, cell.y + cell.h, this.alpha           //Bottom Left Point
+                    );
+
+            });
+
+            //Concat points to the Renderer.
+            (<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatBatch(vertexItems, this);
+        }
 
     }
 }
@@ -84,59 +84,6 @@ module Kiwi.GameObjects.Tilemap {
         // }
 
 
-		/**
-		* Returns the tiles which overlap with a provided entities hitbox component. 
-		* Only collidable tiles on ANY side will be returned unless you pass a particular side.
-		* 
-		* @method getOverlappingTiles
-		* @param entity {Kiwi.Entity} The entity you would like to check for the overlap.
-		* @param [collisionType=ANY] {Number} The particular type of collidable tiles which you would like to check for.
-		* @return {Object[]} Returns an Array of Objects containing information about the tiles which were found. Index/X/Y information is contained within each Object. 
-		* @public
-		*/
-        // public getOverlappingTiles(entity: Kiwi.Entity, collisionType: number = Kiwi.Components.ArcadePhysics.ANY): any {
-		//
-        //     //Do they have a box?
-        //     if (entity.components.hasComponent("Box") == false)
-        //         return [];
-		//
-        //     //Get the box off them
-        //     var b: Kiwi.Geom.Rectangle = entity.components.getComponent('Box').worldHitbox;
-		//
-        //     var worldX = this.transform.worldX;
-        //     var worldY = this.transform.worldY;
-		//
-        //     //Is the person within the map's bounds?
-        //     if (b.left > worldX + this.widthInPixels || b.right < worldX || b.bottom < worldY || b.top > worldY + this.heightInPixels)
-        //         return [];
-		//
-		//
-        //     var nx = b.x - worldX;
-        //     var ny = b.y - worldY;
-		//
-        //     //Get starting location and now many tiles from there we will check.
-        //     var x = Kiwi.Utils.GameMath.snapToFloor(nx, this.tileWidth) / this.tileWidth;
-        //     var y = Kiwi.Utils.GameMath.snapToFloor(ny, this.tileHeight) / this.tileHeight;
-        //     var w = Kiwi.Utils.GameMath.snapToCeil(b.width, this.tileWidth) / this.tileWidth;
-        //     var h = Kiwi.Utils.GameMath.snapToCeil(b.height, this.tileHeight) / this.tileHeight;
-		//
-        //     //Add one, because we want to include the very end tile.
-        //     var tiles = this.getCollidableTiles(x, y, w + 1, h + 1, collisionType);
-		//
-        //     //Loop through the tiles and make sure they are actually overlapping with the Entity.
-        //     for (var i = 0; i < tiles.length; i++) {
-        //         var t = tiles[i];
-		//
-        //         if (t.x + worldX > b.right || t.x + this.tileWidth + worldX < b.left || t.y + worldY > b.bottom || t.y + this.tileHeight + worldY < b.top) {
-        //             tiles.splice(i, 1);
-        //             i--;
-        //         }
-        //     }
-		//
-        //     return tiles;
-		//
-        // }
-
 		/**
 		* Used to calculate the position of the tilemap on the stage as well as how many tiles can fit on the screen. 
 		* All coordinates calculated are stored as temporary properties (maxX/Y, startX/Y).
@@ -151,16 +98,8 @@ module Kiwi.GameObjects.Tilemap {
             //If we are calculating the coordinates for 'regular' then we can do that rather easy
 
             // Account for camera and object transformation
-            // Initialise corners...
-            this._corner1.setTo(0, 0);
-            this._corner2.setTo(this.game.stage.width, 0);
-            this._corner3.setTo(this.game.stage.width, this.game.stage.height);
-            this._corner4.setTo(0, this.game.stage.height);
-            // Transform corners by camera...
-            // camera.transformWorldToStage(this._corner1, false);
-            // camera.transformWorldToStage(this._corner2, false);
-            // camera.transformWorldToStage(this._corner3, false);
-            // camera.transformWorldToStage(this._corner4, false);
+            // Initialise corners to the area of the world the camera can see...
+            this._setCornersToFrustum();
             // Transform corners by object...
             var m = matrix.clone();
             m.invert();
@@ -227,7 +166,7 @@ module Kiwi.GameObjects.Tilemap {
 
                     if ((this._temptype = this.getTileFromXY(x, y)) && this._temptype.cellIndex !== -1) {
 
-                        var cell = this.atlas.cells[this._temptype.cellIndex];
+                        var cell = this.atlas.cells[this._temptype.currentCellIndex];
 
                         var drawX: number = x * this.tileWidth + this._temptype.offset.x;
                         var drawY: number = y * this.tileHeight - (cell.h - this.tileHeight) + this._temptype.offset.y;
@@ -278,7 +217,7 @@ module Kiwi.GameObjects.Tilemap {
                     if (this._temptype.cellIndex == -1) continue;
 
                     //Get the cell index
-                    var cell = this.atlas.cells[this._temptype.cellIndex];
+                    var cell = this.atlas.cells[this._temptype.currentCellIndex];
 
                     var tx = x * this.tileWidth + this._temptype.offset.x;
                     var ty = y * this.tileHeight + this._temptype.offset.y;
@@ -309,7 +248,7 @@ module Kiwi.GameObjects.Tilemap {
             }
 
             //Concat points to the Renderer.
-            (<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatBatch(vertexItems);
+            (<Kiwi.Renderers.TextureAtlasRenderer>this.glRenderer).concatBatch(vertexItems, this);
         }
 
     }
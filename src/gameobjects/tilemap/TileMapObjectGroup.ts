@@ -0,0 +1,201 @@
+/**
+ *
+ * @module GameObjects
+ * @submodule Tilemap
+ *
+ */
+
+module Kiwi.GameObjects.Tilemap {
+
+	/**
+	 * A TileMapObjectGroup holds the objects of an "objectgroup" layer from Tiled.
+	 * Unlike a TileMapLayer it is not rendered. Instead the objects on it can be spawned as GameObjects,
+	 * using the factories that were registered on the State with the 'tileObjectFactories' property.
+	 * This class should not be directly created, but instead should be created via methods on the TileMap class.
+	 *
+	 * @class TileMapObjectGroup
+	 * @namespace Kiwi.GameObjects.Tilemap
+	 * @constructor
+	 * @param tilemap {Kiwi.GameObjects.Tilemap.TileMap} The TileMap that this object group belongs to.
+	 * @param name {String} The name of this object group.
+	 * @param [objects] {TileObject[]} The objects that are on this group.
+	 * @return {TileMapObjectGroup}
+	 * @since 1.4.0
+	 */
+	export class TileMapObjectGroup {
+
+		constructor(tilemap: TileMap, name: string, objects: TileObject[] = []) {
+			this.tilemap = tilemap;
+			this.name = name;
+			this.objects = objects;
+			this.properties = {};
+			this.group = null;
+		}
+
+		/**
+		 * The type of object that it is.
+		 * @method objType
+		 * @return {String} "TileMapObjectGroup"
+		 * @public
+		 */
+		public objType() {
+			return "TileMapObjectGroup";
+		}
+
+		/**
+		 * The TileMap that this object group belongs to.
+		 * @property tilemap
+		 * @type Kiwi.GameObjects.Tilemap.TileMap
+		 * @public
+		 */
+		public tilemap: TileMap;
+
+		/**
+		 * The name of this object group.
+		 * @property name
+		 * @type String
+		 * @public
+		 */
+		public name: string;
+
+		/**
+		 * The objects that are on this group.
+		 * @property objects
+		 * @type TileObject[]
+		 * @public
+		 */
+		public objects: TileObject[];
+
+		/**
+		 * Any properties that were set on the layer in Tiled.
+		 * @property properties
+		 * @type Object
+		 * @public
+		 */
+		public properties: any;
+
+		/**
+		 * The offset of the object group on the x axis in pixels.
+		 * @property x
+		 * @type Number
+		 * @default 0
+		 * @public
+		 */
+		public x: number = 0;
+
+		/**
+		 * The offset of the object group on the y axis in pixels.
+		 * @property y
+		 * @type Number
+		 * @default 0
+		 * @public
+		 */
+		public y: number = 0;
+
+		/**
+		 * If the layer was visible in Tiled.
+		 * @property visible
+		 * @type boolean
+		 * @default true
+		 * @public
+		 */
+		public visible: boolean = true;
+
+		/**
+		 * The opacity of the layer in Tiled.
+		 * @property alpha
+		 * @type Number
+		 * @default 1
+		 * @public
+		 */
+		public alpha: number = 1;
+
+		/**
+		 * The Group that the GameObjects spawned from this object group were added to.
+		 * This is null until 'spawn' has been called. Like TileMapLayers, it is up to you to add it to the State.
+		 * @property group
+		 * @type Kiwi.Group
+		 * @default null
+		 * @public
+		 */
+		public group: Kiwi.Group;
+
+		/**
+		 * Returns the first object with the name passed, or null if there is none.
+		 * @method getObjectByName
+		 * @param name {String}
+		 * @return {TileObject}
+		 * @public
+		 */
+		public getObjectByName(name: string): TileObject {
+			for (var i = 0; i < this.objects.length; i++) {
+				if (this.objects[i].name === name) {
+					return this.objects[i];
+				}
+			}
+			return null;
+		}
+
+		/**
+		 * Returns every object with the type passed.
+		 * @method getObjectsByType
+		 * @param type {String}
+		 * @return {TileObject[]}
+		 * @public
+		 */
+		public getObjectsByType(type: string): TileObject[] {
+			var objects = [];
+			for (var i = 0; i < this.objects.length; i++) {
+				if (this.objects[i].type === type) {
+					objects.push(this.objects[i]);
+				}
+			}
+			return objects;
+		}
+
+		/**
+		 * Creates a GameObject for every object whose type has a factory in the 'tileObjectFactories' of the State.
+		 * Each factory is a constructor, which is called with the State and the TileObject, e.g. new Coin(state, tileObject).
+		 * The GameObjects are positioned and rotated to match the objects, and added to the 'group' of this object group.
+		 * Objects whose type has no factory are skipped.
+		 * @method spawn
+		 * @return {Kiwi.Group} The Group the GameObjects were added to.
+		 * @public
+		 */
+		public spawn(): Kiwi.Group {
+
+			var state: Kiwi.State = this.tilemap.state;
+			var factories = state.tileObjectFactories;
+
+			if (this.group === null) {
+				this.group = new Kiwi.Group(state, this.name);
+				this.group.x = this.x;
+				this.group.y = this.y;
+				this.group.visible = this.visible;
+			}
+
+			for (var i = 0; i < this.objects.length; i++) {
+				var object = this.objects[i];
+				// Only the factories which were added count, not the properties every object inherits such as "constructor"
+				if (!Object.prototype.hasOwnProperty.call(factories, object.type)) continue;
+
+				var child = new factories[object.type](state, object);
+
+				// Tiled places tile objects by their bottom left corner, and rotates every object around the corner it is placed by.
+				var cornerY: number = (object.gid !== 0) ? object.height : 0;
+				child.x = object.x;
+				child.y = object.y - cornerY;
+				child.setPivotPoint(0, cornerY);
+				// Tiled rotates clockwise in degrees, while a positive rotation in Kiwi turns anticlockwise.
+				child.rotationRad = -Kiwi.Utils.GameMath.degreesToRadians(object.rotation);
+				if (object.name !== '') child.name = object.name;
+
+				this.group.addChild(child);
+			}
+
+			return this.group;
+		}
+
+	}
+
+}
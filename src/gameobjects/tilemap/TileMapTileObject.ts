@@ -7,23 +7,314 @@
 
 module Kiwi.GameObjects.Tilemap {
 	/**
-	 * TODO: write this
+	 * A TileObject holds the information about a single object that was placed on an object layer in Tiled.
+	 * These are things like spawn points, triggers and collectibles, which are not part of the tile grid.
+	 * TileObjects are created by the TileMap when it reads an "objectgroup" layer, and are stored on a TileMapObjectGroup.
 	 *
 	 * @class TileObject
 	 * @namespace Kiwi.GameObjects.Tilemap
 	 * @constructor
-	 * @param tileType {Number} The tile type.
+	 * @param [data] {Object} The JSON of the object, as exported by Tiled.
 	 * @return {TileObject}
 	 */
 	export class TileObject/* extends Kiwi.Entity*/ {
 		protected _tileType = 0;
 
-		constructor() {
+		constructor(data: any = null) {
+
+			this.polygon = null;
+			this.polyline = null;
+			this.properties = {};
+
+			if (data !== null) {
+				this.parse(data);
+			}
 
 		}
 
+		/**
+		 * The type of object that it is.
+		 * @method objType
+		 * @return {String} "TileObject"
+		 * @public
+		 */
+		public objType() {
+			return "TileObject";
+		}
+
+		/**
+		 * The TileType that this object uses, taken from its gid with the flipping flags removed.
+		 * This is 0 when the object is not a tile.
+		 * @property tileType
+		 * @type Number
+		 * @public
+		 */
 		public get tileType(): number {
 			return this._tileType;
 		}
+
+		/**
+		 * The unique id Tiled gave this object.
+		 * @property id
+		 * @type Number
+		 * @default 0
+		 * @public
+		 */
+		public id: number = 0;
+
+		/**
+		 * The name of this object.
+		 * @property name
+		 * @type String
+		 * @default ''
+		 * @public
+		 */
+		public name: string = '';
+
+		/**
+		 * The type of this object. This is the string which is used to find a factory when spawning objects.
+		 * @property type
+		 * @type String
+		 * @default ''
+		 * @public
+		 */
+		public type: string = '';
+
+		/**
+		 * The position of this object on the x axis in pixels, relative to its object group.
+		 * @property x
+		 * @type Number
+		 * @default 0
+		 * @public
+		 */
+		public x: number = 0;
+
+		/**
+		 * The position of this object on the y axis in pixels, relative to its object group.
+		 * Note: For tile objects Tiled places this at the bottom of the tile.
+		 * @property y
+		 * @type Number
+		 * @default 0
+		 * @public
+		 */
+		public y: number = 0;
+
+		/**
+		 * The width of this object in pixels.
+		 * @property width
+		 * @type Number
+		 * @default 0
+		 * @public
+		 */
+		public width: number = 0;
+
+		/**
+		 * The height of this object in pixels.
+		 * @property height
+		 * @type Number
+		 * @default 0
+		 * @public
+		 */
+		public height: number = 0;
+
+		/**
+		 * The rotation of this object in degrees, clockwise around its position.
+		 * @property rotation
+		 * @type Number
+		 * @default 0
+		 * @public
+		 */
+		public rotation: number = 0;
+
+		/**
+		 * The global tile id of this object, including the flipping flags. This is 0 when the object is not a tile.
+		 * @property gid
+		 * @type Number
+		 * @default 0
+		 * @public
+		 */
+		public gid: number = 0;
+
+		/**
+		 * If the tile of this object is flipped horizontally.
+		 * @property flippedX
+		 * @type boolean
+		 * @default false
+		 * @public
+		 */
+		public flippedX: boolean = false;
+
+		/**
+		 * If the tile of this object is flipped vertically.
+		 * @property flippedY
+		 * @type boolean
+		 * @default false
+		 * @public
+		 */
+		public flippedY: boolean = false;
+
+		/**
+		 * If this object is visible.
+		 * @property visible
+		 * @type boolean
+		 * @default true
+		 * @public
+		 */
+		public visible: boolean = true;
+
+		/**
+		 * If this object is an ellipse which fits inside its width and height.
+		 * @property ellipse
+		 * @type boolean
+		 * @default false
+		 * @public
+		 */
+		public ellipse: boolean = false;
+
+		/**
+		 * If this object is a single point.
+		 * @property point
+		 * @type boolean
+		 * @default false
+		 * @public
+		 */
+		public point: boolean = false;
+
+		/**
+		 * The points of this object when it is a polygon, relative to its position. Otherwise null.
+		 * @property polygon
+		 * @type Kiwi.Geom.Point[]
+		 * @default null
+		 * @public
+		 */
+		public polygon: Kiwi.Geom.Point[];
+
+		/**
+		 * The points of this object when it is a polyline, relative to its position. Otherwise null.
+		 * @property polyline
+		 * @type Kiwi.Geom.Point[]
+		 * @default null
+		 * @public
+		 */
+		public polyline: Kiwi.Geom.Point[];
+
+		/**
+		 * Any custom properties that were set on this object in Tiled.
+		 * @property properties
+		 * @type Object
+		 * @public
+		 */
+		public properties: any;
+
+		/**
+		 * Reads the information of an object from the JSON that Tiled exported.
+		 * @method parse
+		 * @param data {Object}
+		 * @return {TileObject} This object.
+		 * @public
+		 */
+		public parse(data: any): TileObject {
+
+			this.id = (data.id == undefined) ? 0 : data.id;
+			this.name = (data.name == undefined) ? '' : data.name;
+			this.type = (data.type == undefined) ? '' : data.type;
+			this.x = (data.x == undefined) ? 0 : data.x;
+			this.y = (data.y == undefined) ? 0 : data.y;
+			this.width = (data.width == undefined) ? 0 : data.width;
+			this.height = (data.height == undefined) ? 0 : data.height;
+			this.rotation = (data.rotation == undefined) ? 0 : data.rotation;
+			this.visible = (data.visible == undefined) ? true : data.visible;
+			this.ellipse = (data.ellipse === true);
+			this.point = (data.point === true);
+
+			if (data.gid !== undefined) {
+				this.gid = data.gid;
+				this.flippedX = (data.gid & TileObject.FLIPPED_HORIZONTALLY) !== 0;
+				this.flippedY = (data.gid & TileObject.FLIPPED_VERTICALLY) !== 0;
+				this._tileType = data.gid & TileObject.GID_MASK;
+			}
+
+			this.polygon = TileObject._parsePoints(data.polygon);
+			this.polyline = TileObject._parsePoints(data.polyline);
+
+			TileMap.parseProperties(data.properties, this.properties, data.propertytypes);
+
+			return this;
+		}
+
+		/**
+		 * Returns the area this object covers, relative to its object group. 
+		 * For polygons and polylines this is the area around all of their points. Rotation is not taken into account.
+		 * @method getBounds
+		 * @param [output] {Kiwi.Geom.Rectangle} The rectangle to put the result in.
+		 * @return {Kiwi.Geom.Rectangle}
+		 * @since 1.4.0
+		 * @public
+		 */
+		public getBounds(output: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle()): Kiwi.Geom.Rectangle {
+
+			var points = this.polygon || this.polyline;
+			if (points === null || points.length === 0) {
+				return output.setTo(this.x, this.y, this.width, this.height);
+			}
+
+			var minX = points[0].x, minY = points[0].y, maxX = minX, maxY = minY;
+			for (var i = 1; i < points.length; i++) {
+				minX = Math.min(minX, points[i].x);
+				minY = Math.min(minY, points[i].y);
+				maxX = Math.max(maxX, points[i].x);
+				maxY = Math.max(maxY, points[i].y);
+			}
+
+			return output.setTo(this.x + minX, this.y + minY, maxX - minX, maxY - minY);
+		}
+
+		/**
+		 * Converts a list of points from the JSON into Points.
+		 * @method _parsePoints
+		 * @param points {Object[]}
+		 * @return {Kiwi.Geom.Point[]} The points, or null if none were passed.
+		 * @static
+		 * @private
+		 */
+		private static _parsePoints(points: any[]): Kiwi.Geom.Point[] {
+			if (points == undefined) return null;
+
+			var result = [];
+			for (var i = 0; i < points.length; i++) {
+				result.push(new Kiwi.Geom.Point(points[i].x, points[i].y));
+			}
+			return result;
+		}
+
+		/**
+		 * The bit of a gid which is set when a tile is flipped horizontally.
+		 * @property FLIPPED_HORIZONTALLY
+		 * @type Number
+		 * @static
+		 * @final
+		 * @public
+		 */
+		public static FLIPPED_HORIZONTALLY: number = 0x80000000;
+
+		/**
+		 * The bit of a gid which is set when a tile is flipped vertically.
+		 * @property FLIPPED_VERTICALLY
+		 * @type Number
+		 * @static
+		 * @final
+		 * @public
+		 */
+		public static FLIPPED_VERTICALLY: number = 0x40000000;
+
+		/**
+		 * The bits of a gid which hold the tile id.
+		 * @property GID_MASK
+		 * @type Number
+		 * @static
+		 * @final
+		 * @public
+		 */
+		public static GID_MASK: number = 0x1FFFFFFF;
 	}
-}
\ No newline at end of file
+}
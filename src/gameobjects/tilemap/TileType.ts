@@ -32,13 +32,24 @@ module Kiwi.GameObjects.Tilemap {
 
 		/**
 		* The collision information for this type of tile. 
-		* It's values are the same as the Static properties inside of the ArcadePhysics Component. 
+		* It's values are the same as the Static properties inside of the ArcadePhysics Component, and are the sides of the tile which can be collided with.
+		* For a one-way platform, which can be jumped through from below and landed on from above, use UP.
 		* @property allowCollisions
 		* @type number
 		* @default NONE
 		* @public
 		*/
-		// public allowCollisions: number = Kiwi.Components.ArcadePhysics.NONE;
+		public allowCollisions: number = Kiwi.Components.ArcadePhysics.NONE;
+
+		/**
+		* The areas of this type of tile which can be collided with, in pixels relative to the top left corner of the tile.
+		* These are loaded from the collision shapes made in the Tiled tileset editor. When there are none, the whole tile is used.
+		* @property hitboxes
+		* @type Kiwi.Geom.Rectangle[]
+		* @since 1.4.0
+		* @public
+		*/
+		public hitboxes: Kiwi.Geom.Rectangle[] = [];
 
 		/**
 		* The properties associated with this type of tile. 
@@ -85,6 +96,69 @@ module Kiwi.GameObjects.Tilemap {
 		*/
 		public cellIndex: number;
 
+		/**
+		* The frames of the animation of this type of tile, in the order they are played. Each frame has the 'cellIndex' to render and its 'duration' in milliseconds.
+		* When there are no frames the tile is not animated. Animations are played using the clock of the TileMap.
+		* @property frames
+		* @type Object[]
+		* @since 1.4.0
+		* @public
+		*/
+		public frames: { cellIndex: number; duration: number; }[] = [];
+
+		/**
+		* If this type of tile is animated. This is READ ONLY.
+		* @property animated
+		* @type boolean
+		* @since 1.4.0
+		* @public
+		*/
+		public get animated(): boolean {
+			return this.frames.length > 0;
+		}
+
+		/**
+		* Adds a frame to the end of the animation of this type of tile.
+		* @method addFrame
+		* @param cellIndex {Number} The cell to render during the frame.
+		* @param duration {Number} How long the frame lasts in milliseconds.
+		* @since 1.4.0
+		* @public
+		*/
+		public addFrame(cellIndex: number, duration: number) {
+			this.frames.push({ cellIndex: cellIndex, duration: duration });
+		}
+
+		/**
+		* The cell that should be rendered at the current time.
+		* This is the cellIndex when the tile is not animated, otherwise the cell of the frame that the clock of the TileMap is on. This is READ ONLY.
+		* @property currentCellIndex
+		* @type Number
+		* @since 1.4.0
+		* @public
+		*/
+		public get currentCellIndex(): number {
+
+			if (this.frames.length === 0) return this.cellIndex;
+
+			var total = 0;
+			for (var i = 0; i < this.frames.length; i++) {
+				total += this.frames[i].duration;
+			}
+
+			if (total <= 0) return this.frames[0].cellIndex;
+
+			var clock: Kiwi.Time.Clock = this.tilemap.clock;
+			var time = (clock.elapsed() * clock.units) % total;
+
+			for (var i = 0; i < this.frames.length; i++) {
+				time -= this.frames[i].duration;
+				if (time < 0) return this.frames[i].cellIndex;
+			}
+
+			return this.frames[this.frames.length - 1].cellIndex;
+		}
+
 		/**
 		* The type of object that it is.
 		* @method objType
@@ -269,6 +269,34 @@ module Kiwi.Geom {
 			pt.y = this.b * x + this.d * y + this.ty;
 		}
 
+		/**
+		 * Apply this Matrix to the four corners of a Rectangle and return the axis aligned Rectangle that contains them.
+		 * @method transformRect
+		 * @param rect {Kiwi.Geom.Rectangle} The rectangle to be transformed.
+		 * @param [output] {Kiwi.Geom.Rectangle} A rectangle to store the result in. One is created if none given.
+		 * @return {Kiwi.Geom.Rectangle} The bounds of the transformed rectangle.
+		 * @since 1.4.0
+		 * @public
+		 */
+		public transformRect(rect: Rectangle, output: Rectangle = new Rectangle()): Rectangle {
+			var x1 = rect.x;
+			var y1 = rect.y;
+			var x2 = rect.x + rect.width;
+			var y2 = rect.y + rect.height;
+
+			var ax1 = this.a * x1, ax2 = this.a * x2;
+			var bx1 = this.b * x1, bx2 = this.b * x2;
+			var cy1 = this.c * y1, cy2 = this.c * y2;
+			var dy1 = this.d * y1, dy2 = this.d * y2;
+
+			var minX = Math.min(ax1, ax2) + Math.min(cy1, cy2) + this.tx;
+			var maxX = Math.max(ax1, ax2) + Math.max(cy1, cy2) + this.tx;
+			var minY = Math.min(bx1, bx2) + Math.min(dy1, dy2) + this.ty;
+			var maxY = Math.max(bx1, bx2) + Math.max(dy1, dy2) + this.ty;
+
+			return output.setTo(minX, minY, maxX - minX, maxY - minY);
+		}
+
 		/**
 		 * Invert this Matrix so that it represents the opposite of its orginal tranformaation.
 		 * @method invert
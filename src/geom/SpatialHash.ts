@@ -0,0 +1,481 @@
+/**
+*
+* @module Kiwi
+* @submodule Geom
+*/
+
+module Kiwi.Geom {
+
+	/**
+	* A SpatialHash is a broad-phase structure which divides space into a uniform grid of cells.
+	* Each item that is inserted is stored in every cell that its bounds touch,
+	* so that queries only need to look at the items in the cells that the query shape passes through rather than every item.
+	* Items are identified by their 'id' property.
+	*
+	* @class SpatialHash
+	* @namespace Kiwi.Geom
+	* @constructor
+	* @param [cellSize=128] {Number} The width and height of each cell, in pixels.
+	* @return {Kiwi.Geom.SpatialHash}
+	* @since 1.4.0
+	*/
+	export class SpatialHash {
+
+		constructor(cellSize: number = 128) {
+			this.cellSize = cellSize;
+			this.clear();
+		}
+
+		/**
+		* The type of this object.
+		* @method objType
+		* @return {String} "SpatialHash"
+		* @public
+		*/
+		public objType() {
+			return "SpatialHash";
+		}
+
+		/**
+		* The width and height of each cell in the hash. Should be around the size of the larger items that are inserted.
+		* @property cellSize
+		* @type Number
+		* @default 128
+		* @public
+		*/
+		public cellSize: number;
+
+		/**
+		* The cells of the hash. Indexed by the column and then the row of each cell.
+		* @property _cells
+		* @type Object
+		* @private
+		*/
+		private _cells: any;
+
+		/**
+		* Every entry in the hash, indexed by the id of the item.
+		* @property _entries
+		* @type Object
+		* @private
+		*/
+		private _entries: any;
+
+		/**
+		* The number of items in the hash.
+		* @property _length
+		* @type Number
+		* @private
+		*/
+		private _length: number;
+
+		/**
+		* Incremented on each query, so that an item which lies in multiple cells is only returned once.
+		* @property _queryID
+		* @type Number
+		* @private
+		*/
+		private _queryID: number = 0;
+
+		/**
+		* The range of cells which contain items, in cell coordinates. Used to know when a ray has left the populated area.
+		* @property _extents
+		* @type Object
+		* @private
+		*/
+		private _extents = { minX: 0, minY: 0, maxX: -1, maxY: -1 };
+
+		/**
+		* The number of items that are in the hash.
+		* @property length
+		* @type Number
+		* @readOnly
+		* @public
+		*/
+		public get length(): number {
+			return this._length;
+		}
+
+		/**
+		* Checks to see if an item is contained in the hash.
+		* @method contains
+		* @param item {Object} An object with an 'id' property.
+		* @return {boolean}
+		* @public
+		*/
+		public contains(item: any): boolean {
+			return typeof this._entries[item.id] !== "undefined";
+		}
+
+		/**
+		* Returns the bounds that an item is stored with, or null if it is not in the hash.
+		* @method getBounds
+		* @param item {Object} An object with an 'id' property.
+		* @return {Kiwi.Geom.Rectangle}
+		* @public
+		*/
+		public getBounds(item: any): Rectangle {
+			var entry = this._entries[item.id];
+			return (entry) ? entry.bounds : null;
+		}
+
+		/**
+		* Adds an item to the hash, or moves it if it has already been added.
+		* @method insert
+		* @param item {Object} An object with an 'id' property.
+		* @param bounds {Kiwi.Geom.Rectangle} The area which the item covers. This is copied, so changing it later has no effect.
+		* @public
+		*/
+		public insert(item: any, bounds: Rectangle) {
+
+			var entry = this._entries[item.id];
+
+			if (entry) {
+				this.update(item, bounds);
+				return;
+			}
+
+			entry = {
+				item: item,
+				bounds: bounds.clone(),
+				minX: 0, minY: 0, maxX: -1, maxY: -1,
+				queryID: -1
+			};
+
+			this._entries[item.id] = entry;
+			this._length++;
+			this._addToCells(entry);
+		}
+
+		/**
+		* Updates the bounds of an item that is in the hash. The item is only moved between cells when the range of cells it covers has changed.
+		* @method update
+		* @param item {Object} An object with an 'id' property.
+		* @param bounds {Kiwi.Geom.Rectangle} The new area which the item covers.
+		* @public
+		*/
+		public update(item: any, bounds: Rectangle) {
+
+			var entry = this._entries[item.id];
+
+			if (!entry) {
+				this.insert(item, bounds);
+				return;
+			}
+
+			entry.bounds.copyFrom(bounds);
+
+			var size = this.cellSize;
+			if (Math.floor(bounds.x / size) === entry.minX && Math.floor(bounds.y / size) === entry.minY &&
+				Math.floor((bounds.x + bounds.width) / size) === entry.maxX && Math.floor((bounds.y + bounds.height) / size) === entry.maxY) {
+				return;
+			}
+
+			this._removeFromCells(entry);
+			this._addToCells(entry);
+		}
+
+		/**
+		* Removes an item from the hash.
+		* @method remove
+		* @param item {Object} An object with an 'id' property.
+		* @return {boolean} If the item was in the hash.
+		* @public
+		*/
+		public remove(item: any): boolean {
+
+			var entry = this._entries[item.id];
+
+			if (!entry) {
+				return false;
+			}
+
+			this._removeFromCells(entry);
+			delete this._entries[item.id];
+			this._length--;
+
+			return true;
+		}
+
+		/**
+		* Removes every item from the hash.
+		* @method clear
+		* @public
+		*/
+		public clear() {
+			this._cells = {};
+			this._entries = {};
+			this._length = 0;
+			this._extents.minX = 0;
+			this._extents.minY = 0;
+			this._extents.maxX = -1;
+			this._extents.maxY = -1;
+		}
+
+		/**
+		* Returns every item whose bounds overlap the rectangle passed.
+		* @method queryRectangle
+		* @param rect {Kiwi.Geom.Rectangle}
+		* @param [output] {Array} An array to add the items to.
+		* @return {Array}
+		* @public
+		*/
+		public queryRectangle(rect: Rectangle, output: any[] = []): any[] {
+
+			var size = this.cellSize;
+			var minX = Math.floor(rect.x / size);
+			var minY = Math.floor(rect.y / size);
+			var maxX = Math.floor((rect.x + rect.width) / size);
+			var maxY = Math.floor((rect.y + rect.height) / size);
+			var queryID = ++this._queryID;
+
+			// Don't bother searching outside of the populated cells
+			if (minX < this._extents.minX) minX = this._extents.minX;
+			if (minY < this._extents.minY) minY = this._extents.minY;
+			if (maxX > this._extents.maxX) maxX = this._extents.maxX;
+			if (maxY > this._extents.maxY) maxY = this._extents.maxY;
+
+			for (var x = minX; x <= maxX; x++) {
+				var column = this._cells[x];
+				if (!column) continue;
+
+				for (var y = minY; y <= maxY; y++) {
+					var cell = column[y];
+					if (!cell) continue;
+
+					for (var i = 0; i < cell.length; i++) {
+						var entry = cell[i];
+						if (entry.queryID === queryID) continue;
+						entry.queryID = queryID;
+
+						if (SpatialHash._overlaps(entry.bounds, rect)) {
+							output.push(entry.item);
+						}
+					}
+				}
+			}
+
+			return output;
+		}
+
+		/**
+		* Returns every item whose bounds contain the point passed.
+		* @method queryPoint
+		* @param point {Kiwi.Geom.Point}
+		* @param [output] {Array} An array to add the items to.
+		* @return {Array}
+		* @public
+		*/
+		public queryPoint(point: Point, output: any[] = []): any[] {
+
+			var column = this._cells[Math.floor(point.x / this.cellSize)];
+			if (!column) return output;
+
+			var cell = column[Math.floor(point.y / this.cellSize)];
+			if (!cell) return output;
+
+			for (var i = 0; i < cell.length; i++) {
+				var b: Rectangle = cell[i].bounds;
+
+				if (point.x >= b.x && point.x <= b.x + b.width && point.y >= b.y && point.y <= b.y + b.height) {
+					output.push(cell[i].item);
+				}
+			}
+
+			return output;
+		}
+
+		/**
+		* Returns every item whose bounds are hit by the ray passed.
+		* The ray starts at its first point and travels through its second point, until it leaves the area that contains items.
+		* The cells are walked in the order that the ray passes through them, so items are roughly sorted from nearest to furthest.
+		* @method queryRay
+		* @param ray {Kiwi.Geom.Ray}
+		* @param [output] {Array} An array to add the items to.
+		* @return {Array}
+		* @public
+		*/
+		public queryRay(ray: Ray, output: any[] = []): any[] {
+
+			var size = this.cellSize;
+			var ext = this._extents;
+			var dx = ray.x2 - ray.x1;
+			var dy = ray.y2 - ray.y1;
+
+			if (this._length === 0 || (dx === 0 && dy === 0)) {
+				return output;
+			}
+
+			// Move the starting point onto the populated area, if the ray starts outside of it.
+			var start = SpatialHash._raySlab(ray.x1, ray.y1, dx, dy,
+				ext.minX * size, ext.minY * size, (ext.maxX + 1) * size, (ext.maxY + 1) * size);
+
+			if (start < 0) {
+				return output;
+			}
+
+			var px = ray.x1 + dx * start;
+			var py = ray.y1 + dy * start;
+
+			// Grid traversal, see "A Fast Voxel Traversal Algorithm" by Amanatides and Woo.
+			var cx = Math.min(Math.max(Math.floor(px / size), ext.minX), ext.maxX);
+			var cy = Math.min(Math.max(Math.floor(py / size), ext.minY), ext.maxY);
+			var stepX = (dx > 0) ? 1 : -1;
+			var stepY = (dy > 0) ? 1 : -1;
+			var deltaX = (dx !== 0) ? Math.abs(size / dx) : Infinity;
+			var deltaY = (dy !== 0) ? Math.abs(size / dy) : Infinity;
+			var maxTX = (dx !== 0) ? (((dx > 0) ? (cx + 1) * size : cx * size) - px) / dx : Infinity;
+			var maxTY = (dy !== 0) ? (((dy > 0) ? (cy + 1) * size : cy * size) - py) / dy : Infinity;
+			var queryID = ++this._queryID;
+
+			while (cx >= ext.minX && cx <= ext.maxX && cy >= ext.minY && cy <= ext.maxY) {
+
+				var column = this._cells[cx];
+				var cell = (column) ? column[cy] : null;
+
+				if (cell) {
+					for (var i = 0; i < cell.length; i++) {
+						var entry = cell[i];
+						if (entry.queryID === queryID) continue;
+						entry.queryID = queryID;
+
+						var b: Rectangle = entry.bounds;
+						if (SpatialHash._raySlab(ray.x1, ray.y1, dx, dy, b.x, b.y, b.x + b.width, b.y + b.height) >= 0) {
+							output.push(entry.item);
+						}
+					}
+				}
+
+				if (maxTX < maxTY) {
+					maxTX += deltaX;
+					cx += stepX;
+				} else {
+					maxTY += deltaY;
+					cy += stepY;
+				}
+			}
+
+			return output;
+		}
+
+		/**
+		* Adds an entry to every cell its bounds cover.
+		* @method _addToCells
+		* @param entry {Object}
+		* @private
+		*/
+		private _addToCells(entry: any) {
+
+			var size = this.cellSize;
+			var b: Rectangle = entry.bounds;
+
+			entry.minX = Math.floor(b.x / size);
+			entry.minY = Math.floor(b.y / size);
+			entry.maxX = Math.floor((b.x + b.width) / size);
+			entry.maxY = Math.floor((b.y + b.height) / size);
+
+			for (var x = entry.minX; x <= entry.maxX; x++) {
+				var column = this._cells[x];
+				if (!column) column = this._cells[x] = {};
+
+				for (var y = entry.minY; y <= entry.maxY; y++) {
+					var cell = column[y];
+					if (!cell) cell = column[y] = [];
+					cell.push(entry);
+				}
+			}
+
+			var ext = this._extents;
+			if (ext.maxX < ext.minX) {
+				ext.minX = entry.minX;
+				ext.minY = entry.minY;
+				ext.maxX = entry.maxX;
+				ext.maxY = entry.maxY;
+			} else {
+				if (entry.minX < ext.minX) ext.minX = entry.minX;
+				if (entry.minY < ext.minY) ext.minY = entry.minY;
+				if (entry.maxX > ext.maxX) ext.maxX = entry.maxX;
+				if (entry.maxY > ext.maxY) ext.maxY = entry.maxY;
+			}
+		}
+
+		/**
+		* Removes an entry from every cell it was added to. Cells that become empty are deleted.
+		* @method _removeFromCells
+		* @param entry {Object}
+		* @private
+		*/
+		private _removeFromCells(entry: any) {
+
+			for (var x = entry.minX; x <= entry.maxX; x++) {
+				var column = this._cells[x];
+				if (!column) continue;
+
+				for (var y = entry.minY; y <= entry.maxY; y++) {
+					var cell = column[y];
+					if (!cell) continue;
+
+					var index = cell.indexOf(entry);
+					if (index !== -1) cell.splice(index, 1);
+					if (cell.length === 0) delete column[y];
+				}
+			}
+		}
+
+		/**
+		* Checks if two rectangles overlap. Rectangles which only share an edge count as overlapping.
+		* @method _overlaps
+		* @param a {Kiwi.Geom.Rectangle}
+		* @param b {Kiwi.Geom.Rectangle}
+		* @return {boolean}
+		* @static
+		* @private
+		*/
+		private static _overlaps(a: Rectangle, b: Rectangle): boolean {
+			return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+		}
+
+		/**
+		* Finds where a ray enters an axis aligned box, using the slab method.
+		* @method _raySlab
+		* @param ox {Number} Origin of the ray on the x axis.
+		* @param oy {Number} Origin of the ray on the y axis.
+		* @param dx {Number} Direction of the ray on the x axis.
+		* @param dy {Number} Direction of the ray on the y axis.
+		* @param minX {Number}
+		* @param minY {Number}
+		* @param maxX {Number}
+		* @param maxY {Number}
+		* @return {Number} The distance along the ray, in multiples of its direction, at which it enters the box. 0 if it starts inside it, -1 if it misses.
+		* @static
+		* @private
+		*/
+		private static _raySlab(ox: number, oy: number, dx: number, dy: number, minX: number, minY: number, maxX: number, maxY: number): number {
+
+			var tMin = 0;
+			var tMax = Infinity;
+
+			if (dx === 0) {
+				if (ox < minX || ox > maxX) return -1;
+			} else {
+				var t1 = (minX - ox) / dx;
+				var t2 = (maxX - ox) / dx;
+				tMin = Math.max(tMin, Math.min(t1, t2));
+				tMax = Math.min(tMax, Math.max(t1, t2));
+			}
+
+			if (dy === 0) {
+				if (oy < minY || oy > maxY) return -1;
+			} else {
+				var t3 = (minY - oy) / dy;
+				var t4 = (maxY - oy) / dy;
+				tMin = Math.max(tMin, Math.min(t3, t4));
+				tMax = Math.min(tMax, Math.max(t3, t4));
+			}
+
+			return (tMin <= tMax) ? tMin : -1;
+		}
+
+	}
+
+}
@@ -5,10 +5,13 @@
 */
 interface IRenderManager {
 	render(camera: Kiwi.Camera);
+	resetStats();
 	boot();
 	initState(state: Kiwi.State);
 	endState(state: Kiwi.State);
 	numDrawCalls: number;
+	numCulled: number;
+	frustum: Kiwi.Geom.Rectangle;
 	requestRendererInstance(rendererID: string,params?: any);
 	requestSharedRenderer(rendererID: string, params?: any);
 }
@@ -81,19 +84,112 @@ module Kiwi.Renderers {
 		* @private
 		*/
 		public _recurse(child: IChild) {
-			// Do not render non-visible objects or their children
-			if (!child.visible) return;
+			// Do not render non-visible objects or their children, or objects on layers the camera does not draw
+			if (!child.visible || !this._currentCamera.isLayerVisible(child.layer)) return;
 
 			if (child.childType() === Kiwi.GROUP) {
 				for (var i = 0; i < (<Kiwi.Group>child).members.length; i++) {
 					this._recurse((<Kiwi.Group>child).members[i]);
 				}
 			} else {
+				// Skip entities outside the view of the camera
+				if (this._isCulled(<Entity>child)) {
+					this.numCulled++;
+					return;
+				}
+
 				this.numDrawCalls++;
+
+				var ctx: CanvasRenderingContext2D = this._game.stage.ctx;
+				ctx.globalCompositeOperation = CanvasRenderer.getCompositeOperation((<Entity>child).blendMode);
 				child.render(this._currentCamera);
+				ctx.globalCompositeOperation = "source-over";
+
+			}
+
+		}
+
+		/**
+		* The canvas composite operations which the blend modes of entities map to.
+		* @property COMPOSITE_OPERATIONS
+		* @type object
+		* @public
+		* @static
+		* @since 1.4.0
+		*/
+		public static COMPOSITE_OPERATIONS: any = {
+			NORMAL: "source-over",
+			ADD: "lighter",
+			ADDITIVE: "lighter",
+			MULTIPLY: "multiply",
+			SCREEN: "screen",
+			ERASE: "destination-out",
+			ERASER: "destination-out"
+		};
+
+		/**
+		* Returns the canvas composite operation for the name of a blend mode.
+		* Blend modes which the canvas does not support draw as "NORMAL".
+		* @method getCompositeOperation
+		* @param blendMode {string} A blend mode, such as "ADD". Case-tolerant.
+		* @return {string}
+		* @public
+		* @static
+		* @since 1.4.0
+		*/
+		public static getCompositeOperation(blendMode: string): string {
+			if (!blendMode) return "source-over";
+			return CanvasRenderer.COMPOSITE_OPERATIONS[blendMode.toUpperCase()] || "source-over";
+		}
+
+		/**
+		* The canvas which tinted cells are drawn onto.
+		* @property _tintCanvas
+		* @type HTMLCanvasElement
+		* @private
+		* @since 1.4.0
+		*/
+		private _tintCanvas: HTMLCanvasElement = null;
 
+		/**
+		* Draws a cell of an image onto a canvas, multiplied by a tint and with a colour offset added, and returns the canvas.
+		* The canvas is the size of the cell, and is reused by the next call, so draw it straight away.
+		* @method tintCell
+		* @param image {HTMLImageElement/HTMLCanvasElement} The image of the texture atlas.
+		* @param cell {object} The cell to draw.
+		* @param tint {Kiwi.Utils.Color}
+		* @param colorOffset {Kiwi.Utils.Color}
+		* @return {HTMLCanvasElement}
+		* @public
+		* @since 1.4.0
+		*/
+		public tintCell(image: any, cell: any, tint: Kiwi.Utils.Color, colorOffset: Kiwi.Utils.Color): HTMLCanvasElement {
+			if (this._tintCanvas === null) {
+				this._tintCanvas = <HTMLCanvasElement>document.createElement("canvas");
 			}
 
+			// Resizing also clears the canvas
+			var canvas: HTMLCanvasElement = this._tintCanvas;
+			canvas.width = cell.w;
+			canvas.height = cell.h;
+
+			var ctx: CanvasRenderingContext2D = canvas.getContext("2d");
+			ctx.globalCompositeOperation = "source-over";
+			Kiwi.Textures.TextureAtlas.drawCell(ctx, image, cell);
+
+			ctx.globalCompositeOperation = "multiply";
+			ctx.fillStyle = "#" + tint.getHex(false);
+			ctx.fillRect(0, 0, cell.w, cell.h);
+
+			ctx.globalCompositeOperation = "lighter";
+			ctx.fillStyle = "#" + colorOffset.getHex(false);
+			ctx.fillRect(0, 0, cell.w, cell.h);
+
+			// The fills cover transparent pixels too, so cut the result back to the shape of the cell
+			ctx.globalCompositeOperation = "destination-in";
+			Kiwi.Textures.TextureAtlas.drawCell(ctx, image, cell);
+
+			return canvas;
 		}
 
 		//for gl compatibility - refactor me
@@ -105,6 +201,18 @@ module Kiwi.Renderers {
 			return null;
 		}
 
+		/**
+		* Resets the tallies of draw calls and culled entities. This is called once per frame, before any Camera is rendered,
+		* so that the tallies cover every Camera.
+		* @method resetStats
+		* @public
+		* @since 1.4.0
+		*/
+		public resetStats() {
+			this.numDrawCalls = 0;
+			this.numCulled = 0;
+		}
+
 		public initState(state:Kiwi.State) {
 
 		}
@@ -115,6 +223,51 @@ module Kiwi.Renderers {
 
 		public numDrawCalls: number = 0;
 
+		/**
+		* Tally of the entities which were skipped per frame because they were outside the view of the camera.
+		* @property numCulled
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public numCulled: number = 0;
+
+		/**
+		* The area of the world which the camera being rendered can see.
+		* Entities outside of it are culled, and tile layers only draw the tiles inside it.
+		* @property frustum
+		* @type Kiwi.Geom.Rectangle
+		* @public
+		* @since 1.4.0
+		*/
+		public frustum: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle();
+
+		/**
+		* Rectangle used to hold the bounds of entities when culling.
+		* @property _cullRect
+		* @type Kiwi.Geom.Rectangle
+		* @private
+		* @since 1.4.0
+		*/
+		private _cullRect: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle();
+
+		/**
+		* Returns true if an entity can be culled, because it is outside the frustum.
+		* @method _isCulled
+		* @param entity {Kiwi.Entity}
+		* @return {boolean}
+		* @private
+		* @since 1.4.0
+		*/
+		private _isCulled(entity: Entity): boolean {
+			if (!entity.cullable) return false;
+
+			var bounds: Kiwi.Geom.Rectangle = entity.getWorldBounds(this._cullRect);
+			var f: Kiwi.Geom.Rectangle = this.frustum;
+			return bounds.x > f.right || bounds.right < f.x || bounds.y > f.bottom || bounds.bottom < f.y;
+		}
+
 		/**
 		* Renders all of the Elements that are on a particular camera.
 		* @method render
@@ -123,38 +276,76 @@ module Kiwi.Renderers {
 		*/
 		public render(camera: Kiwi.Camera) {
 			var root: IChild[] = this._game.states.current.members;
-			
+			var ctx: CanvasRenderingContext2D = this._game.stage.ctx;
+			var vp: Kiwi.Geom.Rectangle = camera.viewport;
+
+			// Only draw within the viewport of the camera
+			ctx.save();
+			ctx.beginPath();
+			ctx.rect(vp.x, vp.y, vp.width, vp.height);
+			ctx.clip();
+
 			//clear 
-			var fillCol = this._game.stage.rgbaColor;
-			// If there is an alpha, clear the canvas before fill
-			if(fillCol.a < 255) {
-				this._game.stage.ctx.clearRect(0,0, this._game.stage.canvas.width, this._game.stage.canvas.height);
-			}
-			this._game.stage.ctx.fillStyle = "rgba(" + fillCol.r + "," + fillCol.g + "," + fillCol.b + "," + fillCol.a / 255 + ")";
-			this._game.stage.ctx.fillRect(0, 0, this._game.stage.canvas.width, this._game.stage.canvas.height);
-			
-			// Stop drawing if there is nothing to draw
-			if ( root.length == 0 ) {
-				return;
+			if (camera.clearViewport) {
+				var fillCol = (camera.clearColor !== null) ?
+					{ r: camera.clearColor.r255, g: camera.clearColor.g255, b: camera.clearColor.b255, a: camera.clearColor.a255 } :
+					this._game.stage.rgbaColor;
+				// If there is an alpha, clear the canvas before fill
+				if(fillCol.a < 255) {
+					ctx.clearRect(vp.x, vp.y, vp.width, vp.height);
+				}
+				ctx.fillStyle = "rgba(" + fillCol.r + "," + fillCol.g + "," + fillCol.b + "," + fillCol.a / 255 + ")";
+				ctx.fillRect(vp.x, vp.y, vp.width, vp.height);
 			}
 			
-			this.numDrawCalls = 0;    
 			this._currentCamera = camera;
+
+			// The canvas draws the world with the matrix of the camera, so its inverse finds the area of the world in view
+			camera.getScratchMatrices().inverted.transformRect(this.frustum.setTo(0, 0, camera.width, camera.height), this.frustum);
 			
 			//apply camera transform, accounting for rotPoint offsets
 			var cm: Kiwi.Geom.Matrix = camera.transform.getConcatenatedMatrix();
 			var ct: Kiwi.Geom.Transform = camera.transform;
 
-			this._game.stage.ctx.save();
-			this._game.stage.ctx.setTransform(cm.a, cm.b, cm.c, cm.d, cm.tx, cm.ty);
+			// The camera sees the world from the top left of its viewport
+			ctx.setTransform(1, 0, 0, 1, vp.x, vp.y);
+			ctx.transform(cm.a, cm.b, cm.c, cm.d, cm.tx, cm.ty);
 			// this._game.stage.ctx.transform( 1,0,0,1, -ct.pivotPoint.x, -ct.pivotPoint.y );
 
 
 			for (var i = 0; i < root.length; i++) {
 				this._recurse(root[i]);
 			}
-			this._game.stage.ctx.restore();
 
+			this._renderEffects(ctx, camera);
+			ctx.restore();
+
+		}
+
+		/**
+		* Covers the viewport of a camera with the colours of its fade and flash.
+		* @method _renderEffects
+		* @param ctx {CanvasRenderingContext2D}
+		* @param camera {Kiwi.Camera}
+		* @private
+		* @since 1.4.0
+		*/
+		private _renderEffects(ctx: CanvasRenderingContext2D, camera: Kiwi.Camera) {
+			if (camera.fadeAlpha <= 0 && camera.flashAlpha <= 0) return;
+
+			var vp: Kiwi.Geom.Rectangle = camera.viewport;
+			ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+			var effects = [
+				{ color: camera.fadeColor, alpha: camera.fadeAlpha },
+				{ color: camera.flashColor, alpha: camera.flashAlpha }
+			];
+			for (var i = 0; i < effects.length; i++) {
+				var col: Kiwi.Utils.Color = effects[i].color;
+				if (effects[i].alpha <= 0) continue;
+				ctx.fillStyle = "rgba(" + col.r255 + "," + col.g255 + "," + col.b255 + "," + col.a * effects[i].alpha + ")";
+				ctx.fillRect(vp.x, vp.y, vp.width, vp.height);
+			}
 		}
 
 	}
@@ -0,0 +1,390 @@
+/**
+*
+* @module Kiwi
+* @submodule Renderers
+*
+*/
+
+module Kiwi.Renderers {
+
+	/**
+	* The DebugRenderer draws information about the Entities of the current State onto the debug canvas of the Stage.
+	* For each Entity it can show the bounds, the hitbox and outline of its Box2 component, its pivot point and its origin.
+	* It can also show the area of the world that each Camera can see and a panel of rendering statistics.
+	*
+	* The overlay is drawn after every Camera has rendered, on a separate canvas, so it is used for both the CANVAS and WEBGL renderers.
+	* Debug drawing is turned off by default. Use the 'enabled' property to toggle it for the whole Game,
+	* and the 'debugDraw' property of a Group to toggle it for the members of that Group.
+	*
+	* @class DebugRenderer
+	* @namespace Kiwi.Renderers
+	* @constructor
+	* @param game {Kiwi.Game} The game that this debug renderer belongs to.
+	* @return {Kiwi.Renderers.DebugRenderer}
+	* @since 1.4.0
+	*/
+	export class DebugRenderer {
+
+		constructor(game: Kiwi.Game) {
+			this.game = game;
+			this._enabled = false;
+			this._rect = new Kiwi.Geom.Rectangle();
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {string} "DebugRenderer"
+		* @public
+		*/
+		public objType(): string {
+			return "DebugRenderer";
+		}
+
+		/**
+		* The game that this debug renderer belongs to.
+		* @property game
+		* @type Kiwi.Game
+		* @public
+		*/
+		public game: Kiwi.Game;
+
+		/**
+		* Scratch rectangle used when calculating bounds.
+		* @property _rect
+		* @type Kiwi.Geom.Rectangle
+		* @private
+		*/
+		private _rect: Kiwi.Geom.Rectangle;
+
+		/**
+		* If the debug overlay is being drawn.
+		* @property _enabled
+		* @type boolean
+		* @default false
+		* @private
+		*/
+		private _enabled: boolean;
+
+		/**
+		* If the debug overlay is being drawn.
+		* Enabling it creates the debug canvas on the Stage when it does not exist yet. Disabling it clears the debug canvas.
+		* @property enabled
+		* @type boolean
+		* @default false
+		* @public
+		*/
+		public get enabled(): boolean {
+			return this._enabled;
+		}
+		public set enabled(value: boolean) {
+			this._enabled = value;
+
+			if (value) {
+				this.game.stage.createDebugCanvas();
+			} else if (this.game.stage.dctx) {
+				this.game.stage.dctx.clearRect(0, 0, this.game.stage.width, this.game.stage.height);
+			}
+		}
+
+		/**
+		* If the world bounds of each Entity should be drawn.
+		* @property showBounds
+		* @type boolean
+		* @default true
+		* @public
+		*/
+		public showBounds: boolean = true;
+
+		/**
+		* If the hitbox of each Entity with a Box2 component should be drawn. See Kiwi.Components.Box2.draw.
+		* @property showHitboxes
+		* @type boolean
+		* @default true
+		* @public
+		*/
+		public showHitboxes: boolean = true;
+
+		/**
+		* If the pivot point of each Entity should be drawn.
+		* @property showPivots
+		* @type boolean
+		* @default true
+		* @public
+		*/
+		public showPivots: boolean = true;
+
+		/**
+		* If the origin of each Entity should be drawn.
+		* @property showOrigins
+		* @type boolean
+		* @default true
+		* @public
+		*/
+		public showOrigins: boolean = true;
+
+		/**
+		* If the area of the world that each Camera can see should be drawn.
+		* @property showFrustum
+		* @type boolean
+		* @default true
+		* @public
+		*/
+		public showFrustum: boolean = true;
+
+		/**
+		* If the panel with the number of draw calls, used texture memory and number of entities should be drawn.
+		* @property showStats
+		* @type boolean
+		* @default true
+		* @public
+		*/
+		public showStats: boolean = true;
+
+		/**
+		* The colour used to draw the world bounds of Entities.
+		* @property boundsColor
+		* @type string
+		* @default "rgba(0,0,255,0.8)"
+		* @public
+		*/
+		public boundsColor: string = "rgba(0,0,255,0.8)";
+
+		/**
+		* The colour used to draw pivot points.
+		* @property pivotColor
+		* @type string
+		* @default "rgba(255,0,0,0.8)"
+		* @public
+		*/
+		public pivotColor: string = "rgba(255,0,0,0.8)";
+
+		/**
+		* The colour used to draw origins.
+		* @property originColor
+		* @type string
+		* @default "rgba(255,255,0,0.8)"
+		* @public
+		*/
+		public originColor: string = "rgba(255,255,0,0.8)";
+
+		/**
+		* The colour used to draw the camera frustum.
+		* @property frustumColor
+		* @type string
+		* @default "rgba(255,0,255,0.8)"
+		* @public
+		*/
+		public frustumColor: string = "rgba(255,0,255,0.8)";
+
+		/**
+		* The number of visible Entities on the current State that were found during the last debug pass.
+		* This is READ ONLY.
+		* @property entityCount
+		* @type number
+		* @public
+		*/
+		public entityCount: number = 0;
+
+		/**
+		* Returns the matrix that converts world coordinates into stage coordinates for a Camera,
+		* matching the one that the renderer in use draws the world with.
+		* @method getCameraMatrix
+		* @param camera {Kiwi.Camera}
+		* @return {Kiwi.Geom.Matrix}
+		* @public
+		*/
+		public getCameraMatrix(camera: Kiwi.Camera): Kiwi.Geom.Matrix {
+			var matrices = camera.getScratchMatrices();
+
+			if (this.game.renderOption === Kiwi.RENDERER_WEBGL) {
+				return matrices.inverted;
+			}
+			return matrices.normal;
+		}
+
+		/**
+		* Draws the debug overlay for every Camera. This is called automatically by the CameraManager once the Cameras have rendered.
+		* @method render
+		* @param cameras {Kiwi.Camera[]} The Cameras to draw the overlay for.
+		* @public
+		*/
+		public render(cameras: Kiwi.Camera[]) {
+
+			if (this._enabled === false || !this.game.stage.dctx) {
+				return;
+			}
+
+			var ctx: CanvasRenderingContext2D = this.game.stage.dctx;
+			var state: Kiwi.State = this.game.states.current;
+
+			ctx.setTransform(1, 0, 0, 1, 0, 0);
+			ctx.clearRect(0, 0, this.game.stage.width, this.game.stage.height);
+
+			this.entityCount = 0;
+
+			if (!state) {
+				return;
+			}
+
+			// Entities are only counted once, on the first Camera which is drawn
+			var count: boolean = true;
+
+			for (var i = 0; i < cameras.length; i++) {
+				if (!cameras[i].enabled) continue;
+
+				var cm: Kiwi.Geom.Matrix = this.getCameraMatrix(cameras[i]);
+				var vp: Kiwi.Geom.Rectangle = cameras[i].viewport;
+
+				ctx.save();
+				ctx.beginPath();
+				ctx.rect(vp.x, vp.y, vp.width, vp.height);
+				ctx.clip();
+				ctx.setTransform(1, 0, 0, 1, vp.x, vp.y);
+				ctx.transform(cm.a, cm.b, cm.c, cm.d, cm.tx, cm.ty);
+
+				this._recurse(ctx, state, cameras[i], true, count);
+				count = false;
+
+				if (this.showFrustum) {
+					this._drawFrustum(ctx, cameras[i]);
+				}
+
+				ctx.restore();
+			}
+
+			if (this.showStats) {
+				this._drawStats(ctx);
+			}
+		}
+
+		/**
+		* Walks the scene graph, drawing each Entity in a Group which has debug drawing turned on.
+		* @method _recurse
+		* @param ctx {CanvasRenderingContext2D}
+		* @param child {Kiwi.IChild}
+		* @param camera {Kiwi.Camera}
+		* @param draw {boolean} If the Group that this child is in is being drawn.
+		* @param count {boolean} If the Entities should be added to the entityCount.
+		* @private
+		*/
+		private _recurse(ctx: CanvasRenderingContext2D, child: Kiwi.IChild, camera: Kiwi.Camera, draw: boolean, count: boolean) {
+
+			if (!child.visible || !camera.isLayerVisible(child.layer)) return;
+
+			if (child.childType() === Kiwi.GROUP) {
+				var group: Kiwi.Group = <Kiwi.Group>child;
+
+				if (group.debugDraw !== null) {
+					draw = group.debugDraw;
+				}
+
+				for (var i = 0; i < group.members.length; i++) {
+					this._recurse(ctx, group.members[i], camera, draw, count);
+				}
+			} else {
+				if (count) this.entityCount++;
+				if (draw) this.drawEntity(ctx, <Kiwi.Entity>child, camera);
+			}
+
+		}
+
+		/**
+		* Draws the debug information for a single Entity.
+		* The context passed should already be using the matrix of the Camera.
+		* @method drawEntity
+		* @param ctx {CanvasRenderingContext2D}
+		* @param entity {Kiwi.Entity}
+		* @param camera {Kiwi.Camera}
+		* @public
+		*/
+		public drawEntity(ctx: CanvasRenderingContext2D, entity: Kiwi.Entity, camera: Kiwi.Camera) {
+
+			var m: Kiwi.Geom.Matrix = entity.transform.getConcatenatedMatrix();
+			var box: Kiwi.Components.Box2 = entity.components.getComponent('Box2');
+
+			if (this.showBounds) {
+				var bounds: Kiwi.Geom.Rectangle;
+				if (box) {
+					bounds = box.worldBounds;
+				} else {
+					bounds = m.transformRect(this._rect.setTo(0, 0, entity.width, entity.height), this._rect);
+				}
+
+				ctx.strokeStyle = this.boundsColor;
+				ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+			}
+
+			if (this.showHitboxes && box) {
+				box.draw(ctx, camera);
+			}
+
+			if (this.showPivots) {
+				var pivot: Kiwi.Geom.Point = m.transformPoint(entity.transform.pivotPoint);
+				ctx.fillStyle = this.pivotColor;
+				ctx.fillRect(pivot.x - 2, pivot.y - 2, 5, 5);
+			}
+
+			if (this.showOrigins) {
+				var origin: Kiwi.Geom.Point = m.transformPoint(entity.transform.origin);
+				ctx.strokeStyle = this.originColor;
+				ctx.beginPath();
+				ctx.moveTo(origin.x - 4, origin.y);
+				ctx.lineTo(origin.x + 4, origin.y);
+				ctx.moveTo(origin.x, origin.y - 4);
+				ctx.lineTo(origin.x, origin.y + 4);
+				ctx.stroke();
+			}
+
+		}
+
+		/**
+		* Draws the area of the world that a Camera can see.
+		* @method _drawFrustum
+		* @param ctx {CanvasRenderingContext2D}
+		* @param camera {Kiwi.Camera}
+		* @private
+		*/
+		private _drawFrustum(ctx: CanvasRenderingContext2D, camera: Kiwi.Camera) {
+			var inverse: Kiwi.Geom.Matrix = this.getCameraMatrix(camera).invertCopy();
+			var frustum: Kiwi.Geom.Rectangle = inverse.transformRect(this._rect.setTo(0, 0, camera.width, camera.height), this._rect);
+
+			ctx.strokeStyle = this.frustumColor;
+			ctx.strokeRect(frustum.x + 1, frustum.y + 1, frustum.width - 2, frustum.height - 2);
+		}
+
+		/**
+		* Draws the statistics panel in the top left corner of the Stage.
+		* @method _drawStats
+		* @param ctx {CanvasRenderingContext2D}
+		* @private
+		*/
+		private _drawStats(ctx: CanvasRenderingContext2D) {
+
+			var lines: string[] = [
+				"Draw calls: " + this.game.renderer.numDrawCalls,
+				"Culled: " + this.game.renderer.numCulled,
+				"Entities: " + this.entityCount
+			];
+
+			if (this.game.renderOption === Kiwi.RENDERER_WEBGL) {
+				var textureMem: number = (<Kiwi.Renderers.GLRenderManager>this.game.renderer).textureManager.usedTextureMem;
+				lines.push("Texture memory: " + Math.round(textureMem / 1024) + " KB");
+			}
+
+			ctx.font = "12px monospace";
+			ctx.textBaseline = "top";
+
+			ctx.fillStyle = "rgba(0,0,0,0.6)";
+			ctx.fillRect(0, 0, 160, lines.length * 14 + 8);
+
+			ctx.fillStyle = "#ffffff";
+			for (var i = 0; i < lines.length; i++) {
+				ctx.fillText(lines[i], 4, 4 + i * 14);
+			}
+
+		}
+
+	}
+
+}
@@ -53,6 +53,18 @@ module Kiwi.Renderers {
 		*/
 		public dirty: boolean;
 
+		/**
+		* If the colour of the pixels should be multiplied by their alpha in the shader before they are blended.
+		* Textures are uploaded with straight alpha, so blend modes such as "MULTIPLY" and "SCREEN",
+		* whose blend functions do not use the source alpha on the source colour, need it to take alpha into account.
+		* @property premultiply
+		* @type boolean
+		* @default false
+		* @public
+		* @since 1.4.0
+		*/
+		public premultiply: boolean = false;
+
 		/**
 		* Source RGB factor used in WebGL blendfunc.
 		* @property _srcRGB
@@ -142,6 +154,8 @@ module Kiwi.Renderers {
 				params.modeAlpha = this.makeConstant(params.modeAlpha);
 				if(typeof params.modeAlpha !== "undefined")
 					this._modeAlpha = params.modeAlpha;
+				if(typeof params.premultiply !== "undefined")
+					this.premultiply = params.premultiply;
 			}
 			this.dirty = true;
 		}
@@ -242,6 +256,10 @@ module Kiwi.Renderers {
 		*
 		* "ERASE" or "ERASER" will erase the game canvas itself, allowing the page background to show through. You can later draw over this erased region. FUNC_REVERSE_SUBTRACT, FUNC_REVERSE_SUBTRACT, SRC_ALPHA, ONE_MINUS_SRC_ALPHA, ONE, ONE.
 		*
+		* "MULTIPLY" will multiply the background by the pixels, creating a darkening effect. FUNC_ADD, FUNC_ADD, DST_COLOR, ONE_MINUS_SRC_ALPHA, ONE, ONE, with the pixels premultiplied by their alpha.
+		*
+		* "SCREEN" will multiply the inverse of the background by the inverse of the pixels, creating a lightening effect which does not burn out as quickly as "ADD". FUNC_ADD, FUNC_ADD, ONE, ONE_MINUS_SRC_COLOR, ONE, ONE, with the pixels premultiplied by their alpha.
+		*
 		* "BLACK" or "BLACKEN" will turn all colour black, but preserve alpha. FUNC_ADD, FUNC_ADD, ZERO, ONE_MINUS_SRC_ALPHA, ONE, ONE.
 		*
 		* Blend modes as seen in Adobe Photoshop are not reliably available via WebGL blend modes. Such blend modes require shaders to create.
@@ -251,6 +269,7 @@ module Kiwi.Renderers {
 		*/
 		public setMode(mode: string) {
 			mode = mode.toUpperCase();
+			this.premultiply = false;
 			switch( mode ) {
 				case "ADDITIVE":
 				case "ADD":
@@ -279,6 +298,24 @@ module Kiwi.Renderers {
 					this._modeRGB = this.gl.FUNC_REVERSE_SUBTRACT;
 					this._modeAlpha = this.gl.FUNC_REVERSE_SUBTRACT;
 					break;
+				case "MULTIPLY":
+					this._srcRGB = this.gl.DST_COLOR;
+					this._dstRGB = this.gl.ONE_MINUS_SRC_ALPHA;
+					this._srcAlpha = this.gl.ONE;
+					this._dstAlpha = this.gl.ONE;
+					this._modeRGB = this.gl.FUNC_ADD;
+					this._modeAlpha = this.gl.FUNC_ADD;
+					this.premultiply = true;
+					break;
+				case "SCREEN":
+					this._srcRGB = this.gl.ONE;
+					this._dstRGB = this.gl.ONE_MINUS_SRC_COLOR;
+					this._srcAlpha = this.gl.ONE;
+					this._dstAlpha = this.gl.ONE;
+					this._modeRGB = this.gl.FUNC_ADD;
+					this._modeAlpha = this.gl.FUNC_ADD;
+					this.premultiply = true;
+					break;
 				case "BLACK":
 				case "BLACKEN":
 					this._srcRGB = this.gl.ZERO;
@@ -316,7 +353,8 @@ module Kiwi.Renderers {
 				&&  this._srcAlpha == blendMode._srcAlpha
 				&&  this._dstAlpha == blendMode._dstAlpha
 				&&  this._modeRGB == blendMode._modeRGB
-				&&  this._modeAlpha == blendMode._modeAlpha)
+				&&  this._modeAlpha == blendMode._modeAlpha
+				&&  this.premultiply == blendMode.premultiply)
 				return( true );
 			return( false );
 		}
@@ -0,0 +1,156 @@
+/**
+*
+* @module Kiwi
+* @submodule Renderers
+*
+* @namespace Kiwi.Renderers
+*/
+
+module Kiwi.Renderers {
+
+	/**
+	* Draws the fade and flash of a camera over the top of its viewport.
+	* Its texture has one pixel for the colour of the fade and another for the colour of the flash, which are stretched over the viewport by a TextureAtlasRenderer.
+	*
+	* The overlay is created by the GLRenderManager the first time a camera has a fade or flash.
+	* @class GLCameraOverlay
+	* @constructor
+	* @param gl {WebGLRenderingContext}
+	* @param game {Kiwi.Game}
+	* @param renderer {Kiwi.Renderers.TextureAtlasRenderer} The renderer that draws the overlay.
+	* @return {Kiwi.Renderers.GLCameraOverlay}
+	* @since 1.4.0
+	*/
+	export class GLCameraOverlay {
+
+		constructor(gl: WebGLRenderingContext, game: Kiwi.Game, renderer: TextureAtlasRenderer) {
+			this.glRenderer = renderer;
+
+			this._canvas = document.createElement("canvas");
+			this._canvas.width = 2;
+			this._canvas.height = 1;
+			this._ctx = this._canvas.getContext("2d");
+			this.atlas = new Kiwi.Textures.SingleImage(game.rnd.uuid(), this._canvas);
+			this.atlas.glTextureWrapper = new GLTextureWrapper(gl, this.atlas, true);
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {string} "GLCameraOverlay"
+		* @public
+		*/
+		public objType(): string {
+			return "GLCameraOverlay";
+		}
+
+		/**
+		* The renderer that draws the overlay.
+		* @property glRenderer
+		* @type Kiwi.Renderers.TextureAtlasRenderer
+		* @public
+		*/
+		public glRenderer: TextureAtlasRenderer;
+
+		/**
+		* The texture atlas that the render manager binds when the overlay is drawn.
+		* @property atlas
+		* @type Kiwi.Textures.TextureAtlas
+		* @public
+		*/
+		public atlas: Kiwi.Textures.TextureAtlas;
+
+		/**
+		* The canvas that holds the two colours.
+		* @property _canvas
+		* @type HTMLCanvasElement
+		* @private
+		*/
+		private _canvas: HTMLCanvasElement;
+
+		/**
+		* The context of the canvas.
+		* @property _ctx
+		* @type CanvasRenderingContext2D
+		* @private
+		*/
+		private _ctx: CanvasRenderingContext2D;
+
+		/**
+		* The colours that were last drawn into the canvas, so that it is only uploaded again when they change.
+		* @property _colors
+		* @type string[]
+		* @private
+		*/
+		private _colors: string[] = ["", ""];
+
+		/**
+		* Draws a colour into one of the pixels of the canvas, if it has changed.
+		* The alpha of the colour is applied when drawing instead, so the pixel is opaque.
+		* @method _setColor
+		* @param index {number} 0 for the fade, 1 for the flash.
+		* @param color {Kiwi.Utils.Color}
+		* @private
+		*/
+		private _setColor(index: number, color: Kiwi.Utils.Color) {
+			var style: string = "rgb(" + color.r255 + "," + color.g255 + "," + color.b255 + ")";
+			if (this._colors[index] === style) return;
+
+			this._colors[index] = style;
+			this._ctx.clearRect(index, 0, 1, 1);
+			this._ctx.fillStyle = style;
+			this._ctx.fillRect(index, 0, 1, 1);
+			this.atlas.dirty = true;
+		}
+
+		/**
+		* Adds the fade and flash of the camera to the batch of the renderer, covering its viewport.
+		* @method renderGL
+		* @param gl {WebGLRenderingContext}
+		* @param camera {Kiwi.Camera}
+		* @public
+		*/
+		public renderGL(gl: WebGLRenderingContext, camera: Kiwi.Camera) {
+			var vp: Kiwi.Geom.Rectangle = camera.viewport;
+
+			// The renderer transforms by the camera, so the corners of the viewport are found in the world
+			var pt1 = camera.transformStageToWorld(new Kiwi.Geom.Point(vp.x, vp.y), false);
+			var pt2 = camera.transformStageToWorld(new Kiwi.Geom.Point(vp.x + vp.width, vp.y), false);
+			var pt3 = camera.transformStageToWorld(new Kiwi.Geom.Point(vp.x + vp.width, vp.y + vp.height), false);
+			var pt4 = camera.transformStageToWorld(new Kiwi.Geom.Point(vp.x, vp.y + vp.height), false);
+
+			var effects = [
+				{ color: camera.fadeColor, alpha: camera.fadeAlpha },
+				{ color: camera.flashColor, alpha: camera.flashAlpha }
+			];
+			for (var i = 0; i < effects.length; i++) {
+				var alpha: number = effects[i].color.a * effects[i].alpha;
+				if (alpha <= 0) continue;
+
+				this._setColor(i, effects[i].color);
+
+				// Sample the centre of the pixel, so that neighbouring colours do not bleed in
+				var u: number = i + 0.5;
+				this.glRenderer.concatBatch([
+					pt1.x, pt1.y, u, 0.5, alpha,
+					pt2.x, pt2.y, u, 0.5, alpha,
+					pt3.x, pt3.y, u, 0.5, alpha,
+					pt4.x, pt4.y, u, 0.5, alpha
+				]);
+			}
+		}
+
+		/**
+		* Deletes the texture, freeing up video memory.
+		* @method destroy
+		* @param gl {WebGLRenderingContext}
+		* @public
+		*/
+		public destroy(gl: WebGLRenderingContext) {
+			this.atlas.glTextureWrapper.deleteTexture(gl);
+			this.atlas.glTextureWrapper = null;
+		}
+
+	}
+
+}
@@ -36,7 +36,7 @@ module Kiwi.Renderers {
 		public boot() {
 			this._textureManager = new GLTextureManager();
 			this._shaderManager = new Kiwi.Shaders.ShaderManager();
-			//this.filters = new Kiwi.Filters.GLFilterManager(this._game, this._shaderManager);
+			this.filters = new Kiwi.Filters.GLFilterManager(this._game, this._shaderManager);
 			this._init();
 
 		}
@@ -67,6 +67,19 @@ module Kiwi.Renderers {
 		 */
 		private _textureManager: GLTextureManager;
 
+		/**
+		 * The texture manager object used to allocate GL Textures.
+		 * Useful for finding out how much texture memory is in use.
+		 * This is READ ONLY.
+		 * @property textureManager
+		 * @type Kiwi.Renderers.GLTextureManager
+		 * @public
+		 * @since 1.4.0
+		 */
+		public get textureManager(): GLTextureManager {
+			return this._textureManager;
+		}
+
 		/**
 		 * The shader manager object used to allocate GL Shaders.
 		 * @property _shaderManager
@@ -76,7 +89,15 @@ module Kiwi.Renderers {
 
 		private _shaderManager: Kiwi.Shaders.ShaderManager;
 
-		//public filters: Kiwi.Filters.GLFilterManager;
+		/**
+		 * The filters which are applied to the scene after it has been rendered.
+		 * Filters are only applied while 'filtersEnabled' is true.
+		 * @property filters
+		 * @type Kiwi.Filters.GLFilterManager
+		 * @public
+		 * @since 1.4.0
+		 */
+		public filters: Kiwi.Filters.GLFilterManager;
 
 		/**
 		 * The stage resolution in pixels
@@ -121,6 +142,27 @@ module Kiwi.Renderers {
 		 */
 		public numDrawCalls: number = 0;
 
+		/**
+		 * Tally of the entities which were skipped per frame because they were outside the view of the camera.
+		 * @property numCulled
+		 * @type number
+		 * @default 0
+		 * @public
+		 * @since 1.4.0
+		 */
+		public numCulled: number = 0;
+
+		/**
+		 * The area of the world which the camera being rendered can see.
+		 * Entities outside of it are culled, and tile layers only draw the tiles inside it.
+		 * While a child is rendered into its own texture, this is the area that the texture covers instead.
+		 * @property frustum
+		 * @type Kiwi.Geom.Rectangle
+		 * @public
+		 * @since 1.4.0
+		 */
+		public frustum: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle();
+
 		/**
 		 * Maximum allowable sprites to render per frame.
 		 * Note: Not currently used  - candidate for deletion
@@ -139,6 +181,24 @@ module Kiwi.Renderers {
 		 */
 		public camMatrix: Float32Array;
 
+		/**
+		 * The camera that the scene is being rendered with.
+		 * @property _camera
+		 * @type Kiwi.Camera
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _camera: Kiwi.Camera = null;
+
+		/**
+		 * Draws the fade and flash of cameras. Created the first time a camera has one.
+		 * @property _cameraOverlay
+		 * @type Kiwi.Renderers.GLCameraOverlay
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _cameraOverlay: GLCameraOverlay = null;
+
 		/**
 		 * The most recently bound texture atlas.
 		 * @property _currentTextureAtlas
@@ -300,7 +360,15 @@ module Kiwi.Renderers {
 			return null; //fail
 		}
 
-		/*
+		/**
+		 * If the filters in 'filters' are applied to the scene.
+		 * While there are no enabled filters the scene is rendered straight onto the stage, even when this is true.
+		 * @property filtersEnabled
+		 * @type boolean
+		 * @default false
+		 * @public
+		 * @since 1.4.0
+		 */
 		public get filtersEnabled(): boolean {
 			return this._filtersEnabled;
 		}
@@ -309,6 +377,13 @@ module Kiwi.Renderers {
 			this._filtersEnabled = val;
 		}
 
+		/**
+		 * If the filters are applied to the scene.
+		 * @property _filtersEnabled
+		 * @type boolean
+		 * @default false
+		 * @private
+		 */
 		private _filtersEnabled: boolean = false;
 
 		/**
@@ -349,7 +424,7 @@ module Kiwi.Renderers {
 			this._game.stage.onResize.add(function (width, height) {
 				this._stageResolution = new Float32Array([width, height]);
 				if (this.currentRenderer) this._currentRenderer.updateStageResolution(gl, this._stageResolution);
-				//this.filters.updateFilterResolution(gl,width, height);
+				this.filters.updateFilterResolution(gl, width, height);
 				// Manually override scaling under CocoonJS
 				if( this._game.deviceTargetOption === Kiwi.TARGET_COCOON ) {
 					this.scaleViewport( gl, this._game.stage.scaleType, window.innerWidth, window.innerHeight );
@@ -359,10 +434,6 @@ module Kiwi.Renderers {
 				}
 			},this);
 
-			/* if (this.filtersEnabled && !this.filters.isEmpty) {
-				this.filters.enableFrameBuffers(gl);
-			}*/
-
 		}
 
 		/**
@@ -443,6 +514,20 @@ module Kiwi.Renderers {
 			Kiwi.Log.log("Ending WebGL on State", '#renderer', '#webgl');
 		}
 
+		/**
+		 * Resets the tallies of draw calls, culled entities and texture writes.
+		 * This is called once per frame, before any Camera is rendered, so that the tallies cover every Camera.
+		 * @method resetStats
+		 * @public
+		 * @since 1.4.0
+		 */
+		public resetStats() {
+			this.numDrawCalls = 0;
+			this.numCulled = 0;
+			this._textureManager.numTextureWrites = 0;
+			this._entityCount = 0;
+		}
+
 		/**
 		 * Manages rendering of the scene graph - called once per frame.
 		 * Sets up per frame gl uniforms such as the view matrix and
@@ -455,35 +540,48 @@ module Kiwi.Renderers {
 		public render(camera: Kiwi.Camera) {
 
 			var gl: WebGLRenderingContext = this._game.stage.gl;
+			this._camera = camera;
+
+			// The viewport of the camera on the stage
+			var screenScissor: number[] = this._getScissor(camera, gl.getParameter(gl.VIEWPORT));
+
+			// Render into the framebuffer of the filters instead of the stage
+			var filtersActive: boolean = this._filtersEnabled && !this.filters.isEmpty;
+			if (filtersActive) {
+				this.filters.bindFrameBuffer(gl);
+			}
 
-			//clear stage every frame
-			var col = this._game.stage.normalizedColor;
-			// Colour must be multiplied by alpha to create consistent results.
-			// This is probably due to browsers implementing an inferior
-			// blendfunc: ONE, ONE_MINUS_SRC_ALPHA is most common, and gives
-			// bad results with alphas. When this is used on a partially
-			// transparent game canvas, it does not blend correctly.
-			// Without being able to override the browser's own object renderer,
-			// this is a necessary kludge. The "clean" solution is as follows:
-			// gl.clearColor(col.r, col.g, col.b, col.a);
-			gl.clearColor(col.r * col.a, col.g * col.a, col.b * col.a, col.a);
-			gl.clear(gl.COLOR_BUFFER_BIT);
+			// Only draw within the viewport of the camera
+			var scissor: number[] = filtersActive ? this._getScissor(camera, gl.getParameter(gl.VIEWPORT)) : screenScissor;
+			gl.enable(gl.SCISSOR_TEST);
+			gl.scissor(scissor[0], scissor[1], scissor[2], scissor[3]);
+
+			//clear the viewport every frame
+			if (camera.clearViewport) {
+				var col = (camera.clearColor !== null) ?
+					{ r: camera.clearColor.rNorm, g: camera.clearColor.gNorm, b: camera.clearColor.bNorm, a: camera.clearColor.aNorm } :
+					this._game.stage.normalizedColor;
+				// Colour must be multiplied by alpha to create consistent results.
+				// This is probably due to browsers implementing an inferior
+				// blendfunc: ONE, ONE_MINUS_SRC_ALPHA is most common, and gives
+				// bad results with alphas. When this is used on a partially
+				// transparent game canvas, it does not blend correctly.
+				// Without being able to override the browser's own object renderer,
+				// this is a necessary kludge. The "clean" solution is as follows:
+				// gl.clearColor(col.r, col.g, col.b, col.a);
+				gl.clearColor(col.r * col.a, col.g * col.a, col.b * col.a, col.a);
+				gl.clear(gl.COLOR_BUFFER_BIT);
+			} else if (filtersActive) {
+				// The framebuffer still holds the previous camera
+				gl.clearColor(0, 0, 0, 0);
+				gl.clear(gl.COLOR_BUFFER_BIT);
+			}
 
 			// Reset current renderer.
 			// This prevents runtime created shaders from being uploaded
 			// and the render manager failing to notice, causing crashes.
 			this._currentRenderer = null;
 
-			// Stop drawing if there is nothing to draw
-			if (this._game.states.current.members.length == 0) {
-				return;
-			}
-
-			// Reset stats
-			this.numDrawCalls = 0;
-			this._textureManager.numTextureWrites = 0;
-			this._entityCount = 0;
-
 			// TODO: update this {{{
 			// Set cam matrix uniform
 			// var cm: Kiwi.Geom.Matrix = camera.transform.getConcatenatedMatrix();
@@ -504,8 +602,9 @@ module Kiwi.Renderers {
 			this.camMatrix[ 1 ] = cm.b;
 			this.camMatrix[ 3 ] = cm.c;
 			this.camMatrix[ 4 ] = cm.d;
-			this.camMatrix[ 6 ] = cm.tx;
-			this.camMatrix[ 7 ] = cm.ty;
+			// The camera sees the world from the top left of its viewport
+			this.camMatrix[ 6 ] = cm.tx + camera.viewport.x;
+			this.camMatrix[ 7 ] = cm.ty + camera.viewport.y;
 			// TODO: update this }}}
 
 			// Mandate blend mode in CocoonJS
@@ -515,15 +614,81 @@ module Kiwi.Renderers {
 				this._switchBlendMode( gl, this._currentBlendMode );
 			}
 
+			// The inverse of the camera matrix finds the area of the world in view
+			camera.getScratchMatrices().normal.transformRect(this.frustum.setTo(0, 0, camera.width, camera.height), this.frustum);
+
 			this.collateRenderSequence();
 			this.collateBatches();
 			this.renderBatches(gl, camera);
 
-			/*if (this._filtersEnabled && !this.filters.isEmpty) {
-				this.filters.applyFilters(gl);
-				gl.useProgram(this._shaderManager.currentShader.shaderProgram);
-				gl.bindTexture(gl.TEXTURE_2D, this._currentTextureAtlas.glTextureWrapper.texture);
-			}*/
+			if (filtersActive) {
+				this._applyFilters(gl, screenScissor);
+			}
+
+			// Effects are drawn over the top of the filtered scene
+			this._renderCameraEffects(gl, camera);
+
+			gl.disable(gl.SCISSOR_TEST);
+		}
+
+		/**
+		 * Covers the viewport of a camera with the colours of its fade and flash.
+		 * @method _renderCameraEffects
+		 * @param gl {WebGLRenderingContext}
+		 * @param camera {Kiwi.Camera}
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _renderCameraEffects(gl: WebGLRenderingContext, camera: Kiwi.Camera) {
+			if (camera.fadeAlpha <= 0 && camera.flashAlpha <= 0) return;
+
+			if (this._cameraOverlay === null) {
+				this._cameraOverlay = new GLCameraOverlay(gl, this._game, <TextureAtlasRenderer>this.requestSharedRenderer("TextureAtlasRenderer"));
+			}
+
+			var overlay: GLCameraOverlay = this._cameraOverlay;
+			this.renderBatch(gl, [{ entity: overlay, blendMode: overlay.glRenderer.blendMode }], camera);
+		}
+
+		/**
+		 * Returns the scissor box which covers the viewport of a camera, for a gl viewport which covers the stage.
+		 * @method _getScissor
+		 * @param camera {Kiwi.Camera}
+		 * @param viewport {Int32Array} The gl viewport.
+		 * @return {number[]} The x, y, width and height of the scissor box, in pixels from the bottom left.
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _getScissor(camera: Kiwi.Camera, viewport: Int32Array): number[] {
+			var stage: Kiwi.Stage = this._game.stage;
+			var vp: Kiwi.Geom.Rectangle = camera.viewport;
+			var scaleX: number = viewport[2] / stage.width;
+			var scaleY: number = viewport[3] / stage.height;
+
+			return [
+				Math.round(viewport[0] + vp.x * scaleX),
+				Math.round(viewport[1] + (stage.height - vp.y - vp.height) * scaleY),
+				Math.max(0, Math.round(vp.width * scaleX)),
+				Math.max(0, Math.round(vp.height * scaleY))
+			];
+		}
+
+		/**
+		 * Applies the filters to the scene, which has been rendered into their framebuffer, and draws the result onto the stage.
+		 * The filters change the gl state, so the renderer and texture are set up again by the next batch.
+		 * @method _applyFilters
+		 * @param gl {WebGLRenderingContext}
+		 * @param scissor {number[]} The scissor box of the viewport of the camera on the stage.
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _applyFilters(gl: WebGLRenderingContext, scissor: number[]) {
+			if (this._currentRenderer) this._currentRenderer.disable(gl);
+
+			this.filters.applyFilters(gl, scissor);
+
+			this._currentRenderer = null;
+			this._currentTextureAtlas = null;
 		}
 
 		private _sequence: any[];
@@ -544,6 +709,7 @@ module Kiwi.Renderers {
 		/**
 		 * Adds a child to the render sequence
 		 * (may be a group with children of its own).
+		 * Children which are cached or have filters are rendered into their own texture, which is added instead of their contents.
 		 * @method collateChild
 		 * @public
 		 */
@@ -552,52 +718,330 @@ module Kiwi.Renderers {
 			// Do not render non-visible objects or their children
 			if( !child.visible) return;
 
+			// Skip objects on layers which the camera does not show
+			if (!this._camera.isLayerVisible(child.layer)) return;
+
+			if (child.cacheAsTexture || this.filters.countPasses(child.filters) > 0) {
+				var renderTexture: GLRenderTexture = this._updateRenderTexture(child);
+				this._sequence.push({
+					entity: renderTexture,
+					renderer: renderTexture.glRenderer,
+					shader: renderTexture.glRenderer.shaderPair,
+					isBatchRenderer: renderTexture.glRenderer.isBatchRenderer,
+					texture: renderTexture.atlas,
+					blendMode: this._getBlendMode(child, renderTexture.glRenderer)
+				});
+				return;
+			}
+
+			this._collateContents(child);
+		}
+
+		/**
+		 * Adds the contents of a child to the render sequence: the members of a group, or an entity itself.
+		 * @method _collateContents
+		 * @param child {Kiwi.IChild}
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _collateContents(child: IChild) {
 			if (child.childType() === Kiwi.GROUP) {
 				for (var i = 0; i < (<Kiwi.Group>child).members.length; i++) {
 					this.collateChild( (<Kiwi.Group>child).members[i]);
 				}
 			} else {
 				var entity: Entity = <Entity>child;
+
+				// Skip entities outside the view of the camera
+				if (this._isCulled(entity)) {
+					this.numCulled++;
+					return;
+				}
+
 				this._sequence.push({
 					entity: entity,
 					renderer: entity.glRenderer,
 					shader: entity.glRenderer.shaderPair,
 					isBatchRenderer: entity.glRenderer.isBatchRenderer,
-					texture: entity.atlas
+					texture: entity.atlas,
+					blendMode: this._getBlendMode(entity, entity.glRenderer)
 				});
 			}
 		}
 
+		/**
+		 * Matrix used when measuring the contents of a child.
+		 * @property _boundsMatrix
+		 * @type Kiwi.Geom.Matrix
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _boundsMatrix: Kiwi.Geom.Matrix = new Kiwi.Geom.Matrix();
+
+		/**
+		 * Rectangle used to hold the bounds of entities when culling.
+		 * @property _cullRect
+		 * @type Kiwi.Geom.Rectangle
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _cullRect: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle();
+
+		/**
+		 * Returns true if an entity can be culled, because it is outside the frustum.
+		 * @method _isCulled
+		 * @param entity {Kiwi.Entity}
+		 * @return {boolean}
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _isCulled(entity: Entity): boolean {
+			if (!entity.cullable) return false;
+
+			var bounds: Kiwi.Geom.Rectangle = entity.getWorldBounds(this._cullRect);
+			var f: Kiwi.Geom.Rectangle = this.frustum;
+			return bounds.x > f.right || bounds.right < f.x || bounds.y > f.bottom || bounds.bottom < f.y;
+		}
+
+		/**
+		 * Rectangle used when measuring the contents of a child.
+		 * @property _boundsRect
+		 * @type Kiwi.Geom.Rectangle
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _boundsRect: Kiwi.Geom.Rectangle = new Kiwi.Geom.Rectangle();
+
+		/**
+		 * Creates the render texture of a child if it does not have one, and resizes it to fit the contents of the child.
+		 * The child is then rendered into it, unless the child is cached and nothing has changed.
+		 * @method _updateRenderTexture
+		 * @param child {Kiwi.IChild}
+		 * @return {Kiwi.Renderers.GLRenderTexture}
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _updateRenderTexture(child: IChild): GLRenderTexture {
+			var gl: WebGLRenderingContext = this._game.stage.gl;
+
+			if (child.renderTexture === null) {
+				child.renderTexture = new GLRenderTexture(gl, child, <TextureAtlasRenderer>this.requestSharedRenderer("TextureAtlasRenderer"));
+			}
+			var renderTexture: GLRenderTexture = child.renderTexture;
+
+			// Measure the contents in the coordinates of the child
+			var inverse: Kiwi.Geom.Matrix = child.transform.getConcatenatedMatrix().invertCopy();
+			var area: number[] = [Infinity, Infinity, -Infinity, -Infinity];
+			this._measureChild(child, inverse, area);
+			if (area[0] > area[2]) area = [0, 0, 0, 0];
+
+			var padding: number = child.filterPadding;
+			this._boundsRect.setTo(
+				Math.floor(area[0]) - padding,
+				Math.floor(area[1]) - padding,
+				Math.ceil(area[2]) - Math.floor(area[0]) + padding * 2,
+				Math.ceil(area[3]) - Math.floor(area[1]) + padding * 2);
+
+			if (!renderTexture.bounds.equals(this._boundsRect)) {
+				renderTexture.bounds.copyFrom(this._boundsRect);
+				renderTexture.dirty = true;
+			}
+			renderTexture.resize(gl, this._boundsRect.width, this._boundsRect.height);
+
+			// Groups have no alpha of their own
+			renderTexture.alpha = (child.childType() === Kiwi.GROUP) ? 1 : (<Entity>child).alpha;
+
+			if (!child.cacheAsTexture || renderTexture.dirty) {
+				this._renderToTexture(gl, child, renderTexture, inverse);
+				renderTexture.dirty = false;
+			}
+
+			return renderTexture;
+		}
+
+		/**
+		 * Extends an area to include the visible entities within a child.
+		 * @method _measureChild
+		 * @param child {Kiwi.IChild}
+		 * @param inverse {Kiwi.Geom.Matrix} The inverse of the matrix of the child being rendered into a texture.
+		 * @param area {number[]} The left, top, right and bottom of the area.
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _measureChild(child: IChild, inverse: Kiwi.Geom.Matrix, area: number[]) {
+			if (!child.visible) return;
+
+			if (child.childType() === Kiwi.GROUP) {
+				for (var i = 0; i < (<Kiwi.Group>child).members.length; i++) {
+					this._measureChild( (<Kiwi.Group>child).members[i], inverse, area);
+				}
+				return;
+			}
+
+			var entity: Entity = <Entity>child;
+			if (entity instanceof Kiwi.GameObjects.Tilemap.TileMapLayer) {
+				(<Kiwi.GameObjects.Tilemap.TileMapLayer>entity).getLocalBounds(this._boundsRect);
+			} else {
+				this._boundsRect.setTo(0, 0, entity.width, entity.height);
+			}
+
+			this._boundsMatrix.setToMatrix(inverse).multiplyMatrixInPlace(entity.transform.getConcatenatedMatrix());
+			this._boundsMatrix.transformRect(this._boundsRect, this._boundsRect);
+
+			area[0] = Math.min(area[0], this._boundsRect.x);
+			area[1] = Math.min(area[1], this._boundsRect.y);
+			area[2] = Math.max(area[2], this._boundsRect.right);
+			area[3] = Math.max(area[3], this._boundsRect.bottom);
+		}
+
+		/**
+		 * Renders the contents of a child into its render texture, and applies its filters.
+		 * The camera matrix is replaced so that the coordinates of the child map onto the texture.
+		 * The render sequence, batches, camera matrix, resolution and frustum are restored afterwards, so this can happen while the scene is being collated.
+		 * @method _renderToTexture
+		 * @param gl {WebGLRenderingContext}
+		 * @param child {Kiwi.IChild}
+		 * @param renderTexture {Kiwi.Renderers.GLRenderTexture}
+		 * @param inverse {Kiwi.Geom.Matrix} The inverse of the matrix of the child.
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _renderToTexture(gl: WebGLRenderingContext, child: IChild, renderTexture: GLRenderTexture, inverse: Kiwi.Geom.Matrix) {
+			var sequence: any[] = this._sequence;
+			var batches: any[] = this._batches;
+			var camMatrix: Float32Array = new Float32Array(this.camMatrix);
+			var stageResolution: Float32Array = this._stageResolution;
+			var frustum: Kiwi.Geom.Rectangle = this.frustum.clone();
+
+			// The alpha of an entity is applied when the texture is drawn, not twice
+			var alpha: number = renderTexture.alpha;
+			if (child.childType() !== Kiwi.GROUP) (<Entity>child).alpha = 1;
+
+			// Only the contents of the child outside of its texture are culled
+			child.transform.getConcatenatedMatrix().transformRect(renderTexture.bounds, this.frustum);
+
+			this._sequence = [];
+			this._collateContents(child);
+			this.collateBatches();
+
+			this.camMatrix[0] = inverse.a;
+			this.camMatrix[1] = inverse.b;
+			this.camMatrix[3] = inverse.c;
+			this.camMatrix[4] = inverse.d;
+			this.camMatrix[6] = inverse.tx - renderTexture.bounds.x;
+			this.camMatrix[7] = inverse.ty - renderTexture.bounds.y;
+			this._stageResolution = renderTexture.resolution;
+
+			if (this._currentRenderer) this._currentRenderer.disable(gl);
+			this._currentRenderer = null;
+
+			renderTexture.bind(gl);
+			this.renderBatches(gl, this._camera);
+
+			if (this._currentRenderer) this._currentRenderer.disable(gl);
+			this._currentRenderer = null;
+			this._currentTextureAtlas = null;
+
+			if (this.filters.countPasses(child.filters) > 0) {
+				renderTexture.applyFilters(gl, this.filters, child.filters);
+			}
+			renderTexture.unbind(gl);
+
+			if (child.childType() !== Kiwi.GROUP) (<Entity>child).alpha = alpha;
+
+			this._sequence = sequence;
+			this._batches = batches;
+			this.camMatrix.set(camMatrix);
+			this._stageResolution = stageResolution;
+			this.frustum.copyFrom(frustum);
+		}
+
+		/**
+		 * Blend modes used by entities whose 'blendMode' is not "NORMAL", by name.
+		 * @property _blendModes
+		 * @type object
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _blendModes: any = {};
+
+		/**
+		 * Returns the blend mode a child is drawn with.
+		 * Entities with the "NORMAL" blend mode, and groups, use the blend mode of their renderer.
+		 * @method _getBlendMode
+		 * @param child {Kiwi.IChild}
+		 * @param renderer {Kiwi.Renderers.Renderer}
+		 * @return {Kiwi.Renderers.GLBlendMode}
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _getBlendMode(child: IChild, renderer: Renderer): GLBlendMode {
+			if (child.childType() === Kiwi.GROUP) return renderer.blendMode;
+
+			var mode: string = (<Entity>child).blendMode;
+			if (!mode) return renderer.blendMode;
+
+			mode = mode.toUpperCase();
+			if (mode === "NORMAL") return renderer.blendMode;
+
+			if (!this._blendModes[mode]) {
+				this._blendModes[mode] = new GLBlendMode(this._game.stage.gl, { mode: mode });
+			}
+			return this._blendModes[mode];
+		}
+
 		/**
 		 * Sorts the render sequence into batches.
-		 * Each batch requires the same renderer/shader/texture combination.
+		 * Each batch requires the same renderer/shader/blend mode combination.
+		 * A batch uses a single texture, unless its renderer can draw from several textures at once,
+		 * in which case a new batch is only started when the renderer has run out of texture units.
 		 * @method collateBatches
 		 * @public
 		 */
 		public collateBatches() {
 			var currentRenderer: Renderer = null;
 			var currentShader: Shaders.ShaderPair = null;
-			var currentTexture: Textures.TextureAtlas = null;
+			var currentTextures: Array<GLTextureWrapper | Textures.TextureAtlas> = [];
+			var currentBlendMode: GLBlendMode = null;
 
 			this._batches = [];
 			var batchIndex:number;
 
 			for (var i = 0; i < this._sequence.length; i++) {
-				if (!this._sequence[i].isBatchRenderer ||
-					this._sequence[i].renderer !== currentRenderer ||
-					this._sequence[i].shader !== currentShader ||
-					this._sequence[i].texture !== currentTexture) {
+				var item = this._sequence[i];
+				var texture: GLTextureWrapper | Textures.TextureAtlas = this._getBatchTexture(item.texture);
+				var newTexture: boolean = currentTextures.indexOf(texture) === -1;
+				if (!item.isBatchRenderer ||
+					item.renderer !== currentRenderer ||
+					item.shader !== currentShader ||
+					(newTexture && currentTextures.length >= item.renderer.maxTextures) ||
+					item.blendMode !== currentBlendMode) {
 					//create a new batch
 					var batchIndex = this._batches.push(new Array()) - 1;
-					currentRenderer = this._sequence[i].renderer;
-					currentShader = this._sequence[i].shader;
-					currentTexture = this._sequence[i].texture;
+					currentRenderer = item.renderer;
+					currentShader = item.shader;
+					currentTextures = [];
+					currentBlendMode = item.blendMode;
 
 				}
+				if (currentTextures.indexOf(texture) === -1) currentTextures.push(texture);
 				this._batches[batchIndex].push(this._sequence[i]);
 			}
 		}
 
+		/**
+		 * Returns what identifies the texture of an atlas when collating batches.
+		 * Atlases which share a texture wrapper, such as those packed onto the same page by a TexturePacker, can be drawn in the same batch.
+		 * @method _getBatchTexture
+		 * @param atlas {Kiwi.Textures.TextureAtlas}
+		 * @return {Kiwi.Renderers.GLTextureWrapper|Kiwi.Textures.TextureAtlas} The texture wrapper of the atlas, or the atlas if it does not have one.
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _getBatchTexture(atlas: Kiwi.Textures.TextureAtlas): GLTextureWrapper | Textures.TextureAtlas {
+			return (atlas && atlas.glTextureWrapper) || atlas;
+		}
+
 		/**
 		 * Renders all the batches
 		 * @method renderBatches
@@ -629,21 +1073,65 @@ module Kiwi.Renderers {
 			// Clear renderer for fresh data
 			this._currentRenderer.clear(gl, { camMatrix: this.camMatrix });
 
-			// Call render functions
-			for( var i = 0;  i < batch.length;  i++ )
-				batch[i].entity.renderGL(gl, camera);
+			if (this._currentRenderer.maxTextures > 1) {
+				this._renderMultiTextureBatch(gl, batch, camera);
+			} else {
+				// Call render functions
+				for( var i = 0;  i < batch.length;  i++ )
+					batch[i].entity.renderGL(gl, camera);
 
-			// Upload textures
-			if( batch[0].entity.atlas !== this._currentTextureAtlas  ||  batch[0].entity.atlas.dirty ||  (rendererSwitched  &&  batch[0].entity.atlas == this._currentTextureAtlas) )
-				this._switchTexture(gl, batch[0].entity);
+				// Upload textures
+				if( batch[0].entity.atlas !== this._currentTextureAtlas  ||  batch[0].entity.atlas.dirty ||  (rendererSwitched  &&  batch[0].entity.atlas == this._currentTextureAtlas) )
+					this._switchTexture(gl, batch[0].entity);
+			}
 
 			// Manage blend mode
 			// We must always apply BlendMode under CocoonJS, because some (but not all) operations on other canvases may silently change the blend mode and not change it back.
-			if( !this._currentBlendMode.isIdentical( batch[0].entity.glRenderer.blendMode )  ||  this._currentBlendMode.dirty  ||  this._game.deviceTargetOption === Kiwi.TARGET_COCOON )
-				this._switchBlendMode(gl, batch[0].entity.glRenderer.blendMode);
+			if( !this._currentBlendMode.isIdentical( batch[0].blendMode )  ||  this._currentBlendMode.dirty  ||  this._game.deviceTargetOption === Kiwi.TARGET_COCOON )
+				this._switchBlendMode(gl, batch[0].blendMode);
+
+			// Blend modes which need premultiplied pixels have the shader premultiply them
+			this._currentRenderer.updatePremultiply(gl, batch[0].blendMode.premultiply);
 
 			// Render
 			this._currentRenderer.draw(gl);
+			this.numDrawCalls++;
+		}
+
+		/**
+		 * Renders the items of a batch which draws from several textures, and binds each texture to its own texture unit.
+		 * The renderer is told which texture each item samples from before the item is rendered.
+		 * @method _renderMultiTextureBatch
+		 * @param gl {WebGLRenderingContext}
+		 * @param batch {object}
+		 * @param camera {Kiwi.Camera}
+		 * @private
+		 * @since 1.4.0
+		 */
+		private _renderMultiTextureBatch(gl: WebGLRenderingContext, batch, camera: Kiwi.Camera) {
+			var textures: Textures.TextureAtlas[] = [];
+			var keys: Array<GLTextureWrapper | Textures.TextureAtlas> = [];
+
+			for (var i = 0; i < batch.length; i++) {
+				var atlas: Textures.TextureAtlas = batch[i].entity.atlas;
+				var index: number = keys.indexOf(this._getBatchTexture(atlas));
+				if (index === -1) {
+					index = keys.push(this._getBatchTexture(atlas)) - 1;
+					textures.push(atlas);
+				}
+
+				this._currentRenderer.textureIndex = index;
+				batch[i].entity.renderGL(gl, camera);
+			}
+			this._currentRenderer.textureIndex = 0;
+
+			for (var i = 0; i < textures.length; i++) {
+				textures[i].enableGL(gl, this._currentRenderer, this._textureManager, i);
+			}
+
+			// Other renderers only use the first texture unit, and the texture bound to it has changed
+			gl.activeTexture(gl.TEXTURE0);
+			this._currentTextureAtlas = null;
 		}
 
 		/**
@@ -0,0 +1,315 @@
+/**
+*
+* @module Kiwi
+* @submodule Renderers
+*
+* @namespace Kiwi.Renderers
+*/
+
+module Kiwi.Renderers {
+
+	/**
+	* A texture that a Group or Entity is rendered into instead of the stage, so that it can have its own filters and be cached between frames.
+	* It holds two textures, each wrapped by a GLTextureWrapper and attached to a framebuffer, which the filters draw between in turn.
+	* The result is then drawn onto the scene by a TextureAtlasRenderer, in the same way as a sprite.
+	*
+	* Render textures are created by the GLRenderManager for Groups and Entities which have 'cacheAsTexture' set or have 'filters',
+	* and are the 'renderTexture' property of that object.
+	* @class GLRenderTexture
+	* @constructor
+	* @param gl {WebGLRenderingContext}
+	* @param owner {Kiwi.IChild} The Group or Entity which is rendered into the texture.
+	* @param renderer {Kiwi.Renderers.TextureAtlasRenderer} The renderer that draws the texture onto the scene.
+	* @return {Kiwi.Renderers.GLRenderTexture}
+	* @since 1.4.0
+	*/
+	export class GLRenderTexture {
+
+		constructor(gl: WebGLRenderingContext, owner: Kiwi.IChild, renderer: TextureAtlasRenderer) {
+			this.owner = owner;
+			this.glRenderer = renderer;
+			this.bounds = new Kiwi.Geom.Rectangle();
+			this._resolution = new Float32Array([1, 1]);
+
+			this._canvas = document.createElement("canvas");
+			this._canvas.width = 1;
+			this._canvas.height = 1;
+			this.atlas = new Kiwi.Textures.SingleImage(owner.game.rnd.uuid(), this._canvas);
+
+			this._wrappers = [];
+			this._frameBuffers = [];
+			for (var i = 0; i < 2; i++) {
+				var wrapper = new GLTextureWrapper(gl, this.atlas, true);
+				var frameBuffer: WebGLFramebuffer = gl.createFramebuffer();
+				gl.bindFramebuffer(gl.FRAMEBUFFER, frameBuffer);
+				gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, wrapper.texture, 0);
+
+				this._wrappers.push(wrapper);
+				this._frameBuffers.push(frameBuffer);
+			}
+			gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+			this.atlas.glTextureWrapper = this._wrappers[0];
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {string} "GLRenderTexture"
+		* @public
+		*/
+		public objType(): string {
+			return "GLRenderTexture";
+		}
+
+		/**
+		* The Group or Entity which is rendered into the texture.
+		* @property owner
+		* @type Kiwi.IChild
+		* @public
+		*/
+		public owner: Kiwi.IChild;
+
+		/**
+		* The renderer that draws the texture onto the scene.
+		* @property glRenderer
+		* @type Kiwi.Renderers.TextureAtlasRenderer
+		* @public
+		*/
+		public glRenderer: TextureAtlasRenderer;
+
+		/**
+		* The texture atlas that the render manager binds when the texture is drawn onto the scene.
+		* Its image is an empty canvas with the size of the texture, and its wrapper is the texture that holds the final result.
+		* @property atlas
+		* @type Kiwi.Textures.TextureAtlas
+		* @public
+		*/
+		public atlas: Kiwi.Textures.TextureAtlas;
+
+		/**
+		* The area covered by the texture, in the coordinates of the owner.
+		* @property bounds
+		* @type Kiwi.Geom.Rectangle
+		* @public
+		*/
+		public bounds: Kiwi.Geom.Rectangle;
+
+		/**
+		* If the owner needs to be rendered into the texture again. Textures which are not cached are redrawn every frame regardless.
+		* @property dirty
+		* @type boolean
+		* @default true
+		* @public
+		*/
+		public dirty: boolean = true;
+
+		/**
+		* The alpha that the texture is drawn onto the scene with.
+		* @property alpha
+		* @type number
+		* @default 1
+		* @public
+		*/
+		public alpha: number = 1;
+
+		/**
+		* The canvas used as the image of the atlas. It is never drawn on, but has the size of the texture.
+		* @property _canvas
+		* @type HTMLCanvasElement
+		* @private
+		*/
+		private _canvas: HTMLCanvasElement;
+
+		/**
+		* The wrappers of the two textures.
+		* @property _wrappers
+		* @type Kiwi.Renderers.GLTextureWrapper[]
+		* @private
+		*/
+		private _wrappers: GLTextureWrapper[];
+
+		/**
+		* The framebuffers the two textures are attached to.
+		* @property _frameBuffers
+		* @type WebGLFramebuffer[]
+		* @private
+		*/
+		private _frameBuffers: WebGLFramebuffer[];
+
+		/**
+		* The width and height of the textures.
+		* @property _resolution
+		* @type Float32Array
+		* @private
+		*/
+		private _resolution: Float32Array;
+
+		/**
+		* The width and height of the textures. This is READ ONLY.
+		* @property resolution
+		* @type Float32Array
+		* @public
+		*/
+		public get resolution(): Float32Array {
+			return this._resolution;
+		}
+
+		/**
+		* The framebuffer which was bound before the owner was rendered into the texture.
+		* @property _previousFrameBuffer
+		* @type WebGLFramebuffer
+		* @private
+		*/
+		private _previousFrameBuffer: WebGLFramebuffer = null;
+
+		/**
+		* The viewport which was in use before the owner was rendered into the texture.
+		* @property _previousViewport
+		* @type Int32Array
+		* @private
+		*/
+		private _previousViewport: Int32Array = null;
+
+		/**
+		* If the scissor test was enabled before the owner was rendered into the texture, such as for the viewport of a camera.
+		* @property _previousScissorTest
+		* @type boolean
+		* @private
+		*/
+		private _previousScissorTest: boolean = false;
+
+		/**
+		* Resizes the textures, if their size has changed. Resizing clears the textures, so the texture is marked as dirty.
+		* @method resize
+		* @param gl {WebGLRenderingContext}
+		* @param width {number}
+		* @param height {number}
+		* @return {boolean} If the textures were resized.
+		* @public
+		*/
+		public resize(gl: WebGLRenderingContext, width: number, height: number): boolean {
+			width = Math.max(1, Math.ceil(width));
+			height = Math.max(1, Math.ceil(height));
+			if (width === this._resolution[0] && height === this._resolution[1]) return false;
+
+			this._resolution[0] = width;
+			this._resolution[1] = height;
+			this._canvas.width = width;
+			this._canvas.height = height;
+			this.atlas.cells[0] = {
+				x: 0,
+				y: 0,
+				w: width,
+				h: height,
+				hitboxes: [{ x: 0, y: 0, w: width, h: height }]
+			};
+
+			for (var i = 0; i < this._wrappers.length; i++) {
+				gl.bindTexture(gl.TEXTURE_2D, this._wrappers[i].texture);
+				gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+			}
+
+			this.dirty = true;
+			return true;
+		}
+
+		/**
+		* Makes rendering draw into the first texture, which is cleared.
+		* The framebuffer, viewport and scissor test in use are saved, so that 'unbind' can restore them.
+		* @method bind
+		* @param gl {WebGLRenderingContext}
+		* @public
+		*/
+		public bind(gl: WebGLRenderingContext) {
+			this._previousFrameBuffer = gl.getParameter(gl.FRAMEBUFFER_BINDING);
+			this._previousViewport = gl.getParameter(gl.VIEWPORT);
+			this._previousScissorTest = gl.isEnabled(gl.SCISSOR_TEST);
+
+			gl.disable(gl.SCISSOR_TEST);
+			gl.bindFramebuffer(gl.FRAMEBUFFER, this._frameBuffers[0]);
+			gl.viewport(0, 0, this._resolution[0], this._resolution[1]);
+			gl.clearColor(0, 0, 0, 0);
+			gl.clear(gl.COLOR_BUFFER_BIT);
+
+			this.atlas.glTextureWrapper = this._wrappers[0];
+		}
+
+		/**
+		* Applies filters to the first texture. The atlas is pointed at whichever texture holds the result.
+		* @method applyFilters
+		* @param gl {WebGLRenderingContext}
+		* @param filterManager {Kiwi.Filters.GLFilterManager} The filter manager which runs the passes.
+		* @param filters {Kiwi.Filters.Filter[]}
+		* @public
+		*/
+		public applyFilters(gl: WebGLRenderingContext, filterManager: Kiwi.Filters.GLFilterManager, filters: Kiwi.Filters.Filter[]) {
+			var textures: WebGLTexture[] = [this._wrappers[0].texture, this._wrappers[1].texture];
+			var result = filterManager.applyFilterList(gl, filters, textures, this._frameBuffers, this._resolution);
+			this.atlas.glTextureWrapper = this._wrappers[result];
+		}
+
+		/**
+		* Restores the framebuffer, viewport and scissor test which were in use before 'bind' was called.
+		* @method unbind
+		* @param gl {WebGLRenderingContext}
+		* @public
+		*/
+		public unbind(gl: WebGLRenderingContext) {
+			gl.bindFramebuffer(gl.FRAMEBUFFER, this._previousFrameBuffer);
+			var v = this._previousViewport;
+			gl.viewport(v[0], v[1], v[2], v[3]);
+			if (this._previousScissorTest) gl.enable(gl.SCISSOR_TEST);
+			this._previousFrameBuffer = null;
+			this._previousViewport = null;
+		}
+
+		/**
+		* Adds the texture to the batch of the renderer, covering the bounds and transformed by the owner.
+		* Because the owner's transform is applied here, a cached texture does not need to be redrawn when the owner moves, rotates or scales.
+		* @method renderGL
+		* @param gl {WebGLRenderingContext}
+		* @param camera {Kiwi.Camera}
+		* @public
+		*/
+		public renderGL(gl: WebGLRenderingContext, camera: Kiwi.Camera) {
+			if (this.alpha <= 0) return;
+
+			var m: Kiwi.Geom.Matrix = this.owner.transform.getConcatenatedMatrix();
+			var b = this.bounds;
+			var w = this._resolution[0];
+			var h = this._resolution[1];
+
+			var pt1 = m.transformPoint(new Kiwi.Geom.Point(b.x, b.y));
+			var pt2 = m.transformPoint(new Kiwi.Geom.Point(b.x + w, b.y));
+			var pt3 = m.transformPoint(new Kiwi.Geom.Point(b.x + w, b.y + h));
+			var pt4 = m.transformPoint(new Kiwi.Geom.Point(b.x, b.y + h));
+
+			// The texture was rendered upside down, as framebuffers have their origin at the bottom
+			this.glRenderer.concatBatch([
+				pt1.x, pt1.y, 0, h, this.alpha,
+				pt2.x, pt2.y, w, h, this.alpha,
+				pt3.x, pt3.y, w, 0, this.alpha,
+				pt4.x, pt4.y, 0, 0, this.alpha
+			]);
+		}
+
+		/**
+		* Deletes the framebuffers and textures, freeing up video memory.
+		* @method destroy
+		* @param gl {WebGLRenderingContext}
+		* @public
+		*/
+		public destroy(gl: WebGLRenderingContext) {
+			for (var i = 0; i < this._wrappers.length; i++) {
+				gl.deleteFramebuffer(this._frameBuffers[i]);
+				this._wrappers[i].deleteTexture(gl);
+			}
+			this._wrappers.length = 0;
+			this._frameBuffers.length = 0;
+			this.atlas.glTextureWrapper = null;
+		}
+
+	}
+
+}
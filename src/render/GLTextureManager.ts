@@ -195,6 +195,9 @@ module Kiwi.Renderers {
 		*/
 		public useTexture(gl:WebGLRenderingContext,glTextureWrapper: GLTextureWrapper, textureUnit: number = 0):boolean {
 			textureUnit = Kiwi.Utils.GameMath.clamp( Kiwi.Utils.GameMath.truncate(textureUnit), 31);    // Convert to integer in range 0-31.
+
+			// Uploading binds the texture, so the target unit is made active first to leave the other units untouched
+			gl.activeTexture(gl.TEXTURE0 + textureUnit);
 			
 			if (!glTextureWrapper.created || !glTextureWrapper.uploaded) {
 				if(!this._uploadTexture(gl, glTextureWrapper)) {
@@ -0,0 +1,73 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Filters
+ * @namespace Kiwi.Filters
+ */
+
+module Kiwi.Filters {
+
+	/**
+	 * Blurs the scene with a gaussian blur. The blur is applied horizontally and then vertically, in two passes.
+	 *
+	 * @class BlurFilter
+	 * @extends Kiwi.Filters.Filter
+	 * @namespace Kiwi.Filters
+	 * @constructor
+	 * @param [strength=1] {number} The distance in pixels between the samples of the blur.
+	 * @return {Kiwi.Filters.BlurFilter}
+	 * @since 1.4.0
+	 */
+	export class BlurFilter extends Filter {
+
+		constructor(strength: number = 1) {
+			super("BlurFilterShader", 2);
+			this.strength = strength;
+			this._direction = new Float32Array(2);
+		}
+
+		/**
+		 * The type of object that this is.
+		 * @method objType
+		 * @return {string} "BlurFilter"
+		 * @public
+		 */
+		public objType(): string {
+			return "BlurFilter";
+		}
+
+		/**
+		 * The distance in pixels between the samples of the blur. Larger values blur more.
+		 * @property strength
+		 * @type number
+		 * @default 1
+		 * @public
+		 */
+		public strength: number;
+
+		/**
+		 * The direction of the current pass, which is passed to the shader.
+		 * @property _direction
+		 * @type Float32Array
+		 * @private
+		 */
+		private _direction: Float32Array;
+
+		/**
+		 * Blurs horizontally on the first pass and vertically on the second.
+		 * @method setUniforms
+		 * @param gl {WebGLRenderingContext}
+		 * @param shader {Kiwi.Shaders.ShaderPair}
+		 * @param pass {number}
+		 * @param resolution {Float32Array}
+		 * @public
+		 */
+		public setUniforms(gl: WebGLRenderingContext, shader: Kiwi.Shaders.ShaderPair, pass: number, resolution: Float32Array) {
+			this._direction[0] = (pass === 0) ? this.strength : 0;
+			this._direction[1] = (pass === 0) ? 0 : this.strength;
+			shader.setParam("uDirection", this._direction);
+		}
+
+	}
+
+}
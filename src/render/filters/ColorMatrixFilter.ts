@@ -0,0 +1,210 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Filters
+ * @namespace Kiwi.Filters
+ */
+
+module Kiwi.Filters {
+
+	/**
+	 * Transforms the colour of every pixel of the scene by a 4x5 matrix.
+	 * Each row of the matrix calculates one channel of the result (red, green, blue and alpha) from the red, green, blue and alpha of the pixel, plus an offset.
+	 * Channels and offsets are in the range 0 to 1.
+	 * The methods of this filter replace the matrix with common effects, such as 'grayscale' and 'sepia'.
+	 *
+	 * @class ColorMatrixFilter
+	 * @extends Kiwi.Filters.Filter
+	 * @namespace Kiwi.Filters
+	 * @constructor
+	 * @param [matrix] {number[]} The 20 values of the matrix, row by row. Defaults to the identity matrix, which does not change the scene.
+	 * @return {Kiwi.Filters.ColorMatrixFilter}
+	 * @since 1.4.0
+	 */
+	export class ColorMatrixFilter extends Filter {
+
+		constructor(matrix?: number[]) {
+			super("ColorMatrixFilterShader");
+			this.matrix = new Float32Array(20);
+
+			if (matrix !== undefined) {
+				this.setMatrix(matrix);
+			} else {
+				this.reset();
+			}
+		}
+
+		/**
+		 * The type of object that this is.
+		 * @method objType
+		 * @return {string} "ColorMatrixFilter"
+		 * @public
+		 */
+		public objType(): string {
+			return "ColorMatrixFilter";
+		}
+
+		/**
+		 * The 20 values of the matrix, row by row.
+		 * @property matrix
+		 * @type Float32Array
+		 * @public
+		 */
+		public matrix: Float32Array;
+
+		/**
+		 * Copies the values passed into the matrix.
+		 * @method setMatrix
+		 * @param matrix {number[]} The 20 values of the matrix, row by row.
+		 * @return {Kiwi.Filters.ColorMatrixFilter} This filter.
+		 * @public
+		 */
+		public setMatrix(matrix: number[]): ColorMatrixFilter {
+			for (var i = 0; i < 20; i++) {
+				this.matrix[i] = (matrix[i] === undefined) ? 0 : matrix[i];
+			}
+			return this;
+		}
+
+		/**
+		 * Sets the matrix to the identity matrix, which does not change the scene.
+		 * @method reset
+		 * @return {Kiwi.Filters.ColorMatrixFilter} This filter.
+		 * @public
+		 */
+		public reset(): ColorMatrixFilter {
+			return this.setMatrix([
+				1, 0, 0, 0, 0,
+				0, 1, 0, 0, 0,
+				0, 0, 1, 0, 0,
+				0, 0, 0, 1, 0
+			]);
+		}
+
+		/**
+		 * Sets the matrix to multiply the red, green and blue channels by the value passed.
+		 * @method brightness
+		 * @param value {number} 0 is black, 1 is unchanged.
+		 * @return {Kiwi.Filters.ColorMatrixFilter} This filter.
+		 * @public
+		 */
+		public brightness(value: number): ColorMatrixFilter {
+			return this.setMatrix([
+				value, 0, 0, 0, 0,
+				0, value, 0, 0, 0,
+				0, 0, value, 0, 0,
+				0, 0, 0, 1, 0
+			]);
+		}
+
+		/**
+		 * Sets the matrix to change the contrast of the scene.
+		 * @method contrast
+		 * @param value {number} 0 is flat grey, 1 is unchanged, and higher values increase the contrast.
+		 * @return {Kiwi.Filters.ColorMatrixFilter} This filter.
+		 * @public
+		 */
+		public contrast(value: number): ColorMatrixFilter {
+			var o = 0.5 * (1 - value);
+			return this.setMatrix([
+				value, 0, 0, 0, o,
+				0, value, 0, 0, o,
+				0, 0, value, 0, o,
+				0, 0, 0, 1, 0
+			]);
+		}
+
+		/**
+		 * Sets the matrix to change the saturation of the scene.
+		 * @method saturate
+		 * @param value {number} 0 is grayscale, 1 is unchanged, and higher values increase the saturation.
+		 * @return {Kiwi.Filters.ColorMatrixFilter} This filter.
+		 * @public
+		 */
+		public saturate(value: number): ColorMatrixFilter {
+			var r = 0.2126 * (1 - value);
+			var g = 0.7152 * (1 - value);
+			var b = 0.0722 * (1 - value);
+			return this.setMatrix([
+				r + value, g, b, 0, 0,
+				r, g + value, b, 0, 0,
+				r, g, b + value, 0, 0,
+				0, 0, 0, 1, 0
+			]);
+		}
+
+		/**
+		 * Sets the matrix to remove the colour from the scene.
+		 * @method grayscale
+		 * @param [amount=1] {number} 1 is fully grayscale, 0 is unchanged.
+		 * @return {Kiwi.Filters.ColorMatrixFilter} This filter.
+		 * @public
+		 */
+		public grayscale(amount: number = 1): ColorMatrixFilter {
+			return this.saturate(1 - amount);
+		}
+
+		/**
+		 * Sets the matrix to give the scene the brown tones of an old photograph.
+		 * @method sepia
+		 * @return {Kiwi.Filters.ColorMatrixFilter} This filter.
+		 * @public
+		 */
+		public sepia(): ColorMatrixFilter {
+			return this.setMatrix([
+				0.393, 0.769, 0.189, 0, 0,
+				0.349, 0.686, 0.168, 0, 0,
+				0.272, 0.534, 0.131, 0, 0,
+				0, 0, 0, 1, 0
+			]);
+		}
+
+		/**
+		 * Sets the matrix to invert the colours of the scene.
+		 * @method invert
+		 * @return {Kiwi.Filters.ColorMatrixFilter} This filter.
+		 * @public
+		 */
+		public invert(): ColorMatrixFilter {
+			return this.setMatrix([
+				-1, 0, 0, 0, 1,
+				0, -1, 0, 0, 1,
+				0, 0, -1, 0, 1,
+				0, 0, 0, 1, 0
+			]);
+		}
+
+		/**
+		 * Sets the matrix to multiply the colours of the scene by a colour, such as red for a damage effect.
+		 * @method tint
+		 * @param r {number} The red channel, from 0 to 1.
+		 * @param g {number} The green channel, from 0 to 1.
+		 * @param b {number} The blue channel, from 0 to 1.
+		 * @return {Kiwi.Filters.ColorMatrixFilter} This filter.
+		 * @public
+		 */
+		public tint(r: number, g: number, b: number): ColorMatrixFilter {
+			return this.setMatrix([
+				r, 0, 0, 0, 0,
+				0, g, 0, 0, 0,
+				0, 0, b, 0, 0,
+				0, 0, 0, 1, 0
+			]);
+		}
+
+		/**
+		 * Passes the matrix to the shader.
+		 * @method setUniforms
+		 * @param gl {WebGLRenderingContext}
+		 * @param shader {Kiwi.Shaders.ShaderPair}
+		 * @param pass {number}
+		 * @param resolution {Float32Array}
+		 * @public
+		 */
+		public setUniforms(gl: WebGLRenderingContext, shader: Kiwi.Shaders.ShaderPair, pass: number, resolution: Float32Array) {
+			shader.setParam("uMatrix", this.matrix);
+		}
+
+	}
+
+}
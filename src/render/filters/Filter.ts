@@ -0,0 +1,85 @@
+/**
+ * Filters are full screen effects which are applied to the scene after it has been rendered, when using the WebGL renderer.
+ * They are added to the GLFilterManager, which is the 'filters' property of the GLRenderManager.
+ * Filters can also be added to the 'filters' of a single Group or Entity, which is then rendered into its own texture before they are applied.
+ *
+ * @module Kiwi
+ * @submodule Filters
+ * @main Filters
+ * @namespace Kiwi.Filters
+ */
+
+module Kiwi.Filters {
+
+	/**
+	 * Base class for filters. A filter runs one or more full screen passes, each of which draws the result of the previous pass using a ShaderPair.
+	 * The ShaderPair should extend Kiwi.Shaders.FilterShader and be a property of the Kiwi.Shaders object, so that the ShaderManager can create it.
+	 * Classes extending this class override 'setUniforms' to pass their settings to the shader.
+	 *
+	 * @class Filter
+	 * @namespace Kiwi.Filters
+	 * @constructor
+	 * @param shaderID {string} The name of the ShaderPair on the Kiwi.Shaders object that this filter uses.
+	 * @param [passes=1] {number} The number of full screen passes this filter runs.
+	 * @return {Kiwi.Filters.Filter}
+	 * @since 1.4.0
+	 */
+	export class Filter {
+
+		constructor(shaderID: string, passes: number = 1) {
+			this.shaderID = shaderID;
+			this.passes = passes;
+		}
+
+		/**
+		 * The type of object that this is.
+		 * @method objType
+		 * @return {string} "Filter"
+		 * @public
+		 */
+		public objType(): string {
+			return "Filter";
+		}
+
+		/**
+		 * The name of the ShaderPair on the Kiwi.Shaders object that this filter uses.
+		 * @property shaderID
+		 * @type string
+		 * @public
+		 */
+		public shaderID: string;
+
+		/**
+		 * The number of full screen passes this filter runs.
+		 * @property passes
+		 * @type number
+		 * @default 1
+		 * @public
+		 */
+		public passes: number;
+
+		/**
+		 * If the filter is applied. Disabled filters stay in the GLFilterManager, in the same order, but are skipped.
+		 * @property enabled
+		 * @type boolean
+		 * @default true
+		 * @public
+		 */
+		public enabled: boolean = true;
+
+		/**
+		 * Sets the uniforms of the shader before a pass of this filter is drawn.
+		 * The 'uSampler' and 'uResolution' uniforms are set by the GLFilterManager.
+		 * @method setUniforms
+		 * @param gl {WebGLRenderingContext}
+		 * @param shader {Kiwi.Shaders.ShaderPair} The shader of this filter, which is in use.
+		 * @param pass {number} The pass that is about to be drawn, starting at 0.
+		 * @param resolution {Float32Array} The width and height of the stage.
+		 * @public
+		 */
+		public setUniforms(gl: WebGLRenderingContext, shader: Kiwi.Shaders.ShaderPair, pass: number, resolution: Float32Array) {
+		}
+
+	}
+
+}
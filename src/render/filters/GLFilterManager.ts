@@ -0,0 +1,390 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Filters
+ * @namespace Kiwi.Filters
+ */
+
+module Kiwi.Filters {
+
+	/**
+	 * Manages the filters which are applied to the scene when using the WebGL renderer.
+	 *
+	 * When there are filters, the scene is rendered into an offscreen framebuffer instead of the stage.
+	 * Each pass of each enabled filter then draws the result of the previous pass, in the order the filters were added,
+	 * using two framebuffers in turn. The final pass draws onto the stage.
+	 * Filters can be added, removed, enabled and reordered at any time.
+	 *
+	 * The GLFilterManager is created by the GLRenderManager, and is its 'filters' property.
+	 * Filters are only applied while the 'filtersEnabled' property of the GLRenderManager is true.
+	 *
+	 * @class GLFilterManager
+	 * @namespace Kiwi.Filters
+	 * @constructor
+	 * @param game {Kiwi.Game} The game that this filter manager belongs to.
+	 * @param shaderManager {Kiwi.Shaders.ShaderManager} The shader manager used to create the shaders of the filters.
+	 * @return {Kiwi.Filters.GLFilterManager}
+	 * @since 1.4.0
+	 */
+	export class GLFilterManager {
+
+		constructor(game: Kiwi.Game, shaderManager: Kiwi.Shaders.ShaderManager) {
+			this._game = game;
+			this._shaderManager = shaderManager;
+			this._filters = [];
+			this._frameBuffers = [];
+			this._textures = [];
+			this._resolution = new Float32Array([game.stage.width, game.stage.height]);
+		}
+
+		/**
+		 * The type of object that this is.
+		 * @method objType
+		 * @return {string} "GLFilterManager"
+		 * @public
+		 */
+		public objType(): string {
+			return "GLFilterManager";
+		}
+
+		/**
+		 * The game that this filter manager belongs to.
+		 * @property _game
+		 * @type Kiwi.Game
+		 * @private
+		 */
+		private _game: Kiwi.Game;
+
+		/**
+		 * The shader manager used to create the shaders of the filters.
+		 * @property _shaderManager
+		 * @type Kiwi.Shaders.ShaderManager
+		 * @private
+		 */
+		private _shaderManager: Kiwi.Shaders.ShaderManager;
+
+		/**
+		 * The filters, in the order they are applied.
+		 * @property _filters
+		 * @type Kiwi.Filters.Filter[]
+		 * @private
+		 */
+		private _filters: Filter[];
+
+		/**
+		 * The filters, in the order they are applied. This is READ ONLY.
+		 * Use 'addFilter', 'removeFilter' and 'setFilterIndex' to change it.
+		 * @property filters
+		 * @type Kiwi.Filters.Filter[]
+		 * @public
+		 */
+		public get filters(): Filter[] {
+			return this._filters;
+		}
+
+		/**
+		 * If there are no enabled filters to apply. This is READ ONLY.
+		 * @property isEmpty
+		 * @type boolean
+		 * @public
+		 */
+		public get isEmpty(): boolean {
+			return this.countPasses(this._filters) === 0;
+		}
+
+		/**
+		 * Returns the total number of passes run by the enabled filters in a list.
+		 * @method countPasses
+		 * @param filters {Kiwi.Filters.Filter[]}
+		 * @return {number}
+		 * @public
+		 */
+		public countPasses(filters: Filter[]): number {
+			var total = 0;
+			for (var i = 0; i < filters.length; i++) {
+				if (filters[i].enabled) total += filters[i].passes;
+			}
+			return total;
+		}
+
+		/**
+		 * The two framebuffers that the passes render into in turn.
+		 * @property _frameBuffers
+		 * @type WebGLFramebuffer[]
+		 * @private
+		 */
+		private _frameBuffers: WebGLFramebuffer[];
+
+		/**
+		 * The textures attached to the framebuffers.
+		 * @property _textures
+		 * @type WebGLTexture[]
+		 * @private
+		 */
+		private _textures: WebGLTexture[];
+
+		/**
+		 * The quad which covers the viewport, drawn for each pass.
+		 * @property _quad
+		 * @type Kiwi.Renderers.GLArrayBuffer
+		 * @private
+		 */
+		private _quad: Kiwi.Renderers.GLArrayBuffer = null;
+
+		/**
+		 * The width and height of the framebuffers, which is the resolution of the stage.
+		 * @property _resolution
+		 * @type Float32Array
+		 * @private
+		 */
+		private _resolution: Float32Array;
+
+		/**
+		 * The viewport which was in use before the scene was rendered into a framebuffer. It is restored for the final pass.
+		 * @property _viewport
+		 * @type Int32Array
+		 * @private
+		 */
+		private _viewport: Int32Array = null;
+
+		/**
+		 * Adds a filter. It is applied after the filters that were already added, unless an index is passed.
+		 * If the filter was already added, it is moved instead.
+		 * @method addFilter
+		 * @param filter {Kiwi.Filters.Filter}
+		 * @param [index] {number} The position the filter should be applied at.
+		 * @return {Kiwi.Filters.Filter} The filter that was added.
+		 * @public
+		 */
+		public addFilter(filter: Filter, index: number = this._filters.length): Filter {
+			var current = this._filters.indexOf(filter);
+			if (current !== -1) this._filters.splice(current, 1);
+
+			index = Kiwi.Utils.GameMath.clamp(index, this._filters.length, 0);
+			this._filters.splice(index, 0, filter);
+			return filter;
+		}
+
+		/**
+		 * Removes a filter.
+		 * @method removeFilter
+		 * @param filter {Kiwi.Filters.Filter}
+		 * @return {boolean} If the filter was removed.
+		 * @public
+		 */
+		public removeFilter(filter: Filter): boolean {
+			var index = this._filters.indexOf(filter);
+			if (index === -1) return false;
+
+			this._filters.splice(index, 1);
+			return true;
+		}
+
+		/**
+		 * Removes every filter.
+		 * @method removeAllFilters
+		 * @public
+		 */
+		public removeAllFilters() {
+			this._filters.length = 0;
+		}
+
+		/**
+		 * Returns the position a filter is applied at, or -1 if it has not been added.
+		 * @method getFilterIndex
+		 * @param filter {Kiwi.Filters.Filter}
+		 * @return {number}
+		 * @public
+		 */
+		public getFilterIndex(filter: Filter): number {
+			return this._filters.indexOf(filter);
+		}
+
+		/**
+		 * Moves a filter which has been added to a new position.
+		 * @method setFilterIndex
+		 * @param filter {Kiwi.Filters.Filter}
+		 * @param index {number} The position the filter should be applied at.
+		 * @return {boolean} If the filter was moved.
+		 * @public
+		 */
+		public setFilterIndex(filter: Filter, index: number): boolean {
+			if (this._filters.indexOf(filter) === -1) return false;
+
+			this.addFilter(filter, index);
+			return true;
+		}
+
+		/**
+		 * Creates the framebuffers, their textures and the quad, if they do not exist yet.
+		 * @method enableFrameBuffers
+		 * @param gl {WebGLRenderingContext}
+		 * @public
+		 */
+		public enableFrameBuffers(gl: WebGLRenderingContext) {
+
+			if (this._frameBuffers.length > 0) return;
+
+			for (var i = 0; i < 2; i++) {
+				var texture: WebGLTexture = gl.createTexture();
+				gl.bindTexture(gl.TEXTURE_2D, texture);
+				gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+				gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+				gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+				gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+				gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, this._resolution[0], this._resolution[1], 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+
+				var frameBuffer: WebGLFramebuffer = gl.createFramebuffer();
+				gl.bindFramebuffer(gl.FRAMEBUFFER, frameBuffer);
+				gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+
+				this._textures.push(texture);
+				this._frameBuffers.push(frameBuffer);
+			}
+
+			gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+		}
+
+		/**
+		 * Deletes the framebuffers and their textures, freeing up video memory.
+		 * They are created again the next time filters are applied.
+		 * @method disableFrameBuffers
+		 * @param gl {WebGLRenderingContext}
+		 * @public
+		 */
+		public disableFrameBuffers(gl: WebGLRenderingContext) {
+			for (var i = 0; i < this._frameBuffers.length; i++) {
+				gl.deleteFramebuffer(this._frameBuffers[i]);
+				gl.deleteTexture(this._textures[i]);
+			}
+			this._frameBuffers.length = 0;
+			this._textures.length = 0;
+		}
+
+		/**
+		 * Resizes the framebuffers. Called by the GLRenderManager when the stage is resized.
+		 * @method updateFilterResolution
+		 * @param gl {WebGLRenderingContext}
+		 * @param width {number}
+		 * @param height {number}
+		 * @public
+		 */
+		public updateFilterResolution(gl: WebGLRenderingContext, width: number, height: number) {
+			this._resolution[0] = width;
+			this._resolution[1] = height;
+
+			for (var i = 0; i < this._textures.length; i++) {
+				gl.bindTexture(gl.TEXTURE_2D, this._textures[i]);
+				gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+			}
+		}
+
+		/**
+		 * Makes the scene render into the first framebuffer instead of the stage.
+		 * Called by the GLRenderManager before the scene is rendered.
+		 * @method bindFrameBuffer
+		 * @param gl {WebGLRenderingContext}
+		 * @public
+		 */
+		public bindFrameBuffer(gl: WebGLRenderingContext) {
+			this.enableFrameBuffers(gl);
+
+			this._viewport = gl.getParameter(gl.VIEWPORT);
+
+			gl.bindFramebuffer(gl.FRAMEBUFFER, this._frameBuffers[0]);
+			gl.viewport(0, 0, this._resolution[0], this._resolution[1]);
+		}
+
+		/**
+		 * Runs the passes of every enabled filter, drawing the final one onto the stage.
+		 * Called by the GLRenderManager after the scene has been rendered into the framebuffer.
+		 * Afterwards the shader, texture, array buffer and blending have changed, so the renderer needs to set them up again.
+		 * @method applyFilters
+		 * @param gl {WebGLRenderingContext}
+		 * @param [scissor=null] {number[]} The x, y, width and height of the area of the stage which the final pass is limited to, such as the viewport of a camera.
+		 * @public
+		 */
+		public applyFilters(gl: WebGLRenderingContext, scissor: number[] = null) {
+			this.applyFilterList(gl, this._filters, this._textures, this._frameBuffers, this._resolution, this._viewport, scissor);
+		}
+
+		/**
+		 * Runs the passes of every enabled filter in a list, using two framebuffers and their textures in turn.
+		 * The first pass draws the first texture.
+		 *
+		 * If a viewport is passed, the final pass draws onto the stage using that viewport.
+		 * Otherwise every pass draws into the other framebuffer, and the result is left in one of the textures.
+		 * This is how Groups and Entities apply their own filters to the texture they are rendered into.
+		 * @method applyFilterList
+		 * @param gl {WebGLRenderingContext}
+		 * @param filters {Kiwi.Filters.Filter[]} The filters to apply, in order.
+		 * @param textures {WebGLTexture[]} The two textures.
+		 * @param frameBuffers {WebGLFramebuffer[]} The two framebuffers the textures are attached to.
+		 * @param resolution {Float32Array} The width and height of the textures.
+		 * @param [viewport=null] {Int32Array} The viewport of the stage.
+		 * @param [scissor=null] {number[]} The area of the stage which the final pass is limited to. Only used with a viewport.
+		 * @return {number} The index of the texture which holds the result, or -1 if it was drawn onto the stage.
+		 * @public
+		 */
+		public applyFilterList(gl: WebGLRenderingContext, filters: Filter[], textures: WebGLTexture[], frameBuffers: WebGLFramebuffer[], resolution: Float32Array, viewport: Int32Array = null, scissor: number[] = null): number {
+
+			var total = this.countPasses(filters);
+
+			if (this._quad === null) {
+				this._quad = new Kiwi.Renderers.GLArrayBuffer(gl, 2, [-1, -1, 1, -1, -1, 1, 1, 1]);
+			}
+
+			gl.disable(gl.BLEND);
+			gl.disable(gl.SCISSOR_TEST);
+			gl.activeTexture(gl.TEXTURE0);
+
+			var source = 0;
+			var count = 0;
+
+			for (var i = 0; i < filters.length; i++) {
+				var filter = filters[i];
+				if (!filter.enabled) continue;
+
+				for (var pass = 0; pass < filter.passes; pass++) {
+					count++;
+
+					//The last pass draws onto the stage.
+					if (count === total && viewport !== null) {
+						gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+						gl.viewport(viewport[0], viewport[1], viewport[2], viewport[3]);
+						if (scissor !== null) {
+							gl.enable(gl.SCISSOR_TEST);
+							gl.scissor(scissor[0], scissor[1], scissor[2], scissor[3]);
+						}
+					} else {
+						gl.bindFramebuffer(gl.FRAMEBUFFER, frameBuffers[1 - source]);
+					}
+
+					var shader: Kiwi.Shaders.ShaderPair = this._shaderManager.requestShader(gl, filter.shaderID);
+					if (shader === null) continue;
+
+					gl.bindTexture(gl.TEXTURE_2D, textures[source]);
+
+					filter.setUniforms(gl, shader, pass, resolution);
+					shader.setParam("uSampler", 0);
+					shader.setParam("uResolution", resolution);
+					shader.applyUniforms(gl);
+
+					gl.bindBuffer(gl.ARRAY_BUFFER, this._quad.buffer);
+					gl.enableVertexAttribArray(shader.attributes.aXY);
+					gl.vertexAttribPointer(shader.attributes.aXY, 2, gl.FLOAT, false, 0, 0);
+					gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+					gl.disableVertexAttribArray(shader.attributes.aXY);
+
+					source = 1 - source;
+				}
+			}
+
+			gl.enable(gl.BLEND);
+
+			return (viewport !== null) ? -1 : source;
+		}
+
+	}
+
+}
@@ -0,0 +1,99 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Filters
+ * @namespace Kiwi.Filters
+ */
+
+module Kiwi.Filters {
+
+	/**
+	 * Draws a soft coloured glow around the opaque parts of the image, such as a sprite which is rendered to its own texture.
+	 * The glow is drawn outside of the image, so the 'filterPadding' of the sprite or group should be at least the distance.
+	 *
+	 * @class GlowFilter
+	 * @extends Kiwi.Filters.Filter
+	 * @namespace Kiwi.Filters
+	 * @constructor
+	 * @param [color="#ffffff"] {any} The colour of the glow. Any value accepted by Kiwi.Utils.Color.
+	 * @param [distance=8] {number} How far the glow reaches, in pixels.
+	 * @param [strength=2] {number} How bright the glow is. Higher values make it more solid.
+	 * @return {Kiwi.Filters.GlowFilter}
+	 * @since 1.4.0
+	 */
+	export class GlowFilter extends Filter {
+
+		constructor(color: any = "#ffffff", distance: number = 8, strength: number = 2) {
+			super("GlowFilterShader");
+			this.color = new Kiwi.Utils.Color(color);
+			this.distance = distance;
+			this.strength = strength;
+			this._color = new Float32Array(4);
+		}
+
+		/**
+		 * The type of object that this is.
+		 * @method objType
+		 * @return {string} "GlowFilter"
+		 * @public
+		 */
+		public objType(): string {
+			return "GlowFilter";
+		}
+
+		/**
+		 * The colour of the glow.
+		 * @property color
+		 * @type Kiwi.Utils.Color
+		 * @public
+		 */
+		public color: Kiwi.Utils.Color;
+
+		/**
+		 * How far the glow reaches, in pixels.
+		 * @property distance
+		 * @type number
+		 * @default 8
+		 * @public
+		 */
+		public distance: number;
+
+		/**
+		 * How bright the glow is. Higher values make it more solid.
+		 * @property strength
+		 * @type number
+		 * @default 2
+		 * @public
+		 */
+		public strength: number;
+
+		/**
+		 * The normalized colour, which is passed to the shader.
+		 * @property _color
+		 * @type Float32Array
+		 * @private
+		 */
+		private _color: Float32Array;
+
+		/**
+		 * Passes the colour, distance and strength of the glow to the shader.
+		 * @method setUniforms
+		 * @param gl {WebGLRenderingContext}
+		 * @param shader {Kiwi.Shaders.ShaderPair}
+		 * @param pass {number}
+		 * @param resolution {Float32Array}
+		 * @public
+		 */
+		public setUniforms(gl: WebGLRenderingContext, shader: Kiwi.Shaders.ShaderPair, pass: number, resolution: Float32Array) {
+			this._color[0] = this.color.rNorm;
+			this._color[1] = this.color.gNorm;
+			this._color[2] = this.color.bNorm;
+			this._color[3] = this.color.aNorm;
+			shader.setParam("uColor", this._color);
+			shader.setParam("uDistance", this.distance);
+			shader.setParam("uStrength", this.strength);
+		}
+
+	}
+
+}
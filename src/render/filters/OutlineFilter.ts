@@ -0,0 +1,87 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Filters
+ * @namespace Kiwi.Filters
+ */
+
+module Kiwi.Filters {
+
+	/**
+	 * Draws a coloured outline around the opaque parts of the image, such as a sprite which is rendered to its own texture.
+	 * The outline is drawn outside of the image, so the 'filterPadding' of the sprite or group should be at least the thickness.
+	 *
+	 * @class OutlineFilter
+	 * @extends Kiwi.Filters.Filter
+	 * @namespace Kiwi.Filters
+	 * @constructor
+	 * @param [color="#ffffff"] {any} The colour of the outline. Any value accepted by Kiwi.Utils.Color.
+	 * @param [thickness=1] {number} The thickness of the outline in pixels.
+	 * @return {Kiwi.Filters.OutlineFilter}
+	 * @since 1.4.0
+	 */
+	export class OutlineFilter extends Filter {
+
+		constructor(color: any = "#ffffff", thickness: number = 1) {
+			super("OutlineFilterShader");
+			this.color = new Kiwi.Utils.Color(color);
+			this.thickness = thickness;
+			this._color = new Float32Array(4);
+		}
+
+		/**
+		 * The type of object that this is.
+		 * @method objType
+		 * @return {string} "OutlineFilter"
+		 * @public
+		 */
+		public objType(): string {
+			return "OutlineFilter";
+		}
+
+		/**
+		 * The colour of the outline.
+		 * @property color
+		 * @type Kiwi.Utils.Color
+		 * @public
+		 */
+		public color: Kiwi.Utils.Color;
+
+		/**
+		 * The thickness of the outline in pixels.
+		 * @property thickness
+		 * @type number
+		 * @default 1
+		 * @public
+		 */
+		public thickness: number;
+
+		/**
+		 * The normalized colour, which is passed to the shader.
+		 * @property _color
+		 * @type Float32Array
+		 * @private
+		 */
+		private _color: Float32Array;
+
+		/**
+		 * Passes the colour and thickness of the outline to the shader.
+		 * @method setUniforms
+		 * @param gl {WebGLRenderingContext}
+		 * @param shader {Kiwi.Shaders.ShaderPair}
+		 * @param pass {number}
+		 * @param resolution {Float32Array}
+		 * @public
+		 */
+		public setUniforms(gl: WebGLRenderingContext, shader: Kiwi.Shaders.ShaderPair, pass: number, resolution: Float32Array) {
+			this._color[0] = this.color.rNorm;
+			this._color[1] = this.color.gNorm;
+			this._color[2] = this.color.bNorm;
+			this._color[3] = this.color.aNorm;
+			shader.setParam("uColor", this._color);
+			shader.setParam("uThickness", this.thickness);
+		}
+
+	}
+
+}
@@ -0,0 +1,62 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Filters
+ * @namespace Kiwi.Filters
+ */
+
+module Kiwi.Filters {
+
+	/**
+	 * Renders the scene with large square pixels.
+	 *
+	 * @class PixelateFilter
+	 * @extends Kiwi.Filters.Filter
+	 * @namespace Kiwi.Filters
+	 * @constructor
+	 * @param [size=4] {number} The width and height of each pixel, in stage pixels.
+	 * @return {Kiwi.Filters.PixelateFilter}
+	 * @since 1.4.0
+	 */
+	export class PixelateFilter extends Filter {
+
+		constructor(size: number = 4) {
+			super("PixelateFilterShader");
+			this.size = size;
+		}
+
+		/**
+		 * The type of object that this is.
+		 * @method objType
+		 * @return {string} "PixelateFilter"
+		 * @public
+		 */
+		public objType(): string {
+			return "PixelateFilter";
+		}
+
+		/**
+		 * The width and height of each pixel, in stage pixels.
+		 * @property size
+		 * @type number
+		 * @default 4
+		 * @public
+		 */
+		public size: number;
+
+		/**
+		 * Passes the size of the pixels to the shader.
+		 * @method setUniforms
+		 * @param gl {WebGLRenderingContext}
+		 * @param shader {Kiwi.Shaders.ShaderPair}
+		 * @param pass {number}
+		 * @param resolution {Float32Array}
+		 * @public
+		 */
+		public setUniforms(gl: WebGLRenderingContext, shader: Kiwi.Shaders.ShaderPair, pass: number, resolution: Float32Array) {
+			shader.setParam("uSize", Math.max(1, this.size));
+		}
+
+	}
+
+}
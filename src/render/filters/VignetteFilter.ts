@@ -0,0 +1,86 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Filters
+ * @namespace Kiwi.Filters
+ */
+
+module Kiwi.Filters {
+
+	/**
+	 * Darkens the edges of the scene. Distances are measured from the centre of the screen, where 0.5 is half of the height of the stage.
+	 *
+	 * @class VignetteFilter
+	 * @extends Kiwi.Filters.Filter
+	 * @namespace Kiwi.Filters
+	 * @constructor
+	 * @param [radius=0.75] {number} The distance at which the scene is fully darkened.
+	 * @param [softness=0.45] {number} How far inside the radius the darkening starts.
+	 * @param [strength=1] {number} How dark the edges become, from 0 to 1.
+	 * @return {Kiwi.Filters.VignetteFilter}
+	 * @since 1.4.0
+	 */
+	export class VignetteFilter extends Filter {
+
+		constructor(radius: number = 0.75, softness: number = 0.45, strength: number = 1) {
+			super("VignetteFilterShader");
+			this.radius = radius;
+			this.softness = softness;
+			this.strength = strength;
+		}
+
+		/**
+		 * The type of object that this is.
+		 * @method objType
+		 * @return {string} "VignetteFilter"
+		 * @public
+		 */
+		public objType(): string {
+			return "VignetteFilter";
+		}
+
+		/**
+		 * The distance from the centre of the screen at which the scene is fully darkened.
+		 * @property radius
+		 * @type number
+		 * @default 0.75
+		 * @public
+		 */
+		public radius: number;
+
+		/**
+		 * How far inside the radius the darkening starts.
+		 * @property softness
+		 * @type number
+		 * @default 0.45
+		 * @public
+		 */
+		public softness: number;
+
+		/**
+		 * How dark the edges become, from 0 (not at all) to 1 (black).
+		 * @property strength
+		 * @type number
+		 * @default 1
+		 * @public
+		 */
+		public strength: number;
+
+		/**
+		 * Passes the radius, softness and strength to the shader.
+		 * @method setUniforms
+		 * @param gl {WebGLRenderingContext}
+		 * @param shader {Kiwi.Shaders.ShaderPair}
+		 * @param pass {number}
+		 * @param resolution {Float32Array}
+		 * @public
+		 */
+		public setUniforms(gl: WebGLRenderingContext, shader: Kiwi.Shaders.ShaderPair, pass: number, resolution: Float32Array) {
+			shader.setParam("uRadius", this.radius);
+			shader.setParam("uSoftness", this.softness);
+			shader.setParam("uStrength", this.strength);
+		}
+
+	}
+
+}
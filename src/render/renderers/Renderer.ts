@@ -116,11 +116,47 @@ module Kiwi.Renderers {
 		* @method updateTextureSize
 		* @param gl {WebGLRenderingContext}
 		* @param size {Float32Array}
+		* @param [textureUnit=0] {number} The texture unit the texture is bound to, for renderers which draw from several textures at once.
 		* @public
 		*/
-		public updateTextureSize(gl: WebGLRenderingContext, size: Float32Array) {
+		public updateTextureSize(gl: WebGLRenderingContext, size: Float32Array, textureUnit: number = 0) {
 		}
 
+		/**
+		* Updates whether the shader multiplies the colour of pixels by their alpha, to match the blend mode being drawn with (for override)
+		* @method updatePremultiply
+		* @param gl {WebGLRenderingContext}
+		* @param premultiply {boolean}
+		* @public
+		* @since 1.4.0
+		*/
+		public updatePremultiply(gl: WebGLRenderingContext, premultiply: boolean) {
+		}
+
+		/**
+		* The number of textures that this renderer can draw from in a single batch (for override).
+		* Batches are only split by texture once this many textures are in use.
+		* @property maxTextures
+		* @type number
+		* @default 1
+		* @public
+		* @since 1.4.0
+		*/
+		public get maxTextures(): number {
+			return 1;
+		}
+
+		/**
+		* The texture of the current batch that items being added sample from, for renderers which draw from several textures at once.
+		* This is set by the render manager before each item is rendered.
+		* @property textureIndex
+		* @type number
+		* @default 0
+		* @public
+		* @since 1.4.0
+		*/
+		public textureIndex: number = 0;
+
 
 		/**
 		* The shader pair used by the renderer
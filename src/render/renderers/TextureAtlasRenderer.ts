@@ -22,12 +22,20 @@ module Kiwi.Renderers {
 		*/
 		constructor(gl: WebGLRenderingContext, shaderManager: Kiwi.Shaders.ShaderManager, params: any = null) {
 			super(gl, shaderManager, true);
-			var bufferItemSize = 5;
+
+			// Draw from several textures at once, unless the hardware has too few texture units
+			if (gl.getParameter(gl.MAX_TEXTURE_IMAGE_UNITS) >= TextureAtlasRenderer.MIN_TEXTURE_UNITS) {
+				this._shaderPairName = "MultiTextureAtlasShader";
+			}
+
+			var bufferItemSize = 11;
 			this._vertexBuffer = new GLArrayBuffer(gl, bufferItemSize);
 			var vertsPerQuad = 6;
 			this._indexBuffer = new GLElementArrayBuffer(gl, 1, this._generateIndices(this._maxItems * vertsPerQuad));
 
 			this.shaderPair = this.shaderManager.requestShader(gl, this._shaderPairName);
+			this._multiTexture = this.maxTextures > 1;
+			if (this._multiTexture) this._vertexBuffer.itemSize = 12;
 		}
 
 		/**
@@ -39,6 +47,18 @@ module Kiwi.Renderers {
 		*/
 		public static RENDERER_ID: string = "TextureAtlasRenderer";
 
+		/**
+		* The fewest texture units that the hardware must have for the renderer to draw from several textures in each batch.
+		* With fewer, the renderer uses the TextureAtlasShader and draws from one texture per batch.
+		* @property MIN_TEXTURE_UNITS
+		* @type number
+		* @default 4
+		* @public
+		* @static
+		* @since 1.4.0
+		*/
+		public static MIN_TEXTURE_UNITS: number = 4;
+
 		/**
 		* The shaderPair that this renderer uses.
 		* @property shaderPair
@@ -56,6 +76,39 @@ module Kiwi.Renderers {
 		*/
 		private _shaderPairName: string = "TextureAtlasShader";
 
+		/**
+		* If the shader in use draws from several textures, in which case each vertex has the index of its texture.
+		* @property _multiTexture
+		* @type boolean
+		* @private
+		* @since 1.4.0
+		*/
+		private _multiTexture: boolean = false;
+
+		/**
+		* The width and height of each texture that the shader draws from.
+		* @property _textureSizes
+		* @type Float32Array
+		* @private
+		* @since 1.4.0
+		*/
+		private _textureSizes: Float32Array = new Float32Array(Kiwi.Shaders.MultiTextureAtlasShader.MAX_TEXTURES * 2);
+
+		/**
+		* The number of textures that the renderer can draw from in a single batch.
+		* This is 1 unless the shader in use is a MultiTextureAtlasShader.
+		* @property maxTextures
+		* @type number
+		* @public
+		* @since 1.4.0
+		*/
+		public get maxTextures(): number {
+			if (this.shaderPair instanceof Kiwi.Shaders.MultiTextureAtlasShader) {
+				return (<Kiwi.Shaders.MultiTextureAtlasShader>this.shaderPair).numTextures;
+			}
+			return 1;
+		}
+
 		/**
 		* The maximum number of items that can be rendered by the renderer (not enforced)
 		* @property _maxItems
@@ -127,9 +180,18 @@ module Kiwi.Renderers {
 
 			//this.shaderPair = <Kiwi.Shaders.TextureAtlasShader>this.shaderManager.requestShader(gl, "TextureAtlasShader", true);
 			this.shaderPair = this.shaderManager.requestShader(gl, this._shaderPairName, true);
+			this._multiTexture = this.maxTextures > 1;
+			this._vertexBuffer.itemSize = this._multiTexture ? 12 : 11;
 			
 			//Texture
-			gl.uniform1i(this.shaderPair.uniforms.uSampler.location, 0);
+			if (this._multiTexture) {
+				// Each sampler reads from the texture unit of the same index
+				var units = new Int32Array(this.maxTextures);
+				for (var i = 0; i < units.length; i++) units[i] = i;
+				gl.uniform1iv(this.shaderPair.uniforms.uSamplers.location, units);
+			} else {
+				gl.uniform1i(this.shaderPair.uniforms.uSampler.location, 0);
+			}
 
 			//Other uniforms
 			gl.uniform2fv(this.shaderPair.uniforms.uResolution.location, params.stageResolution);
@@ -145,6 +207,9 @@ module Kiwi.Renderers {
 		public disable(gl: WebGLRenderingContext) {
 			gl.disableVertexAttribArray(this.shaderPair.attributes.aXYUV);
 			gl.disableVertexAttribArray(this.shaderPair.attributes.aAlpha);
+			gl.disableVertexAttribArray(this.shaderPair.attributes.aTint);
+			gl.disableVertexAttribArray(this.shaderPair.attributes.aOffset);
+			if (this._multiTexture) gl.disableVertexAttribArray(this.shaderPair.attributes.aTextureIndex);
 		}
 
 		/**
@@ -167,15 +232,31 @@ module Kiwi.Renderers {
 		public draw(gl: WebGLRenderingContext) {
 			this._vertexBuffer.uploadBuffer(gl, this._vertexBuffer.items);
 
-			// The vertex buffer is packet like this: xyuva. xyuv = 4* 32 bit (16 byte) a = 1 32 bit: 4 byte. stride = 20 byte
+			// The vertex buffer is packet like this: xyuva rgb rgb. xyuv = 4* 32 bit (16 byte) a = 1 32 bit: 4 byte.
+			// The tint and colour offset are 3 * 32 bit (12 byte) each. stride = 44 byte
+			// When drawing from several textures, the index of the texture follows: 1 32 bit: 4 byte. stride = 48 byte
+			var floatsPerVertex: number = this._multiTexture ? 12 : 11;
+			var stride: number = floatsPerVertex * 4;
+
 			gl.enableVertexAttribArray(this.shaderPair.attributes.aXYUV);
-			gl.vertexAttribPointer(this.shaderPair.attributes.aXYUV, 4, gl.FLOAT, false, 20, 0);
+			gl.vertexAttribPointer(this.shaderPair.attributes.aXYUV, 4, gl.FLOAT, false, stride, 0);
 
 			gl.enableVertexAttribArray(this.shaderPair.attributes.aAlpha);
-			gl.vertexAttribPointer(this.shaderPair.attributes.aAlpha, 1, gl.FLOAT, false, 20, 16);
+			gl.vertexAttribPointer(this.shaderPair.attributes.aAlpha, 1, gl.FLOAT, false, stride, 16);
+
+			gl.enableVertexAttribArray(this.shaderPair.attributes.aTint);
+			gl.vertexAttribPointer(this.shaderPair.attributes.aTint, 3, gl.FLOAT, false, stride, 20);
+
+			gl.enableVertexAttribArray(this.shaderPair.attributes.aOffset);
+			gl.vertexAttribPointer(this.shaderPair.attributes.aOffset, 3, gl.FLOAT, false, stride, 32);
+
+			if (this._multiTexture) {
+				gl.enableVertexAttribArray(this.shaderPair.attributes.aTextureIndex);
+				gl.vertexAttribPointer(this.shaderPair.attributes.aTextureIndex, 1, gl.FLOAT, false, stride, 44);
+			}
 
 			gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this._indexBuffer.buffer);
-			gl.drawElements(gl.TRIANGLES, (this._vertexBuffer.items.length / 20) * 6, gl.UNSIGNED_SHORT, 0);
+			gl.drawElements(gl.TRIANGLES, (this._vertexBuffer.items.length / (floatsPerVertex * 4)) * 6, gl.UNSIGNED_SHORT, 0);
 		}
 
 		/**
@@ -209,14 +290,37 @@ module Kiwi.Renderers {
 		* @method updateTextureSize
 		* @param gl {WebGLRenderingContext}
 		* @param size {Float32Array}
+		* @param [textureUnit=0] {number} The texture unit the texture is bound to.
+		* @public
+		*/
+		public updateTextureSize(gl: WebGLRenderingContext, size: Float32Array, textureUnit: number = 0) {
+			if (this._multiTexture) {
+				this._textureSizes[textureUnit * 2] = size[0];
+				this._textureSizes[textureUnit * 2 + 1] = size[1];
+				gl.uniform2fv(this.shaderPair.uniforms.uTextureSizes.location, this._textureSizes.subarray(0, this.maxTextures * 2));
+			} else {
+				gl.uniform2fv(this.shaderPair.uniforms.uTextureSize.location, size);
+			}
+		}
+
+		/**
+		* Updates whether the shader multiplies the colour of pixels by their alpha, to match the blend mode being drawn with.
+		* Custom shader pairs without a 'uPremultiply' uniform are left alone.
+		* @method updatePremultiply
+		* @param gl {WebGLRenderingContext}
+		* @param premultiply {boolean}
 		* @public
+		* @since 1.4.0
 		*/
-		public updateTextureSize(gl: WebGLRenderingContext, size: Float32Array) {
-			gl.uniform2fv(this.shaderPair.uniforms.uTextureSize.location, size);
+		public updatePremultiply(gl: WebGLRenderingContext, premultiply: boolean) {
+			if (this.shaderPair.uniforms.uPremultiply) {
+				gl.uniform1i(this.shaderPair.uniforms.uPremultiply.location, premultiply ? 1 : 0);
+			}
 		}
 
 		/**
-		* Sets shader pair by name
+		* Sets shader pair by name.
+		* Setting "TextureAtlasShader" makes the renderer draw from a single texture per batch, even when the hardware could draw from more.
 		* @method setShaderPair
 		* @param shaderPair {String}
 		* @public
@@ -247,32 +351,102 @@ module Kiwi.Renderers {
 
 			var cell = entity.atlas.cells[ entity.cellIndex ];
 
-			this._pt1.setTo( 0, 0 );
-			this._pt2.setTo( cell.w, 0 );
-			this._pt3.setTo( cell.w, cell.h );
-			this._pt4.setTo( 0, cell.h );
+			// Trimmed cells sit within their untrimmed frame
+			var ox = cell.offsetX || 0, oy = cell.offsetY || 0;
+			this._pt1.setTo( ox, oy );
+			this._pt2.setTo( ox + cell.w, oy );
+			this._pt3.setTo( ox + cell.w, oy + cell.h );
+			this._pt4.setTo( ox, oy + cell.h );
 
 			m.transformPointInPlace(this._pt1);
 			m.transformPointInPlace(this._pt2);
 			m.transformPointInPlace(this._pt3);
 			m.transformPointInPlace(this._pt4);
 
-			this._vertexBuffer.items.push(
-				this._pt1.x, this._pt1.y, cell.x, cell.y, entity.alpha,
-				this._pt2.x, this._pt2.y, cell.x + cell.w, cell.y, entity.alpha,
-				this._pt3.x, this._pt3.y, cell.x + cell.w, cell.y + cell.h, entity.alpha,
-				this._pt4.x, this._pt4.y, cell.x, cell.y + cell.h, entity.alpha
-				);
+			var r = entity.tint.rNorm, g = entity.tint.gNorm, b = entity.tint.bNorm;
+			var or = entity.colorOffset.rNorm, og = entity.colorOffset.gNorm, ob = entity.colorOffset.bNorm;
+
+			if (cell.anticlockwise) {
+				// The cell is stored turned anticlockwise, so its top left corner is at the bottom left of its area in the image
+				this._addVertex(this._pt1.x, this._pt1.y, cell.x, cell.y + cell.w, entity.alpha, r, g, b, or, og, ob);
+				this._addVertex(this._pt2.x, this._pt2.y, cell.x, cell.y, entity.alpha, r, g, b, or, og, ob);
+				this._addVertex(this._pt3.x, this._pt3.y, cell.x + cell.h, cell.y, entity.alpha, r, g, b, or, og, ob);
+				this._addVertex(this._pt4.x, this._pt4.y, cell.x + cell.h, cell.y + cell.w, entity.alpha, r, g, b, or, og, ob);
+			} else if (cell.rotated) {
+				// The cell is stored turned clockwise, so its top left corner is at the top right of its area in the image
+				this._addVertex(this._pt1.x, this._pt1.y, cell.x + cell.h, cell.y, entity.alpha, r, g, b, or, og, ob);
+				this._addVertex(this._pt2.x, this._pt2.y, cell.x + cell.h, cell.y + cell.w, entity.alpha, r, g, b, or, og, ob);
+				this._addVertex(this._pt3.x, this._pt3.y, cell.x, cell.y + cell.w, entity.alpha, r, g, b, or, og, ob);
+				this._addVertex(this._pt4.x, this._pt4.y, cell.x, cell.y, entity.alpha, r, g, b, or, og, ob);
+			} else {
+				this._addVertex(this._pt1.x, this._pt1.y, cell.x, cell.y, entity.alpha, r, g, b, or, og, ob);
+				this._addVertex(this._pt2.x, this._pt2.y, cell.x + cell.w, cell.y, entity.alpha, r, g, b, or, og, ob);
+				this._addVertex(this._pt3.x, this._pt3.y, cell.x + cell.w, cell.y + cell.h, entity.alpha, r, g, b, or, og, ob);
+				this._addVertex(this._pt4.x, this._pt4.y, cell.x, cell.y + cell.h, entity.alpha, r, g, b, or, og, ob);
+			}
+		}
+
+		/**
+		* Adds a single vertex to the item array.
+		* When drawing from several textures, the index of the current texture is added as well.
+		* @method _addVertex
+		* @private
+		* @since 1.4.0
+		*/
+		private _addVertex(x: number, y: number, u: number, v: number, alpha: number, r: number, g: number, b: number, or: number, og: number, ob: number) {
+			if (this._multiTexture) {
+				this._vertexBuffer.items.push(x, y, u, v, alpha, r, g, b, or, og, ob, this.textureIndex);
+			} else {
+				this._vertexBuffer.items.push(x, y, u, v, alpha, r, g, b, or, og, ob);
+			}
 		}
 
 		/**
-		* Adds an array of precalculated xyuv values to the item array
+		* Adds an array of precalculated xyuv and alpha values to the item array.
+		* The tint and colour offset of the entity passed are added to each vertex.
 		* @method concatBatch
-		* @param vertexItems {array}
+		* @param vertexItems {array} Five values for each vertex: x, y, u, v and alpha.
+		* @param [entity=null] {Kiwi.Entity} The entity the vertices belong to. Without one the vertices are not tinted.
+		* @public
+		*/
+		public concatBatch(vertexItems: Array<number>, entity: Entity = null) {
+			var r = 1, g = 1, b = 1;
+			var or = 0, og = 0, ob = 0;
+			if (entity !== null) {
+				r = entity.tint.rNorm;
+				g = entity.tint.gNorm;
+				b = entity.tint.bNorm;
+				or = entity.colorOffset.rNorm;
+				og = entity.colorOffset.gNorm;
+				ob = entity.colorOffset.bNorm;
+			}
+
+			for (var i = 0; i < vertexItems.length; i += 5) {
+				this._addVertex(vertexItems[i], vertexItems[i + 1], vertexItems[i + 2], vertexItems[i + 3], vertexItems[i + 4], r, g, b, or, og, ob);
+			}
+		}
+
+		/**
+		* Adds vertices to the batch which each have their own tint, such as the attachments of a Skeleton.
+		* The vertex items are the x, y, u, v, alpha, r, g and b of each vertex in turn. The colour offset of the entity is added to all of them.
+		* @method concatTintedBatch
+		* @param vertexItems {number[]}
+		* @param [entity=null] {Kiwi.Entity} The entity whose colour offset is used.
 		* @public
+		* @since 1.4.0
 		*/
-		public concatBatch(vertexItems: Array<number>) {
-			this._vertexBuffer.items = this._vertexBuffer.items.concat(vertexItems);
+		public concatTintedBatch(vertexItems: Array<number>, entity: Entity = null) {
+			var or = 0, og = 0, ob = 0;
+			if (entity !== null) {
+				or = entity.colorOffset.rNorm;
+				og = entity.colorOffset.gNorm;
+				ob = entity.colorOffset.bNorm;
+			}
+
+			for (var i = 0; i < vertexItems.length; i += 8) {
+				this._addVertex(vertexItems[i], vertexItems[i + 1], vertexItems[i + 2], vertexItems[i + 3], vertexItems[i + 4],
+					vertexItems[i + 5], vertexItems[i + 6], vertexItems[i + 7], or, og, ob);
+			}
 		}
 	}
 }
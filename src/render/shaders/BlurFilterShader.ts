@@ -0,0 +1,68 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Shaders
+ * @namespace Kiwi.Shaders
+ */
+
+module Kiwi.Shaders {
+
+	/**
+	 * Shader wrapper for a single direction of a gaussian blur. See Kiwi.Filters.BlurFilter.
+	 * @class BlurFilterShader
+	 * @extends Kiwi.Shaders.FilterShader
+	 * @constructor
+	 * @namespace Kiwi.Shaders
+	 * @return {Kiwi.Shaders.BlurFilterShader}
+	 * @since 1.4.0
+	 */
+	export class BlurFilterShader extends FilterShader {
+
+		constructor() {
+			super();
+		}
+
+		/**
+		* Shader uniform descriptors
+		* @property uniforms
+		* @type object
+		* @public
+		*/
+		public uniforms: any = {
+			uResolution: {
+				type: "2fv",
+			},
+			uSampler: {
+				type: "1i",
+			},
+			uDirection: {
+				type: "2fv",
+			}
+		};
+
+		/**
+		* The source for the GLSL fragment shader
+		* @property fragSource
+		* @type Array
+		* @public
+		*/
+		// language=GLSL
+		public fragSource: string = `
+			precision mediump float;
+			varying vec2 vTextureCoord;
+			uniform sampler2D uSampler;
+			uniform vec2 uResolution;
+			uniform vec2 uDirection;
+			void main(void) {
+				vec2 step = uDirection / uResolution;
+				vec4 color = texture2D(uSampler, vTextureCoord) * 0.2270270270;
+				color += texture2D(uSampler, vTextureCoord + step * 1.3846153846) * 0.3162162162;
+				color += texture2D(uSampler, vTextureCoord - step * 1.3846153846) * 0.3162162162;
+				color += texture2D(uSampler, vTextureCoord + step * 3.2307692308) * 0.0702702703;
+				color += texture2D(uSampler, vTextureCoord - step * 3.2307692308) * 0.0702702703;
+				gl_FragColor = color;
+			}
+		`;
+	}
+
+}
@@ -0,0 +1,73 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Shaders
+ * @namespace Kiwi.Shaders
+ */
+
+module Kiwi.Shaders {
+
+	/**
+	 * Shader wrapper for transforming the colour of every pixel by a 4x5 matrix. See Kiwi.Filters.ColorMatrixFilter.
+	 * @class ColorMatrixFilterShader
+	 * @extends Kiwi.Shaders.FilterShader
+	 * @constructor
+	 * @namespace Kiwi.Shaders
+	 * @return {Kiwi.Shaders.ColorMatrixFilterShader}
+	 * @since 1.4.0
+	 */
+	export class ColorMatrixFilterShader extends FilterShader {
+
+		constructor() {
+			super();
+		}
+
+		/**
+		* Shader uniform descriptors
+		* @property uniforms
+		* @type object
+		* @public
+		*/
+		public uniforms: any = {
+			uResolution: {
+				type: "2fv",
+			},
+			uSampler: {
+				type: "1i",
+			},
+			uMatrix: {
+				type: "1fv",
+			}
+		};
+
+		/**
+		* The source for the GLSL fragment shader.
+		* The colour is un-premultiplied before the matrix is applied, and premultiplied again afterwards.
+		* @property fragSource
+		* @type Array
+		* @public
+		*/
+		// language=GLSL
+		public fragSource: string = `
+			precision mediump float;
+			varying vec2 vTextureCoord;
+			uniform sampler2D uSampler;
+			uniform float uMatrix[20];
+			void main(void) {
+				vec4 c = texture2D(uSampler, vTextureCoord);
+				if (c.a > 0.0) {
+					c.rgb /= c.a;
+				}
+				vec4 result;
+				result.r = uMatrix[0] * c.r + uMatrix[1] * c.g + uMatrix[2] * c.b + uMatrix[3] * c.a + uMatrix[4];
+				result.g = uMatrix[5] * c.r + uMatrix[6] * c.g + uMatrix[7] * c.b + uMatrix[8] * c.a + uMatrix[9];
+				result.b = uMatrix[10] * c.r + uMatrix[11] * c.g + uMatrix[12] * c.b + uMatrix[13] * c.a + uMatrix[14];
+				result.a = uMatrix[15] * c.r + uMatrix[16] * c.g + uMatrix[17] * c.b + uMatrix[18] * c.a + uMatrix[19];
+				result = clamp(result, 0.0, 1.0);
+				result.rgb *= result.a;
+				gl_FragColor = result;
+			}
+		`;
+	}
+
+}
@@ -0,0 +1,99 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Shaders
+ * @namespace Kiwi.Shaders
+ */
+
+module Kiwi.Shaders {
+
+	/**
+	 * Base shader wrapper for the full screen passes of filters.
+	 * The vertex shader draws a quad which covers the whole viewport, and passes the texture coordinates of the scene to the fragment shader.
+	 * This fragment shader copies the scene unchanged. Filters extend this class and replace the fragment shader.
+	 * @class FilterShader
+	 * @extends Kiwi.Shaders.ShaderPair
+	 * @constructor
+	 * @namespace Kiwi.Shaders
+	 * @return {Kiwi.Shaders.FilterShader}
+	 * @since 1.4.0
+	 */
+	export class FilterShader extends ShaderPair {
+
+		constructor() {
+			super();
+		}
+
+		/**
+		* Initialise the shaderPair
+		* @method init
+		* @param gl {WebGLRenderingCotext}
+		* @public
+		*/
+		public init(gl: WebGLRenderingContext) {
+			super.init(gl);
+
+			this.attributes.aXY = gl.getAttribLocation(this.shaderProgram, "aXY");
+
+			this.initUniforms(gl);
+		}
+
+		/**
+		* Shader attribute references
+		* @property attributes
+		* @type object
+		* @public
+		*/
+		public attributes: any = {
+			aXY: null
+		};
+
+		/**
+		* Shader uniform descriptors
+		* @property uniforms
+		* @type object
+		* @public
+		*/
+		public uniforms: any = {
+			uResolution: {
+				type: "2fv",
+			},
+			uSampler: {
+				type: "1i",
+			}
+		};
+
+		/**
+		* The source for the GLSL fragment shader
+		* @property fragSource
+		* @type Array
+		* @public
+		*/
+		// language=GLSL
+		public fragSource: string = `
+			precision mediump float;
+			varying vec2 vTextureCoord;
+			uniform sampler2D uSampler;
+			void main(void) {
+				gl_FragColor = texture2D(uSampler, vTextureCoord);
+			}
+		`;
+
+		/**
+		 * The source for the GLSL vertex shader
+		 * @property vertSource
+		 * @type Array
+		 * @public
+		 */
+		// language=GLSL
+		public vertSource: string = `
+			attribute vec2 aXY;
+			varying vec2 vTextureCoord;
+			void main(void) {
+				gl_Position = vec4(aXY, 0, 1);
+				vTextureCoord = aXY * 0.5 + 0.5;
+			}
+		`;
+	}
+
+}
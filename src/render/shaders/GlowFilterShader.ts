@@ -0,0 +1,80 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Shaders
+ * @namespace Kiwi.Shaders
+ */
+
+module Kiwi.Shaders {
+
+	/**
+	 * Shader wrapper for drawing a soft coloured glow around the opaque parts of an image. See Kiwi.Filters.GlowFilter.
+	 * @class GlowFilterShader
+	 * @extends Kiwi.Shaders.FilterShader
+	 * @constructor
+	 * @namespace Kiwi.Shaders
+	 * @return {Kiwi.Shaders.GlowFilterShader}
+	 * @since 1.4.0
+	 */
+	export class GlowFilterShader extends FilterShader {
+
+		constructor() {
+			super();
+		}
+
+		/**
+		* Shader uniform descriptors
+		* @property uniforms
+		* @type object
+		* @public
+		*/
+		public uniforms: any = {
+			uResolution: {
+				type: "2fv",
+			},
+			uSampler: {
+				type: "1i",
+			},
+			uColor: {
+				type: "4fv",
+			},
+			uDistance: {
+				type: "1f",
+			},
+			uStrength: {
+				type: "1f",
+			}
+		};
+
+		/**
+		* The source for the GLSL fragment shader
+		* @property fragSource
+		* @type Array
+		* @public
+		*/
+		// language=GLSL
+		public fragSource: string = `
+			precision mediump float;
+			varying vec2 vTextureCoord;
+			uniform sampler2D uSampler;
+			uniform vec2 uResolution;
+			uniform vec4 uColor;
+			uniform float uDistance;
+			uniform float uStrength;
+			void main(void) {
+				vec4 color = texture2D(uSampler, vTextureCoord);
+				vec2 step = uDistance / uResolution;
+				float total = 0.0;
+				for (int i = 0; i < 16; i++) {
+					float angle = float(i) * 0.3926990817;
+					vec2 offset = vec2(cos(angle), sin(angle)) * step;
+					total += texture2D(uSampler, vTextureCoord + offset).a;
+					total += texture2D(uSampler, vTextureCoord + offset * 0.5).a;
+				}
+				float glow = clamp(total / 32.0 * uStrength, 0.0, 1.0) * uColor.a;
+				gl_FragColor = color + vec4(uColor.rgb * glow, glow) * (1.0 - color.a);
+			}
+		`;
+	}
+
+}
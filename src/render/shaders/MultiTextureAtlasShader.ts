@@ -0,0 +1,176 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Shaders
+ * @namespace Kiwi.Shaders
+ */
+module Kiwi.Shaders {
+
+	/**
+	 * Shader wrapper for rendering Texture Atlases from several textures at once.
+	 * Each vertex has the index of the texture it samples from, so that entities using different atlases can be drawn in a single batch.
+	 * The number of textures is the number of texture units the hardware has, up to MAX_TEXTURES, and is found when the shader is initialised.
+	 * @class MultiTextureAtlasShader
+	 * @extends Kiwi.Shaders.TextureAtlasShader
+	 * @constructor
+	 * @namespace Kiwi.Shaders
+	 * @return {Kiwi.Shaders.MultiTextureAtlasShader}
+	 * @since 1.4.0
+	 */
+	export class MultiTextureAtlasShader extends TextureAtlasShader {
+
+		constructor() {
+			super();
+		}
+
+		/**
+		* The most textures that the shader samples from, regardless of how many texture units the hardware has.
+		* @property MAX_TEXTURES
+		* @type number
+		* @default 16
+		* @public
+		* @static
+		*/
+		public static MAX_TEXTURES: number = 16;
+
+		/**
+		* The number of textures that the shader samples from. This is set when the shader is initialised.
+		* @property numTextures
+		* @type number
+		* @default 1
+		* @public
+		*/
+		public numTextures: number = 1;
+
+		/**
+		* Initialise the shaderPair. The sources are completed for the number of texture units of the hardware before they are compiled.
+		* @method init
+		* @param gl {WebGLRenderingCotext}
+		* @public
+		*/
+		public init(gl: WebGLRenderingContext) {
+			this.numTextures = Math.min(MultiTextureAtlasShader.MAX_TEXTURES, gl.getParameter(gl.MAX_TEXTURE_IMAGE_UNITS));
+
+			this.vertSource = this.vertSource.replace(/NUM_TEXTURES/g, String(this.numTextures));
+			this.fragSource = this.fragSource
+				.replace(/NUM_TEXTURES/g, String(this.numTextures))
+				.replace("SAMPLE_TEXTURES", this._generateSampling());
+
+			super.init(gl);
+
+			this.attributes.aTextureIndex = gl.getAttribLocation(this.shaderProgram, "aTextureIndex");
+		}
+
+		/**
+		* Returns the GLSL which samples the texture of a fragment.
+		* Samplers can only be indexed by constants, so each texture is checked in turn.
+		* @method _generateSampling
+		* @return {string}
+		* @private
+		*/
+		private _generateSampling(): string {
+			var lines: string[] = [];
+			for (var i = 0; i < this.numTextures - 1; i++) {
+				lines.push((i > 0 ? "else " : "") + "if (vTextureIndex < " + i + ".5) gl_FragColor = texture2D(uSamplers[" + i + "], vTextureCoord);");
+			}
+			var last: number = this.numTextures - 1;
+			lines.push((last > 0 ? "else " : "") + "gl_FragColor = texture2D(uSamplers[" + last + "], vTextureCoord);");
+			return lines.join("\n");
+		}
+
+		/**
+		* Shader attribute references
+		* @property attributes
+		* @type object
+		* @public
+		*/
+		public attributes: any = {
+			aXYUV: null,
+			aAlpha: null,
+			aTint: null,
+			aOffset: null,
+			aTextureIndex: null
+		};
+
+		/**
+		* Shader uniform descriptors
+		* @property uniforms
+		* @type object
+		* @public
+		*/
+		public uniforms: any = {
+			uCamMatrix: {
+				type: "mat3",
+			},
+			uResolution: {
+				type: "2fv",
+			},
+			uTextureSizes: {
+				type: "2fv",
+			},
+			uSamplers: {
+				type: "1iv",
+			},
+			uPremultiply: {
+				type: "1i",
+			}
+		};
+
+		/**
+		* The source for the GLSL fragment shader
+		* @property fragSource
+		* @type Array
+		* @public
+		*/
+		// language=GLSL
+		public fragSource: string = `
+			precision mediump float;
+			varying vec2 vTextureCoord;
+			varying float vAlpha;
+			varying vec3 vTint;
+			varying vec3 vOffset;
+			varying float vTextureIndex;
+			uniform sampler2D uSamplers[NUM_TEXTURES];
+			uniform bool uPremultiply;
+			void main(void) {
+				SAMPLE_TEXTURES
+				gl_FragColor.rgb = gl_FragColor.rgb * vTint + vOffset;
+				gl_FragColor.a *= vAlpha;
+				if (uPremultiply) gl_FragColor.rgb *= gl_FragColor.a;
+			}
+		`;
+
+		/**
+		 * The source for the GLSL vertex shader
+		 * @property vertSource
+		 * @type Array
+		 * @public
+		 */
+		// language=GLSL
+		public vertSource: string = `
+			attribute vec4 aXYUV;
+			attribute float aAlpha;
+			attribute vec3 aTint;
+			attribute vec3 aOffset;
+			attribute float aTextureIndex;
+			uniform mat3 uCamMatrix;
+			uniform vec2 uResolution;
+			uniform vec2 uTextureSizes[NUM_TEXTURES];
+			varying vec2 vTextureCoord;
+			varying float vAlpha;
+			varying vec3 vTint;
+			varying vec3 vOffset;
+			varying float vTextureIndex;
+			void main(void) {
+			   vec2 pos = (uCamMatrix * vec3(aXYUV.xy,1)).xy;
+			   // pos / resolution = 0 => 1 : * 2 = 0 => 2 : - 1 = -1 => 1. vec2(2, -1) to flip y
+			   gl_Position = vec4((pos / uResolution * 2.0 - 1.0) * vec2(1, -1), 0, 1);
+			   vTextureCoord = aXYUV.zw / uTextureSizes[int(aTextureIndex + 0.5)];
+			   vAlpha = aAlpha;
+			   vTint = aTint;
+			   vOffset = aOffset;
+			   vTextureIndex = aTextureIndex;
+			}
+		`;
+	}
+}
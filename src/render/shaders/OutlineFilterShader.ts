@@ -0,0 +1,74 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Shaders
+ * @namespace Kiwi.Shaders
+ */
+
+module Kiwi.Shaders {
+
+	/**
+	 * Shader wrapper for drawing a coloured outline around the opaque parts of an image. See Kiwi.Filters.OutlineFilter.
+	 * @class OutlineFilterShader
+	 * @extends Kiwi.Shaders.FilterShader
+	 * @constructor
+	 * @namespace Kiwi.Shaders
+	 * @return {Kiwi.Shaders.OutlineFilterShader}
+	 * @since 1.4.0
+	 */
+	export class OutlineFilterShader extends FilterShader {
+
+		constructor() {
+			super();
+		}
+
+		/**
+		* Shader uniform descriptors
+		* @property uniforms
+		* @type object
+		* @public
+		*/
+		public uniforms: any = {
+			uResolution: {
+				type: "2fv",
+			},
+			uSampler: {
+				type: "1i",
+			},
+			uColor: {
+				type: "4fv",
+			},
+			uThickness: {
+				type: "1f",
+			}
+		};
+
+		/**
+		* The source for the GLSL fragment shader
+		* @property fragSource
+		* @type Array
+		* @public
+		*/
+		// language=GLSL
+		public fragSource: string = `
+			precision mediump float;
+			varying vec2 vTextureCoord;
+			uniform sampler2D uSampler;
+			uniform vec2 uResolution;
+			uniform vec4 uColor;
+			uniform float uThickness;
+			void main(void) {
+				vec4 color = texture2D(uSampler, vTextureCoord);
+				vec2 step = uThickness / uResolution;
+				float outline = 0.0;
+				for (int i = 0; i < 12; i++) {
+					float angle = float(i) * 0.5235987756;
+					outline = max(outline, texture2D(uSampler, vTextureCoord + vec2(cos(angle), sin(angle)) * step).a);
+				}
+				outline *= uColor.a;
+				gl_FragColor = color + vec4(uColor.rgb * outline, outline) * (1.0 - color.a);
+			}
+		`;
+	}
+
+}
@@ -0,0 +1,64 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Shaders
+ * @namespace Kiwi.Shaders
+ */
+
+module Kiwi.Shaders {
+
+	/**
+	 * Shader wrapper for rendering the screen with large square pixels. See Kiwi.Filters.PixelateFilter.
+	 * @class PixelateFilterShader
+	 * @extends Kiwi.Shaders.FilterShader
+	 * @constructor
+	 * @namespace Kiwi.Shaders
+	 * @return {Kiwi.Shaders.PixelateFilterShader}
+	 * @since 1.4.0
+	 */
+	export class PixelateFilterShader extends FilterShader {
+
+		constructor() {
+			super();
+		}
+
+		/**
+		* Shader uniform descriptors
+		* @property uniforms
+		* @type object
+		* @public
+		*/
+		public uniforms: any = {
+			uResolution: {
+				type: "2fv",
+			},
+			uSampler: {
+				type: "1i",
+			},
+			uSize: {
+				type: "1f",
+			}
+		};
+
+		/**
+		* The source for the GLSL fragment shader
+		* @property fragSource
+		* @type Array
+		* @public
+		*/
+		// language=GLSL
+		public fragSource: string = `
+			precision mediump float;
+			varying vec2 vTextureCoord;
+			uniform sampler2D uSampler;
+			uniform vec2 uResolution;
+			uniform float uSize;
+			void main(void) {
+				vec2 size = vec2(uSize) / uResolution;
+				vec2 coord = (floor(vTextureCoord / size) + 0.5) * size;
+				gl_FragColor = texture2D(uSampler, coord);
+			}
+		`;
+	}
+
+}
@@ -32,6 +32,8 @@ module Kiwi.Shaders {
 
 			this.attributes.aXYUV = gl.getAttribLocation(this.shaderProgram, "aXYUV");
 			this.attributes.aAlpha = gl.getAttribLocation(this.shaderProgram, "aAlpha");
+			this.attributes.aTint = gl.getAttribLocation(this.shaderProgram, "aTint");
+			this.attributes.aOffset = gl.getAttribLocation(this.shaderProgram, "aOffset");
 			
 			this.initUniforms(gl);
 		}
@@ -45,6 +47,8 @@ module Kiwi.Shaders {
 		public attributes: any = {
 			aXYUV: null,
 			aAlpha: null,
+			aTint: null,
+			aOffset: null
 		};
 
 		/**
@@ -65,6 +69,9 @@ module Kiwi.Shaders {
 			},
 			uSampler: {
 				type: "1i",
+			},
+			uPremultiply: {
+				type: "1i",
 			}
 		};
 
@@ -80,10 +87,15 @@ module Kiwi.Shaders {
 			precision mediump float;
 			varying vec2 vTextureCoord;
 			varying float vAlpha;
+			varying vec3 vTint;
+			varying vec3 vOffset;
 			uniform sampler2D uSampler;
+			uniform bool uPremultiply;
 			void main(void) {
 				gl_FragColor = texture2D(uSampler, vec2(vTextureCoord.x, vTextureCoord.y));
+				gl_FragColor.rgb = gl_FragColor.rgb * vTint + vOffset;
 				gl_FragColor.a *= vAlpha;
+				if (uPremultiply) gl_FragColor.rgb *= gl_FragColor.a;
 			}
 		`;
 
@@ -97,11 +109,15 @@ module Kiwi.Shaders {
 		public vertSource: string = `
 			attribute vec4 aXYUV;
 			attribute float aAlpha;
+			attribute vec3 aTint;
+			attribute vec3 aOffset;
 			uniform mat3 uCamMatrix;
 			uniform vec2 uResolution;
 			uniform vec2 uTextureSize;
 			varying vec2 vTextureCoord;
 			varying float vAlpha;
+			varying vec3 vTint;
+			varying vec3 vOffset;
 			void main(void) {
 			   vec2 pos = (uCamMatrix * vec3(aXYUV.xy,1)).xy;
 //			   vec2 pos = aXYUV.xy; 
@@ -109,6 +125,8 @@ module Kiwi.Shaders {
 			   gl_Position = vec4((pos / uResolution * 2.0 - 1.0) * vec2(1, -1), 0, 1);
 			   vTextureCoord = aXYUV.zw / uTextureSize;
 			   vAlpha = aAlpha;
+			   vTint = aTint;
+			   vOffset = aOffset;
 			}
 		`;
 	}
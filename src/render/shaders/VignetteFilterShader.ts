@@ -0,0 +1,74 @@
+/**
+ *
+ * @module Kiwi
+ * @submodule Shaders
+ * @namespace Kiwi.Shaders
+ */
+
+module Kiwi.Shaders {
+
+	/**
+	 * Shader wrapper for darkening the edges of the screen. See Kiwi.Filters.VignetteFilter.
+	 * @class VignetteFilterShader
+	 * @extends Kiwi.Shaders.FilterShader
+	 * @constructor
+	 * @namespace Kiwi.Shaders
+	 * @return {Kiwi.Shaders.VignetteFilterShader}
+	 * @since 1.4.0
+	 */
+	export class VignetteFilterShader extends FilterShader {
+
+		constructor() {
+			super();
+		}
+
+		/**
+		* Shader uniform descriptors
+		* @property uniforms
+		* @type object
+		* @public
+		*/
+		public uniforms: any = {
+			uResolution: {
+				type: "2fv",
+			},
+			uSampler: {
+				type: "1i",
+			},
+			uRadius: {
+				type: "1f",
+			},
+			uSoftness: {
+				type: "1f",
+			},
+			uStrength: {
+				type: "1f",
+			}
+		};
+
+		/**
+		* The source for the GLSL fragment shader
+		* @property fragSource
+		* @type Array
+		* @public
+		*/
+		// language=GLSL
+		public fragSource: string = `
+			precision mediump float;
+			varying vec2 vTextureCoord;
+			uniform sampler2D uSampler;
+			uniform vec2 uResolution;
+			uniform float uRadius;
+			uniform float uSoftness;
+			uniform float uStrength;
+			void main(void) {
+				vec4 color = texture2D(uSampler, vTextureCoord);
+				vec2 position = (vTextureCoord - 0.5) * vec2(uResolution.x / uResolution.y, 1.0);
+				float vignette = smoothstep(uRadius, uRadius - uSoftness, length(position));
+				color.rgb *= mix(1.0, vignette, uStrength);
+				gl_FragColor = color;
+			}
+		`;
+	}
+
+}
@@ -0,0 +1,263 @@
+/**
+*
+* @module Kiwi
+* @submodule Textures
+*
+*/
+
+module Kiwi.Textures {
+
+	/**
+	* A TextureAtlas for a bitmap font, which is read from a font file made by AngelCode's BMFont or a compatible tool.
+	* Both the text and XML formats of the font file are understood.
+	* Each glyph of the font is a cell, and the glyph of each character holds the cell along with how it is positioned when laying out text.
+	*
+	* Bitmap fonts are loaded with 'addBitmapFont' on the Loader or State, and are drawn by the BitmapText GameObject.
+	* A font with several pages has them stacked into a single image, so that all of its glyphs are in one texture.
+	*
+	* @class BitmapFont
+	* @extends TextureAtlas
+	* @namespace Kiwi.Textures
+	* @constructor
+	* @param name {string} The name of the font. This is usually the key used when loading it.
+	* @param image {HTMLImageElement/HTMLCanvasElement} The image holding the glyphs.
+	* @return {Kiwi.Textures.BitmapFont}
+	* @since 1.4.0
+	*/
+	export class BitmapFont extends TextureAtlas {
+
+		constructor(name: string, image) {
+			super(name, TextureAtlas.TEXTURE_ATLAS, null, image);
+			this.glyphs = {};
+			this.kernings = {};
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {string} "BitmapFont"
+		* @public
+		*/
+		public objType(): string {
+			return "BitmapFont";
+		}
+
+		/**
+		* The name of the typeface the font was made from.
+		* @property face
+		* @type string
+		* @public
+		*/
+		public face: string = "";
+
+		/**
+		* The size of the typeface the font was made from, in pixels.
+		* @property size
+		* @type number
+		* @public
+		*/
+		public size: number = 0;
+
+		/**
+		* The distance between the top of one line and the top of the next, in pixels.
+		* @property lineHeight
+		* @type number
+		* @public
+		*/
+		public lineHeight: number = 0;
+
+		/**
+		* The distance from the top of a line to the baseline of its glyphs, in pixels.
+		* @property base
+		* @type number
+		* @public
+		*/
+		public base: number = 0;
+
+		/**
+		* The glyph of each character, keyed by its character code.
+		* Each glyph has the index of its 'cell', the 'xOffset' and 'yOffset' to draw the cell at from the cursor, and the 'xAdvance' to move the cursor by afterwards.
+		* @property glyphs
+		* @type object
+		* @public
+		*/
+		public glyphs: any;
+
+		/**
+		* The kerning between pairs of characters, keyed by the code of the first character and then the code of the second.
+		* @property kernings
+		* @type object
+		* @public
+		*/
+		public kernings: any;
+
+		/**
+		* Returns the glyph of a character.
+		* @method getGlyph
+		* @param charCode {number}
+		* @return {object} The glyph, or null if the font does not have the character.
+		* @public
+		*/
+		public getGlyph(charCode: number): any {
+			return this.glyphs[charCode] || null;
+		}
+
+		/**
+		* Returns the amount to move the second of two characters by when it follows the first.
+		* @method getKerning
+		* @param first {number} The code of the first character.
+		* @param second {number} The code of the second character.
+		* @return {number}
+		* @public
+		*/
+		public getKerning(first: number, second: number): number {
+			var pairs = this.kernings[first];
+			return (pairs && pairs[second]) || 0;
+		}
+
+		/**
+		* Populates the font from the data of a BMFont file, in either the text or XML format.
+		* @method readFont
+		* @param data {any} The file as a string, or an already parsed XML document.
+		* @param [pageOffsets] {number[]} How far down the image each page starts, for fonts with several pages.
+		* @public
+		*/
+		public readFont(data: any, pageOffsets: number[] = [0]) {
+			var entries: any[];
+			if (Kiwi.Utils.Common.isString(data)) {
+				data = data.trim();
+				if (data.charAt(0) === "<") {
+					entries = this._parseXML(new DOMParser().parseFromString(data, "text/xml"));
+				} else {
+					entries = this._parseText(data);
+				}
+			} else {
+				entries = this._parseXML(data);
+			}
+
+			for (var i = 0; i < entries.length; i++) {
+				var attrs = entries[i].attrs;
+
+				switch (entries[i].tag) {
+					case "info":
+						this.face = attrs.face || "";
+						// A negative size means the size of the characters rather than of the cells
+						this.size = Math.abs(attrs.size || 0);
+						break;
+					case "common":
+						this.lineHeight = attrs.lineHeight || 0;
+						this.base = attrs.base || 0;
+						break;
+					case "char":
+						this._addGlyph(attrs, pageOffsets[attrs.page || 0] || 0);
+						break;
+					case "kerning":
+						if (this.kernings[attrs.first] === undefined) this.kernings[attrs.first] = {};
+						this.kernings[attrs.first][attrs.second] = attrs.amount;
+						break;
+				}
+			}
+		}
+
+		/**
+		* Adds a cell and glyph for a character of the font.
+		* @method _addGlyph
+		* @param attrs {object} The attributes of the character in the font file.
+		* @param pageOffset {number} How far down the image the page of the character starts.
+		* @private
+		*/
+		private _addGlyph(attrs: any, pageOffset: number) {
+			var w: number = attrs.width || 0;
+			var h: number = attrs.height || 0;
+
+			this.cells.push({
+				x: attrs.x || 0,
+				y: (attrs.y || 0) + pageOffset,
+				w: w,
+				h: h,
+				hitboxes: [{ x: 0, y: 0, w: w, h: h }]
+			});
+
+			this.glyphs[attrs.id] = {
+				cell: this.cells.length - 1,
+				xOffset: attrs.xoffset || 0,
+				yOffset: attrs.yoffset || 0,
+				xAdvance: attrs.xadvance || 0
+			};
+		}
+
+		/**
+		* Reads each line of a font file in the text format into its tag and attributes.
+		* @method _parseText
+		* @param data {string}
+		* @return {object[]}
+		* @private
+		*/
+		private _parseText(data: string): any[] {
+			var entries = [];
+			var lines: string[] = data.split(/\r?\n/);
+
+			for (var i = 0; i < lines.length; i++) {
+				var line: string = lines[i].trim();
+				if (line === "") continue;
+
+				var tag: string = line.split(/\s+/)[0];
+				var attrs = {};
+				var pattern: RegExp = /(\w+)=("[^"]*"|\S+)/g;
+				var match;
+				while ((match = pattern.exec(line)) !== null) {
+					var value: string = match[2];
+					if (value.charAt(0) === "\"") {
+						attrs[match[1]] = value.slice(1, -1);
+					} else {
+						attrs[match[1]] = this._parseValue(value);
+					}
+				}
+
+				entries.push({ tag: tag, attrs: attrs });
+			}
+
+			return entries;
+		}
+
+		/**
+		* Reads the elements of a font file in the XML format into their tag and attributes.
+		* @method _parseXML
+		* @param doc {Document}
+		* @return {object[]}
+		* @private
+		*/
+		private _parseXML(doc: any): any[] {
+			var entries = [];
+			var tags: string[] = ["info", "common", "char", "kerning"];
+
+			for (var t = 0; t < tags.length; t++) {
+				var elements = doc.getElementsByTagName(tags[t]);
+				for (var i = 0; i < elements.length; i++) {
+					var attrs = {};
+					for (var a = 0; a < elements[i].attributes.length; a++) {
+						var attribute = elements[i].attributes[a];
+						attrs[attribute.name] = (attribute.name === "face") ? attribute.value : this._parseValue(attribute.value);
+					}
+					entries.push({ tag: tags[t], attrs: attrs });
+				}
+			}
+
+			return entries;
+		}
+
+		/**
+		* Converts the value of an attribute into a number, if it is one.
+		* @method _parseValue
+		* @param value {string}
+		* @return {any}
+		* @private
+		*/
+		private _parseValue(value: string): any {
+			var num: number = Number(value);
+			return isNaN(num) ? value : num;
+		}
+
+	}
+
+}
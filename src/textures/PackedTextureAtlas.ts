@@ -0,0 +1,68 @@
+/**
+*
+* @module Kiwi
+* @submodule Textures
+*
+*/
+
+module Kiwi.Textures {
+
+	/**
+	* A TextureAtlas for an image which has been copied onto a page by a TexturePacker.
+	* It has the same type, cells and sequences as the atlas it replaces, but its cells are positioned on the image of the page.
+	* Every atlas on a page shares the texture of the page, so that under WebGL they are uploaded once and can be drawn in the same batch.
+	*
+	* @class PackedTextureAtlas
+	* @extends TextureAtlas
+	* @namespace Kiwi.Textures
+	* @constructor
+	* @param name {string} The name of the texture atlas. This is the key of the atlas it replaces.
+	* @param type {number} The type of the atlas it replaces.
+	* @param cells {any} The cells, positioned on the image of the page.
+	* @param page {Kiwi.Textures.TextureAtlas} The atlas of the page, which holds the image.
+	* @param [sequences] {Sequence[]} Any sequences of cells for this texture atlas.
+	* @return {Kiwi.Textures.PackedTextureAtlas}
+	* @since 1.4.0
+	*/
+	export class PackedTextureAtlas extends TextureAtlas {
+
+		constructor(name: string, type: number, cells, page: TextureAtlas, sequences?: Kiwi.Animations.Sequence[]) {
+			super(name, type, cells, page.image, sequences);
+			this.page = page;
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {string} "PackedTextureAtlas"
+		* @public
+		*/
+		public objType(): string {
+			return "PackedTextureAtlas";
+		}
+
+		/**
+		* The atlas of the page that this atlas was packed onto.
+		* @property page
+		* @type Kiwi.Textures.TextureAtlas
+		* @public
+		*/
+		public page: TextureAtlas;
+
+		/**
+		* Uses the GLTextureWrapper of the page, creating it if the page does not have one yet.
+		* @method createGLTextureWrapper
+		* @param gl {WebGLRenderingContext} The rendering context.
+		* @param textureManager {Kiwi.Renderers.GLTextureManager} The texture manager.
+		* @public
+		*/
+		public createGLTextureWrapper(gl: WebGLRenderingContext, textureManager: Kiwi.Renderers.GLTextureManager) {
+			if (!this.page.glTextureWrapper) {
+				this.page.createGLTextureWrapper(gl, textureManager);
+			}
+			this.glTextureWrapper = this.page.glTextureWrapper;
+		}
+
+	}
+
+}
@@ -170,14 +170,15 @@ module Kiwi.Textures {
 		* @param gl {WebGLRenderingContext}
 		* @param renderer {Renderer}
 		* @param textureManager {GLTextureManager}
+		* @param [textureUnit=0] {number} The texture unit to bind the texture to.
 		* @public
 		* @since 1.1.0
 		*/
-		public enableGL( gl: WebGLRenderingContext, renderer: Kiwi.Renderers.Renderer, textureManager: Kiwi.Renderers.GLTextureManager ) {
+		public enableGL( gl: WebGLRenderingContext, renderer: Kiwi.Renderers.Renderer, textureManager: Kiwi.Renderers.GLTextureManager, textureUnit: number = 0 ) {
 			// Set resolution uniforms
-			renderer.updateTextureSize(gl, new Float32Array([this.image.width, this.image.height]));
+			renderer.updateTextureSize(gl, new Float32Array([this.image.width, this.image.height]), textureUnit);
 			// Upload texture
-			textureManager.useTexture(gl, this.glTextureWrapper);
+			textureManager.useTexture(gl, this.glTextureWrapper, textureUnit);
 			// If necessary, refresh the texture
 			if(this.dirty)
 				this.refreshTextureGL( gl );
@@ -201,14 +202,29 @@ module Kiwi.Textures {
 
 		/**
 		* Will populate this texture atlas with information based on a JSON file that was passed.
+		*
+		* As well as Kiwi's own format, the JSON Hash and JSON Array formats of TexturePacker and the JSON exported by Aseprite are understood.
+		* Trimmed frames become cells with an 'offsetX', 'offsetY', 'sourceW' and 'sourceH', and rotated frames have 'rotated' set.
+		* The frame tags of Aseprite become sequences, with the duration of each frame.
+		* The texture atlas JSON of DragonBones is understood too.
 		* 
 		* @method readJSON
-		* @param {any} atlasJSON
+		* @param {any} atlasJSON The JSON as a string, or already parsed.
 		* @public 
 		*/
 		public readJSON(atlasJSON) {
 			//populate from json
-			var obj = JSON.parse(atlasJSON);
+			var obj = Kiwi.Utils.Common.isString(atlasJSON) ? JSON.parse(atlasJSON) : atlasJSON;
+
+			if (obj.cells === undefined && obj.frames !== undefined) {
+				this._readFrames(obj);
+				return;
+			}
+
+			if (obj.cells === undefined && obj.SubTexture !== undefined) {
+				this._readSubTextures(obj.SubTexture);
+				return;
+			}
 
 			if(obj.name !== undefined) this.name = obj.name;
 			
@@ -230,6 +246,16 @@ module Kiwi.Textures {
 					
 					if (obj.sequences[i].speed !== undefined) seq.speed = obj.sequences[i].speed;
 					if (obj.sequences[i].loop !== undefined)  seq.loop = obj.sequences[i].loop;
+					if (obj.sequences[i].durations !== undefined) seq.durations = obj.sequences[i].durations;
+					if (obj.sequences[i].pingPong !== undefined) seq.pingPong = obj.sequences[i].pingPong;
+
+					// Events are keyed by frame index, with one name or an array of names
+					for (var frame in obj.sequences[i].events) {
+						var names = [].concat(obj.sequences[i].events[frame]);
+						for (var n = 0; n < names.length; n++) {
+							seq.addFrameEvent(parseInt(frame, 10), names[n]);
+						}
+					}
 					
 					this.sequences.push(seq);
 				}
@@ -238,6 +264,318 @@ module Kiwi.Textures {
 
 		}
 
+		/**
+		* Will populate this texture atlas with information based on a Starling/Sparrow XML file that was passed.
+		* Each SubTexture becomes a cell, in the order that they appear.
+		*
+		* @method readXML
+		* @param atlasXML {any} The XML as a string, or an already parsed XML document.
+		* @public
+		* @since 1.4.0
+		*/
+		public readXML(atlasXML) {
+			var doc = atlasXML;
+			if (Kiwi.Utils.Common.isString(atlasXML)) {
+				doc = new DOMParser().parseFromString(atlasXML, "text/xml");
+			}
+
+			var subTextures = doc.getElementsByTagName("SubTexture");
+			for (var i = 0; i < subTextures.length; i++) {
+				var sub = subTextures[i];
+				var attr = function (name: string): number {
+					return parseFloat(sub.getAttribute(name)) || 0;
+				};
+
+				this._addSubTexture(sub.getAttribute("name"), attr("x"), attr("y"), attr("width"), attr("height"),
+					attr("frameX"), attr("frameY"), attr("frameWidth"), attr("frameHeight"),
+					sub.getAttribute("rotated") === "true");
+			}
+		}
+
+		/**
+		* Will populate this texture atlas with the regions of a page of a Spine texture atlas file, which is text rather than JSON.
+		* Each region becomes a cell, in the order that they appear, using the 'xy', 'size', 'orig', 'offset' and 'rotate' of the region,
+		* or the 'bounds' and 'offsets' which Spine 4 writes in their place.
+		* Regions which Spine has rotated are stored turned anticlockwise, so their cells have 'anticlockwise' set as well as 'rotated'.
+		*
+		* @method readSpineAtlas
+		* @param atlasText {string} The text of the .atlas file.
+		* @param [pageName=null] {string} The file name of the page image to read the regions of. The first page is read if it is not found.
+		* @public
+		* @since 1.4.0
+		*/
+		public readSpineAtlas(atlasText: string, pageName: string = null) {
+			var pages = [];
+			var page = null;
+			var region = null;
+			var lines: string[] = atlasText.split(/\r\n|\r|\n/);
+
+			for (var i = 0; i < lines.length; i++) {
+				var line: string = lines[i].trim();
+
+				// A blank line ends a page, so the next name is of a page rather than a region
+				if (line.length === 0) {
+					page = null;
+					region = null;
+					continue;
+				}
+
+				var colon: number = line.indexOf(":");
+				if (colon === -1) {
+					if (page === null) {
+						page = { name: line, regions: [] };
+						pages.push(page);
+					} else {
+						region = { name: line };
+						page.regions.push(region);
+					}
+				} else if (region !== null) {
+					var values: string[] = line.substring(colon + 1).split(",");
+					for (var j = 0; j < values.length; j++) {
+						values[j] = values[j].trim();
+					}
+					region[line.substring(0, colon).trim()] = values;
+				}
+			}
+
+			if (pages.length === 0) return;
+
+			page = pages[0];
+			for (var i = 0; i < pages.length; i++) {
+				if (pages[i].name === pageName) {
+					page = pages[i];
+					break;
+				}
+			}
+
+			for (var i = 0; i < page.regions.length; i++) {
+				this._addSpineRegion(page.regions[i]);
+			}
+		}
+
+		/**
+		* Adds a cell for a region of a Spine texture atlas.
+		* The size of a region is the size it is shown at, and its offset is from the bottom left of its original image.
+		* @method _addSpineRegion
+		* @param region {any} The values of each field of the region, keyed by the name of the field.
+		* @private
+		* @since 1.4.0
+		*/
+		private _addSpineRegion(region) {
+			var num = function (field: string, index: number, defaultValue: number): number {
+				return (region[field] && region[field].length > index) ? parseFloat(region[field][index]) : defaultValue;
+			};
+
+			var bounds: string = region.bounds ? "bounds" : "xy";
+			var x: number = num(bounds, 0, 0);
+			var y: number = num(bounds, 1, 0);
+			var w: number = region.bounds ? num("bounds", 2, 0) : num("size", 0, 0);
+			var h: number = region.bounds ? num("bounds", 3, 0) : num("size", 1, 0);
+
+			var offX: number, offY: number, origW: number, origH: number;
+			if (region.offsets) {
+				offX = num("offsets", 0, 0);
+				offY = num("offsets", 1, 0);
+				origW = num("offsets", 2, w);
+				origH = num("offsets", 3, h);
+			} else {
+				offX = num("offset", 0, 0);
+				offY = num("offset", 1, 0);
+				origW = num("orig", 0, w);
+				origH = num("orig", 1, h);
+			}
+
+			var rotate: string = region.rotate ? region.rotate[0] : "false";
+			var rotated: boolean = (rotate === "true" || rotate === "90");
+
+			this._addCell(region.name, x, y, w, h, offX, origH - h - offY, origW, origH, rotated);
+			if (rotated) this.cells[this.cells.length - 1].anticlockwise = true;
+		}
+
+		/**
+		* Populates the texture atlas from the frames of the JSON exported by TexturePacker or Aseprite, in either the hash or array format.
+		* @method _readFrames
+		* @param obj {any} The parsed JSON.
+		* @private
+		* @since 1.4.0
+		*/
+		private _readFrames(obj) {
+			var frames = obj.frames;
+
+			// The hash format keys each frame by its name, in the order of the cells
+			if (!Kiwi.Utils.Common.isArray(frames)) {
+				var list = [];
+				for (var name in frames) {
+					frames[name].filename = name;
+					list.push(frames[name]);
+				}
+				frames = list;
+			}
+
+			var durations: number[] = [];
+			for (var i = 0; i < frames.length; i++) {
+				var f = frames[i];
+				var spriteSourceSize = f.spriteSourceSize || { x: 0, y: 0 };
+				var sourceSize = f.sourceSize || { w: f.frame.w, h: f.frame.h };
+
+				this._addCell(f.filename, f.frame.x, f.frame.y, f.frame.w, f.frame.h,
+					spriteSourceSize.x, spriteSourceSize.y, sourceSize.w, sourceSize.h, f.rotated === true);
+
+				// Aseprite gives the duration of each frame in milliseconds
+				durations.push((f.duration !== undefined) ? f.duration / 1000 : 0.1);
+			}
+
+			if (obj.meta && obj.meta.frameTags) {
+				this._readFrameTags(obj.meta.frameTags, durations);
+			}
+		}
+
+		/**
+		* Populates the texture atlas from the sub textures of the texture atlas JSON exported by DragonBones.
+		* These have the same attributes as the sub textures of the Starling XML format.
+		* @method _readSubTextures
+		* @param subTextures {any[]}
+		* @private
+		* @since 1.4.0
+		*/
+		private _readSubTextures(subTextures: any[]) {
+			for (var i = 0; i < subTextures.length; i++) {
+				var sub = subTextures[i];
+				this._addSubTexture(sub.name, sub.x || 0, sub.y || 0, sub.width || 0, sub.height || 0,
+					sub.frameX || 0, sub.frameY || 0, sub.frameWidth || 0, sub.frameHeight || 0, sub.rotated === true);
+			}
+		}
+
+		/**
+		* Adds a cell for a sub texture of the Starling layout, which the Starling/Sparrow XML and the DragonBones atlas JSON both use.
+		* The width and height of a rotated sub texture are of its area as it is stored in the image, so they are swapped to get the size it is shown at.
+		* @method _addSubTexture
+		* @param name {string}
+		* @param x {number}
+		* @param y {number}
+		* @param width {number} The width of the area in the image.
+		* @param height {number} The height of the area in the image.
+		* @param frameX {number} The negative of where the trimmed image sits in the untrimmed frame on the x axis.
+		* @param frameY {number} The negative of where the trimmed image sits in the untrimmed frame on the y axis.
+		* @param frameWidth {number} The width of the untrimmed frame, or 0 if it was not trimmed.
+		* @param frameHeight {number} The height of the untrimmed frame, or 0 if it was not trimmed.
+		* @param rotated {boolean}
+		* @private
+		* @since 1.4.0
+		*/
+		private _addSubTexture(name: string, x: number, y: number, width: number, height: number, frameX: number, frameY: number, frameWidth: number, frameHeight: number, rotated: boolean) {
+			var w: number = rotated ? height : width;
+			var h: number = rotated ? width : height;
+
+			this._addCell(name, x, y, w, h, -frameX, -frameY, frameWidth || w, frameHeight || h, rotated);
+		}
+
+		/**
+		* Creates a sequence for each of the frame tags of the JSON exported by Aseprite, with the duration of each frame.
+		* Tags which play in reverse have their cells ordered to match, and tags which ping-pong have 'pingPong' set on their sequence.
+		* @method _readFrameTags
+		* @param tags {any[]}
+		* @param durations {number[]} The duration of each cell, in seconds.
+		* @private
+		* @since 1.4.0
+		*/
+		private _readFrameTags(tags: any[], durations: number[]) {
+			for (var i = 0; i < tags.length; i++) {
+				var tag = tags[i];
+				var cells: number[] = [];
+				for (var c = tag.from; c <= tag.to; c++) {
+					cells.push(c);
+				}
+
+				if (tag.direction === "reverse") {
+					cells.reverse();
+				}
+
+				var seqDurations: number[] = [];
+				for (var j = 0; j < cells.length; j++) {
+					seqDurations.push(durations[cells[j]]);
+				}
+
+				var seq = new Kiwi.Animations.Sequence(tag.name, cells, seqDurations[0], true, seqDurations);
+				seq.pingPong = (tag.direction === "pingpong");
+				this.sequences.push(seq);
+			}
+		}
+
+		/**
+		* Adds a cell for a frame of an exported atlas.
+		* The position and size are of the area in the image, before any rotation.
+		* Frames which were trimmed have their offset within the untrimmed frame and the size of the untrimmed frame, which the hitbox covers.
+		* @method _addCell
+		* @param name {string}
+		* @param x {number}
+		* @param y {number}
+		* @param w {number}
+		* @param h {number}
+		* @param offsetX {number} Where the trimmed image sits in the untrimmed frame on the x axis.
+		* @param offsetY {number} Where the trimmed image sits in the untrimmed frame on the y axis.
+		* @param sourceW {number} The width of the untrimmed frame.
+		* @param sourceH {number} The height of the untrimmed frame.
+		* @param rotated {boolean} If the frame is stored in the image rotated 90 degrees clockwise.
+		* @private
+		* @since 1.4.0
+		*/
+		private _addCell(name: string, x: number, y: number, w: number, h: number, offsetX: number, offsetY: number, sourceW: number, sourceH: number, rotated: boolean) {
+			var cell: any = {
+				name: name,
+				x: x,
+				y: y,
+				w: w,
+				h: h,
+				hitboxes: [{ x: 0, y: 0, w: sourceW, h: sourceH }]
+			};
+
+			if (offsetX !== 0 || offsetY !== 0 || sourceW !== w || sourceH !== h) {
+				cell.offsetX = offsetX;
+				cell.offsetY = offsetY;
+				cell.sourceW = sourceW;
+				cell.sourceH = sourceH;
+			}
+
+			if (rotated) cell.rotated = true;
+
+			this.cells.push(cell);
+		}
+
+		/**
+		* Draws a cell of an image onto a canvas, with its top left corner at the position passed.
+		* Cells which are stored rotated are drawn upright.
+		* Any offset of a trimmed cell is not applied, so add 'offsetX' and 'offsetY' to the position to draw it within its untrimmed frame.
+		* @method drawCell
+		* @param ctx {CanvasRenderingContext2D}
+		* @param image {HTMLImageElement/HTMLCanvasElement}
+		* @param cell {object}
+		* @param [x=0] {number}
+		* @param [y=0] {number}
+		* @public
+		* @static
+		* @since 1.4.0
+		*/
+		public static drawCell(ctx: CanvasRenderingContext2D, image: any, cell: any, x: number = 0, y: number = 0) {
+			if (cell.anticlockwise) {
+				// The cell is stored turned anticlockwise, so turn it back
+				ctx.save();
+				ctx.translate(x + cell.w, y);
+				ctx.rotate(Math.PI / 2);
+				ctx.drawImage(image, cell.x, cell.y, cell.h, cell.w, 0, 0, cell.h, cell.w);
+				ctx.restore();
+			} else if (cell.rotated) {
+				// The cell is stored turned clockwise, so turn it back
+				ctx.save();
+				ctx.translate(x, y + cell.h);
+				ctx.rotate(-Math.PI / 2);
+				ctx.drawImage(image, cell.x, cell.y, cell.h, cell.w, 0, 0, cell.h, cell.w);
+				ctx.restore();
+			} else {
+				ctx.drawImage(image, cell.x, cell.y, cell.w, cell.h, x, y, cell.w, cell.h);
+			}
+		}
+
 	}
 
 }
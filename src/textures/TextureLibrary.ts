@@ -96,21 +96,33 @@ module Kiwi.Textures {
 				imageFile = this._rebuildImage(imageFile);
 			}
 
+			var atlas: TextureAtlas = this.buildFromFile(imageFile);
+			if (atlas !== null) {
+				this.textures[imageFile.key] = atlas;
+			}
+
+		}
+
+		/**
+		* Builds the texture atlas for an image file, without adding it to the library.
+		* @method buildFromFile
+		* @param imageFile {Kiwi.File}
+		* @return {Kiwi.Textures.TextureAtlas} The new texture atlas, or null if the file is not of a texture type.
+		* @public
+		* @since 1.4.0
+		*/
+		public buildFromFile(imageFile: Kiwi.Files.File): TextureAtlas {
 			switch (imageFile.dataType) {
 				case Kiwi.Files.File.SPRITE_SHEET:
-					this.textures[imageFile.key] = this._buildSpriteSheet(imageFile);
-					break;
+					return this._buildSpriteSheet(imageFile);
 				case Kiwi.Files.File.IMAGE:
-					this.textures[imageFile.key] = this._buildImage(imageFile);
-					break;
+					return this._buildImage(imageFile);
 				case Kiwi.Files.File.TEXTURE_ATLAS:
-					this.textures[imageFile.key] = this._buildTextureAtlas(imageFile);
-					break;
+					return this._buildTextureAtlas(imageFile);
 				default:
 					//Image file is of unknown type and was not added to texture library
-					break;
+					return null;
 			}
-
 		}
 
 		/**
@@ -167,13 +179,26 @@ module Kiwi.Textures {
 		* @private
 		*/
 		private _buildTextureAtlas(imageFile: Kiwi.Files.File): Kiwi.Textures.TextureAtlas {
-			var atlas: Kiwi.Textures.TextureAtlas = new Kiwi.Textures.TextureAtlas(imageFile.key, Kiwi.Textures.TextureAtlas.TEXTURE_ATLAS, null, imageFile.data);
 			var m = imageFile.metadata;
+			if (m.bitmapFont) {
+				return this._buildBitmapFont(imageFile);
+			}
+
+			var atlas: Kiwi.Textures.TextureAtlas = new Kiwi.Textures.TextureAtlas(imageFile.key, Kiwi.Textures.TextureAtlas.TEXTURE_ATLAS, null, imageFile.data);
 			
             try {
-                var json = this._game.fileStore.getFile(m.jsonID).data;
-                json.trim();
-                atlas.readJSON(json);
+                var data = this._game.fileStore.getFile(m.jsonID).data;
+                if (Kiwi.Utils.Common.isString(data)) data = data.trim();
+
+                // Starling/Sparrow atlases are XML, either as a string or already parsed
+                if ((Kiwi.Utils.Common.isString(data) && data.charAt(0) === "<") || (data && data.documentElement)) {
+                    atlas.readXML(data);
+                } else if (Kiwi.Utils.Common.isString(data) && data.charAt(0) !== "{" && data.charAt(0) !== "[") {
+                    // Spine atlases are text, which names the image of each page
+                    atlas.readSpineAtlas(data, imageFile.name);
+                } else {
+                    atlas.readJSON(data);
+                }
 
                 return atlas;
 
@@ -186,6 +211,58 @@ module Kiwi.Textures {
 			
 		}
 	
+		/**
+		* Builds a bitmap font from the image file of its first page, and its font file.
+		* Fonts with several pages have them stacked into a single image, so that all of the glyphs are in one texture.
+		* @method _buildBitmapFont
+		* @param imageFile {Kiwi.File} The image file of the first page.
+		* @return {Kiwi.Textures.BitmapFont} The new bitmap font, or null if the font file could not be read.
+		* @private
+		* @since 1.4.0
+		*/
+		private _buildBitmapFont(imageFile: Kiwi.Files.File): Kiwi.Textures.BitmapFont {
+			var m = imageFile.metadata;
+			var pages = [imageFile.data];
+			var pageIDs: string[] = m.pageIDs || [];
+			for (var i = 0; i < pageIDs.length; i++) {
+				pages.push(this._game.fileStore.getFile(pageIDs[i]).data);
+			}
+
+			var image = pages[0];
+			var pageOffsets: number[] = [0];
+			if (pages.length > 1) {
+				var width: number = 0;
+				var height: number = 0;
+				for (var i = 0; i < pages.length; i++) {
+					pageOffsets[i] = height;
+					width = Math.max(width, pages[i].width);
+					height += pages[i].height;
+				}
+
+				image = document.createElement("canvas");
+				image.width = width;
+				image.height = height;
+				var ctx: CanvasRenderingContext2D = image.getContext("2d");
+				for (var i = 0; i < pages.length; i++) {
+					ctx.drawImage(pages[i], 0, pageOffsets[i]);
+				}
+
+				if (this._game.renderOption === Kiwi.RENDERER_WEBGL) {
+					image = Kiwi.Utils.Common.convertToBase2(image);
+				}
+			}
+
+			var font: Kiwi.Textures.BitmapFont = new Kiwi.Textures.BitmapFont(imageFile.key, image);
+			try {
+				font.readFont(this._game.fileStore.getFile(m.jsonID).data, pageOffsets);
+				return font;
+			} catch (e) {
+				Kiwi.Log.error("  Kiwi.Textures.TextureLibrary: Failed to read the bitmap font '" + imageFile.key + "' from '" + m.jsonID + "'", '#error', '#texture', 'Message: ' + e.message);
+			}
+
+			return null;
+		}
+
 		/**
 		* Builds a spritesheet atlas from the an image file that is provided.
 		* @method _buildSpriteSheet
@@ -0,0 +1,336 @@
+/**
+*
+* @module Kiwi
+* @submodule Textures
+*
+*/
+
+module Kiwi.Textures {
+
+	/**
+	* Packs the images of several texture atlases onto one or more larger pages at runtime.
+	* Under WebGL each atlas is otherwise its own texture, so packing them reduces the number of textures and lets more sprites be drawn in each batch.
+	*
+	* Images are added with 'addAtlas', 'addFile' or 'addImage', and packed with 'pack'.
+	* Only the area of each image covered by its cells is copied, so padding added to make an image base2 is not packed.
+	* Each image is replaced in the texture library by a PackedTextureAtlas under the same key, with the same cells and sequences,
+	* so Sprites created from those keys afterwards draw from the pages instead.
+	*
+	* @class TexturePacker
+	* @namespace Kiwi.Textures
+	* @constructor
+	* @param game {Kiwi.Game} The game that this texture packer belongs to.
+	* @param [maxTextureSize] {number} The largest width and height of a page. Defaults to DEFAULT_MAX_TEXTURE_SIZE, or the most that the WebGL context supports if that is less.
+	* @return {Kiwi.Textures.TexturePacker}
+	* @since 1.4.0
+	*/
+	export class TexturePacker {
+
+		constructor(game: Kiwi.Game, maxTextureSize?: number) {
+			this._game = game;
+			this._atlases = [];
+
+			this.maxTextureSize = maxTextureSize || TexturePacker.DEFAULT_MAX_TEXTURE_SIZE;
+			if (this._game.renderOption === Kiwi.RENDERER_WEBGL) {
+				var gl: WebGLRenderingContext = this._game.stage.gl;
+				this.maxTextureSize = Math.min(this.maxTextureSize, gl.getParameter(gl.MAX_TEXTURE_SIZE));
+			}
+		}
+
+		/**
+		* The type of object that this is.
+		* @method objType
+		* @return {string} "TexturePacker"
+		* @public
+		*/
+		public objType(): string {
+			return "TexturePacker";
+		}
+
+		/**
+		* The largest width and height of a page, when no other size is given.
+		* @property DEFAULT_MAX_TEXTURE_SIZE
+		* @type number
+		* @default 2048
+		* @public
+		* @static
+		*/
+		public static DEFAULT_MAX_TEXTURE_SIZE: number = 2048;
+
+		/**
+		* The game that this texture packer belongs to.
+		* @property _game
+		* @type Kiwi.Game
+		* @private
+		*/
+		private _game: Kiwi.Game;
+
+		/**
+		* The atlases that are to be packed.
+		* @property _atlases
+		* @type Kiwi.Textures.TextureAtlas[]
+		* @private
+		*/
+		private _atlases: TextureAtlas[];
+
+		/**
+		* The largest width and height of a page. Images which are larger than this are not packed.
+		* Pages are sized to the smallest power of two that holds their images, up to this size.
+		* @property maxTextureSize
+		* @type number
+		* @public
+		*/
+		public maxTextureSize: number;
+
+		/**
+		* The number of empty pixels left between images on a page, so that neighbouring images do not bleed into each other when filtered.
+		* @property padding
+		* @type number
+		* @default 1
+		* @public
+		*/
+		public padding: number = 1;
+
+		/**
+		* The prefix of the names of the pages. Each page is named with this and its index.
+		* @property pageName
+		* @type string
+		* @default "packed"
+		* @public
+		*/
+		public pageName: string = "packed";
+
+		/**
+		* Adds a texture atlas to be packed. Its image, cells and sequences are used, and it is replaced under its name.
+		* @method addAtlas
+		* @param atlas {Kiwi.Textures.TextureAtlas}
+		* @return {Kiwi.Textures.TexturePacker} This texture packer.
+		* @public
+		*/
+		public addAtlas(atlas: TextureAtlas): TexturePacker {
+			if (atlas && this._atlases.indexOf(atlas) === -1) {
+				this._atlases.push(atlas);
+			}
+			return this;
+		}
+
+		/**
+		* Adds a loaded image, sprite sheet or texture atlas file to be packed. It is replaced under the key of the file.
+		* @method addFile
+		* @param imageFile {Kiwi.Files.File}
+		* @param textureLibrary {Kiwi.Textures.TextureLibrary} The library which builds the atlas of the file.
+		* @return {Kiwi.Textures.TexturePacker} This texture packer.
+		* @public
+		*/
+		public addFile(imageFile: Kiwi.Files.File, textureLibrary: TextureLibrary): TexturePacker {
+			var atlas: TextureAtlas = textureLibrary.buildFromFile(imageFile);
+			if (atlas === null) {
+				Kiwi.Log.warn("Kiwi.Textures.TexturePacker: '" + imageFile.key + "' is not a texture and was not added.", '#texture', '#packer');
+				return this;
+			}
+			return this.addAtlas(atlas);
+		}
+
+		/**
+		* Adds an image or canvas to be packed, as a single image with the key passed.
+		* @method addImage
+		* @param key {string}
+		* @param image {HTMLImageElement/HTMLCanvasElement}
+		* @return {Kiwi.Textures.TexturePacker} This texture packer.
+		* @public
+		*/
+		public addImage(key: string, image: any): TexturePacker {
+			return this.addAtlas(new SingleImage(key, image));
+		}
+
+		/**
+		* Removes all of the atlases which were added.
+		* @method clear
+		* @public
+		*/
+		public clear() {
+			this._atlases.length = 0;
+		}
+
+		/**
+		* Packs the images which were added onto pages, and adds a PackedTextureAtlas for each of them to the texture library, replacing any atlas with the same name.
+		* Images which do not fit on a page by themselves are left as they were.
+		* The atlases which were added are cleared afterwards.
+		* @method pack
+		* @param textureLibrary {Kiwi.Textures.TextureLibrary} The library to add the packed atlases to.
+		* @return {Kiwi.Textures.TextureAtlas[]} The atlases of the pages, which hold all of the cells on each page.
+		* @public
+		*/
+		public pack(textureLibrary: TextureLibrary): TextureAtlas[] {
+			var pad: number = this.padding;
+			var max: number = this.maxTextureSize;
+
+			// Find the area of each image which its cells cover
+			var rects: any[] = [];
+			for (var i = 0; i < this._atlases.length; i++) {
+				var bounds: Kiwi.Geom.Rectangle = this._getCellBounds(this._atlases[i]);
+				if (bounds.width + pad > max || bounds.height + pad > max) {
+					Kiwi.Log.warn("Kiwi.Textures.TexturePacker: '" + this._atlases[i].name + "' is larger than the maximum texture size and was not packed.", '#texture', '#packer');
+					continue;
+				}
+				rects.push({ atlas: this._atlases[i], bounds: bounds, page: null, x: 0, y: 0 });
+			}
+
+			// Tallest first, so that each shelf wastes as little height as possible
+			rects.sort(function (a, b) {
+				return b.bounds.height - a.bounds.height;
+			});
+
+			var pages: any[] = [];
+			for (var i = 0; i < rects.length; i++) {
+				var rect = rects[i];
+				for (var j = 0; j < pages.length; j++) {
+					if (this._placeOnPage(pages[j], rect)) break;
+				}
+				if (rect.page === null) {
+					var page = { shelves: [], width: 0, height: 0, rects: [] };
+					pages.push(page);
+					this._placeOnPage(page, rect);
+				}
+			}
+
+			var results: TextureAtlas[] = [];
+			for (var i = 0; i < pages.length; i++) {
+				results.push(this._buildPage(pages[i], this.pageName + i, textureLibrary));
+			}
+
+			this.clear();
+			return results;
+		}
+
+		/**
+		* Returns the area of the image of an atlas which its cells cover.
+		* @method _getCellBounds
+		* @param atlas {Kiwi.Textures.TextureAtlas}
+		* @return {Kiwi.Geom.Rectangle}
+		* @private
+		*/
+		private _getCellBounds(atlas: TextureAtlas): Kiwi.Geom.Rectangle {
+			if (atlas.cells.length === 0) {
+				return new Kiwi.Geom.Rectangle(0, 0, atlas.image.width, atlas.image.height);
+			}
+
+			var left: number = Infinity, top: number = Infinity, right: number = -Infinity, bottom: number = -Infinity;
+			for (var i = 0; i < atlas.cells.length; i++) {
+				var cell = atlas.cells[i];
+				// Rotated cells are stored turned on their side
+				var w: number = cell.rotated ? cell.h : cell.w;
+				var h: number = cell.rotated ? cell.w : cell.h;
+				left = Math.min(left, cell.x);
+				top = Math.min(top, cell.y);
+				right = Math.max(right, cell.x + w);
+				bottom = Math.max(bottom, cell.y + h);
+			}
+			return new Kiwi.Geom.Rectangle(left, top, right - left, bottom - top);
+		}
+
+		/**
+		* Places a rectangle on a page, on the first shelf with room or on a new shelf beneath the others.
+		* @method _placeOnPage
+		* @param page {object}
+		* @param rect {object}
+		* @return {boolean} If the rectangle was placed.
+		* @private
+		*/
+		private _placeOnPage(page: any, rect: any): boolean {
+			var w: number = rect.bounds.width + this.padding;
+			var h: number = rect.bounds.height + this.padding;
+			var shelf = null;
+
+			for (var i = 0; i < page.shelves.length; i++) {
+				if (h <= page.shelves[i].height && page.shelves[i].width + w <= this.maxTextureSize) {
+					shelf = page.shelves[i];
+					break;
+				}
+			}
+
+			if (shelf === null) {
+				if (page.height + h > this.maxTextureSize) return false;
+				shelf = { y: page.height, width: 0, height: h };
+				page.shelves.push(shelf);
+				page.height += h;
+			}
+
+			rect.page = page;
+			rect.x = shelf.width;
+			rect.y = shelf.y;
+			shelf.width += w;
+			page.width = Math.max(page.width, shelf.width);
+			page.rects.push(rect);
+			return true;
+		}
+
+		/**
+		* Draws the images of a page onto a canvas, then adds an atlas to the texture library for each image.
+		* @method _buildPage
+		* @param page {object}
+		* @param name {string}
+		* @param textureLibrary {Kiwi.Textures.TextureLibrary}
+		* @return {Kiwi.Textures.TextureAtlas} The atlas of the page.
+		* @private
+		*/
+		private _buildPage(page: any, name: string, textureLibrary: TextureLibrary): TextureAtlas {
+			var canvas: HTMLCanvasElement = document.createElement("canvas");
+			canvas.width = Math.min(this._nextPowerOfTwo(page.width), this.maxTextureSize);
+			canvas.height = Math.min(this._nextPowerOfTwo(page.height), this.maxTextureSize);
+			var ctx: CanvasRenderingContext2D = canvas.getContext("2d");
+
+			var pageAtlas: TextureAtlas = new TextureAtlas(name, TextureAtlas.TEXTURE_ATLAS, null, canvas);
+			var packed: PackedTextureAtlas[] = [];
+
+			for (var i = 0; i < page.rects.length; i++) {
+				var rect = page.rects[i];
+				var atlas: TextureAtlas = rect.atlas;
+				var b: Kiwi.Geom.Rectangle = rect.bounds;
+				var dx: number = rect.x - b.x;
+				var dy: number = rect.y - b.y;
+
+				if (b.width > 0 && b.height > 0) {
+					ctx.drawImage(atlas.image, b.x, b.y, b.width, b.height, rect.x, rect.y, b.width, b.height);
+				}
+
+				// Hitboxes are relative to their cell, so only the position of each cell moves
+				var cells = [];
+				for (var j = 0; j < atlas.cells.length; j++) {
+					var cell = {};
+					for (var prop in atlas.cells[j]) {
+						cell[prop] = atlas.cells[j][prop];
+					}
+					cell["x"] += dx;
+					cell["y"] += dy;
+					cells.push(cell);
+					pageAtlas.cells.push(cell);
+				}
+
+				packed.push(new PackedTextureAtlas(atlas.name, atlas.type, cells, pageAtlas, atlas.sequences));
+			}
+
+			// Adding an atlas can upload the page, so every image is drawn first
+			for (var i = 0; i < packed.length; i++) {
+				textureLibrary.add(packed[i]);
+			}
+
+			return pageAtlas;
+		}
+
+		/**
+		* Returns the smallest power of two which is at least the value passed.
+		* @method _nextPowerOfTwo
+		* @param value {number}
+		* @return {number}
+		* @private
+		*/
+		private _nextPowerOfTwo(value: number): number {
+			var result: number = 1;
+			while (result < value) result *= 2;
+			return result;
+		}
+
+	}
+
+}